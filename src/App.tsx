@@ -2,19 +2,35 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { useAuth } from "@/hooks/useAuth";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { useRoles } from "@/hooks/useRoles";
+import { needsEmailVerification } from "@/hooks/useAuth";
+import type { AppRole } from "@/lib/roles";
+import { DEMO_MODE } from "@/lib/demo";
+import DemoBanner from "@/components/DemoBanner";
 import Index from "./pages/Index";
 import Shop from "./pages/Shop";
+import OrderTracking from "./pages/OrderTracking";
 import AgentDashboard from "./pages/AgentDashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import Auth from "./pages/Auth";
+import ApplyAgent from "./pages/ApplyAgent";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
+import AccountSecurity from "./pages/AccountSecurity";
+import MyStore from "./pages/MyStore";
+import SocialAccounts from "./pages/SocialAccounts";
+import Forbidden from "./pages/Forbidden";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+// Signed-out users go to /auth, unconfirmed emails get the verification
+// screen and signed-in users without the role get a 403.
+// Without a role, any verified user gets through.
+function RequireRole({ role, children }: { role?: AppRole; children: React.ReactNode }) {
+  const location = useLocation();
+  const { user, loading, hasRole } = useRoles();
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -25,7 +41,9 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
       </div>
     );
   }
-  if (!user) return <Navigate to="/auth" replace />;
+  if (!user) return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  if (needsEmailVerification(user)) return <VerifyEmail />;
+  if (role && !hasRole(role)) return <Forbidden />;
   return <>{children}</>;
 }
 
@@ -34,13 +52,21 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      {DEMO_MODE && <DemoBanner />}
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/shop" element={<Shop />} />
+          <Route path="/s/:slug" element={<Shop />} />
+          <Route path="/orders/:orderNumber" element={<OrderTracking />} />
           <Route path="/auth" element={<Auth />} />
-          <Route path="/agent" element={<ProtectedRoute><AgentDashboard /></ProtectedRoute>} />
-          <Route path="/admin" element={<ProtectedRoute><AdminDashboard /></ProtectedRoute>} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/account" element={<RequireRole><AccountSecurity /></RequireRole>} />
+          <Route path="/apply" element={<RequireRole><ApplyAgent /></RequireRole>} />
+          <Route path="/my-store" element={<RequireRole role="agent"><MyStore /></RequireRole>} />
+          <Route path="/my-store/social" element={<RequireRole role="agent"><SocialAccounts /></RequireRole>} />
+          <Route path="/agent" element={<RequireRole role="agent"><AgentDashboard /></RequireRole>} />
+          <Route path="/admin" element={<RequireRole role="admin"><AdminDashboard /></RequireRole>} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+// Supabase only lets an address get a new link once a minute
+const RESEND_SECONDS = 60;
+
+type Props = {
+  email: string;
+  // Whether a link has just gone out, so the resend button starts on cooldown
+  justSent?: boolean;
+  children?: React.ReactNode;
+};
+
+// "Check your inbox" card with a throttled resend-verification button
+export default function CheckEmail({ email, justSent = false, children }: Props) {
+  const { resendVerification } = useAuth();
+  const { toast } = useToast();
+  const [resendIn, setResendIn] = useState(justSent ? RESEND_SECONDS : 0);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(s => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const resend = async () => {
+    setBusy(true);
+    const { error } = await resendVerification(email);
+    setBusy(false);
+    if (error) {
+      toast({ title: "Could not resend", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Link sent", description: `We sent a new verification link to ${email}.` });
+    setResendIn(RESEND_SECONDS);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="rounded-xl p-5 bg-[rgba(255,255,255,0.04)] border border-[rgba(255,255,255,0.07)] text-center">
+        <div className="text-4xl mb-3">📬</div>
+        <div className="text-[15px] font-bold mb-1">Check your email</div>
+        <div className="text-sm text-[#888] leading-relaxed">
+          We sent a verification link to <span className="text-white font-bold">{email}</span>. Open it on this device to finish setting up your account.
+        </div>
+      </div>
+      <button type="button" onClick={resend} disabled={busy || resendIn > 0}
+        className="w-full h-[54px] bg-transparent border-[1.5px] border-[rgba(255,255,255,0.1)] rounded-xl text-[#888] text-sm font-bold hover:border-[rgba(255,255,255,0.25)] hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer">
+        {busy ? "Sending..." : resendIn > 0 ? `Resend link in ${resendIn}s` : "Resend verification link"}
+      </button>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { DEMO_FORCED, exitDemoMode } from "@/lib/demo";
+
+// Pinned to the bottom-left so it never covers the mobile tab bars
+export default function DemoBanner() {
+  return (
+    <div className="fixed left-3 bottom-3 z-[60] flex items-center gap-2 rounded-xl bg-[#1A1400] border border-[#FFB800]/40 px-3 py-2 text-xs font-bold text-[#FFB800] shadow-lg print:hidden">
+      <span>Demo data — nothing here is real</span>
+      {!DEMO_FORCED && (
+        <button onClick={exitDemoMode} className="rounded-lg bg-[#FFB800] px-2 py-1 text-[11px] font-extrabold text-black hover:opacity-90 transition-opacity">
+          Exit demo
+        </button>
+      )}
+    </div>
+  );
+}
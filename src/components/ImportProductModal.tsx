@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useImportProduct, type ProductImport } from "@/hooks/useProducts";
+import { IMPORT_FIELD_LABELS } from "@/lib/products";
+
+const inputClass = "w-full bg-background border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary";
+
+type Props = {
+  onClose: () => void;
+  // Called with the saved draft; the caller decides where to take the user
+  onImported?: (imported: ProductImport) => void;
+};
+
+// Import a product from a page link or a pasted social post. Whatever is
+// found is saved as a hidden draft for someone to check before it goes live.
+export default function ImportProductModal({ onClose, onImported }: Props) {
+  const importProduct = useImportProduct();
+  const [source, setSource] = useState<"url" | "text">("url");
+  const [value, setValue] = useState("");
+  const imported = importProduct.data;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    importProduct.mutate(source === "url" ? { url: value.trim() } : { text: value }, { onSuccess: data => onImported?.(data) });
+  };
+
+  const again = () => {
+    importProduct.reset();
+    setValue("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={onClose}>
+      <div className="bg-card border border-border rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="text-lg font-extrabold mb-1">Import Product</div>
+        <div className="text-sm text-muted-foreground mb-5">Imports are saved as drafts and stay out of the shop until they're reviewed</div>
+
+        {imported ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <div className="w-16 h-16 bg-accent rounded-xl flex items-center justify-center text-3xl overflow-hidden shrink-0">
+                {imported.product.image_url ? <img src={imported.product.image_url} alt="" className="w-full h-full object-cover" /> : "📦"}
+              </div>
+              <div className="min-w-0">
+                <div className="font-bold truncate">{imported.product.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {imported.result.price == null ? "No price found" : `KSh ${imported.result.price.toLocaleString()}`}
+                </div>
+                <div className="text-xs font-bold text-primary">{Math.round(imported.result.confidence * 100)}% confidence</div>
+              </div>
+            </div>
+            {imported.result.missing_fields.length > 0 && (
+              <div className="rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">
+                Not found: {imported.result.missing_fields.map(f => IMPORT_FIELD_LABELS[f] ?? f).join(", ")}
+              </div>
+            )}
+            {imported.result.warnings.length > 0 && (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {imported.result.warnings.map(w => <li key={w}>⚠ {w}</li>)}
+              </ul>
+            )}
+            <div className="flex gap-3 pt-1">
+              <button type="button" className="flex-1 bg-accent border border-border rounded-xl py-3 text-sm font-bold text-muted-foreground hover:bg-accent/80 transition-colors"
+                onClick={again}>Import another</button>
+              <button type="button" className="flex-[2] bg-primary text-primary-foreground rounded-xl py-3 text-sm font-extrabold hover:opacity-90 transition-opacity"
+                onClick={onClose}>Done</button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={submit} className="space-y-4">
+            <div className="flex gap-2">
+              {([["url", "Product link"], ["text", "Social post"]] as const).map(([key, label]) => (
+                <button key={key} type="button" onClick={() => { setSource(key); setValue(""); }}
+                  className={`px-3.5 py-1.5 rounded-lg text-xs font-bold border transition-colors ${source === key ? "bg-primary text-primary-foreground border-primary" : "bg-card text-muted-foreground border-border hover:bg-accent"}`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            {source === "url" ? (
+              <input value={value} onChange={e => setValue(e.target.value)} type="url" inputMode="url" className={inputClass}
+                placeholder="https://shop.example.co.ke/products/..." autoFocus />
+            ) : (
+              <textarea value={value} onChange={e => setValue(e.target.value)} rows={6} className={inputClass}
+                placeholder={"Paste the caption, e.g.\nNike Air Force 1 🔥\nSizes 38-45\nKsh 7,200"} autoFocus />
+            )}
+            {importProduct.error && <div className="rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{importProduct.error.message}</div>}
+            <div className="flex gap-3 pt-1">
+              <button type="button" className="flex-1 bg-accent border border-border rounded-xl py-3 text-sm font-bold text-muted-foreground hover:bg-accent/80 transition-colors"
+                onClick={onClose}>Cancel</button>
+              <button type="submit" disabled={importProduct.isPending || !value.trim()}
+                className="flex-[2] bg-primary text-primary-foreground rounded-xl py-3 text-sm font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60">
+                {importProduct.isPending ? "⏳ Reading..." : "Import as Draft"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useAuth, type PhoneOtpPurpose } from "@/hooks/useAuth";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { formatPhone, phoneSchema, PHONE_EXAMPLE } from "@/lib/phone";
+
+const OTP_LENGTH = 6;
+
+const inputClass = "w-full h-[54px] bg-[rgba(255,255,255,0.04)] border-[1.5px] border-[rgba(255,255,255,0.1)] rounded-xl px-4 text-[15px] text-white outline-none transition-all focus:border-[rgba(255,77,0,0.7)] focus:bg-[rgba(255,77,0,0.05)]";
+const buttonClass = "w-full h-[54px] bg-gradient-to-r from-[#FF4D00] to-[#FF7A00] border-none rounded-xl text-white text-[15px] font-bold flex items-center justify-center gap-2 shadow-[0_8px_30px_rgba(255,77,0,0.3)] transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer";
+
+type Props = {
+  purpose: PhoneOtpPurpose;
+  initialPhone?: string;
+  // Called once the code checks out; for `login` the session is already set
+  onVerified: (phone: string) => void;
+};
+
+// Two steps: send a code to the number, then type it into the slots
+export default function PhoneOtpForm({ purpose, initialPhone = "", onVerified }: Props) {
+  const { sendPhoneCode, signInWithPhone, verifyPhone } = useAuth();
+  const [phone, setPhone] = useState(formatPhone(initialPhone));
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [resendIn, setResendIn] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(s => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const send = async () => {
+    const parsed = phoneSchema.safeParse(phone);
+    if (!parsed.success) return setError(parsed.error.issues[0].message);
+    setBusy(true);
+    setError(null);
+    const { data, error } = await sendPhoneCode(parsed.data, purpose);
+    setBusy(false);
+    if (error) return setError(error.message);
+    setSentTo(data.sent_to);
+    setResendIn(data.resend_in);
+    setCode("");
+  };
+
+  const check = async (value: string) => {
+    setBusy(true);
+    setError(null);
+    const { error } = purpose === "login" ? await signInWithPhone(phone, value) : await verifyPhone(phone, value);
+    setBusy(false);
+    if (error) {
+      setError(error.message);
+      setCode("");
+      return;
+    }
+    onVerified(phone);
+  };
+
+  if (!sentTo) {
+    return (
+      <form onSubmit={e => { e.preventDefault(); send(); }} className="space-y-5">
+        <div>
+          <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Phone Number</label>
+          <input type="tel" inputMode="tel" autoComplete="tel" value={phone} onChange={e => setPhone(e.target.value)}
+            placeholder={PHONE_EXAMPLE} className={inputClass} required />
+        </div>
+        {error && <div className="rounded-xl p-3 text-xs font-bold bg-[#2B0D0D] text-[#FF4D4D]">{error}</div>}
+        <button type="submit" disabled={busy || !phone.trim()} className={buttonClass}>
+          {busy ? "Sending..." : "Send Code →"}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="text-sm text-[#888]">
+        Enter the {OTP_LENGTH}-digit code we texted to <span className="text-white font-bold">{sentTo}</span>.{" "}
+        <button type="button" onClick={() => { setSentTo(null); setError(null); }} className="text-[#FF4D00] font-bold">Change number</button>
+      </div>
+      <InputOTP maxLength={OTP_LENGTH} value={code} onChange={setCode} onComplete={check} disabled={busy} autoFocus>
+        <InputOTPGroup className="gap-2">
+          {Array.from({ length: OTP_LENGTH }, (_, i) => (
+            <InputOTPSlot key={i} index={i}
+              className="h-[54px] w-12 rounded-xl border-[1.5px] border-[rgba(255,255,255,0.1)] bg-[rgba(255,255,255,0.04)] text-lg font-bold text-white first:rounded-xl last:rounded-xl" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      {error && <div className="rounded-xl p-3 text-xs font-bold bg-[#2B0D0D] text-[#FF4D4D]">{error}</div>}
+      <button type="button" onClick={() => check(code)} disabled={busy || code.length < OTP_LENGTH} className={buttonClass}>
+        {busy ? "Checking..." : purpose === "login" ? "Verify & Sign In →" : "Verify Number →"}
+      </button>
+      <button type="button" onClick={send} disabled={busy || resendIn > 0}
+        className="w-full text-xs text-[#888] font-bold disabled:opacity-60 hover:text-white transition-colors">
+        {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+      </button>
+    </div>
+  );
+}
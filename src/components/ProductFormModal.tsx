@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useCategories, useSaveProduct, type Product } from "@/hooks/useProducts";
+import { useStores } from "@/hooks/useStores";
+import { PRODUCT_BADGES, PRODUCT_IMAGE_TYPES, productSchema, type ProductForm, type ProductInput } from "@/lib/products";
+
+const inputClass = "w-full bg-background border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary";
+
+type Props = {
+  // The product to edit, or null to create one
+  product: Product | null;
+  onClose: () => void;
+  onSaved: (name: string) => void;
+};
+
+const toForm = (p: Product | null): ProductForm => ({
+  name: p?.name ?? "",
+  description: p?.description ?? "",
+  price: p?.price ?? "",
+  originalPrice: p?.original_price ?? "",
+  stock: p?.stock ?? 0,
+  categoryId: p?.category_id ?? "",
+  storeId: p?.store_id ?? "",
+  badge: p?.badge ?? "",
+  emoji: p?.emoji ?? "📦",
+  imageUrl: p?.image_url ?? null,
+  image: null,
+});
+
+// Create / edit form for the admin catalogue
+export default function ProductFormModal({ product, onClose, onSaved }: Props) {
+  const { data: categories = [] } = useCategories();
+  const { data: stores = [] } = useStores();
+  const saveProduct = useSaveProduct();
+  const form = useForm<ProductForm, unknown, ProductInput>({
+    resolver: zodResolver(productSchema),
+    defaultValues: toForm(product),
+  });
+
+  const image = form.watch("image");
+  const imageUrl = form.watch("imageUrl");
+  const emoji = form.watch("emoji");
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!(image instanceof File)) return setPreview(null);
+    const url = URL.createObjectURL(image);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const onSubmit = (input: ProductInput) =>
+    saveProduct.mutate({ id: product?.id, input }, { onSuccess: () => onSaved(input.name) });
+
+  const shownImage = preview || imageUrl;
+
+  return (
+    <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={onClose}>
+      <div className="bg-card border border-border rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="text-lg font-extrabold mb-1">{product ? "Edit Product" : "Add Product"}</div>
+        <div className="text-sm text-muted-foreground mb-5">{product ? product.name : "New products go live in the shop straight away"}</div>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} noValidate className="space-y-4">
+            <FormField control={form.control} name="name" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl><input {...field} className={inputClass} placeholder="e.g. JBL Clip 4 Speaker" /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <FormField control={form.control} name="description" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl><textarea {...field} rows={3} className={inputClass} placeholder="What shoppers should know" /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <div className="grid grid-cols-3 gap-3">
+              <FormField control={form.control} name="price" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price (KSh)</FormLabel>
+                  <FormControl><input {...field} value={field.value as string | number} type="number" min={1} inputMode="numeric" className={inputClass} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="originalPrice" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Was (KSh)</FormLabel>
+                  <FormControl><input {...field} value={(field.value as string | number) ?? ""} type="number" min={1} inputMode="numeric" className={inputClass} placeholder="Optional" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="stock" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stock</FormLabel>
+                  <FormControl><input {...field} value={field.value as string | number} type="number" min={0} inputMode="numeric" className={inputClass} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField control={form.control} name="categoryId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <select {...field} value={(field.value as string) ?? ""} className={inputClass}>
+                      <option value="">Uncategorized</option>
+                      {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="badge" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Badge</FormLabel>
+                  <FormControl>
+                    <select {...field} value={(field.value as string) ?? ""} className={inputClass}>
+                      <option value="">None</option>
+                      {PRODUCT_BADGES.map(b => <option key={b} value={b}>{b}</option>)}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            {stores.length > 0 && (
+              <FormField control={form.control} name="storeId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Storefront</FormLabel>
+                  <FormControl>
+                    <select {...field} value={(field.value as string) ?? ""} className={inputClass}>
+                      <option value="">No storefront</option>
+                      {stores.map(s => <option key={s.id} value={s.id}>{s.name} (/s/{s.slug})</option>)}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            )}
+            <div className="flex items-start gap-3">
+              <div className="w-20 h-20 bg-accent rounded-xl flex items-center justify-center text-4xl overflow-hidden shrink-0">
+                {shownImage ? <img src={shownImage} alt="" className="w-full h-full object-cover" /> : emoji || "📦"}
+              </div>
+              <div className="flex-1 space-y-3">
+                <FormField control={form.control} name="emoji" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Emoji</FormLabel>
+                    <FormControl><input {...field} className={inputClass} placeholder="📦" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="image" render={({ field: { onChange, onBlur, name, ref } }) => (
+                  <FormItem>
+                    <FormLabel>Photo</FormLabel>
+                    <FormControl>
+                      <input type="file" accept={PRODUCT_IMAGE_TYPES.join(",")} name={name} ref={ref} onBlur={onBlur}
+                        onChange={e => onChange(e.target.files?.[0] ?? null)}
+                        className="block w-full text-xs text-muted-foreground file:mr-3 file:rounded-lg file:border-0 file:bg-accent file:px-3 file:py-2 file:text-xs file:font-bold file:text-foreground" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                {shownImage && (
+                  <button type="button" className="text-xs font-bold text-destructive hover:underline"
+                    onClick={() => { form.setValue("image", null); form.setValue("imageUrl", null); }}>
+                    Remove photo and use the emoji
+                  </button>
+                )}
+              </div>
+            </div>
+            {saveProduct.error && <div className="rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{saveProduct.error.message}</div>}
+            <div className="flex gap-3 pt-1">
+              <button type="button" className="flex-1 bg-accent border border-border rounded-xl py-3 text-sm font-bold text-muted-foreground hover:bg-accent/80 transition-colors"
+                onClick={onClose}>Cancel</button>
+              <button type="submit" disabled={saveProduct.isPending}
+                className="flex-[2] bg-primary text-primary-foreground rounded-xl py-3 text-sm font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60">
+                {saveProduct.isPending ? "⏳ Saving..." : product ? "Save Changes" : "Add Product"}
+              </button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
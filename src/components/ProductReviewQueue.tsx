@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  useAdminProducts,
+  useApproveProduct,
+  useCategories,
+  useMergeProductDraft,
+  useProductReviewQueue,
+  useRejectProduct,
+  useSaveProduct,
+  type Product,
+} from "@/hooks/useProducts";
+import { useToast } from "@/hooks/use-toast";
+import { IMPORT_FIELD_LABELS, productSchema, type ProductForm, type ProductInput } from "@/lib/products";
+
+const inputClass = "w-full bg-background border rounded-xl px-3 py-2 text-sm outline-none focus:border-primary";
+const fieldBorder = (missing: boolean) => (missing ? "border-destructive" : "border-border");
+const labelClass = "text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase mb-1 block";
+
+const SOURCE_LABEL: Record<string, string> = { url: "From a product page", post: "From a social post", export: "From a catalogue export" };
+
+const toForm = (p: Product): ProductForm => ({
+  name: p.name,
+  description: p.description ?? "",
+  price: p.price ?? "",
+  originalPrice: p.original_price ?? "",
+  stock: p.stock,
+  categoryId: p.category_id ?? "",
+  storeId: p.store_id ?? "",
+  badge: p.badge ?? "",
+  emoji: p.emoji ?? "📦",
+  imageUrl: p.image_url,
+  image: null,
+});
+
+// Admin tab: drafts from the importer and from agents, waiting to be
+// approved, rejected or merged into a listed product. Registered directly in
+// the dashboard's tab map so its forms keep their state between renders.
+export default function ProductReviewQueue() {
+  const { data: drafts = [], isLoading } = useProductReviewQueue();
+  const { data: products = [] } = useAdminProducts();
+  const listed = products.filter(p => p.status === "published" && !p.archived_at);
+
+  return (
+    <div>
+      <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Product Review</div>
+      <div className="text-sm text-muted-foreground mb-6">Nothing here is in the shop yet. Fix what the importer missed, then approve, reject or merge.</div>
+      {!isLoading && drafts.length === 0 && (
+        <div className="bg-card border border-border rounded-2xl text-center py-16 px-5">
+          <div className="text-6xl mb-3">✅</div>
+          <div className="text-lg font-extrabold text-foreground">Nothing to review</div>
+          <div className="text-sm text-muted-foreground mt-1.5 max-w-xs mx-auto">Imported and agent-submitted products show up here</div>
+        </div>
+      )}
+      {drafts.map(d => <DraftCard key={d.id} draft={d} listed={listed} />)}
+    </div>
+  );
+}
+
+function DraftCard({ draft, listed }: { draft: Product; listed: Product[] }) {
+  const { toast } = useToast();
+  const { data: categories = [] } = useCategories();
+  const saveProduct = useSaveProduct();
+  const approveProduct = useApproveProduct();
+  const rejectProduct = useRejectProduct();
+  const mergeDraft = useMergeProductDraft();
+  const [action, setAction] = useState<"reject" | "merge" | null>(null);
+  const [note, setNote] = useState("");
+  const [mergeTarget, setMergeTarget] = useState("");
+  const { register, handleSubmit, formState: { errors, isDirty } } = useForm<ProductForm, unknown, ProductInput>({
+    resolver: zodResolver(productSchema),
+    defaultValues: toForm(draft),
+  });
+
+  const missing = (field: string) => draft.missing_fields.includes(field);
+  const busy = saveProduct.isPending || approveProduct.isPending || rejectProduct.isPending || mergeDraft.isPending;
+  const error = saveProduct.error || approveProduct.error || rejectProduct.error || mergeDraft.error;
+
+  // Inline edits are saved first, so what gets published is what the reviewer sees
+  const approve = handleSubmit(input =>
+    saveProduct.mutate({ id: draft.id, input }, {
+      onSuccess: () => approveProduct.mutate(draft.id, { onSuccess: () => toast({ title: `${input.name} is live in the shop` }) }),
+    }),
+  );
+
+  const reject = () =>
+    rejectProduct.mutate({ productId: draft.id, note }, { onSuccess: () => toast({ title: `${draft.name} rejected` }) });
+
+  const merge = () => {
+    const target = listed.find(p => p.id === mergeTarget);
+    const run = () => mergeDraft.mutate({ draftId: draft.id, targetId: mergeTarget }, { onSuccess: () => toast({ title: `Merged into ${target?.name}` }) });
+    if (isDirty) handleSubmit(input => saveProduct.mutate({ id: draft.id, input }, { onSuccess: run }))();
+    else run();
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-2xl p-4 mb-3">
+      <div className="flex gap-4">
+        <div className="w-20 h-20 bg-accent rounded-xl flex items-center justify-center text-4xl overflow-hidden shrink-0">
+          {draft.image_url ? <img src={draft.image_url} alt="" className="w-full h-full object-cover" /> : draft.emoji || "📦"}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            {draft.ai_confidence_score != null ? (
+              <span className={`text-[10px] font-extrabold px-2 py-0.5 rounded-md ${draft.ai_confidence_score >= 0.7 ? "bg-primary/15 text-primary" : "bg-destructive/10 text-destructive"}`}>
+                {Math.round(draft.ai_confidence_score * 100)}% confidence
+              </span>
+            ) : (
+              <span className="text-[10px] font-extrabold px-2 py-0.5 rounded-md bg-accent text-muted-foreground">Submitted by an agent</span>
+            )}
+            <span className="text-[11px] text-muted-foreground">
+              {SOURCE_LABEL[draft.source_type ?? ""] ?? "Added by hand"} · {new Date(draft.created_at).toLocaleString()}
+            </span>
+          </div>
+          {draft.source_url && (
+            <a href={draft.source_url} target="_blank" rel="noreferrer" className="text-xs text-primary hover:underline break-all">{draft.source_url}</a>
+          )}
+          {draft.missing_fields.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {draft.missing_fields.map(f => (
+                <span key={f} className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-destructive/10 text-destructive">No {(IMPORT_FIELD_LABELS[f] ?? f).toLowerCase()}</span>
+              ))}
+            </div>
+          )}
+          {draft.extraction_warnings.length > 0 && (
+            <ul className="mt-2 space-y-0.5">
+              {draft.extraction_warnings.map(w => <li key={w} className="text-xs font-semibold" style={{ color: "#FFB800" }}>⚠ {w}</li>)}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_90px_1fr] gap-3 mt-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input {...register("name")} className={`${inputClass} ${fieldBorder(missing("name"))}`} />
+          {errors.name && <div className="text-[11px] font-bold text-destructive mt-1">{errors.name.message}</div>}
+        </div>
+        <div>
+          <label className={labelClass}>Price (KSh)</label>
+          <input {...register("price")} type="number" min={1} inputMode="numeric" className={`${inputClass} ${fieldBorder(missing("price"))}`} />
+          {errors.price && <div className="text-[11px] font-bold text-destructive mt-1">{errors.price.message}</div>}
+        </div>
+        <div>
+          <label className={labelClass}>Stock</label>
+          <input {...register("stock")} type="number" min={0} inputMode="numeric" className={`${inputClass} ${fieldBorder(false)}`} />
+          {errors.stock && <div className="text-[11px] font-bold text-destructive mt-1">{errors.stock.message}</div>}
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <select {...register("categoryId")} className={`${inputClass} ${fieldBorder(false)}`}>
+            <option value="">Uncategorized</option>
+            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+        <div className="sm:col-span-4">
+          <label className={labelClass}>Description</label>
+          <textarea {...register("description")} rows={2} className={`${inputClass} ${fieldBorder(missing("description"))}`} />
+        </div>
+      </div>
+
+      {action === "reject" && (
+        <div className="mt-3">
+          <label className={labelClass}>Note for the seller</label>
+          <textarea value={note} onChange={e => setNote(e.target.value)} rows={2} className={`${inputClass} ${fieldBorder(false)}`}
+            placeholder="e.g. Counterfeit branding, or the photos don't show the product" autoFocus />
+        </div>
+      )}
+      {action === "merge" && (
+        <div className="mt-3">
+          <label className={labelClass}>Merge into</label>
+          <select value={mergeTarget} onChange={e => setMergeTarget(e.target.value)} className={`${inputClass} ${fieldBorder(false)}`}>
+            <option value="">Pick a listed product</option>
+            {listed.map(p => <option key={p.id} value={p.id}>{p.name} · KSh {Number(p.price).toLocaleString()}</option>)}
+          </select>
+          <div className="text-[11px] text-muted-foreground mt-1">The listed product takes this draft's price, description and photos. Its name, stock and sales stay.</div>
+        </div>
+      )}
+
+      {error && <div className="mt-3 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{error.message}</div>}
+
+      <div className="flex flex-wrap justify-end gap-2 mt-4">
+        {action ? (
+          <>
+            <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground hover:bg-accent/80 transition-colors"
+              onClick={() => setAction(null)}>Back</button>
+            {action === "reject" ? (
+              <button className="bg-destructive text-destructive-foreground rounded-xl px-3 py-2 text-xs font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60"
+                disabled={busy || !note.trim()} onClick={reject}>{rejectProduct.isPending ? "⏳ Rejecting..." : "Reject"}</button>
+            ) : (
+              <button className="bg-primary text-primary-foreground rounded-xl px-3 py-2 text-xs font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60"
+                disabled={busy || !mergeTarget} onClick={merge}>{mergeDraft.isPending ? "⏳ Merging..." : "Merge"}</button>
+            )}
+          </>
+        ) : (
+          <>
+            <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground hover:bg-accent/80 transition-colors"
+              onClick={() => setAction("reject")}>Reject</button>
+            <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground hover:bg-accent/80 transition-colors disabled:opacity-60"
+              disabled={listed.length === 0} onClick={() => setAction("merge")}>Merge…</button>
+            <button className="bg-primary text-primary-foreground rounded-xl px-3 py-2 text-xs font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60"
+              disabled={busy} onClick={approve}>
+              {saveProduct.isPending || approveProduct.isPending ? "⏳ Publishing..." : "Approve ✓"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
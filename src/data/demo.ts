@@ -0,0 +1,397 @@
+// Fixture rows for demo mode (see src/lib/demo.ts). They have the same shape as
+// the hooks' Supabase selects and go through the same row mappers. Dates are
+// relative to page load so the dashboards' charts always have something to show.
+import type { Tables } from "@/integrations/supabase/types";
+import type { AgentRow } from "@/hooks/useAgents";
+import type { ProductRow } from "@/hooks/useProducts";
+import type { OrderRow, TransactionRow } from "@/hooks/useOrders";
+import type { PayoutRow } from "@/hooks/usePayouts";
+import type { CommissionEntry } from "@/hooks/useCommissions";
+import type { CartLine } from "@/hooks/useCart";
+import type { TierRule } from "@/lib/tiers";
+import type { AgentApplication } from "@/hooks/useAgentApplications";
+import { formatReference } from "@/lib/references";
+
+const HOUR_MS = 60 * 60 * 1000;
+const ago = (hours: number) => new Date(Date.now() - hours * HOUR_MS).toISOString();
+const demoId = (kind: number, n: number) => `00000000-0000-4000-8000-${String(kind * 1000 + n).padStart(12, "0")}`;
+
+export const DEMO_CATEGORIES: Tables<"categories">[] = ["Electronics", "Fashion", "Home", "Health", "Sports"].map((name, i) => ({
+  id: demoId(1, i + 1),
+  name,
+  created_at: ago(24 * 400),
+}));
+
+const category = (name: string) => DEMO_CATEGORIES.find(c => c.name === name)!;
+
+// One storefront, run by the first demo agent, listing a few of the products below
+export const DEMO_STORES: Tables<"stores">[] = [{
+  id: demoId(12, 1),
+  user_id: demoId(4, 1),
+  name: "Amara's Picks",
+  slug: "amara",
+  bio: "Phones, speakers and fashion I use myself. Delivered across Nairobi within 48 hours.",
+  logo: null,
+  visibility: "public",
+  status: "active",
+  created_at: ago(24 * 90),
+  updated_at: ago(24),
+}];
+const STORE_PRODUCTS = [0, 3, 7];
+
+export const DEMO_PRODUCTS: ProductRow[] = [
+  ["Samsung Galaxy A15", "Electronics", 18500, 22000, "📱", "Hot", 4.8, 142, 14],
+  ["Nike Air Force 1", "Fashion", 7200, 9500, "👟", "Sale", 4.6, 89, 8],
+  ["Blender Pro 800W", "Home", 3400, 4200, "🥤", "New", 4.7, 203, 0],
+  ["JBL Clip 4 Speaker", "Electronics", 5800, 7000, "🔊", "Hot", 4.9, 317, 22],
+  ["Men's Slim Fit Suit", "Fashion", 8900, 12000, "👔", null, 4.5, 56, 10],
+  ["Pressure Cooker 5L", "Home", 2800, 3500, "🍲", "Sale", 4.4, 178, 15],
+  ["Laptop Bag 15.6\"", "Electronics", 1900, 2500, "💼", null, 4.3, 94, 20],
+  ["Ankara Maxi Dress", "Fashion", 3200, 4000, "👗", "Hot", 4.9, 265, 5],
+].map(([name, categoryName, price, original_price, emoji, badge, rating, total_sold, stock], i) => ({
+  id: demoId(2, i + 1),
+  name: name as string,
+  description: null,
+  category_id: category(categoryName as string).id,
+  categories: { name: categoryName as string },
+  price: price as number,
+  original_price: original_price as number,
+  stock: stock as number,
+  image_url: null,
+  emoji: emoji as string,
+  badge: badge as string | null,
+  rating: rating as number,
+  total_sold: total_sold as number,
+  is_active: true,
+  archived_at: null,
+  store_id: STORE_PRODUCTS.includes(i) ? DEMO_STORES[0].id : null,
+  status: "published",
+  source_url: null,
+  source_type: null,
+  ai_confidence_score: null,
+  missing_fields: [],
+  extraction_warnings: [],
+  images: [],
+  reviewed_by: null,
+  reviewed_at: null,
+  review_note: null,
+  merged_into: null,
+  created_by: null,
+  created_at: ago(24 * 200),
+  updated_at: ago(24),
+}));
+
+// An Instagram caption pasted into the importer, waiting for review
+DEMO_PRODUCTS.push({
+  ...DEMO_PRODUCTS[1],
+  id: demoId(2, DEMO_PRODUCTS.length + 1),
+  name: "Vans Old Skool",
+  description: "Sizes 39-44\nDelivery within Nairobi",
+  category_id: null,
+  categories: null,
+  original_price: null,
+  stock: 0,
+  emoji: "📦",
+  badge: null,
+  rating: 0,
+  total_sold: 0,
+  is_active: false,
+  store_id: null,
+  status: "draft",
+  source_type: "post",
+  ai_confidence_score: 0.72,
+  missing_fields: ["images"],
+  extraction_warnings: ["The post mentions several prices; the first one was used"],
+  created_at: ago(3),
+  updated_at: ago(3),
+});
+
+export const DEMO_AGENTS: AgentRow[] = [
+  ["Amara Kamau", "0712 345 678", "Gold", 12, "active", 58, 42650, 4572, 24 * 420],
+  ["Brian Ochieng", "0723 456 789", "Silver", 10, "active", 34, 21300, 2100, 24 * 360],
+  ["Cynthia Mwangi", "0734 567 890", "Gold", 12, "active", 71, 56800, 7840, 24 * 480],
+  ["David Njoroge", "0745 678 901", "Bronze", 8, "inactive", 12, 8400, 960, 24 * 280],
+  ["Fatima Abubakar", "0756 789 012", "Platinum", 18, "active", 134, 98200, 12400, 24 * 560],
+  ["George Waweru", "0767 890 123", "Silver", 10, "active", 27, 18900, 1800, 24 * 340],
+].map(([full_name, phone, tier, commission_rate, status, total_sales, total_earned, pending_earnings, ageHours], i) => ({
+  id: demoId(3, i + 1),
+  user_id: demoId(4, i + 1),
+  tier: tier as AgentRow["tier"],
+  commission_rate: commission_rate as number,
+  mpesa_phone: phone as string,
+  status: status as string,
+  total_sales: total_sales as number,
+  total_earned: total_earned as number,
+  pending_earnings: pending_earnings as number,
+  created_at: ago(ageHours as number),
+  updated_at: ago(2),
+  // Filled in from the demo orders below
+  wallets: null,
+  profiles: { full_name: full_name as string, phone: phone as string, avatar_url: null, phone_verified_at: ago(ageHours as number) },
+}));
+
+const ORDER_DEFAULTS = {
+  customer_id: null,
+  payment_phone: null,
+  merchant_request_id: null,
+  checkout_request_id: null,
+  payment_requested_at: null,
+  payment_failure_reason: null,
+  courier: null,
+  tracking_number: null,
+  delivered_at: null,
+  cancelled_at: null,
+  commission_finalized_at: null,
+  commission_available_at: null,
+  store_id: null,
+  review_reason: null,
+};
+
+// Days delivered commission is held, as in the default `wallet` setting
+const HOLD_DAYS = 7;
+
+// Customer, product, agent, status and age in hours
+export const DEMO_ORDERS: OrderRow[] = [
+  ["John M.", 0, 0, "delivered", 2],
+  ["Aisha O.", 7, 2, "processing", 4],
+  ["Kevin N.", 3, 4, "delivered", 5],
+  ["Grace W.", 1, 1, "cancelled", 26],
+  ["Samuel K.", 2, 0, "delivered", 28],
+  ["Mercy A.", 6, 5, "processing", 50],
+  ["Peter O.", 3, 0, "delivered", 75],
+  ["Lucy W.", 5, 0, "processing", 100],
+  ["Hassan M.", 7, 0, "delivered", 122],
+  ["Janet K.", 4, 2, "delivered", 146],
+].map(([customer_name, productIndex, agentIndex, status, ageHours], i) => {
+  const product = DEMO_PRODUCTS[productIndex as number];
+  const agent = DEMO_AGENTS[agentIndex as number];
+  const paid = status !== "cancelled";
+  return {
+    ...ORDER_DEFAULTS,
+    id: demoId(5, i + 1),
+    order_number: formatReference("order", 10420 - i),
+    access_token: `demo${i}`,
+    customer_name: customer_name as string,
+    customer_phone: "0700 000 000",
+    agent_id: agent.id,
+    agents: { profiles: { full_name: agent.profiles.full_name } },
+    total_amount: product.price,
+    commission_rate: agent.commission_rate,
+    commission_amount: Math.round(product.price * agent.commission_rate) / 100,
+    status: status as OrderRow["status"],
+    payment_status: paid ? "paid" : "failed",
+    mpesa_ref: paid ? `SC${String(7000000 + i * 7919).slice(-7)}Q` : null,
+    paid_at: paid ? ago(ageHours as number) : null,
+    delivered_at: status === "delivered" ? ago((ageHours as number) - 1) : null,
+    commission_available_at: status === "delivered" ? ago((ageHours as number) - 1 - HOLD_DAYS * 24) : null,
+    order_items: [{
+      product_name: product.name,
+      quantity: 1,
+      unit_price: product.price,
+      line_total: product.price,
+      commission_amount: Math.round(product.price * agent.commission_rate) / 100,
+      products: { emoji: product.emoji },
+    }],
+    created_at: ago(ageHours as number),
+    updated_at: ago(1),
+  };
+});
+
+const demoPendingCommission = (agentId: string) =>
+  DEMO_ORDERS.filter(o => o.agent_id === agentId && o.payment_status === "paid" && o.status !== "cancelled").map(o => ({
+    order_id: o.id,
+    order_number: o.order_number,
+    amount: o.commission_amount,
+    available_at: o.commission_available_at,
+  }));
+
+// Every demo order is still inside its hold, so its commission is pending
+for (const agent of DEMO_AGENTS) {
+  const pending = demoPendingCommission(agent.id).reduce((s, p) => s + p.amount, 0);
+  agent.wallets = {
+    available_balance: Math.max(agent.pending_earnings - pending, 0),
+    pending_balance: pending,
+    total_earned: agent.total_earned,
+  };
+}
+
+// Agent, amount, status and age in hours
+export const DEMO_PAYOUTS: PayoutRow[] = [
+  [0, 12400, "paid", 24 * 13],
+  [0, 8750, "paid", 24 * 20],
+  [0, 15200, "paid", 24 * 27],
+  [4, 12400, "paid", 24 * 13],
+  [2, 8750, "paid", 24 * 21],
+  [1, 2100, "pending", 6],
+].map(([agentIndex, amount, status, ageHours], i) => {
+  const agent = DEMO_AGENTS[agentIndex as number];
+  const paid = status === "paid";
+  return {
+    id: demoId(6, i + 1),
+    payout_ref: formatReference("payout", 10060 - i),
+    agent_id: agent.id,
+    agents: { profiles: { full_name: agent.profiles.full_name }, mpesa_phone: agent.mpesa_phone },
+    amount: amount as number,
+    status: status as PayoutRow["status"],
+    mpesa_ref: paid ? `SB${String(5000000 + i * 4231).slice(-7)}K` : null,
+    phone: agent.mpesa_phone,
+    failure_reason: null,
+    approved_by: paid ? demoId(4, 99) : null,
+    requested_by: agent.user_id,
+    paid_at: paid ? ago(ageHours as number) : null,
+    created_at: ago(ageHours as number),
+    updated_at: ago(ageHours as number),
+  };
+});
+
+// C2B collections for the orders above plus older monthly volume for the revenue chart, and B2C for paid payouts
+export const DEMO_TRANSACTIONS: TransactionRow[] = [
+  ...DEMO_ORDERS.map(o => ({
+    id: demoId(8, DEMO_ORDERS.indexOf(o) + 1),
+    transaction_ref: formatReference("transaction", 10200 + DEMO_ORDERS.indexOf(o)),
+    order_id: o.id,
+    agent_id: o.agent_id,
+    agents: DEMO_AGENTS.filter(a => a.id === o.agent_id).map(a => ({ profiles: { full_name: a.profiles.full_name }, mpesa_phone: a.mpesa_phone }))[0],
+    amount: o.total_amount,
+    type: "C2B" as const,
+    status: o.payment_status === "paid" ? ("completed" as const) : ("failed" as const),
+    mpesa_ref: o.mpesa_ref,
+    metadata: {},
+    created_at: o.created_at,
+  })),
+  ...[142000, 198000, 231000, 312000, 278000, 356000].map((amount, i) => ({
+    id: demoId(9, i + 1),
+    transaction_ref: formatReference("transaction", 10000 + i),
+    order_id: null,
+    agent_id: null,
+    agents: null,
+    amount,
+    type: "C2B" as const,
+    status: "completed" as const,
+    mpesa_ref: null,
+    metadata: {},
+    created_at: ago(24 * 30 * (6 - i) + 24 * 5),
+  })),
+  ...DEMO_PAYOUTS.filter(p => p.status === "paid").map((p, i) => ({
+    id: demoId(10, i + 1),
+    transaction_ref: formatReference("transaction", 10300 + i),
+    order_id: null,
+    agent_id: p.agent_id,
+    agents: p.agents,
+    amount: p.amount,
+    type: "B2C" as const,
+    status: "completed" as const,
+    mpesa_ref: p.mpesa_ref,
+    metadata: { payout_id: p.id },
+    created_at: p.paid_at!,
+  })),
+];
+
+export const DEMO_TIER_RULES: TierRule[] = [
+  { tier: "Bronze", rank: 1, commission_rate: 8, min_sales: 0, min_revenue: 0, perks: null },
+  { tier: "Silver", rank: 2, commission_rate: 10, min_sales: 20, min_revenue: 0, perks: null },
+  { tier: "Gold", rank: 3, commission_rate: 12, min_sales: 50, min_revenue: 0, perks: null },
+  { tier: "Platinum", rank: 4, commission_rate: 18, min_sales: 100, min_revenue: 0, perks: "Priority payouts" },
+];
+
+// Name, M-Pesa number, ID type and number, county and age in hours
+export const DEMO_APPLICATIONS: AgentApplication[] = [
+  ["Irene Chebet", "254722334455", "national_id", "31245678", "Uasin Gishu", 30],
+  ["Joseph Mutua", "254711889900", "national_id", "28765432", "Machakos", 8],
+].map(([full_name, mpesa_phone, id_type, id_number, region, ageHours], i) => ({
+  id: demoId(11, i + 1),
+  user_id: demoId(4, 50 + i),
+  full_name: full_name as string,
+  mpesa_phone: mpesa_phone as string,
+  id_type: id_type as string,
+  id_number: id_number as string,
+  region: region as string,
+  status: "pending" as const,
+  rejection_reason: null,
+  reviewed_by: null,
+  reviewed_at: null,
+  created_at: ago(ageHours as number),
+  updated_at: ago(ageHours as number),
+}));
+
+// Accruals for the agent's paid orders and their paid-out payouts, newest first
+export function demoStatement(agentId: string): CommissionEntry[] {
+  const entries = [
+    ...DEMO_ORDERS.filter(o => o.agent_id === agentId && o.payment_status === "paid").map(o => ({
+      id: `${o.id}-accrual`,
+      agent_id: agentId,
+      entry_type: "accrual" as const,
+      amount: o.commission_amount,
+      order_id: o.id,
+      payout_id: null,
+      description: `Commission on order ${o.order_number}`,
+      order_number: o.order_number,
+      payout_ref: null,
+      created_at: o.paid_at!,
+    })),
+    ...DEMO_PAYOUTS.filter(p => p.agent_id === agentId && p.status === "paid").map(p => ({
+      id: `${p.id}-payout`,
+      agent_id: agentId,
+      entry_type: "payout" as const,
+      amount: -p.amount,
+      order_id: null,
+      payout_id: p.id,
+      description: `M-Pesa payout ${p.payout_ref}`,
+      order_number: null,
+      payout_ref: p.payout_ref,
+      created_at: p.paid_at!,
+    })),
+  ].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  // Opening balance chosen so the statement ends on the agent's pending earnings
+  const agent = DEMO_AGENTS.find(a => a.id === agentId);
+  let balance = (agent?.pending_earnings ?? 0) - entries.reduce((s, e) => s + e.amount, 0);
+  return entries
+    .map((e, i) => ({ ...e, seq: i + 1, balance: (balance += e.amount) }))
+    .reverse();
+}
+
+export function demoWallet(agentId: string) {
+  const wallet = DEMO_AGENTS.find(a => a.id === agentId)?.wallets;
+  return {
+    available_balance: wallet?.available_balance ?? 0,
+    pending_balance: wallet?.pending_balance ?? 0,
+    total_earned: wallet?.total_earned ?? 0,
+    pending: demoPendingCommission(agentId),
+  };
+}
+
+export function demoWindowStats(agentId: string) {
+  const agent = DEMO_AGENTS.find(a => a.id === agentId);
+  return { sales: agent?.total_sales ?? 0, revenue: (agent?.total_sales ?? 0) * 6500, window_days: 90 };
+}
+
+// An in-memory cart with the same stock rules as `set_cart_item`
+const cartQuantities = new Map<string, number>();
+
+export const demoCart = {
+  lines(): CartLine[] {
+    return [...cartQuantities].map(([productId, quantity]) => {
+      const p = DEMO_PRODUCTS.find(product => product.id === productId)!;
+      return { product_id: p.id, quantity, available: p.stock, name: p.name, price: p.price, emoji: p.emoji, image_url: p.image_url };
+    });
+  },
+  set(productId: string, quantity: number): CartLine[] {
+    const product = DEMO_PRODUCTS.find(p => p.id === productId);
+    if (quantity <= 0) {
+      cartQuantities.delete(productId);
+    } else if (!product) {
+      throw new Error("This product is no longer available");
+    } else if (product.stock <= 0) {
+      throw new Error(`${product.name} is out of stock`);
+    } else if (quantity > product.stock) {
+      throw new Error(`Only ${product.stock} of ${product.name} left in stock`);
+    } else {
+      cartQuantities.set(productId, quantity);
+    }
+    return this.lines();
+  },
+  clear() {
+    cartQuantities.clear();
+  },
+};
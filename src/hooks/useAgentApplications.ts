@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ApplicationInput } from "@/lib/applications";
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_APPLICATIONS } from "@/data/demo";
+
+export type AgentApplication = Tables<"agent_applications">;
+
+// The signed-in user's latest application, or null if they never applied
+export function useMyApplication(userId?: string) {
+  return useQuery({
+    queryKey: ["my-application", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      if (DEMO_MODE) return null;
+      const { data, error } = await supabase
+        .from("agent_applications")
+        .select("*")
+        .eq("user_id", userId!)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useSubmitApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: ApplicationInput) => {
+      const { data, error } = await supabase.rpc("submit_agent_application", {
+        _full_name: input.fullName,
+        _mpesa_phone: input.mpesaPhone,
+        _id_type: input.idType,
+        _id_number: input.idNumber,
+        _region: input.region,
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["my-application"] }),
+  });
+}
+
+// The admin review queue, oldest pending application first
+export function useAgentApplications() {
+  return useQuery({
+    queryKey: ["admin-applications"],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_APPLICATIONS;
+      const { data, error } = await supabase
+        .from("agent_applications")
+        .select("*")
+        .eq("status", "pending")
+        .order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useApproveApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (applicationId: string) => {
+      const { data, error } = await supabase.rpc("approve_agent_application", { _application_id: applicationId });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-agents"] });
+    },
+  });
+}
+
+export function useRejectApplication() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ applicationId, reason }: { applicationId: string; reason: string }) => {
+      const { data, error } = await supabase.rpc("reject_agent_application", { _application_id: applicationId, _reason: reason });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["admin-applications"] }),
+  });
+}
@@ -1,42 +1,53 @@
 import { useQuery } from "@tanstack/react-query";
+import type { QueryData } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_AGENTS } from "@/data/demo";
+
+export const selectAgents = () => supabase.from("agents").select("*, profiles(full_name, phone, avatar_url, phone_verified_at), wallets(available_balance, pending_balance, total_earned)");
+
+export type AgentRow = QueryData<ReturnType<typeof selectAgents>>[number];
+
+export function toAgent(a: AgentRow) {
+  return {
+    ...a,
+    name: a.profiles?.full_name || "Agent",
+    phone: a.profiles?.phone || a.mpesa_phone,
+    avatar: (a.profiles?.full_name || "AG").split(" ").map(n => n[0]).join("").substring(0, 2).toUpperCase(),
+    earned: Number(a.wallets?.total_earned ?? a.total_earned),
+    // Withdrawable now, and commission still in its hold period
+    available: Number(a.wallets?.available_balance ?? 0),
+    pending: Number(a.wallets?.pending_balance ?? 0),
+    sales: a.total_sales,
+    phoneVerified: !!a.profiles?.phone_verified_at,
+    joined: new Date(a.created_at).toLocaleDateString("en-US", { month: "short", year: "numeric" }),
+  };
+}
+
+export type Agent = ReturnType<typeof toAgent>;
 
 export function useAgents() {
   return useQuery({
-    queryKey: ["agents"],
+    queryKey: ["admin-agents"],
     queryFn: async () => {
-      const { data, error } = await (supabase as any)
-        .from("agents")
-        .select("*, profiles(full_name, phone, avatar_url)")
-        .order("total_earned", { ascending: false });
+      if (DEMO_MODE) return DEMO_AGENTS.map(toAgent);
+      const { data, error } = await selectAgents().order("total_earned", { ascending: false });
       if (error) throw error;
-      return (data || []).map((a: any) => ({
-        ...a,
-        name: a.profiles?.full_name || "Agent",
-        phone: a.profiles?.phone || a.mpesa_phone,
-        avatar: (a.profiles?.full_name || "AG").split(" ").map((n: string) => n[0]).join("").substring(0, 2).toUpperCase(),
-      }));
+      return (data || []).map(toAgent);
     },
   });
 }
 
+// The signed-in user's agent record, or null if they aren't an agent
 export function useAgentProfile(userId?: string) {
   return useQuery({
     queryKey: ["agent-profile", userId],
     enabled: !!userId,
     queryFn: async () => {
-      const { data, error } = await (supabase as any)
-        .from("agents")
-        .select("*, profiles(full_name, phone, avatar_url)")
-        .eq("user_id", userId!)
-        .single();
+      if (DEMO_MODE) return toAgent(DEMO_AGENTS[0]);
+      const { data, error } = await selectAgents().eq("user_id", userId!).maybeSingle();
       if (error) throw error;
-      return {
-        ...data,
-        name: (data as any).profiles?.full_name || "Agent",
-        phone: (data as any).profiles?.phone || data.mpesa_phone,
-        avatar: ((data as any).profiles?.full_name || "AG").split(" ").map((n: string) => n[0]).join("").substring(0, 2).toUpperCase(),
-      };
+      return data && toAgent(data);
     },
   });
 }
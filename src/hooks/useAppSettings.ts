@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DEMO_MODE } from "@/lib/demo";
+
+export type PayoutRules = { min_amount: number; cooldown_hours: number };
+
+export const DEFAULT_PAYOUT_RULES: PayoutRules = { min_amount: 500, cooldown_hours: 24 };
+
+// Days after delivery that commission stays pending, to cover returns
+export type WalletRules = { hold_days: number };
+
+export const DEFAULT_WALLET_RULES: WalletRules = { hold_days: 7 };
+
+// Reads one `app_settings` document, filling in defaults for missing keys
+export function useAppSetting<T extends object>(key: string, defaults: T) {
+  return useQuery({
+    queryKey: ["app-settings", key],
+    queryFn: async () => {
+      if (DEMO_MODE) return defaults;
+      const { data, error } = await supabase.from("app_settings").select("value").eq("key", key).maybeSingle();
+      if (error) throw error;
+      return { ...defaults, ...(data?.value as Partial<T> | undefined) } as T;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
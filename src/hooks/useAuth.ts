@@ -1,6 +1,18 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { User, Session } from "@supabase/supabase-js";
+import { invokeFunction } from "@/lib/edgeFunctions";
+
+export type PhoneOtpPurpose = "login" | "verify";
+
+export type PhoneCodeSent = { sent_to: string; expires_in: number; resend_in: number };
+
+// Where the links in auth emails land
+const redirectTo = (path: string) => `${window.location.origin}${path}`;
+
+// Email-password accounts can't be used until the address is confirmed.
+// Phone sign-in accounts are created with their placeholder address confirmed.
+export const needsEmailVerification = (user: User | null) => !!user?.email && !user.email_confirmed_at;
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
@@ -31,7 +43,7 @@ export function useAuth() {
       password,
       options: {
         data: { full_name: fullName },
-        emailRedirectTo: window.location.origin,
+        emailRedirectTo: redirectTo("/auth"),
       },
     });
     return { data, error };
@@ -45,10 +57,70 @@ export function useAuth() {
     return { data, error };
   };
 
-  const signOut = async () => {
-    const { error } = await supabase.auth.signOut();
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({ type: "signup", email, options: { emailRedirectTo: redirectTo("/auth") } });
+    return { error };
+  };
+
+  // Emails a recovery link that signs the user in on /reset-password
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectTo("/reset-password") });
+    return { error };
+  };
+
+  // Picks up changes made outside the app, such as confirming the email from another tab
+  const refreshUser = async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+    return { user: data.user, error };
+  };
+
+  const updatePassword = async (password: string) => {
+    const { data, error } = await supabase.auth.updateUser({ password });
+    return { data, error };
+  };
+
+  // Texts a one-time code through the `phone-otp` edge function
+  const sendPhoneCode = async (phone: string, purpose: PhoneOtpPurpose) => {
+    try {
+      const data = await invokeFunction<PhoneCodeSent>("phone-otp", { action: "send", phone, purpose }, "Could not send the code");
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  };
+
+  // Checks the code, then exchanges the returned magic-link token for a session
+  const signInWithPhone = async (phone: string, code: string) => {
+    try {
+      const { token_hash } = await invokeFunction<{ token_hash: string }>(
+        "phone-otp", { action: "verify", phone, code, purpose: "login" }, "Could not check the code",
+      );
+      return await supabase.auth.verifyOtp({ token_hash, type: "magiclink" });
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  };
+
+  // Confirms a phone number on the signed-in account
+  const verifyPhone = async (phone: string, code: string) => {
+    try {
+      const data = await invokeFunction<{ phone: string; verified_at: string }>(
+        "phone-otp", { action: "verify", phone, code, purpose: "verify" }, "Could not check the code",
+      );
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  };
+
+  // `global` ends every session of the account, `others` all but this one
+  const signOut = async (scope: "local" | "global" | "others" = "local") => {
+    const { error } = await supabase.auth.signOut({ scope });
     return { error };
   };
 
-  return { user, session, loading, signUp, signIn, signOut };
+  return {
+    user, session, loading, signUp, signIn, resendVerification, sendPasswordReset, updatePassword, refreshUser,
+    sendPhoneCode, signInWithPhone, verifyPhone, signOut,
+  };
 }
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { DEMO_MODE } from "@/lib/demo";
+import { demoCart } from "@/data/demo";
+
+export type CartLine = {
+  product_id: string;
+  quantity: number;
+  // Stock not held by other shoppers' checkouts
+  available: number;
+  name: string;
+  price: number;
+  emoji: string | null;
+  image_url: string | null;
+};
+
+const TOKEN_KEY = "payloom.cart-token";
+
+// Identifies an anonymous shopper's cart. Kept after sign-in so the server can merge it.
+function cartToken() {
+  let token = localStorage.getItem(TOKEN_KEY);
+  if (!token) {
+    token = crypto.randomUUID().replace(/-/g, "");
+    localStorage.setItem(TOKEN_KEY, token);
+  }
+  return token;
+}
+
+function toLines(data: CartLine[] | null): CartLine[] {
+  return (data || []).map(l => ({ ...l, price: Number(l.price) }));
+}
+
+export function useCart() {
+  const { user, loading } = useAuth();
+  return useQuery({
+    queryKey: ["cart", user?.id ?? "anon"],
+    enabled: !loading,
+    queryFn: async () => {
+      if (DEMO_MODE) return demoCart.lines();
+      const { data, error } = await supabase.rpc("get_cart", { _anon_token: cartToken() });
+      if (error) throw error;
+      return toLines(data);
+    },
+  });
+}
+
+export function useSetCartItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ productId, quantity }: { productId: string; quantity: number }) => {
+      if (DEMO_MODE) return demoCart.set(productId, quantity);
+      const { data, error } = await supabase.rpc("set_cart_item", { _product_id: productId, _quantity: quantity, _anon_token: cartToken() });
+      if (error) throw new Error(error.message);
+      return toLines(data);
+    },
+    onSuccess: lines => queryClient.setQueriesData({ queryKey: ["cart"] }, lines),
+  });
+}
+
+export function useClearCart() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      if (DEMO_MODE) return demoCart.clear();
+      const { error } = await supabase.rpc("clear_cart", { _anon_token: cartToken() });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => queryClient.setQueriesData({ queryKey: ["cart"] }, []),
+  });
+}
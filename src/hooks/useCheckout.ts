@@ -0,0 +1,44 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { invokeFunction } from "@/lib/edgeFunctions";
+import { DEMO_MODE } from "@/lib/demo";
+
+export type CheckoutItem = { product_id: string; quantity: number };
+
+export type CheckoutSession = {
+  order_id: string;
+  order_number: string;
+  access_token: string;
+  checkout_request_id: string;
+  customer_message: string;
+};
+
+export type PaymentStatus = {
+  id: string;
+  order_number: string;
+  status: string;
+  payment_status: "unpaid" | "awaiting_payment" | "paid" | "failed" | "timed_out";
+  payment_failure_reason: string | null;
+  mpesa_ref: string | null;
+  total_amount: number;
+  access_token: string;
+};
+
+export function useStartCheckout() {
+  return useMutation({
+    mutationFn: async (input: { items: CheckoutItem[]; phone: string; customer_name?: string; agent_id?: string; store_id?: string }) => {
+      if (DEMO_MODE) throw new Error("Payments are switched off while browsing demo data");
+      return invokeFunction<CheckoutSession>("mpesa-stk-push", input, "Could not start M-Pesa payment");
+    },
+  });
+}
+
+export function usePaymentStatus(checkoutRequestId?: string) {
+  return useQuery({
+    queryKey: ["payment-status", checkoutRequestId],
+    enabled: !!checkoutRequestId,
+    queryFn: () =>
+      invokeFunction<PaymentStatus>("mpesa-payment-status", { checkout_request_id: checkoutRequestId }, "Could not check payment status"),
+    // Keep polling until the payment settles one way or the other
+    refetchInterval: query => (query.state.data && query.state.data.payment_status !== "awaiting_payment" ? false : 3000),
+  });
+}
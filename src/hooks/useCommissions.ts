@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { DEMO_MODE } from "@/lib/demo";
+import { demoStatement } from "@/data/demo";
+
+export type CommissionEntryType = Enums<"commission_entry_type">;
+
+export type CommissionEntry = {
+  id: string;
+  seq: number;
+  agent_id: string;
+  entry_type: CommissionEntryType;
+  amount: number;
+  order_id: string | null;
+  payout_id: string | null;
+  description: string;
+  order_number: string | null;
+  payout_ref: string | null;
+  balance: number;
+  created_at: string;
+};
+
+export type LedgerBalance = {
+  agent_id: string;
+  total_earned: number;
+  pending_earnings: number;
+  ledger_earned: number;
+  ledger_pending: number;
+  in_balance: boolean;
+};
+
+// Newest entries first; `balance` is the agent's pending earnings after each entry
+export function useCommissionStatement(agentId?: string) {
+  return useQuery({
+    queryKey: ["commission-statement", agentId],
+    enabled: !!agentId,
+    queryFn: async () => {
+      if (DEMO_MODE) return demoStatement(agentId!);
+      const { data, error } = await supabase
+        .from("commission_statement")
+        .select("*")
+        .eq("agent_id", agentId!)
+        .order("seq", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(e => ({ ...e, amount: Number(e.amount), balance: Number(e.balance) })) as CommissionEntry[];
+    },
+  });
+}
+
+export function useLedgerBalance(agentId?: string) {
+  return useQuery({
+    queryKey: ["ledger-balance", agentId],
+    enabled: !!agentId,
+    queryFn: async () => {
+      if (DEMO_MODE) return null;
+      const { data, error } = await supabase.from("agent_ledger_balances").select("*").eq("agent_id", agentId!).maybeSingle();
+      if (error) throw error;
+      return data as LedgerBalance | null;
+    },
+  });
+}
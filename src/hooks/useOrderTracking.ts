@@ -0,0 +1,30 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TrackedOrder } from "@/lib/receipt";
+
+async function trackOrder(params: { orderNumber: string; accessToken?: string; phone?: string }) {
+  const { data, error } = await supabase.rpc("track_order", {
+    _order_number: params.orderNumber,
+    _access_token: params.accessToken,
+    _phone: params.phone,
+  });
+  if (error) throw new Error(error.message);
+  return data as unknown as TrackedOrder;
+}
+
+// Loads an order from its tracking link; refreshes while it is still on its way
+export function useTrackedOrder(orderNumber?: string, accessToken?: string | null) {
+  return useQuery({
+    queryKey: ["tracked-order", orderNumber, accessToken],
+    enabled: !!orderNumber && !!accessToken,
+    queryFn: () => trackOrder({ orderNumber: orderNumber!, accessToken: accessToken! }),
+    retry: false,
+    refetchInterval: query => (query.state.data && ["delivered", "cancelled"].includes(query.state.data.status) ? false : 60_000),
+  });
+}
+
+export function useLookupOrder() {
+  return useMutation({
+    mutationFn: (params: { orderNumber: string; phone: string }) => trackOrder(params),
+  });
+}
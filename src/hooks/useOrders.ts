@@ -1,39 +1,121 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { QueryData } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import type { Enums, Tables } from "@/integrations/supabase/types";
+import { DEMO_MODE } from "@/lib/demo";
+import { summarizeItems } from "@/lib/orders";
+import { DEMO_ORDERS, DEMO_TRANSACTIONS } from "@/data/demo";
 
-export function useOrders(agentId?: string) {
+export const selectOrders = () =>
+  supabase
+    .from("orders")
+    .select("*, order_items(product_name, quantity, unit_price, line_total, commission_amount, products(emoji)), agents(profiles(full_name))");
+
+export type OrderRow = QueryData<ReturnType<typeof selectOrders>>[number];
+
+export function toOrder(o: OrderRow) {
+  return { ...o, agent_name: o.agents?.profiles?.full_name || null, items_summary: summarizeItems(o.order_items) };
+}
+
+export type Order = ReturnType<typeof toOrder>;
+
+// Every order, for the admin dashboard
+export function useOrders() {
   return useQuery({
-    queryKey: ["orders", agentId],
+    queryKey: ["admin-orders"],
     queryFn: async () => {
-      let query = (supabase as any)
-        .from("orders")
-        .select("*, order_items(*, products(name, emoji))")
-        .order("created_at", { ascending: false });
-
-      if (agentId) {
-        query = query.eq("agent_id", agentId);
-      }
+      if (DEMO_MODE) return DEMO_ORDERS.map(toOrder);
+      const { data, error } = await selectOrders().order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toOrder);
+    },
+  });
+}
 
-      const { data, error } = await query;
+// Orders an agent referred
+export function useAgentOrders(agentId?: string) {
+  return useQuery({
+    queryKey: ["agent-orders", agentId],
+    enabled: !!agentId,
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_ORDERS.filter(o => o.agent_id === agentId).map(toOrder);
+      const { data, error } = await selectOrders().eq("agent_id", agentId!).order("created_at", { ascending: false });
       if (error) throw error;
-      return data || [];
+      return (data || []).map(toOrder);
     },
   });
 }
 
+export const selectTransactions = () => supabase.from("transactions").select("*, agents(profiles(full_name), mpesa_phone)");
+
+export type TransactionRow = QueryData<ReturnType<typeof selectTransactions>>[number];
+
+export function toTransaction(t: TransactionRow) {
+  return { ...t, agent_name: t.agents?.profiles?.full_name || "Unknown" };
+}
+
+export type Transaction = ReturnType<typeof toTransaction>;
+
 export function useTransactions() {
   return useQuery({
-    queryKey: ["transactions"],
+    queryKey: ["admin-transactions"],
     queryFn: async () => {
+      if (DEMO_MODE) return DEMO_TRANSACTIONS.map(toTransaction);
+      const { data, error } = await selectTransactions().order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toTransaction);
+    },
+  });
+}
+
+export type OrderStatus = Enums<"order_status">;
+
+// Mirrors the moves `transition_order` accepts
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["delivered", "cancelled"],
+  delivered: [],
+  cancelled: [],
+};
+
+export type OrderStatusChange = Tables<"order_status_history">;
+
+export function useOrderHistory(orderId?: string) {
+  return useQuery({
+    queryKey: ["order-history", orderId],
+    enabled: !!orderId,
+    queryFn: async () => {
+      if (DEMO_MODE) return [];
       const { data, error } = await supabase
-        .from("transactions")
-        .select("*, agents(profiles(full_name))")
-        .order("created_at", { ascending: false });
+        .from("order_status_history")
+        .select("*")
+        .eq("order_id", orderId!)
+        .order("created_at");
       if (error) throw error;
-      return (data || []).map((t: any) => ({
-        ...t,
-        agent_name: t.agents?.profiles?.full_name || "Unknown",
-      }));
+      return data || [];
+    },
+  });
+}
+
+export function useTransitionOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: { orderId: string; status: OrderStatus; note?: string; courier?: string; trackingNumber?: string }) => {
+      const { data, error } = await supabase.rpc("transition_order", {
+        _order_id: input.orderId,
+        _status: input.status,
+        _note: input.note || undefined,
+        _courier: input.courier || undefined,
+        _tracking_number: input.trackingNumber || undefined,
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSuccess: (_data, input) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["order-history", input.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["admin-agents"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
     },
   });
 }
@@ -1,26 +1,131 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { QueryData } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { invokeFunction } from "@/lib/edgeFunctions";
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_PAYOUTS } from "@/data/demo";
 
-export function usePayouts(agentId?: string) {
+export type Payout = Tables<"payouts">;
+
+export const selectPayouts = () => supabase.from("payouts").select("*, agents(profiles(full_name), mpesa_phone)");
+
+export type PayoutRow = QueryData<ReturnType<typeof selectPayouts>>[number];
+
+export function toPayout(p: PayoutRow) {
+  return { ...p, agent_name: p.agents?.profiles?.full_name || "Unknown", agent_phone: p.agents?.mpesa_phone || "" };
+}
+
+export type PayoutWithAgent = ReturnType<typeof toPayout>;
+
+// Every payout and payout request, for the admin dashboard
+export function usePayouts() {
   return useQuery({
-    queryKey: ["payouts", agentId],
+    queryKey: ["admin-payouts"],
     queryFn: async () => {
-      let query = (supabase as any)
-        .from("payouts")
-        .select("*, agents(profiles(full_name), mpesa_phone)")
-        .order("created_at", { ascending: false });
+      if (DEMO_MODE) return DEMO_PAYOUTS.map(toPayout);
+      const { data, error } = await selectPayouts().order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toPayout);
+    },
+  });
+}
 
-      if (agentId) {
-        query = query.eq("agent_id", agentId);
-      }
+export function useAgentPayouts(agentId?: string) {
+  return useQuery({
+    queryKey: ["agent-payouts", agentId],
+    enabled: !!agentId,
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_PAYOUTS.filter(p => p.agent_id === agentId).map(toPayout);
+      const { data, error } = await selectPayouts().eq("agent_id", agentId!).order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toPayout);
+    },
+  });
+}
 
-      const { data, error } = await query;
+export function useSendPayout() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { agent_id: string; amount: number }) =>
+      invokeFunction<Payout>("mpesa-b2c-payout", input, "Could not send payout"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-payouts"] });
+      queryClient.invalidateQueries({ queryKey: ["payouts"] });
+    },
+  });
+}
+
+// Follows a single payout until its B2C result callback lands
+export function usePayout(payoutId?: string) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: ["payout", payoutId],
+    enabled: !!payoutId,
+    queryFn: async () => {
+      const { data: payout, error } = await supabase.from("payouts").select("*").eq("id", payoutId!).single();
       if (error) throw error;
-      return (data || []).map((p: any) => ({
-        ...p,
-        agent_name: p.agents?.profiles?.full_name || "Unknown",
-        agent_phone: p.agents?.mpesa_phone || "",
-      }));
+      if (payout.status === "paid" || payout.status === "failed") {
+        queryClient.invalidateQueries({ queryKey: ["admin-agents"] });
+        queryClient.invalidateQueries({ queryKey: ["admin-payouts"] });
+        queryClient.invalidateQueries({ queryKey: ["admin-transactions"] });
+        queryClient.invalidateQueries({ queryKey: ["commission-statement"] });
+      }
+      return payout;
+    },
+    refetchInterval: query => (query.state.data?.status === "paid" || query.state.data?.status === "failed" ? false : 3000),
+  });
+}
+
+export function useRequestPayout() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Leave amount out to withdraw the full pending balance
+    mutationFn: async (amount?: number) => {
+      const { data, error } = await supabase.rpc("request_payout", { _amount: amount });
+      if (error) throw new Error(error.message);
+      return data;
     },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["agent-payouts"] }),
   });
 }
+
+export function useApprovePayoutRequest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payoutId: string) =>
+      invokeFunction<Payout>("mpesa-b2c-payout", { payout_id: payoutId }, "Could not send payout"),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["admin-payouts"] }),
+  });
+}
+
+export function useRejectPayoutRequest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ payoutId, reason }: { payoutId: string; reason: string }) => {
+      const { data, error } = await supabase.rpc("reject_payout_request", { _payout_id: payoutId, _reason: reason });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["admin-payouts"] }),
+  });
+}
+
+// Refetches the given queries whenever a payout row changes
+export function usePayoutUpdates(queryKeys: unknown[][], enabled = true) {
+  const queryClient = useQueryClient();
+  const keys = JSON.stringify(queryKeys);
+  useEffect(() => {
+    if (!enabled) return;
+    const channel = supabase
+      .channel(`payouts-${keys}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "payouts" }, () => {
+        for (const queryKey of JSON.parse(keys)) queryClient.invalidateQueries({ queryKey });
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [keys, enabled, queryClient]);
+}
@@ -1,49 +1,48 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { QueryData } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
 import { supabase } from "@/integrations/supabase/client";
-import { MOCK_PRODUCTS_SHOP, MOCK_CATEGORIES } from "@/data/mockData";
-
-export type Product = {
-  id: string;
-  name: string;
-  description: string | null;
-  category_id: string | null;
-  category_name?: string;
-  price: number;
-  original_price: number | null;
-  stock: number;
-  image_url: string | null;
-  emoji: string | null;
-  badge: string | null;
-  rating: number | null;
-  total_sold: number;
-  is_active: boolean;
-  created_by: string | null;
-};
-
-export function useProducts(categoryFilter?: string) {
-  return useQuery({
-    queryKey: ["products", categoryFilter],
-    queryFn: async () => {
-      let query = (supabase as any)
-        .from("products")
-        .select("*, categories(name)")
-        .eq("is_active", true)
-        .order("total_sold", { ascending: false });
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_CATEGORIES, DEMO_PRODUCTS } from "@/data/demo";
+import { invokeFunction } from "@/lib/edgeFunctions";
+import { productImagePath, type ExtractionResult, type ProductInput } from "@/lib/products";
 
-      const { data, error } = await query;
-      if (error) throw error;
+const PRODUCT_IMAGES_BUCKET = "product-images";
 
-      const dbProducts = (data || []).map((p: any) => ({
-        ...p,
-        category_name: p.categories?.name || "Uncategorized",
-      })) as (Product & { category_name: string })[];
+export const selectProducts = () => supabase.from("products").select("*, categories(name)");
 
-      // Fallback to mock data when DB is empty
-      if (dbProducts.length === 0) {
-        return MOCK_PRODUCTS_SHOP as (Product & { category_name: string })[];
-      }
+export type ProductRow = QueryData<ReturnType<typeof selectProducts>>[number];
 
-      return dbProducts;
+export function toProduct(p: ProductRow) {
+  return { ...p, category_name: p.categories?.name || "Uncategorized" };
+}
+
+export type Product = ReturnType<typeof toProduct>;
+
+// What the shop sells, best sellers first. With `storeId`, only that store's listings.
+export function useProducts(storeId?: string) {
+  return useQuery({
+    queryKey: ["products", storeId],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_PRODUCTS.filter(p => p.is_active && (!storeId || p.store_id === storeId)).map(toProduct);
+      let query = selectProducts().eq("is_active", true);
+      if (storeId) query = query.eq("store_id", storeId);
+      const { data, error } = await query.order("total_sold", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toProduct);
+    },
+  });
+}
+
+// The whole catalogue, including hidden and archived products
+export function useAdminProducts() {
+  return useQuery({
+    queryKey: ["admin-products"],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_PRODUCTS.map(toProduct);
+      const { data, error } = await selectProducts().order("total_sold", { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toProduct);
     },
   });
 }
@@ -52,18 +51,185 @@ export function useCategories() {
   return useQuery({
     queryKey: ["categories"],
     queryFn: async () => {
-      const { data, error } = await (supabase as any)
+      if (DEMO_MODE) return DEMO_CATEGORIES;
+      const { data, error } = await supabase
         .from("categories")
         .select("*")
         .order("name");
       if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Drafts waiting for review, the most complete imports first. Drafts an
+// agent typed in by hand have no score and come last.
+export function useProductReviewQueue() {
+  return useQuery({
+    queryKey: ["product-review"],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_PRODUCTS.filter(p => p.status === "draft").map(toProduct);
+      const { data, error } = await selectProducts()
+        .eq("status", "draft")
+        .order("ai_confidence_score", { ascending: false, nullsFirst: false })
+        .order("created_at");
+      if (error) throw error;
+      return (data || []).map(toProduct);
+    },
+  });
+}
+
+// An agent's products that aren't listed yet, or were turned down, newest first
+export function useMySubmissions(userId?: string) {
+  return useQuery({
+    queryKey: ["product-review", "mine", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      if (DEMO_MODE) return [];
+      const { data, error } = await selectProducts()
+        .eq("created_by", userId!)
+        .in("status", ["draft", "rejected"])
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return (data || []).map(toProduct);
+    },
+  });
+}
+
+// The shop, the admin catalogue and the review queue all show product edits
+function useInvalidateProducts() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+    queryClient.invalidateQueries({ queryKey: ["product-review"] });
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+  };
+}
 
-      // Fallback to mock categories
-      if (!data || data.length === 0) {
-        return MOCK_CATEGORIES;
+// Creates a product, or updates it when `id` is given. A new photo is
+// uploaded first so the row never points at a missing file.
+export function useSaveProduct() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: ProductInput }) => {
+      const productId = id ?? crypto.randomUUID();
+      let imageUrl = input.imageUrl ?? null;
+      if (input.image) {
+        const path = productImagePath(productId, input.image);
+        const { error } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).upload(path, input.image, { contentType: input.image.type });
+        if (error) throw new Error(error.message);
+        imageUrl = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
       }
+      const row = {
+        name: input.name,
+        description: input.description || null,
+        price: input.price,
+        original_price: input.originalPrice,
+        stock: input.stock,
+        category_id: input.categoryId,
+        badge: input.badge,
+        emoji: input.emoji || "📦",
+        image_url: imageUrl,
+        store_id: input.storeId,
+      };
+      const { error } = id
+        ? await supabase.from("products").update(row).eq("id", id)
+        : await supabase.from("products").insert({ ...row, id: productId });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateProductStock() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ id, stock }: { id: string; stock: number }) => {
+      const { error } = await supabase.from("products").update({ stock }).eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+// Shows or hides products in the shop. Archived products and drafts stay hidden.
+export function useSetProductsActive() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ ids, active }: { ids: string[]; active: boolean }) => {
+      const { error } = await supabase
+        .from("products")
+        .update({ is_active: active })
+        .in("id", ids)
+        .is("archived_at", null)
+        .eq("status", "published");
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+// Archiving also hides the product; restoring brings it back hidden, ready to re-check
+export function useArchiveProduct() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const changes = archived ? { archived_at: new Date().toISOString(), is_active: false } : { archived_at: null };
+      const { error } = await supabase.from("products").update(changes).eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export type ProductImport = { product: Tables<"products">; result: ExtractionResult };
+
+// Reads a product page or a pasted post and saves it as a hidden draft
+export function useImportProduct() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async (source: { url: string } | { text: string }) => {
+      if (DEMO_MODE) throw new Error("Importing is switched off while browsing demo data");
+      return invokeFunction<ProductImport>("import-product", source, "Could not import the product");
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useApproveProduct() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async (productId: string) => {
+      const { data, error } = await supabase.rpc("approve_product", { _product_id: productId });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSettled: invalidate,
+  });
+}
+
+export function useRejectProduct() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ productId, note }: { productId: string; note: string }) => {
+      const { data, error } = await supabase.rpc("reject_product", { _product_id: productId, _note: note });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSettled: invalidate,
+  });
+}
 
+// Folds a draft into a product that is already listed; returns the listed product
+export function useMergeProductDraft() {
+  const invalidate = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async ({ draftId, targetId }: { draftId: string; targetId: string }) => {
+      const { data, error } = await supabase.rpc("merge_product_draft", { _draft_id: draftId, _target_id: targetId });
+      if (error) throw new Error(error.message);
       return data;
     },
+    onSettled: invalidate,
   });
 }
@@ -0,0 +1,14 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReferenceRecord } from "@/lib/references";
+
+// Admin-only: resolves a PLI-, TX- or PO- reference to the record behind it
+export function useReferenceLookup() {
+  return useMutation({
+    mutationFn: async (reference: string) => {
+      const { data, error } = await supabase.rpc("lookup_reference", { _reference: reference });
+      if (error) throw new Error(error.message);
+      return data as unknown as ReferenceRecord;
+    },
+  });
+}
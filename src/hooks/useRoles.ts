@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { AppRole } from "@/lib/roles";
+
+// The signed-in user's roles from `user_roles`. RLS only returns the caller's own rows.
+export function useRoles() {
+  const { user, loading: authLoading } = useAuth();
+  const query = useQuery({
+    queryKey: ["roles", user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", user!.id);
+      if (error) throw error;
+      return (data || []).map(r => r.role);
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+  const roles: AppRole[] = query.data ?? [];
+  return {
+    user,
+    roles,
+    loading: authLoading || (!!user && query.isLoading),
+    hasRole: (role: AppRole) => roles.includes(role),
+  };
+}
@@ -0,0 +1,26 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// The signed-in user's sessions from `list_my_sessions`, newest activity first
+export function useSessions(userId?: string) {
+  return useQuery({
+    queryKey: ["sessions", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("list_my_sessions");
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase.rpc("revoke_session", { _session_id: sessionId });
+      if (error) throw new Error(error.message);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["sessions"] }),
+  });
+}
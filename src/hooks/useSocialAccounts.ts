@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEMO_MODE } from "@/lib/demo";
+import { invokeFunction } from "@/lib/edgeFunctions";
+import type { SocialAccountInput, SyncSummary } from "@/lib/social";
+
+export type SocialAccount = Tables<"social_accounts">;
+
+export function useSocialAccounts(userId?: string) {
+  return useQuery({
+    queryKey: ["social-accounts", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      if (DEMO_MODE) return [];
+      const { data, error } = await supabase.from("social_accounts").select("*").eq("user_id", userId!).order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useConnectSocialAccount() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ userId, input }: { userId: string; input: SocialAccountInput }) => {
+      const { error } = await supabase.from("social_accounts").insert({
+        user_id: userId,
+        platform: input.platform,
+        page_url: input.pageUrl,
+        page_id: input.pageId,
+        feed_url: input.feedUrl,
+        auto_sync: input.autoSync,
+      });
+      if (error) throw new Error(error.code === "23505" ? "That account is already connected" : error.message);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["social-accounts"] }),
+  });
+}
+
+export function useRemoveSocialAccount() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("social_accounts").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["social-accounts"] }),
+  });
+}
+
+// Syncs now, from an uploaded export or else the account's feed URL
+export function useSyncSocialAccount() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ accountId, file }: { accountId: string; file?: File }) => {
+      if (DEMO_MODE) throw new Error("Syncing is switched off while browsing demo data");
+      const body = file ? { account_id: accountId, file: { name: file.name, content: await file.text() } } : { account_id: accountId };
+      return invokeFunction<SyncSummary>("social-sync", body, "Could not sync the account");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["social-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["product-review"] });
+    },
+  });
+}
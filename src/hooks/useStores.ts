@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { StoreInput } from "@/lib/stores";
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_STORES } from "@/data/demo";
+
+export type Store = Tables<"stores">;
+
+const STORE_LOGOS_BUCKET = "store-logos";
+
+// A storefront by its link. RLS hides private and suspended stores from
+// everyone but their owner (and admins), so those come back as null.
+export function useStorefront(slug?: string) {
+  return useQuery({
+    queryKey: ["storefront", slug],
+    enabled: !!slug,
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_STORES.find(s => s.slug === slug) ?? null;
+      const { data, error } = await supabase.from("stores").select("*").eq("slug", slug!.toLowerCase()).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// The signed-in seller's store, or null before they set one up
+export function useMyStore(userId?: string) {
+  return useQuery({
+    queryKey: ["my-store", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_STORES.find(s => s.user_id === userId) ?? null;
+      const { data, error } = await supabase.from("stores").select("*").eq("user_id", userId!).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Every store, for assigning products in the admin catalogue
+export function useStores() {
+  return useQuery({
+    queryKey: ["stores"],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_STORES;
+      const { data, error } = await supabase.from("stores").select("*").order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useStoreSlugAvailable(slug?: string) {
+  return useQuery({
+    queryKey: ["store-slug-available", slug],
+    enabled: !!slug,
+    queryFn: async () => {
+      if (DEMO_MODE) return !DEMO_STORES.some(s => s.slug === slug);
+      const { data, error } = await supabase.rpc("store_slug_available", { _slug: slug! });
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 30_000,
+  });
+}
+
+// Saves the signed-in agent's store, uploading a new logo first
+export function useSaveStore() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ userId, input }: { userId: string; input: StoreInput }) => {
+      let logo = input.logo ?? null;
+      if (input.logoFile) {
+        const path = `${userId}/${Date.now()}.${input.logoFile.type.split("/")[1]}`;
+        const { error } = await supabase.storage.from(STORE_LOGOS_BUCKET).upload(path, input.logoFile, { contentType: input.logoFile.type });
+        if (error) throw new Error(error.message);
+        logo = supabase.storage.from(STORE_LOGOS_BUCKET).getPublicUrl(path).data.publicUrl;
+      }
+      const { data, error } = await supabase.rpc("save_my_store", {
+        _name: input.name,
+        _slug: input.slug,
+        _bio: input.bio || null,
+        _logo: logo,
+        _visibility: input.visibility,
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSuccess: store => {
+      queryClient.invalidateQueries({ queryKey: ["my-store"] });
+      queryClient.invalidateQueries({ queryKey: ["storefront"] });
+      queryClient.invalidateQueries({ queryKey: ["stores"] });
+      queryClient.invalidateQueries({ queryKey: ["store-slug-available", store.slug] });
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TierRule, TierStats } from "@/lib/tiers";
+import { DEMO_MODE } from "@/lib/demo";
+import { DEMO_TIER_RULES, demoWindowStats } from "@/data/demo";
+
+export function useTierRules() {
+  return useQuery({
+    queryKey: ["tier-rules"],
+    queryFn: async () => {
+      if (DEMO_MODE) return DEMO_TIER_RULES;
+      const { data, error } = await supabase.from("tier_rules").select("*").order("rank");
+      if (error) throw error;
+      return (data || []).map(r => ({
+        ...r,
+        commission_rate: Number(r.commission_rate),
+        min_revenue: Number(r.min_revenue),
+      })) as TierRule[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useAgentWindowStats(agentId?: string) {
+  return useQuery({
+    queryKey: ["agent-window-stats", agentId],
+    enabled: !!agentId,
+    queryFn: async () => {
+      if (DEMO_MODE) return demoWindowStats(agentId!);
+      const { data, error } = await supabase.rpc("agent_window_stats", { _agent_id: agentId! });
+      if (error) throw error;
+      const row = data?.[0];
+      return { sales: row?.sales ?? 0, revenue: Number(row?.revenue ?? 0), window_days: row?.window_days ?? 90 } as TierStats & { window_days: number };
+    },
+  });
+}
+
+export function useUpdateTierRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ tier, ...changes }: Pick<TierRule, "tier" | "commission_rate" | "min_sales" | "min_revenue">) => {
+      const { error } = await supabase.from("tier_rules").update(changes).eq("tier", tier);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["tier-rules"] }),
+  });
+}
+
+// Applies the current rules to every active agent; resolves to how many changed tier
+export function useEvaluateTiers() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("evaluate_all_agent_tiers");
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin-agents"] }),
+  });
+}
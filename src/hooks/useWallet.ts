@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEMO_MODE } from "@/lib/demo";
+import type { PendingCommission } from "@/lib/wallet";
+import { demoWallet } from "@/data/demo";
+
+export type Wallet = Pick<Tables<"wallets">, "available_balance" | "pending_balance" | "total_earned">;
+
+export type WalletWithPending = Wallet & { pending: PendingCommission[] };
+
+const EMPTY_WALLET: Wallet = { available_balance: 0, pending_balance: 0, total_earned: 0 };
+
+// The agent's available and pending balances, with the orders whose
+// commission is still held
+export function useWallet(agentId?: string) {
+  return useQuery({
+    queryKey: ["wallet", agentId],
+    enabled: !!agentId,
+    queryFn: async (): Promise<WalletWithPending> => {
+      if (DEMO_MODE) return demoWallet(agentId!);
+      const [wallet, pending] = await Promise.all([
+        supabase.from("wallets").select("available_balance, pending_balance, total_earned").eq("agent_id", agentId!).maybeSingle(),
+        supabase
+          .from("wallet_pending_commission")
+          .select("order_id, order_number, amount, available_at")
+          .eq("agent_id", agentId!)
+          .order("available_at", { ascending: true, nullsFirst: false }),
+      ]);
+      if (wallet.error) throw wallet.error;
+      if (pending.error) throw pending.error;
+      const w = wallet.data ?? EMPTY_WALLET;
+      return {
+        available_balance: Number(w.available_balance),
+        pending_balance: Number(w.pending_balance),
+        total_earned: Number(w.total_earned),
+        pending: (pending.data || []).map(p => ({ ...p, amount: Number(p.amount) })) as PendingCommission[],
+      };
+    },
+  });
+}
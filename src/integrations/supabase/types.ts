@@ -14,319 +14,1826 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_applications: {
+        Row: {
+          created_at: string
+          full_name: string
+          id: string
+          id_number: string
+          id_type: string
+          mpesa_phone: string
+          region: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          id?: string
+          id_number: string
+          id_type: string
+          mpesa_phone: string
+          region: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          id?: string
+          id_number?: string
+          id_type?: string
+          mpesa_phone?: string
+          region?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_applications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      agent_tier_history: {
+        Row: {
+          agent_id: string
+          created_at: string
+          from_rate: number
+          from_tier: Database["public"]["Enums"]["agent_tier"]
+          id: string
+          to_rate: number
+          to_tier: Database["public"]["Enums"]["agent_tier"]
+          window_revenue: number
+          window_sales: number
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          from_rate: number
+          from_tier: Database["public"]["Enums"]["agent_tier"]
+          id?: string
+          to_rate: number
+          to_tier: Database["public"]["Enums"]["agent_tier"]
+          window_revenue: number
+          window_sales: number
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          from_rate?: number
+          from_tier?: Database["public"]["Enums"]["agent_tier"]
+          id?: string
+          to_rate?: number
+          to_tier?: Database["public"]["Enums"]["agent_tier"]
+          window_revenue?: number
+          window_sales?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_tier_history_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agents: {
+        Row: {
+          commission_rate: number
+          created_at: string
+          id: string
+          mpesa_phone: string
+          pending_earnings: number
+          status: string
+          tier: Database["public"]["Enums"]["agent_tier"]
+          total_earned: number
+          total_sales: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          commission_rate?: number
+          created_at?: string
+          id?: string
+          mpesa_phone: string
+          pending_earnings?: number
+          status?: string
+          tier?: Database["public"]["Enums"]["agent_tier"]
+          total_earned?: number
+          total_sales?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          commission_rate?: number
+          created_at?: string
+          id?: string
+          mpesa_phone?: string
+          pending_earnings?: number
+          status?: string
+          tier?: Database["public"]["Enums"]["agent_tier"]
+          total_earned?: number
+          total_sales?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agents_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value?: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      cart_items: {
+        Row: {
+          cart_id: string
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          cart_id: string
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          updated_at?: string
+        }
+        Update: {
+          cart_id?: string
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_cart_id_fkey"
+            columns: ["cart_id"]
+            isOneToOne: false
+            referencedRelation: "carts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carts: {
+        Row: {
+          anon_token: string | null
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          anon_token?: string | null
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          anon_token?: string | null
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      commission_ledger: {
+        Row: {
+          agent_id: string
+          amount: number
+          created_at: string
+          description: string
+          entry_type: Database["public"]["Enums"]["commission_entry_type"]
+          id: string
+          order_id: string | null
+          payout_id: string | null
+          seq: number
+        }
+        Insert: {
+          agent_id: string
+          amount: number
+          created_at?: string
+          description: string
+          entry_type: Database["public"]["Enums"]["commission_entry_type"]
+          id?: string
+          order_id?: string | null
+          payout_id?: string | null
+          seq?: never
+        }
+        Update: {
+          agent_id?: string
+          amount?: number
+          created_at?: string
+          description?: string
+          entry_type?: Database["public"]["Enums"]["commission_entry_type"]
+          id?: string
+          order_id?: string | null
+          payout_id?: string | null
+          seq?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_ledger_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_ledger_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_ledger_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          commission_amount: number
+          created_at: string
+          id: string
+          line_total: number | null
+          order_id: string
+          product_id: string
+          product_name: string
+          quantity: number
+          unit_price: number
+        }
+        Insert: {
+          commission_amount?: number
+          created_at?: string
+          id?: string
+          line_total?: never
+          order_id: string
+          product_id: string
+          product_name: string
+          quantity?: number
+          unit_price: number
+        }
+        Update: {
+          commission_amount?: number
+          created_at?: string
+          id?: string
+          line_total?: never
+          order_id?: string
+          product_id?: string
+          product_name?: string
+          quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          courier: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+          tracking_number: string | null
+        }
+        Insert: {
+          changed_by?: string | null
+          courier?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+          tracking_number?: string | null
+        }
+        Update: {
+          changed_by?: string | null
+          courier?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+          tracking_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          access_token: string
+          agent_id: string | null
+          cancelled_at: string | null
+          checkout_request_id: string | null
+          commission_amount: number
+          commission_available_at: string | null
+          commission_finalized_at: string | null
+          commission_rate: number | null
+          courier: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          delivered_at: string | null
+          id: string
+          merchant_request_id: string | null
+          mpesa_ref: string | null
+          order_number: string
+          paid_at: string | null
+          payment_failure_reason: string | null
+          payment_phone: string | null
+          payment_requested_at: string | null
+          payment_status: Database["public"]["Enums"]["order_payment_status"]
+          review_reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          store_id: string | null
+          total_amount: number
+          tracking_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          access_token?: string
+          agent_id?: string | null
+          cancelled_at?: string | null
+          checkout_request_id?: string | null
+          commission_amount?: number
+          commission_available_at?: string | null
+          commission_finalized_at?: string | null
+          commission_rate?: number | null
+          courier?: string | null
+          created_at?: string
+          customer_id?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          delivered_at?: string | null
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_ref?: string | null
+          order_number: string
+          paid_at?: string | null
+          payment_failure_reason?: string | null
+          payment_phone?: string | null
+          payment_requested_at?: string | null
+          payment_status?: Database["public"]["Enums"]["order_payment_status"]
+          review_reason?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          store_id?: string | null
+          total_amount: number
+          tracking_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          access_token?: string
+          agent_id?: string | null
+          cancelled_at?: string | null
+          checkout_request_id?: string | null
+          commission_amount?: number
+          commission_available_at?: string | null
+          commission_finalized_at?: string | null
+          commission_rate?: number | null
+          courier?: string | null
+          created_at?: string
+          customer_id?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          delivered_at?: string | null
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_ref?: string | null
+          order_number?: string
+          paid_at?: string | null
+          payment_failure_reason?: string | null
+          payment_phone?: string | null
+          payment_requested_at?: string | null
+          payment_status?: Database["public"]["Enums"]["order_payment_status"]
+          review_reason?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+          store_id?: string | null
+          total_amount?: number
+          tracking_number?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       otp_codes: {
         Row: {
           attempts: number
-          code: string
+          code_hash: string
           consumed_at: string | null
           created_at: string
-          expires_at: string
+          expires_at: string
+          id: string
+          phone: string
+          purpose: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          phone: string
+          purpose: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone?: string
+          purpose?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      payout_disbursements: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          originator_conversation_id: string
+          payout_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          originator_conversation_id: string
+          payout_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          originator_conversation_id?: string
+          payout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_disbursements_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: true
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payouts: {
+        Row: {
+          agent_id: string
+          amount: number
+          approved_by: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          mpesa_ref: string | null
+          paid_at: string | null
+          payout_ref: string
+          phone: string | null
+          requested_by: string | null
+          status: Database["public"]["Enums"]["payout_status"]
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          amount: number
+          approved_by?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          mpesa_ref?: string | null
+          paid_at?: string | null
+          payout_ref?: string
+          phone?: string | null
+          requested_by?: string | null
+          status?: Database["public"]["Enums"]["payout_status"]
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          mpesa_ref?: string | null
+          paid_at?: string | null
+          payout_ref?: string
+          phone?: string | null
+          requested_by?: string | null
+          status?: Database["public"]["Enums"]["payout_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          ai_confidence_score: number | null
+          archived_at: string | null
+          badge: string | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          emoji: string | null
+          extraction_warnings: string[]
+          id: string
+          image_url: string | null
+          images: string[]
+          is_active: boolean
+          merged_into: string | null
+          missing_fields: string[]
+          name: string
+          original_price: number | null
+          price: number | null
+          rating: number | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_type: string | null
+          source_url: string | null
+          status: string
+          stock: number
+          store_id: string | null
+          total_sold: number
+          updated_at: string
+        }
+        Insert: {
+          ai_confidence_score?: number | null
+          archived_at?: string | null
+          badge?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          emoji?: string | null
+          extraction_warnings?: string[]
+          id?: string
+          image_url?: string | null
+          images?: string[]
+          is_active?: boolean
+          merged_into?: string | null
+          missing_fields?: string[]
+          name: string
+          original_price?: number | null
+          price?: number | null
+          rating?: number | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_type?: string | null
+          source_url?: string | null
+          status?: string
+          stock?: number
+          store_id?: string | null
+          total_sold?: number
+          updated_at?: string
+        }
+        Update: {
+          ai_confidence_score?: number | null
+          archived_at?: string | null
+          badge?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          emoji?: string | null
+          extraction_warnings?: string[]
+          id?: string
+          image_url?: string | null
+          images?: string[]
+          is_active?: boolean
+          merged_into?: string | null
+          missing_fields?: string[]
+          name?: string
+          original_price?: number | null
+          price?: number | null
+          rating?: number | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_type?: string | null
+          source_url?: string | null
+          status?: string
+          stock?: number
+          store_id?: string | null
+          total_sold?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          full_name: string
+          id: string
+          phone: string | null
+          phone_verified_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name: string
+          id?: string
+          phone?: string | null
+          phone_verified_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          phone_verified_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      social_accounts: {
+        Row: {
+          auto_sync: boolean
+          created_at: string
+          feed_url: string | null
+          id: string
+          last_sync_error: string | null
+          last_sync_summary: Json | null
+          last_synced_at: string | null
+          page_id: string | null
+          page_url: string
+          platform: string
+          sync_started_at: string | null
+          sync_status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_sync?: boolean
+          created_at?: string
+          feed_url?: string | null
+          id?: string
+          last_sync_error?: string | null
+          last_sync_summary?: Json | null
+          last_synced_at?: string | null
+          page_id?: string | null
+          page_url: string
+          platform: string
+          sync_started_at?: string | null
+          sync_status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_sync?: boolean
+          created_at?: string
+          feed_url?: string | null
+          id?: string
+          last_sync_error?: string | null
+          last_sync_summary?: Json | null
+          last_synced_at?: string | null
+          page_id?: string | null
+          page_url?: string
+          platform?: string
+          sync_started_at?: string | null
+          sync_status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stock_reservations: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          status: Database["public"]["Enums"]["reservation_status"]
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          status?: Database["public"]["Enums"]["reservation_status"]
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          order_id?: string
+          product_id?: string
+          quantity?: number
+          status?: Database["public"]["Enums"]["reservation_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stores: {
+        Row: {
+          bio: string | null
+          created_at: string
+          id: string
+          logo: string | null
+          name: string
+          slug: string
+          status: string
+          updated_at: string
+          user_id: string
+          visibility: string
+        }
+        Insert: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          logo?: string | null
+          name: string
+          slug: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          visibility?: string
+        }
+        Update: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          logo?: string | null
+          name?: string
+          slug?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          visibility?: string
+        }
+        Relationships: []
+      }
+      tier_rules: {
+        Row: {
+          commission_rate: number
+          min_revenue: number
+          min_sales: number
+          perks: string | null
+          rank: number
+          tier: Database["public"]["Enums"]["agent_tier"]
+          updated_at: string
+        }
+        Insert: {
+          commission_rate: number
+          min_revenue?: number
+          min_sales?: number
+          perks?: string | null
+          rank: number
+          tier: Database["public"]["Enums"]["agent_tier"]
+          updated_at?: string
+        }
+        Update: {
+          commission_rate?: number
+          min_revenue?: number
+          min_sales?: number
+          perks?: string | null
+          rank?: number
+          tier?: Database["public"]["Enums"]["agent_tier"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          agent_id: string | null
+          amount: number
+          created_at: string
+          id: string
+          metadata: Json | null
+          mpesa_ref: string | null
+          order_id: string | null
+          status: Database["public"]["Enums"]["transaction_status"]
+          transaction_ref: string
+          type: Database["public"]["Enums"]["transaction_type"]
+        }
+        Insert: {
+          agent_id?: string | null
+          amount: number
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          mpesa_ref?: string | null
+          order_id?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
+          transaction_ref: string
+          type: Database["public"]["Enums"]["transaction_type"]
+        }
+        Update: {
+          agent_id?: string | null
+          amount?: number
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          mpesa_ref?: string | null
+          order_id?: string | null
+          status?: Database["public"]["Enums"]["transaction_status"]
+          transaction_ref?: string
+          type?: Database["public"]["Enums"]["transaction_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      wallets: {
+        Row: {
+          agent_id: string
+          available_balance: number
+          created_at: string
+          pending_balance: number
+          total_earned: number
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          available_balance?: number
+          created_at?: string
+          pending_balance?: number
+          total_earned?: number
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          available_balance?: number
+          created_at?: string
+          pending_balance?: number
+          total_earned?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallets_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: true
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      agent_ledger_balances: {
+        Row: {
+          agent_id: string | null
+          in_balance: boolean | null
+          ledger_earned: number | null
+          ledger_pending: number | null
+          pending_earnings: number | null
+          total_earned: number | null
+        }
+        Relationships: []
+      }
+      commission_statement: {
+        Row: {
+          agent_id: string | null
+          amount: number | null
+          balance: number | null
+          created_at: string | null
+          description: string | null
+          entry_type: Database["public"]["Enums"]["commission_entry_type"] | null
+          id: string | null
+          order_id: string | null
+          order_number: string | null
+          payout_id: string | null
+          payout_ref: string | null
+          seq: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_ledger_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_ledger_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_ledger_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_pending_commission: {
+        Row: {
+          agent_id: string | null
+          amount: number | null
+          available_at: string | null
+          delivered_at: string | null
+          earned_at: string | null
+          order_id: string | null
+          order_number: string | null
+          order_status: Database["public"]["Enums"]["order_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_ledger_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      agent_window_stats: {
+        Args: {
+          _agent_id: string
+        }
+        Returns: {
+          revenue: number
+          sales: number
+          window_days: number
+        }[]
+      }
+      agent_withdrawable_earnings: {
+        Args: {
+          _agent_id: string
+        }
+        Returns: number
+      }
+      approve_agent_application: {
+        Args: {
+          _application_id: string
+        }
+        Returns: {
+          commission_rate: number
+          created_at: string
+          id: string
+          mpesa_phone: string
+          pending_earnings: number
+          status: string
+          tier: Database["public"]["Enums"]["agent_tier"]
+          total_earned: number
+          total_sales: number
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "agents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      approve_product: {
+        Args: {
+          _product_id: string
+        }
+        Returns: {
+          ai_confidence_score: number | null
+          archived_at: string | null
+          badge: string | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          emoji: string | null
+          extraction_warnings: string[]
+          id: string
+          image_url: string | null
+          images: string[]
+          is_active: boolean
+          merged_into: string | null
+          missing_fields: string[]
+          name: string
+          original_price: number | null
+          price: number | null
+          rating: number | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_type: string | null
+          source_url: string | null
+          status: string
+          stock: number
+          store_id: string | null
+          total_sold: number
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      available_stock: {
+        Args: {
+          _product_id: string
+        }
+        Returns: number
+      }
+      check_otp: {
+        Args: {
+          _code_hash: string
+          _phone: string
+          _purpose: string
+          _user_id?: string
+        }
+        Returns: string
+      }
+      clear_cart: {
+        Args: {
+          _anon_token?: string
+        }
+        Returns: undefined
+      }
+      compute_agent_window_stats: {
+        Args: {
+          _agent_id: string
+        }
+        Returns: {
+          revenue: number
+          sales: number
+          window_days: number
+        }[]
+      }
+      create_order: {
+        Args: {
+          _agent_id?: string
+          _customer_id?: string
+          _customer_name?: string
+          _items: Json
+          _phone: string
+          _store_id?: string
+        }
+        Returns: {
+          access_token: string
+          agent_id: string | null
+          cancelled_at: string | null
+          checkout_request_id: string | null
+          commission_amount: number
+          commission_available_at: string | null
+          commission_finalized_at: string | null
+          commission_rate: number | null
+          courier: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          delivered_at: string | null
           id: string
-          phone: string
+          merchant_request_id: string | null
+          mpesa_ref: string | null
+          order_number: string
+          paid_at: string | null
+          payment_failure_reason: string | null
+          payment_phone: string | null
+          payment_requested_at: string | null
+          payment_status: Database["public"]["Enums"]["order_payment_status"]
+          review_reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          store_id: string | null
+          total_amount: number
+          tracking_number: string | null
+          updated_at: string
         }
-        Insert: {
-          attempts?: number
-          code: string
-          consumed_at?: string | null
-          created_at?: string
-          expires_at: string
-          id?: string
-          phone: string
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          attempts?: number
-          code?: string
-          consumed_at?: string | null
-          created_at?: string
-          expires_at?: string
-          id?: string
-          phone?: string
+      }
+      evaluate_agent_tier: {
+        Args: {
+          _agent_id: string
+        }
+        Returns: {
+          commission_rate: number
+          created_at: string
+          id: string
+          mpesa_phone: string
+          pending_earnings: number
+          status: string
+          tier: Database["public"]["Enums"]["agent_tier"]
+          total_earned: number
+          total_sales: number
+          updated_at: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "agents"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Relationships: []
       }
-      products: {
-        Row: {
+      evaluate_all_agent_tiers: {
+        Args: never
+        Returns: number
+      }
+      generate_payout_ref: {
+        Args: never
+        Returns: string
+      }
+      generate_transaction_ref: {
+        Args: never
+        Returns: string
+      }
+      get_cart: {
+        Args: {
+          _anon_token?: string
+        }
+        Returns: {
+          available: number
+          emoji: string
+          image_url: string
+          name: string
+          price: number
+          product_id: string
+          quantity: number
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_store_slug: {
+        Args: {
+          _slug: string
+        }
+        Returns: boolean
+      }
+      issue_otp: {
+        Args: {
+          _code_hash: string
+          _phone: string
+          _purpose: string
+          _user_id?: string
+        }
+        Returns: Json
+      }
+      list_my_sessions: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          last_active_at: string
+          user_agent: string
+        }[]
+      }
+      lookup_reference: {
+        Args: {
+          _reference: string
+        }
+        Returns: Json
+      }
+      luhn_check_digit: {
+        Args: {
+          _digits: string
+        }
+        Returns: number
+      }
+      merge_product_draft: {
+        Args: {
+          _draft_id: string
+          _target_id: string
+        }
+        Returns: {
           ai_confidence_score: number | null
+          archived_at: string | null
+          badge: string | null
+          category_id: string | null
           created_at: string
+          created_by: string | null
           description: string | null
-          extraction_warnings: string[] | null
+          emoji: string | null
+          extraction_warnings: string[]
           id: string
-          images: string[] | null
-          missing_fields: string[] | null
+          image_url: string | null
+          images: string[]
+          is_active: boolean
+          merged_into: string | null
+          missing_fields: string[]
           name: string
+          original_price: number | null
           price: number | null
+          rating: number | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           source_type: string | null
           source_url: string | null
-          status: string | null
-          store_id: string
+          status: string
+          stock: number
+          store_id: string | null
+          total_sold: number
           updated_at: string
         }
-        Insert: {
-          ai_confidence_score?: number | null
-          created_at?: string
-          description?: string | null
-          extraction_warnings?: string[] | null
-          id?: string
-          images?: string[] | null
-          missing_fields?: string[] | null
-          name: string
-          price?: number | null
-          source_type?: string | null
-          source_url?: string | null
-          status?: string | null
-          store_id: string
-          updated_at?: string
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          ai_confidence_score?: number | null
-          created_at?: string
-          description?: string | null
-          extraction_warnings?: string[] | null
-          id?: string
-          images?: string[] | null
-          missing_fields?: string[] | null
-          name?: string
-          price?: number | null
-          source_type?: string | null
-          source_url?: string | null
-          status?: string | null
-          store_id?: string
-          updated_at?: string
+      }
+      next_reference: {
+        Args: {
+          _kind: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "products_store_id_fkey"
-            columns: ["store_id"]
-            isOneToOne: false
-            referencedRelation: "stores"
-            referencedColumns: ["id"]
-          },
-        ]
+        Returns: string
       }
-      profiles: {
-        Row: {
-          avatar_url: string | null
+      normalize_msisdn: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      reject_agent_application: {
+        Args: {
+          _application_id: string
+          _reason: string
+        }
+        Returns: {
           created_at: string
-          email: string | null
+          full_name: string
           id: string
-          is_active: boolean | null
-          is_verified: boolean | null
-          name: string
-          phone: string | null
-          role: string
+          id_number: string
+          id_type: string
+          mpesa_phone: string
+          region: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["application_status"]
           updated_at: string
           user_id: string
         }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          is_active?: boolean | null
-          is_verified?: boolean | null
+        SetofOptions: {
+          from: "*"
+          to: "agent_applications"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      reject_payout_request: {
+        Args: {
+          _payout_id: string
+          _reason: string
+        }
+        Returns: {
+          agent_id: string
+          amount: number
+          approved_by: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          mpesa_ref: string | null
+          paid_at: string | null
+          payout_ref: string
+          phone: string | null
+          requested_by: string | null
+          status: Database["public"]["Enums"]["payout_status"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      reject_product: {
+        Args: {
+          _note: string
+          _product_id: string
+        }
+        Returns: {
+          ai_confidence_score: number | null
+          archived_at: string | null
+          badge: string | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          emoji: string | null
+          extraction_warnings: string[]
+          id: string
+          image_url: string | null
+          images: string[]
+          is_active: boolean
+          merged_into: string | null
+          missing_fields: string[]
           name: string
-          phone?: string | null
-          role?: string
-          updated_at?: string
-          user_id: string
+          original_price: number | null
+          price: number | null
+          rating: number | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_type: string | null
+          source_url: string | null
+          status: string
+          stock: number
+          store_id: string | null
+          total_sold: number
+          updated_at: string
         }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          is_active?: boolean | null
-          is_verified?: boolean | null
-          name?: string
-          phone?: string | null
-          role?: string
-          updated_at?: string
-          user_id?: string
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Relationships: []
       }
-      social_accounts: {
-        Row: {
+      release_matured_commission: {
+        Args: {
+          _agent_id?: string
+        }
+        Returns: number
+      }
+      request_payout: {
+        Args: {
+          _amount?: number
+        }
+        Returns: {
+          agent_id: string
+          amount: number
+          approved_by: string | null
           created_at: string
+          failure_reason: string | null
           id: string
-          last_synced_at: string | null
-          page_id: string | null
-          page_url: string
-          platform: string
-          store_id: string
-          sync_status: string | null
+          mpesa_ref: string | null
+          paid_at: string | null
+          payout_ref: string
+          phone: string | null
+          requested_by: string | null
+          status: Database["public"]["Enums"]["payout_status"]
           updated_at: string
         }
-        Insert: {
-          created_at?: string
-          id?: string
-          last_synced_at?: string | null
-          page_id?: string | null
-          page_url: string
-          platform: string
-          store_id: string
-          sync_status?: string | null
-          updated_at?: string
+        SetofOptions: {
+          from: "*"
+          to: "payouts"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          created_at?: string
-          id?: string
-          last_synced_at?: string | null
-          page_id?: string | null
-          page_url?: string
-          platform?: string
-          store_id?: string
-          sync_status?: string | null
-          updated_at?: string
+      }
+      reserve_order_stock: {
+        Args: {
+          _order_id: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "social_accounts_store_id_fkey"
-            columns: ["store_id"]
-            isOneToOne: false
-            referencedRelation: "stores"
-            referencedColumns: ["id"]
-          },
-        ]
+        Returns: undefined
       }
-      stores: {
-        Row: {
+      resolve_cart: {
+        Args: {
+          _anon_token: string
+          _create: boolean
+        }
+        Returns: string
+      }
+      revoke_session: {
+        Args: {
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      save_my_store: {
+        Args: {
+          _bio?: string
+          _logo?: string
+          _name: string
+          _slug: string
+          _visibility?: string
+        }
+        Returns: {
           bio: string | null
           created_at: string
           id: string
           logo: string | null
           name: string
           slug: string
-          status: string | null
+          status: string
           updated_at: string
           user_id: string
-          visibility: string | null
+          visibility: string
         }
-        Insert: {
-          bio?: string | null
-          created_at?: string
-          id?: string
-          logo?: string | null
-          name: string
-          slug: string
-          status?: string | null
-          updated_at?: string
-          user_id: string
-          visibility?: string | null
+        SetofOptions: {
+          from: "*"
+          to: "stores"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          bio?: string | null
-          created_at?: string
-          id?: string
-          logo?: string | null
-          name?: string
-          slug?: string
-          status?: string | null
-          updated_at?: string
-          user_id?: string
-          visibility?: string | null
+      }
+      set_cart_item: {
+        Args: {
+          _anon_token?: string
+          _product_id: string
+          _quantity: number
         }
-        Relationships: []
+        Returns: {
+          available: number
+          emoji: string
+          image_url: string
+          name: string
+          price: number
+          product_id: string
+          quantity: number
+        }[]
       }
-      transactions: {
-        Row: {
+      settle_b2c_payout: {
+        Args: {
+          _metadata?: Json
+          _mpesa_ref?: string
+          _originator_conversation_id: string
+          _result_code: number
+          _result_desc: string
+        }
+        Returns: {
+          agent_id: string
           amount: number
-          buyer_email: string | null
-          buyer_id: string | null
-          buyer_name: string | null
-          buyer_phone: string | null
+          approved_by: string | null
           created_at: string
-          description: string | null
-          estimated_delivery: string | null
-          id: string
-          item_name: string
-          payment_method: string | null
-          payment_reference: string | null
-          seller_id: string
-          shipping_courier: string | null
-          status: string | null
+          failure_reason: string | null
+          id: string
+          mpesa_ref: string | null
+          paid_at: string | null
+          payout_ref: string
+          phone: string | null
+          requested_by: string | null
+          status: Database["public"]["Enums"]["payout_status"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "payouts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      settle_stk_payment: {
+        Args: {
+          _checkout_request_id: string
+          _metadata?: Json
+          _mpesa_receipt?: string
+          _result_code: number
+          _result_desc: string
+        }
+        Returns: {
+          access_token: string
+          agent_id: string | null
+          cancelled_at: string | null
+          checkout_request_id: string | null
+          commission_amount: number
+          commission_available_at: string | null
+          commission_finalized_at: string | null
+          commission_rate: number | null
+          courier: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          delivered_at: string | null
+          id: string
+          merchant_request_id: string | null
+          mpesa_ref: string | null
+          order_number: string
+          paid_at: string | null
+          payment_failure_reason: string | null
+          payment_phone: string | null
+          payment_requested_at: string | null
+          payment_status: Database["public"]["Enums"]["order_payment_status"]
+          review_reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          store_id: string | null
+          total_amount: number
           tracking_number: string | null
           updated_at: string
         }
-        Insert: {
-          amount: number
-          buyer_email?: string | null
-          buyer_id?: string | null
-          buyer_name?: string | null
-          buyer_phone?: string | null
-          created_at?: string
-          description?: string | null
-          estimated_delivery?: string | null
-          id?: string
-          item_name: string
-          payment_method?: string | null
-          payment_reference?: string | null
-          seller_id: string
-          shipping_courier?: string | null
-          status?: string | null
-          tracking_number?: string | null
-          updated_at?: string
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          amount?: number
-          buyer_email?: string | null
-          buyer_id?: string | null
-          buyer_name?: string | null
-          buyer_phone?: string | null
-          created_at?: string
-          description?: string | null
-          estimated_delivery?: string | null
-          id?: string
-          item_name?: string
-          payment_method?: string | null
-          payment_reference?: string | null
-          seller_id?: string
-          shipping_courier?: string | null
-          status?: string | null
-          tracking_number?: string | null
-          updated_at?: string
+      }
+      store_slug_available: {
+        Args: {
+          _slug: string
         }
-        Relationships: []
+        Returns: boolean
       }
-      wallets: {
-        Row: {
-          available_balance: number | null
+      submit_agent_application: {
+        Args: {
+          _full_name: string
+          _id_number: string
+          _id_type: string
+          _mpesa_phone: string
+          _region: string
+        }
+        Returns: {
           created_at: string
+          full_name: string
           id: string
-          pending_balance: number | null
-          total_earned: number | null
+          id_number: string
+          id_type: string
+          mpesa_phone: string
+          region: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["application_status"]
           updated_at: string
           user_id: string
         }
-        Insert: {
-          available_balance?: number | null
-          created_at?: string
-          id?: string
-          pending_balance?: number | null
-          total_earned?: number | null
-          updated_at?: string
-          user_id: string
+        SetofOptions: {
+          from: "*"
+          to: "agent_applications"
+          isOneToOne: true
+          isSetofReturn: false
         }
-        Update: {
-          available_balance?: number | null
-          created_at?: string
-          id?: string
-          pending_balance?: number | null
-          total_earned?: number | null
-          updated_at?: string
-          user_id?: string
+      }
+      track_order: {
+        Args: {
+          _access_token?: string
+          _order_number: string
+          _phone?: string
         }
-        Relationships: []
+        Returns: Json
+      }
+      transition_order: {
+        Args: {
+          _courier?: string
+          _note?: string
+          _order_id: string
+          _status: Database["public"]["Enums"]["order_status"]
+          _tracking_number?: string
+        }
+        Returns: {
+          access_token: string
+          agent_id: string | null
+          cancelled_at: string | null
+          checkout_request_id: string | null
+          commission_amount: number
+          commission_available_at: string | null
+          commission_finalized_at: string | null
+          commission_rate: number | null
+          courier: string | null
+          created_at: string
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          delivered_at: string | null
+          id: string
+          merchant_request_id: string | null
+          mpesa_ref: string | null
+          order_number: string
+          paid_at: string | null
+          payment_failure_reason: string | null
+          payment_phone: string | null
+          payment_requested_at: string | null
+          payment_status: Database["public"]["Enums"]["order_payment_status"]
+          review_reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          store_id: string | null
+          total_amount: number
+          tracking_number: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "orders"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      user_id_for_phone: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
     }
     Enums: {
-      [_ in never]: never
+      agent_tier: "Bronze" | "Silver" | "Gold" | "Platinum"
+      app_role: "admin" | "agent" | "customer"
+      application_status: "pending" | "approved" | "rejected"
+      commission_entry_type: "accrual" | "reversal" | "clawback" | "payout" | "adjustment"
+      order_payment_status: "unpaid" | "awaiting_payment" | "paid" | "failed" | "timed_out"
+      order_status: "pending" | "processing" | "delivered" | "cancelled"
+      payout_status: "pending" | "processing" | "paid" | "failed"
+      reservation_status: "active" | "released" | "consumed"
+      transaction_status: "pending" | "completed" | "failed"
+      transaction_type: "C2B" | "B2C"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -453,6 +1960,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      agent_tier: ["Bronze", "Silver", "Gold", "Platinum"],
+      app_role: ["admin", "agent", "customer"],
+      application_status: ["pending", "approved", "rejected"],
+      commission_entry_type: ["accrual", "reversal", "clawback", "payout", "adjustment"],
+      order_payment_status: ["unpaid", "awaiting_payment", "paid", "failed", "timed_out"],
+      order_status: ["pending", "processing", "delivered", "cancelled"],
+      payout_status: ["pending", "processing", "paid", "failed"],
+      reservation_status: ["active", "released", "consumed"],
+      transaction_status: ["pending", "completed", "failed"],
+      transaction_type: ["C2B", "B2C"],
+    },
   },
 } as const
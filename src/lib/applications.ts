@@ -0,0 +1,41 @@
+// Options and validation for the agent application form. The server
+// re-validates everything in `submit_agent_application`.
+import { z } from "zod";
+import { mpesaPhoneSchema } from "@/lib/phone";
+
+export const ID_TYPES = [
+  { value: "national_id", label: "National ID" },
+  { value: "passport", label: "Passport" },
+  { value: "alien_id", label: "Alien ID" },
+] as const;
+
+export type IdType = (typeof ID_TYPES)[number]["value"];
+
+export const idTypeLabel = (value: string) => ID_TYPES.find(t => t.value === value)?.label ?? value;
+
+export const KENYA_COUNTIES = [
+  "Baringo", "Bomet", "Bungoma", "Busia", "Elgeyo-Marakwet", "Embu", "Garissa", "Homa Bay", "Isiolo", "Kajiado",
+  "Kakamega", "Kericho", "Kiambu", "Kilifi", "Kirinyaga", "Kisii", "Kisumu", "Kitui", "Kwale", "Laikipia",
+  "Lamu", "Machakos", "Makueni", "Mandera", "Marsabit", "Meru", "Migori", "Mombasa", "Murang'a", "Nairobi",
+  "Nakuru", "Nandi", "Narok", "Nyamira", "Nyandarua", "Nyeri", "Samburu", "Siaya", "Taita-Taveta", "Tana River",
+  "Tharaka-Nithi", "Trans Nzoia", "Turkana", "Uasin Gishu", "Vihiga", "Wajir", "West Pokot",
+];
+
+export const applicationSchema = z
+  .object({
+    fullName: z.string().trim().min(3, "Enter your full name as it appears on your ID"),
+    mpesaPhone: mpesaPhoneSchema,
+    idType: z.enum(["national_id", "passport", "alien_id"]),
+    idNumber: z.string().transform(v => v.replace(/\s/g, "").toUpperCase()),
+    region: z.string().min(1, "Choose the county you'll sell in"),
+  })
+  .superRefine((v, ctx) => {
+    if (v.idType === "national_id" && !/^\d{6,9}$/.test(v.idNumber)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["idNumber"], message: "A national ID number is 6 to 9 digits" });
+    } else if (!/^[A-Z0-9]{6,12}$/.test(v.idNumber)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["idNumber"], message: "Enter a valid ID or passport number" });
+    }
+  });
+
+export type ApplicationForm = z.input<typeof applicationSchema>;
+export type ApplicationInput = z.output<typeof applicationSchema>;
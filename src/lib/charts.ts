@@ -0,0 +1,43 @@
+// Buckets for the dashboard bar charts. Dates are bucketed in the browser's
+// local time; the oldest bucket comes first and the current one last.
+
+type LedgerEntry = { entry_type: string; amount: number; created_at: string };
+type MoneyMovement = { type: string; status: string; amount: number; created_at: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+// Commission accrued on each of the last seven days, today included
+export function weeklyEarnings(entries: LedgerEntry[], now = new Date()) {
+  const today = startOfDay(now).getTime();
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(today - (6 - i) * DAY_MS);
+    return { day: date.toLocaleDateString("en-US", { weekday: "short" }), sales: 0, earnings: 0 };
+  });
+  for (const e of entries) {
+    if (e.entry_type !== "accrual") continue;
+    const index = 6 - Math.round((today - startOfDay(new Date(e.created_at)).getTime()) / DAY_MS);
+    if (index < 0 || index > 6) continue;
+    days[index].sales += 1;
+    days[index].earnings += Number(e.amount);
+  }
+  return days;
+}
+
+// Completed M-Pesa collections (C2B) and disbursements (B2C) per calendar month
+export function monthlyTotals(transactions: MoneyMovement[], now = new Date(), months = 7) {
+  const buckets = Array.from({ length: months }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (months - 1 - i), 1);
+    return { key: date.getFullYear() * 12 + date.getMonth(), month: date.toLocaleDateString("en-US", { month: "short" }), revenue: 0, payouts: 0 };
+  });
+  for (const t of transactions) {
+    if (t.status !== "completed") continue;
+    const date = new Date(t.created_at);
+    const bucket = buckets.find(b => b.key === date.getFullYear() * 12 + date.getMonth());
+    if (!bucket) continue;
+    if (t.type === "C2B") bucket.revenue += Number(t.amount);
+    if (t.type === "B2C") bucket.payouts += Number(t.amount);
+  }
+  return buckets.map(({ month, revenue, payouts }) => ({ month, revenue, payouts }));
+}
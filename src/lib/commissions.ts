@@ -0,0 +1,10 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+// How each commission ledger entry reads on the agent and admin statements
+export const ENTRY_LABEL: Record<Enums<"commission_entry_type">, string> = {
+  accrual: "Commission",
+  reversal: "Reversed",
+  clawback: "Clawed back",
+  payout: "Paid out",
+  adjustment: "Adjustment",
+};
@@ -0,0 +1,26 @@
+// Demo mode serves every read hook from the fixtures in `src/data/demo.ts`
+// instead of Supabase. It is on for the whole build with VITE_DEMO_MODE=true,
+// or for one browser tab after visiting any page with ?demo=1 (?demo=0 ends it).
+
+const DEMO_KEY = "payloom.demo";
+
+type DemoStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export function resolveDemoMode(envFlag: string | undefined, search: string, storage: DemoStorage) {
+  if (envFlag === "true") return true;
+  const param = new URLSearchParams(search).get("demo");
+  if (param === "1") storage.setItem(DEMO_KEY, "1");
+  if (param === "0") storage.removeItem(DEMO_KEY);
+  return storage.getItem(DEMO_KEY) === "1";
+}
+
+export const DEMO_FORCED = import.meta.env.VITE_DEMO_MODE === "true";
+
+export const DEMO_MODE = resolveDemoMode(import.meta.env.VITE_DEMO_MODE, window.location.search, sessionStorage);
+
+// Reloads the current page with real data
+export function exitDemoMode() {
+  const url = new URL(window.location.href);
+  url.searchParams.set("demo", "0");
+  window.location.replace(url.toString());
+}
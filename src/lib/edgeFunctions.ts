@@ -0,0 +1,13 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Calls a Supabase edge function and surfaces its `{ error }` body as the thrown message.
+export async function invokeFunction<T>(name: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, { body });
+  if (error) {
+    // Non-2xx responses come back as a FunctionsHttpError wrapping the Response
+    const context = (error as { context?: Response }).context;
+    const payload = context && typeof context.json === "function" ? await context.json().catch(() => null) : null;
+    throw new Error(payload?.error || fallbackMessage);
+  }
+  return data as T;
+}
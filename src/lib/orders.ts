@@ -0,0 +1,10 @@
+// One-line description of an order's contents for lists, e.g. "Air Max ×2 + 1 more"
+
+type Line = { product_name: string; quantity: number };
+
+export function summarizeItems(items: Line[] | null | undefined): string {
+  if (!items?.length) return "No items";
+  const [first, ...rest] = items;
+  const head = first.quantity > 1 ? `${first.product_name} ×${first.quantity}` : first.product_name;
+  return rest.length ? `${head} + ${rest.length} more` : head;
+}
@@ -0,0 +1,35 @@
+// Phone parsing lives with the edge functions so checkout, payouts and OTP
+// accept exactly the numbers the browser lets through. This adds the zod
+// schemas the forms validate with.
+import { z } from "zod";
+import { carrierOf, parsePhone, toE164 } from "../../supabase/functions/_shared/phone";
+
+export { carrierOf, formatPhone, maskPhone, parsePhone, toDarajaMsisdn, toE164, toMsisdn } from "../../supabase/functions/_shared/phone";
+export type { Carrier, KenyanPhone } from "../../supabase/functions/_shared/phone";
+
+export const PHONE_EXAMPLE = "0712 345 678";
+
+// Any Safaricom or Airtel number, normalised to E.164
+export const phoneSchema = z
+  .string()
+  .trim()
+  .min(1, "Enter your phone number")
+  .refine(v => parsePhone(v) !== null, `Enter a valid Safaricom or Airtel number, e.g. ${PHONE_EXAMPLE}`)
+  .transform(v => toE164(v)!);
+
+// A number that can receive or send M-Pesa, normalised to E.164
+export const mpesaPhoneSchema = z
+  .string()
+  .trim()
+  .min(1, "Enter your M-Pesa number")
+  .superRefine((v, ctx) => {
+    const carrier = carrierOf(v);
+    if (carrier === "safaricom") return;
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: carrier === "airtel"
+        ? "M-Pesa needs a Safaricom number. Airtel numbers can't use M-Pesa"
+        : `Enter a valid Safaricom number, e.g. ${PHONE_EXAMPLE}`,
+    });
+  })
+  .transform(v => toE164(v)!);
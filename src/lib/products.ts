@@ -0,0 +1,59 @@
+// Options and validation for the admin product form. The table's CHECK
+// constraints and the storage bucket's limits back these up on the server.
+import { z } from "zod";
+
+export const PRODUCT_BADGES = ["Hot", "Sale", "New"] as const;
+
+export const PRODUCT_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const PRODUCT_IMAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+// Empty inputs come through as "", which z.coerce would turn into 0
+const money = (message: string) => z.coerce.number({ invalid_type_error: message }).positive(message);
+const blankToNull = (v: unknown) => (v === "" || v == null ? null : v);
+
+export const productSchema = z
+  .object({
+    name: z.string().trim().min(2, "Give the product a name"),
+    description: z.string().trim().optional(),
+    price: z.preprocess(blankToNull, money("Enter a price above 0")),
+    originalPrice: z.preprocess(blankToNull, money("Enter a price above 0").nullable()),
+    stock: z.coerce.number({ invalid_type_error: "Enter how many are in stock" }).int("Stock is a whole number").min(0, "Stock can't be negative"),
+    categoryId: z.preprocess(blankToNull, z.string().uuid().nullable()),
+    storeId: z.preprocess(blankToNull, z.string().uuid().nullable()),
+    badge: z.preprocess(blankToNull, z.enum(PRODUCT_BADGES).nullable()),
+    emoji: z.string().trim().max(8, "Use a single emoji").optional(),
+    imageUrl: z.string().nullable().optional(),
+    image: z
+      .instanceof(File)
+      .refine(f => PRODUCT_IMAGE_TYPES.includes(f.type), "Upload a JPEG, PNG or WebP image")
+      .refine(f => f.size <= PRODUCT_IMAGE_MAX_BYTES, "Images can be up to 2 MB")
+      .nullable()
+      .optional(),
+  })
+  .refine(v => v.originalPrice == null || v.originalPrice > v.price, {
+    path: ["originalPrice"],
+    message: "The original price should be higher than the selling price",
+  });
+
+export type ProductForm = z.input<typeof productSchema>;
+export type ProductInput = z.output<typeof productSchema>;
+
+// Stock goes negative when a payment lands after its reservation lapsed and
+// the last units had already sold. Admins see that as an oversell to sort out.
+export function stockLevel(stock: number): "in_stock" | "sold_out" | "oversold" {
+  if (stock < 0) return "oversold";
+  return stock === 0 ? "sold_out" : "in_stock";
+}
+
+// Storage path for a new photo. A fresh name each time, so browsers and the
+// CDN never serve the old picture from cache.
+export function productImagePath(productId: string, file: Pick<File, "name" | "type">, now = Date.now()): string {
+  const ext = file.type === "image/png" ? "png" : file.type === "image/webp" ? "webp" : "jpg";
+  return `${productId}/${now}.${ext}`;
+}
+
+// Product import. The extractor runs in the `import-product` edge function;
+// the shop only needs the shapes and the field names.
+export type { ExtractionResult, ProductField } from "../../supabase/functions/_shared/productExtraction";
+
+export const IMPORT_FIELD_LABELS: Record<string, string> = { name: "Name", price: "Price", description: "Description", images: "Photos" };
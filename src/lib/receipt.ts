@@ -0,0 +1,59 @@
+// Standalone HTML receipt for an order returned by the `track_order` RPC.
+// Inline styles only, so the downloaded file renders the same anywhere.
+
+export type TrackedOrderItem = { name: string; emoji: string | null; quantity: number; unit_price: number };
+
+export type TrackedOrderEvent = {
+  from_status: string | null;
+  to_status: string;
+  courier: string | null;
+  tracking_number: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type TrackedOrder = {
+  order_number: string;
+  access_token: string;
+  customer_name: string | null;
+  status: string;
+  payment_status: string;
+  total_amount: number;
+  mpesa_ref: string | null;
+  paid_at: string | null;
+  courier: string | null;
+  tracking_number: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  items: TrackedOrderItem[];
+  history: TrackedOrderEvent[];
+};
+
+const ksh = (amount: number) => `KSh ${Number(amount).toLocaleString("en-KE")}`;
+
+function escape(value: unknown) {
+  return String(value ?? "").replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+export function receiptFileName(order: TrackedOrder) {
+  return `payloom-receipt-${order.order_number}.html`;
+}
+
+export function receiptHtml(order: TrackedOrder) {
+  const rows = order.items
+    .map(i => `<tr><td>${escape(i.name)} &times; ${i.quantity}</td><td style="text-align:right">${ksh(i.unit_price * i.quantity)}</td></tr>`)
+    .join("");
+  const paidAt = order.paid_at ? new Date(order.paid_at).toLocaleString("en-KE", { timeZone: "Africa/Nairobi" }) : "Not paid";
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Receipt ${escape(order.order_number)}</title></head>
+<body style="font-family:system-ui,sans-serif;max-width:420px;margin:24px auto;color:#0A0A0A">
+<h2 style="margin:0">PayLoom Instants</h2>
+<p style="color:#666;margin:4px 0 16px">Receipt for order <b>${escape(order.order_number)}</b></p>
+<p>${order.customer_name ? `Customer: ${escape(order.customer_name)}<br>` : ""}Paid: ${escape(paidAt)}<br>M-Pesa reference: <b>${escape(order.mpesa_ref || "—")}</b></p>
+<table style="width:100%;border-collapse:collapse">${rows}
+<tr><td style="border-top:1px solid #ccc;padding-top:8px"><b>Total</b></td><td style="border-top:1px solid #ccc;padding-top:8px;text-align:right"><b>${ksh(order.total_amount)}</b></td></tr>
+</table>
+<p style="color:#666;font-size:12px;margin-top:24px">Status: ${escape(order.status)}${order.courier ? ` &middot; ${escape(order.courier)}` : ""}${order.tracking_number ? ` ${escape(order.tracking_number)}` : ""}</p>
+</body></html>`;
+}
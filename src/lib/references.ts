@@ -0,0 +1,81 @@
+// Order, transaction and payout references: PLI-100008, TX-100016, PO-100008.
+// A per-type sequence number plus a Luhn check digit, generated by
+// `next_reference` in the database. This mirrors the format so the admin
+// lookup can catch a mistyped reference before asking the server.
+
+export type ReferenceKind = "order" | "transaction" | "payout";
+
+export const REFERENCE_PREFIXES: Record<ReferenceKind, string> = {
+  order: "PLI",
+  transaction: "TX",
+  payout: "PO",
+};
+
+// Sequenced references carry 5–8 digits plus the check digit. Anything else
+// after a known prefix is an older random reference with nothing to check.
+const SEQUENCED_RE = /^\d{6,9}$/;
+
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function formatReference(kind: ReferenceKind, n: number): string {
+  const digits = String(n);
+  return `${REFERENCE_PREFIXES[kind]}-${digits}${luhnCheckDigit(digits)}`;
+}
+
+export type ParsedReference = {
+  kind: ReferenceKind;
+  // Upper-cased with spaces removed, as stored
+  reference: string;
+  // Sequence number for sequenced references, null for older ones
+  number: number | null;
+  // False only when a sequenced reference's check digit doesn't match
+  valid: boolean;
+};
+
+export function parseReference(input: string | null | undefined): ParsedReference | null {
+  const reference = (input ?? "").replace(/\s/g, "").toUpperCase();
+  const dash = reference.indexOf("-");
+  if (dash < 1 || dash === reference.length - 1) return null;
+  const prefix = reference.slice(0, dash);
+  const body = reference.slice(dash + 1);
+  const kind = (Object.keys(REFERENCE_PREFIXES) as ReferenceKind[]).find(k => REFERENCE_PREFIXES[k] === prefix);
+  if (!kind) return null;
+
+  if (!SEQUENCED_RE.test(body)) return { kind, reference, number: null, valid: true };
+  const payload = body.slice(0, -1);
+  return { kind, reference, number: Number(payload), valid: luhnCheckDigit(payload) === Number(body.slice(-1)) };
+}
+
+// What `lookup_reference` returns. Fields beyond the common ones depend on the kind.
+export type ReferenceRecord = {
+  kind: ReferenceKind;
+  id: string;
+  reference: string;
+  status: string;
+  amount: number;
+  created_at: string;
+  mpesa_ref: string | null;
+  agent_name: string | null;
+  // Orders
+  payment_status?: string;
+  customer_name?: string | null;
+  items?: number;
+  // Orders and payouts
+  phone?: string | null;
+  // Transactions
+  type?: string;
+  order_number?: string | null;
+  // Payouts
+  failure_reason?: string | null;
+};
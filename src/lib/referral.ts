@@ -0,0 +1,34 @@
+// Agent attribution for `/shop?ref=<agentId>` links. The latest referral wins
+// and sticks for REFERRAL_WINDOW_DAYS, so a shopper who comes back later
+// without the link is still credited to the agent who sent them.
+
+const STORAGE_KEY = "payloom.referral";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const REFERRAL_WINDOW_DAYS = Number(import.meta.env.VITE_REFERRAL_WINDOW_DAYS) || 30;
+
+export type Referral = { agent_id: string; captured_at: number; expires_at: number };
+
+type Storage = Pick<globalThis.Storage, "getItem" | "setItem" | "removeItem">;
+
+export function captureReferral(agentId: string | null, now = Date.now(), storage: Storage = localStorage): Referral | null {
+  if (!agentId || !UUID_RE.test(agentId)) return null;
+  const referral = { agent_id: agentId.toLowerCase(), captured_at: now, expires_at: now + REFERRAL_WINDOW_DAYS * DAY_MS };
+  storage.setItem(STORAGE_KEY, JSON.stringify(referral));
+  return referral;
+}
+
+export function getReferral(now = Date.now(), storage: Storage = localStorage): Referral | null {
+  let referral: Referral | null = null;
+  try {
+    referral = JSON.parse(storage.getItem(STORAGE_KEY) || "null");
+  } catch {
+    // Corrupt entry: treat as no referral
+  }
+  if (!referral || typeof referral.agent_id !== "string" || !(referral.expires_at > now)) {
+    storage.removeItem(STORAGE_KEY);
+    return null;
+  }
+  return referral;
+}
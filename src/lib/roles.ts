@@ -0,0 +1,10 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+// Where a user lands after signing in. Admins outrank agents, and everyone else shops.
+export function roleHome(roles: AppRole[]) {
+  if (roles.includes("admin")) return "/admin";
+  if (roles.includes("agent")) return "/agent";
+  return "/shop";
+}
@@ -0,0 +1,28 @@
+// Labels for the account security page's session list. Browsers only tell us
+// their user agent string, so this picks out the browser and platform.
+
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg(e|A|iOS)?\//],
+  ["Opera", /OPR\/|Opera/],
+  ["Samsung Internet", /SamsungBrowser\//],
+  ["Firefox", /Firefox\/|FxiOS\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Safari\//],
+];
+
+const PLATFORMS: [string, RegExp][] = [
+  ["iPhone", /iPhone/],
+  ["iPad", /iPad/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["Mac", /Macintosh|Mac OS X/],
+  ["Linux", /Linux/],
+];
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([, re]) => re.test(userAgent))?.[0];
+  const platform = PLATFORMS.find(([, re]) => re.test(userAgent))?.[0];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
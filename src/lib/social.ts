@@ -0,0 +1,40 @@
+// Connected social accounts and the form that adds one. Syncing itself runs
+// in the `social-sync` edge function, through the adapters in
+// supabase/functions/_shared/socialAdapters.ts.
+import { z } from "zod";
+import { SOCIAL_ADAPTERS, type SocialPlatform } from "../../supabase/functions/_shared/socialAdapters";
+
+export type { SocialPlatform } from "../../supabase/functions/_shared/socialAdapters";
+
+export const SOCIAL_PLATFORMS: { id: SocialPlatform; label: string; hint: string }[] = [
+  { id: "facebook", label: "Facebook Page", hint: "Catalogue CSV from Commerce Manager, or Page posts as JSON" },
+  { id: "instagram", label: "Instagram", hint: "Catalogue CSV from Commerce Manager, or media as JSON" },
+  { id: "tiktok", label: "TikTok Shop", hint: "Product export CSV from Seller Center" },
+];
+
+export const platformLabel = (platform: string) => SOCIAL_PLATFORMS.find(p => p.id === platform)?.label ?? platform;
+
+// Extensions for the file picker
+export const exportFileTypes = (platform: string) => SOCIAL_ADAPTERS[platform as SocialPlatform]?.accepts.join(",") ?? "";
+
+export const SOCIAL_EXPORT_MAX_BYTES = 5 * 1024 * 1024;
+
+const blankToNull = (v: unknown) => (typeof v === "string" && v.trim() === "" ? null : v);
+const webUrl = (message: string) => z.string().trim().url(message).refine(u => /^https?:\/\//i.test(u), message);
+// Feeds are fetched by the server on a schedule, so only over https
+const httpsUrl = (message: string) => z.string().trim().url(message).refine(u => /^https:\/\//i.test(u), message);
+
+export const socialAccountSchema = z
+  .object({
+    platform: z.enum(["facebook", "instagram", "tiktok"]),
+    pageUrl: webUrl("Enter the full link to your page or profile"),
+    pageId: z.preprocess(blankToNull, z.string().trim().max(64).nullable()),
+    feedUrl: z.preprocess(blankToNull, httpsUrl("Enter the full feed link, starting with https://").nullable()),
+    autoSync: z.boolean(),
+  })
+  .refine(v => !v.autoSync || v.feedUrl, { path: ["feedUrl"], message: "Daily sync needs a feed URL" });
+
+export type SocialAccountForm = z.input<typeof socialAccountSchema>;
+export type SocialAccountInput = z.output<typeof socialAccountSchema>;
+
+export type SyncSummary = { found: number; imported: number; duplicates: number; failed: number; errors: string[] };
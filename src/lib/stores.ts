@@ -0,0 +1,63 @@
+// Storefront links and the "My Store" form. `is_valid_store_slug` and
+// `save_my_store` in the database apply the same rules.
+import { z } from "zod";
+
+// Keep in step with `is_valid_store_slug`
+export const RESERVED_STORE_SLUGS = [
+  "about", "account", "admin", "agent", "agents", "api", "app", "apply", "auth", "cart", "checkout",
+  "help", "login", "mpesa", "my-store", "new", "orders", "payloom", "reset-password", "settings",
+  "shop", "signup", "store", "stores", "support", "www",
+];
+
+const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{1,30}[a-z0-9])$/;
+
+export const STORE_LOGO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const STORE_LOGO_MAX_BYTES = 1024 * 1024;
+
+export type StoreVisibility = "public" | "private";
+
+// Why a slug can't be used, or null if it can
+export function slugProblem(slug: string): string | null {
+  if (slug.length < 3 || slug.length > 32) return "Use 3 to 32 characters";
+  if (!SLUG_RE.test(slug) || slug.includes("--")) return "Use lowercase letters, numbers and single dashes, starting and ending with a letter or number";
+  if (RESERVED_STORE_SLUGS.includes(slug)) return `"${slug}" is reserved. Pick another link`;
+  return null;
+}
+
+// A starting slug from the store name, e.g. "Mama Njeri's Kitchen" -> "mama-njeris-kitchen"
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f']/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32)
+    .replace(/-+$/, "");
+}
+
+export const storeUrl = (slug: string, origin = window.location.origin) => `${origin}/s/${slug}`;
+
+export const storeSchema = z.object({
+  name: z.string().trim().min(2, "Give your store a name").max(60, "Keep the name to 60 characters"),
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .superRefine((v, ctx) => {
+      const problem = slugProblem(v);
+      if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }),
+  bio: z.string().trim().max(280, "Keep the bio to 280 characters").optional(),
+  visibility: z.enum(["public", "private"]),
+  logo: z.string().nullable().optional(),
+  logoFile: z
+    .instanceof(File)
+    .refine(f => STORE_LOGO_TYPES.includes(f.type), "Upload a JPEG, PNG or WebP image")
+    .refine(f => f.size <= STORE_LOGO_MAX_BYTES, "Logos can be up to 1 MB")
+    .nullable()
+    .optional(),
+});
+
+export type StoreForm = z.input<typeof storeSchema>;
+export type StoreInput = z.output<typeof storeSchema>;
@@ -0,0 +1,48 @@
+// Client-side view of the tier rules evaluated by `evaluate_agent_tier`.
+// An agent qualifies for a tier when their rolling-window stats meet every
+// non-zero threshold of its rule.
+import type { Enums } from "@/integrations/supabase/types";
+
+export type TierRule = {
+  tier: Enums<"agent_tier">;
+  rank: number;
+  commission_rate: number;
+  min_sales: number;
+  min_revenue: number;
+  perks: string | null;
+};
+
+export type TierStats = { sales: number; revenue: number };
+
+export type TierProgress = {
+  next: TierRule | null;
+  // 0-100, limited by whichever threshold is furthest from being met
+  percent: number;
+  salesNeeded: number;
+  revenueNeeded: number;
+};
+
+function qualifies(rule: TierRule, stats: TierStats) {
+  return stats.sales >= rule.min_sales && stats.revenue >= rule.min_revenue;
+}
+
+export function qualifyingTier(rules: TierRule[], stats: TierStats): TierRule | null {
+  return [...rules].sort((a, b) => b.rank - a.rank).find(rule => qualifies(rule, stats)) ?? null;
+}
+
+export function tierProgress(rules: TierRule[], currentTier: string, stats: TierStats): TierProgress {
+  const current = rules.find(r => r.tier === currentTier);
+  const next = [...rules].sort((a, b) => a.rank - b.rank).find(r => r.rank > (current?.rank ?? 0)) ?? null;
+  if (!next) return { next: null, percent: 100, salesNeeded: 0, revenueNeeded: 0 };
+
+  const ratios = [
+    next.min_sales > 0 ? stats.sales / next.min_sales : 1,
+    next.min_revenue > 0 ? stats.revenue / next.min_revenue : 1,
+  ];
+  return {
+    next,
+    percent: Math.round(Math.min(1, ...ratios) * 100),
+    salesNeeded: Math.max(0, next.min_sales - stats.sales),
+    revenueNeeded: Math.max(0, next.min_revenue - stats.revenue),
+  };
+}
@@ -0,0 +1,43 @@
+// What an agent's pending balance is made of and when it becomes available.
+// Days are bucketed in the browser's local time, soonest first.
+
+export type PendingCommission = {
+  order_id: string;
+  order_number: string;
+  amount: number;
+  available_at: string | null;
+};
+
+export type MaturingDay = { date: Date; amount: number; orders: string[] };
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+// `awaitingDelivery` has no date yet: the hold only starts once the order is
+// delivered. `matured` has passed its hold and moves over on the next release run.
+export function maturingSchedule(rows: PendingCommission[], now = new Date()) {
+  const days = new Map<number, MaturingDay>();
+  let awaitingDelivery = 0;
+  let matured = 0;
+  for (const r of rows) {
+    const amount = Number(r.amount);
+    if (!r.available_at) {
+      awaitingDelivery += amount;
+      continue;
+    }
+    const at = new Date(r.available_at);
+    if (at <= now) {
+      matured += amount;
+      continue;
+    }
+    const date = startOfDay(at);
+    const day = days.get(date.getTime()) ?? { date, amount: 0, orders: [] };
+    day.amount += amount;
+    day.orders.push(r.order_number);
+    days.set(date.getTime(), day);
+  }
+  return {
+    awaitingDelivery,
+    matured,
+    days: [...days.values()].sort((a, b) => a.date.getTime() - b.date.getTime()),
+  };
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Monitor, ShieldCheck } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { useRevokeSession, useSessions } from "@/hooks/useSessions";
+import { useToast } from "@/hooks/use-toast";
+import { roleHome } from "@/lib/roles";
+import { describeUserAgent } from "@/lib/sessions";
+import { formatPhone } from "@/lib/phone";
+
+const inputClass = "w-full bg-background border border-border rounded-xl px-3.5 py-3 text-sm outline-none focus:border-primary";
+
+// Password change and the list of devices signed in to the account
+export default function AccountSecurity() {
+  const navigate = useNavigate();
+  const { updatePassword, signOut } = useAuth();
+  const { user, roles } = useRoles();
+  const { toast } = useToast();
+  const { data: sessions = [], isLoading, refetch } = useSessions(user?.id);
+  const revokeSession = useRevokeSession();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [endingOthers, setEndingOthers] = useState(false);
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirm) {
+      toast({ title: "Passwords don't match", description: "Type the same password in both boxes.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await updatePassword(password);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Could not update password", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPassword("");
+    setConfirm("");
+    toast({ title: "Password updated" });
+  };
+
+  const handleRevoke = (sessionId: string) => {
+    revokeSession.mutate(sessionId, {
+      onSuccess: () => toast({ title: "Device signed out" }),
+      onError: e => toast({ title: "Could not sign out device", description: e.message, variant: "destructive" }),
+    });
+  };
+
+  const handleSignOutOthers = async () => {
+    setEndingOthers(true);
+    const { error } = await signOut("others");
+    setEndingOthers(false);
+    if (error) {
+      toast({ title: "Could not sign out other devices", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Signed out everywhere else" });
+    refetch();
+  };
+
+  const handleSignOutEverywhere = async () => {
+    const { error } = await signOut("global");
+    if (error) {
+      toast({ title: "Could not sign out", description: error.message, variant: "destructive" });
+      return;
+    }
+    navigate("/auth", { replace: true });
+  };
+
+  const otherSessions = sessions.filter(s => !s.is_current).length;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="max-w-2xl mx-auto p-4 md:p-7 space-y-4">
+        <button onClick={() => navigate(roleHome(roles))} className="flex items-center gap-1 text-xs text-muted-foreground font-bold">
+          <ArrowLeft size={14} /> Back
+        </button>
+        <div>
+          <h1 className="text-xl font-extrabold">Account security</h1>
+          <p className="text-sm text-muted-foreground mt-1">Manage your password and the devices signed in to your account.</p>
+        </div>
+
+        <div className="bg-card border border-border rounded-2xl p-5">
+          <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-3">Account</div>
+          {([
+            ["Email", user?.email || "—", user?.email_confirmed_at ? "Verified" : "Not verified"],
+            ["Phone", user?.phone ? formatPhone(user.phone) : "—", user?.phone_confirmed_at ? "Verified" : user?.phone ? "Not verified" : null],
+            ["Last sign-in", user?.last_sign_in_at ? new Date(user.last_sign_in_at).toLocaleString() : "—", null],
+          ] as const).map(([label, value, status]) => (
+            <div key={label} className="flex items-center justify-between gap-3 py-2.5 border-b border-border/50 last:border-0 text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="font-bold text-right truncate">
+                {value}
+                {status && <span className={`ml-2 text-[10px] font-extrabold ${status === "Verified" ? "text-payloom-success" : "text-destructive"}`}>{status}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handlePassword} className="bg-card border border-border rounded-2xl p-5 space-y-3">
+          <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase">Change password</div>
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)} className={inputClass}
+            placeholder="New password (min. 6 characters)" required minLength={6} autoComplete="new-password" />
+          <input type="password" value={confirm} onChange={e => setConfirm(e.target.value)} className={inputClass}
+            placeholder="Confirm new password" required minLength={6} autoComplete="new-password" />
+          <button type="submit" disabled={saving}
+            className="bg-primary text-primary-foreground rounded-xl py-3 w-full text-sm font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60">
+            {saving ? "Saving..." : "Update password"}
+          </button>
+        </form>
+
+        <div className="bg-card border border-border rounded-2xl p-5">
+          <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-3">Active sessions ({sessions.length})</div>
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground py-4 text-center">Loading sessions...</div>
+          ) : sessions.map(s => (
+            <div key={s.id} className="flex items-center gap-3 py-3 border-b border-border/50 last:border-0">
+              <div className="w-9 h-9 bg-accent rounded-xl flex items-center justify-center shrink-0">
+                {s.is_current ? <ShieldCheck size={16} className="text-payloom-success" /> : <Monitor size={16} className="text-muted-foreground" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold truncate">
+                  {describeUserAgent(s.user_agent)}
+                  {s.is_current && <span className="ml-2 text-[10px] font-extrabold text-payloom-success">This device</span>}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {s.ip || "Unknown IP"} · active {new Date(s.last_active_at).toLocaleString()} · signed in {new Date(s.created_at).toLocaleDateString()}
+                </div>
+              </div>
+              {!s.is_current && (
+                <button onClick={() => handleRevoke(s.id)} disabled={revokeSession.isPending}
+                  className="text-xs font-bold text-destructive hover:underline disabled:opacity-60">Sign out</button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row gap-2 mt-4">
+            <button onClick={handleSignOutOthers} disabled={endingOthers || otherSessions === 0}
+              className="flex-1 bg-accent border border-border rounded-xl py-3 text-sm font-bold hover:bg-accent/80 transition-colors disabled:opacity-60">
+              {endingOthers ? "Signing out..." : "Sign out other devices"}
+            </button>
+            <button onClick={handleSignOutEverywhere}
+              className="flex-1 bg-destructive/10 text-destructive rounded-xl py-3 text-sm font-bold hover:bg-destructive/20 transition-colors">
+              Sign out everywhere
+            </button>
+          </div>
+          <p className="text-[11px] text-muted-foreground mt-3">A signed-out device can keep using the page it has open for up to an hour, until its access token expires.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,99 +1,182 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { Menu, X, LayoutDashboard, Users, CreditCard, Package, Banknote, ChevronRight, TrendingUp, Clock, AlertCircle, LogOut } from "lucide-react";
-import { MOCK_AGENTS, MOCK_TRANSACTIONS, MOCK_PRODUCTS_ADMIN, MOCK_MONTHLY } from "@/data/mockData";
+import { useCommissionStatement, useLedgerBalance } from "@/hooks/useCommissions";
+import { useAgents } from "@/hooks/useAgents";
+import { useAdminProducts, useProductReviewQueue, useArchiveProduct, useSetProductsActive, useUpdateProductStock, type Product } from "@/hooks/useProducts";
+import { useToast } from "@/hooks/use-toast";
+import ProductFormModal from "@/components/ProductFormModal";
+import ImportProductModal from "@/components/ImportProductModal";
+import ProductReviewQueue from "@/components/ProductReviewQueue";
+import { useOrders, useTransactions, useOrderHistory, useTransitionOrder, ORDER_TRANSITIONS, type OrderStatus } from "@/hooks/useOrders";
+import { useAgentApplications, useApproveApplication, useRejectApplication, type AgentApplication } from "@/hooks/useAgentApplications";
+import { useTierRules, useUpdateTierRule, useEvaluateTiers } from "@/hooks/useTiers";
+import type { TierRule } from "@/lib/tiers";
+import { monthlyTotals } from "@/lib/charts";
+import { idTypeLabel } from "@/lib/applications";
+import { formatPhone, toDarajaMsisdn } from "@/lib/phone";
+import { parseReference } from "@/lib/references";
+import { stockLevel } from "@/lib/products";
+import { ENTRY_LABEL } from "@/lib/commissions";
+import { useReferenceLookup } from "@/hooks/useReferences";
+import { usePayouts, type PayoutWithAgent, useSendPayout, usePayout, useApprovePayoutRequest, useRejectPayoutRequest, usePayoutUpdates } from "@/hooks/usePayouts";
+import { Menu, X, LayoutDashboard, Users, CreditCard, Package, Banknote, ShoppingBag, ChevronRight, UserCheck, TrendingUp, Clock, AlertCircle, LogOut, ShieldCheck, Search, ClipboardCheck } from "lucide-react";
 
 const TIER_COLOR: Record<string, string> = { Gold: "#FFD700", Silver: "#C0C0C0", Bronze: "#CD7F32", Platinum: "#00E5FF" };
 const STATUS_STYLE: Record<string, { bg: string; color: string }> = {
   completed: { bg: "#0D2B1E", color: "#00D97E" }, paid: { bg: "#0D2B1E", color: "#00D97E" },
   failed: { bg: "#2B0D0D", color: "#FF4D4D" }, active: { bg: "#0D2B1E", color: "#00D97E" },
   inactive: { bg: "#1A1A1A", color: "#666" }, pending: { bg: "#1A1400", color: "#FFB800" },
-  processing: { bg: "#1A1A00", color: "#FFD600" },
+  processing: { bg: "#1A1A00", color: "#FFD600" }, delivered: { bg: "#0D2B1E", color: "#00D97E" },
+  cancelled: { bg: "#2B0D0D", color: "#FF4D4D" },
   C2B: { bg: "#001833", color: "#00B4FF" }, B2C: { bg: "#1A0800", color: "#FF8C00" },
 };
 
+type AgentSummary = {
+  id: string; name: string; phone: string; mpesa_phone: string; avatar: string; tier: string; status: string;
+  sales: number; earned: number; available: number; pending: number; joined: string; commission_rate: number;
+};
+
+// Who the payout modal pays: an agent's available balance, or a queued request
+type PayoutTarget = Pick<AgentSummary, "id" | "name" | "phone" | "available"> & {
+  mpesa_phone?: string; tier?: string; commission_rate?: number; request_id?: string;
+};
+
 export default function AdminDashboard() {
   const navigate = useNavigate();
   const { signOut } = useAuth();
+  const { toast } = useToast();
   const [tab, setTab] = useState("overview");
   const [payoutModal, setPayoutModal] = useState(false);
-  const [payoutAgent, setPayoutAgent] = useState<any>(null);
-  const [paying, setPaying] = useState(false);
-  const [paidDone, setPaidDone] = useState(false);
+  const [payoutAgent, setPayoutAgent] = useState<PayoutTarget | null>(null);
+  const [sentPayoutId, setSentPayoutId] = useState<string>();
+  const [rejectRequest, setRejectRequest] = useState<PayoutWithAgent | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [rejectApplication, setRejectApplication] = useState<AgentApplication | null>(null);
+  const [applicationReason, setApplicationReason] = useState("");
+  const [editRule, setEditRule] = useState<TierRule | null>(null);
+  const [orderFilter, setOrderFilter] = useState("All");
+  const [viewOrderId, setViewOrderId] = useState<string>();
+  const [orderNote, setOrderNote] = useState("");
+  const [courier, setCourier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
   const [agentModal, setAgentModal] = useState(false);
-  const [viewAgent, setViewAgent] = useState<any>(null);
+  const [viewAgent, setViewAgent] = useState<AgentSummary | null>(null);
   const [txFilter, setTxFilter] = useState("All");
   const [agentSearch, setAgentSearch] = useState("");
+  const [referenceError, setReferenceError] = useState("");
+  const [editProduct, setEditProduct] = useState<Product | "new" | null>(null);
+  const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  const { data: dbAgents = [] } = useQuery({
-    queryKey: ["admin-agents"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("agents").select("*, profiles(full_name, phone)");
-      if (error) throw error;
-      return (data || []).map((a: any) => ({
-        ...a,
-        name: a.profiles?.full_name || "Agent",
-        phone: a.profiles?.phone || a.mpesa_phone,
-        avatar: (a.profiles?.full_name || "AG").split(" ").map((n: string) => n[0]).join("").substring(0, 2).toUpperCase(),
-        earned: Number(a.total_earned),
-        pending: Number(a.pending_earnings),
-        sales: a.total_sales,
-        joined: new Date(a.created_at).toLocaleDateString("en-US", { month: "short", year: "numeric" }),
-      }));
-    },
-  });
+  const { data: agents = [] } = useAgents();
+  const { data: transactions = [] } = useTransactions();
+  const { data: productsAdmin = [] } = useAdminProducts();
+  const { data: reviewQueue = [] } = useProductReviewQueue();
+  const { data: adminOrders = [] } = useOrders();
+  const { data: adminPayouts = [] } = usePayouts();
+  const updateStock = useUpdateProductStock();
+  const setProductsActive = useSetProductsActive();
+  const archiveProduct = useArchiveProduct();
+  // Agent requests that no admin has sent to M-Pesa yet
+  const payoutRequests = adminPayouts.filter(p => p.status === "pending" && p.requested_by && !p.approved_by);
 
-  const { data: dbTransactions = [] } = useQuery({
-    queryKey: ["admin-transactions"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("transactions").select("*, agents(profiles(full_name), mpesa_phone)").order("created_at", { ascending: false });
-      if (error) throw error;
-      return (data || []).map((t: any) => ({ ...t, agent_name: t.agents?.profiles?.full_name || "Unknown" }));
-    },
-  });
+  const totalRevenue = transactions.filter(t => t.type === "C2B" && t.status === "completed").reduce((s, t) => s + Number(t.amount), 0);
+  const totalPayoutsAmount = adminPayouts.filter(p => p.status === "paid").reduce((s, p) => s + Number(p.amount), 0);
+  const availablePayouts = agents.reduce((s, a) => s + (a.available || 0), 0);
+  const activeAgents = agents.filter(a => a.status === "active").length;
+  const monthly = monthlyTotals(transactions);
+  const maxRevenue = Math.max(...monthly.map(m => m.revenue), 1);
 
-  const { data: dbProducts = [] } = useQuery({
-    queryKey: ["admin-products"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("products").select("*, categories(name)").order("total_sold", { ascending: false });
-      if (error) throw error;
-      return data || [];
-    },
-  });
+  const { data: statement = [] } = useCommissionStatement(agentModal ? viewAgent?.id : undefined);
+  const { data: ledgerBalance } = useLedgerBalance(agentModal ? viewAgent?.id : undefined);
 
-  const { data: dbPayouts = [] } = useQuery({
-    queryKey: ["admin-payouts"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("payouts").select("*, agents(profiles(full_name), mpesa_phone)").order("created_at", { ascending: false });
-      if (error) throw error;
-      return (data || []).map((p: any) => ({ ...p, agent_name: p.agents?.profiles?.full_name || "Unknown", agent_phone: p.agents?.mpesa_phone || "" }));
-    },
-  });
+  const { data: tierRules = [] } = useTierRules();
+  const updateTierRule = useUpdateTierRule();
+  const evaluateTiers = useEvaluateTiers();
+
+  const closeRuleModal = () => {
+    setEditRule(null);
+    updateTierRule.reset();
+  };
+
+  const viewOrder = adminOrders.find(o => o.id === viewOrderId);
+  const { data: orderHistory = [] } = useOrderHistory(viewOrderId);
+  const transitionOrder = useTransitionOrder();
+  const referenceLookup = useReferenceLookup();
+
+  const openOrder = o => {
+    setViewOrderId(o.id);
+    setOrderNote("");
+    setCourier(o.courier || "");
+    setTrackingNumber(o.tracking_number || "");
+    transitionOrder.reset();
+  };
+
+  const handleTransition = (status: OrderStatus) => {
+    transitionOrder.mutate(
+      { orderId: viewOrder.id, status, note: orderNote, courier, trackingNumber },
+      { onSuccess: () => setOrderNote("") },
+    );
+  };
 
-  // Use mock data as fallback
-  const agents = dbAgents.length > 0 ? dbAgents : MOCK_AGENTS;
-  const transactions = dbTransactions.length > 0 ? dbTransactions : MOCK_TRANSACTIONS;
-  const productsAdmin = dbProducts.length > 0 ? dbProducts : MOCK_PRODUCTS_ADMIN;
-  const adminPayouts = dbPayouts;
-
-  const totalRevenue = dbTransactions.length > 0
-    ? transactions.filter((t: any) => t.type === "C2B" && t.status === "completed").reduce((s: number, t: any) => s + Number(t.amount), 0)
-    : MOCK_MONTHLY.reduce((s, m) => s + m.revenue, 0);
-  const totalPayoutsAmount = dbPayouts.length > 0
-    ? adminPayouts.filter((p: any) => p.status === "paid").reduce((s: number, p: any) => s + Number(p.amount), 0)
-    : MOCK_MONTHLY.reduce((s, m) => s + m.payouts, 0);
-  const pendingPayouts = agents.reduce((s: number, a: any) => s + (a.pending || 0), 0);
-  const activeAgents = agents.filter((a: any) => a.status === "active").length;
-  const maxRevenue = Math.max(...MOCK_MONTHLY.map(m => m.revenue));
+  const sendPayout = useSendPayout();
+  const approvePayout = useApprovePayoutRequest();
+  const rejectPayout = useRejectPayoutRequest();
+  const { data: applications = [] } = useAgentApplications();
+  const approveApplication = useApproveApplication();
+  const declineApplication = useRejectApplication();
+  const { data: sentPayout } = usePayout(sentPayoutId);
+  const paying = sendPayout.isPending || approvePayout.isPending;
+  const payoutError = sendPayout.error || approvePayout.error;
+  // B2C always pays the agent's M-Pesa number on file, whatever the request recorded
+  const payoutPhone = payoutAgent?.mpesa_phone || payoutAgent?.phone;
+  const payoutPhoneValid = !!toDarajaMsisdn(payoutPhone);
+  usePayoutUpdates([["admin-payouts"]]);
 
   const handlePayout = () => {
-    setPaying(true);
-    setTimeout(() => { setPaying(false); setPaidDone(true); }, 2500);
-    setTimeout(() => { setPaidDone(false); setPayoutModal(false); setPayoutAgent(null); }, 5000);
+    const onSuccess = (payout: { id: string }) => setSentPayoutId(payout.id);
+    if (payoutAgent.request_id) {
+      approvePayout.mutate(payoutAgent.request_id, { onSuccess });
+    } else {
+      sendPayout.mutate({ agent_id: payoutAgent.id, amount: payoutAgent.available || 0 }, { onSuccess });
+    }
+  };
+
+  const openPayoutRequest = p => {
+    const agent = agents.find(a => a.id === p.agent_id);
+    setPayoutAgent({ id: p.agent_id, name: p.agent_name, phone: p.phone, mpesa_phone: p.agent_phone, available: Number(p.amount), tier: agent?.tier, commission_rate: agent?.commission_rate, request_id: p.id });
+    setPayoutModal(true);
+  };
+
+  const closePayoutModal = () => {
+    setPayoutModal(false);
+    setPayoutAgent(null);
+    setSentPayoutId(undefined);
+    sendPayout.reset();
+    approvePayout.reset();
+  };
+
+  const closeRejectModal = () => {
+    setRejectRequest(null);
+    setRejectReason("");
+    rejectPayout.reset();
+  };
+
+  const handleReject = () => {
+    rejectPayout.mutate({ payoutId: rejectRequest.id, reason: rejectReason }, { onSuccess: closeRejectModal });
+  };
+
+  const closeApplicationModal = () => {
+    setRejectApplication(null);
+    setApplicationReason("");
+    declineApplication.reset();
+  };
+
+  const handleRejectApplication = () => {
+    declineApplication.mutate({ applicationId: rejectApplication.id, reason: applicationReason }, { onSuccess: closeApplicationModal });
   };
 
   const handleSignOut = async () => {
@@ -109,9 +192,13 @@ export default function AdminDashboard() {
   const NAV = [
     { id: "overview", icon: <LayoutDashboard size={18} />, label: "Overview" },
     { id: "agents", icon: <Users size={18} />, label: "Agents" },
+    { id: "applications", icon: <UserCheck size={18} />, label: applications.length > 0 ? `Applications (${applications.length})` : "Applications" },
     { id: "transactions", icon: <CreditCard size={18} />, label: "Transactions" },
+    { id: "orders", icon: <ShoppingBag size={18} />, label: "Orders" },
     { id: "products", icon: <Package size={18} />, label: "Products" },
+    { id: "review", icon: <ClipboardCheck size={18} />, label: reviewQueue.length > 0 ? `Product Review (${reviewQueue.length})` : "Product Review" },
     { id: "payouts", icon: <Banknote size={18} />, label: "B2C Payouts" },
+    { id: "lookup", icon: <Search size={18} />, label: "Reference Lookup" },
   ];
 
   const EmptyState = ({ icon, title, sub }: { icon: string; title: string; sub: string }) => (
@@ -142,7 +229,7 @@ export default function AdminDashboard() {
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4 mb-6">
         <KpiCard label="Revenue" value={`KSh ${(totalRevenue / 1000).toFixed(0)}K`} accent="#00D97E" icon={<TrendingUp size={16} />} />
         <KpiCard label="Paid Out" value={`KSh ${(totalPayoutsAmount / 1000).toFixed(0)}K`} accent="#FF8C00" icon={<Banknote size={16} />} />
-        <KpiCard label="Pending" value={`KSh ${(pendingPayouts / 1000).toFixed(1)}K`} accent="#FFD600" icon={<Clock size={16} />} />
+        <KpiCard label="Payable" value={`KSh ${(availablePayouts / 1000).toFixed(1)}K`} accent="#FFD600" icon={<Clock size={16} />} />
         <KpiCard label="Agents" value={`${activeAgents} / ${agents.length}`} accent="#00B4FF" icon={<Users size={16} />} />
       </div>
 
@@ -156,7 +243,7 @@ export default function AdminDashboard() {
           </div>
         </div>
         <div className="flex gap-2 items-end h-[140px]">
-          {MOCK_MONTHLY.map((m) => (
+          {monthly.map((m) => (
             <div key={m.month} className="flex-1 flex flex-col gap-1">
               <div className="flex gap-0.5 items-end h-[120px]">
                 <div className="flex-1 rounded-t" style={{ height: `${Math.round(m.revenue / maxRevenue * 100)}%`, minHeight: 4, background: "linear-gradient(180deg,#00D97E,#00A86B)", transition: "height 0.6s" }} />
@@ -171,7 +258,8 @@ export default function AdminDashboard() {
       {/* Top Agents */}
       <div className="bg-card border border-border rounded-2xl p-5 md:p-6">
         <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-4">Top Performing Agents</div>
-        {[...agents].sort((a: any, b: any) => (b.earned || 0) - (a.earned || 0)).slice(0, 4).map((a: any, i: number) => (
+        {agents.length === 0 && <div className="text-sm text-muted-foreground">No agents yet</div>}
+        {[...agents].sort((a, b) => (b.earned || 0) - (a.earned || 0)).slice(0, 4).map((a, i) => (
           <div key={a.id} className="flex items-center gap-3 mb-3 last:mb-0">
             <div className="text-base font-extrabold w-5" style={{ color: i === 0 ? "#FFD700" : "#444" }}>#{i + 1}</div>
             <div className="w-10 h-10 rounded-xl flex items-center justify-center font-extrabold text-sm shrink-0"
@@ -193,7 +281,7 @@ export default function AdminDashboard() {
   );
 
   const AgentsTab = () => {
-    const filtered = agents.filter((a: any) => a.name.toLowerCase().includes(agentSearch.toLowerCase()));
+    const filtered = agents.filter(a => a.name.toLowerCase().includes(agentSearch.toLowerCase()));
     return (
       <div>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
@@ -204,7 +292,38 @@ export default function AdminDashboard() {
           <input className="bg-card border border-border rounded-xl px-4 py-2.5 text-sm text-foreground outline-none w-full sm:w-56"
             placeholder="🔍  Search agents..." value={agentSearch} onChange={e => setAgentSearch(e.target.value)} />
         </div>
-        {filtered.map((a: any) => (
+        {/* Tier rules */}
+        <div className="bg-card border border-border rounded-2xl p-5 mb-6">
+          <div className="flex items-center justify-between mb-4 gap-3">
+            <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase">Tier Rules</div>
+            <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground hover:bg-accent/80 transition-colors disabled:opacity-60"
+              onClick={() => evaluateTiers.mutate()} disabled={evaluateTiers.isPending}>
+              {evaluateTiers.isPending ? "⏳ Evaluating..." : evaluateTiers.isSuccess ? `✓ ${evaluateTiers.data} agents moved` : "Re-evaluate all agents"}
+            </button>
+          </div>
+          {evaluateTiers.error && <div className="mb-3 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{evaluateTiers.error.message}</div>}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {tierRules.map(r => (
+              <button key={r.tier} className="text-left bg-accent/50 border border-border rounded-xl p-3 hover:border-primary/30 transition-colors"
+                onClick={() => setEditRule(r)}>
+                <div className="text-sm font-extrabold" style={{ color: TIER_COLOR[r.tier] }}>{r.tier}</div>
+                <div className="text-lg font-extrabold">{r.commission_rate}%</div>
+                <div className="text-[11px] text-muted-foreground">
+                  {r.min_sales > 0 || r.min_revenue > 0
+                    ? [r.min_sales > 0 && `${r.min_sales}+ sales`, r.min_revenue > 0 && `KSh ${r.min_revenue.toLocaleString()}+`].filter(Boolean).join(" · ")
+                    : "Starting tier"}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {filtered.length === 0 && (
+          <div className="bg-card border border-border rounded-2xl px-5 py-8 text-sm text-muted-foreground text-center">
+            {agents.length === 0 ? "No agents yet" : "No agents match your search"}
+          </div>
+        )}
+        {filtered.map(a => (
           <div key={a.id} className="bg-card border border-border rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 mb-3 cursor-pointer hover:border-primary/30 transition-colors"
             onClick={() => { setViewAgent(a); setAgentModal(true); }}>
             <div className="flex items-center gap-3 flex-1 min-w-0">
@@ -218,11 +337,12 @@ export default function AdminDashboard() {
                   <span className="text-[10px] font-extrabold px-2 py-0.5 rounded" style={{ background: `${TIER_COLOR[a.tier]}22`, color: TIER_COLOR[a.tier] }}>{a.tier}</span>
                   <span className="text-[9px] font-bold px-2 py-0.5 rounded" style={pill(a.status)}>{a.status}</span>
                 </div>
-                <div className="text-xs text-muted-foreground mt-1">{a.phone} · Joined {a.joined}</div>
+                <div className="text-xs text-muted-foreground mt-1">{formatPhone(a.phone)} · Joined {a.joined}</div>
                 <div className="flex gap-4 mt-2 flex-wrap">
                   <span className="text-xs text-muted-foreground">Sales: <b className="text-foreground">{a.sales}</b></span>
                   <span className="text-xs text-muted-foreground">Earned: <b style={{ color: "#00D97E" }}>KSh {(a.earned || 0).toLocaleString()}</b></span>
-                  <span className="text-xs text-muted-foreground">Pending: <b style={{ color: "#FFD600" }}>KSh {(a.pending || 0).toLocaleString()}</b></span>
+                  <span className="text-xs text-muted-foreground">Available: <b style={{ color: "#FFD600" }}>KSh {(a.available || 0).toLocaleString()}</b></span>
+                  <span className="text-xs text-muted-foreground">On hold: <b className="text-foreground">KSh {(a.pending || 0).toLocaleString()}</b></span>
                 </div>
               </div>
             </div>
@@ -236,7 +356,7 @@ export default function AdminDashboard() {
 
   const TransactionsTab = () => {
     const filters = ["All", "C2B", "B2C", "completed", "failed"];
-    const filtered = txFilter === "All" ? transactions : transactions.filter((t: any) => t.type === txFilter || t.status === txFilter);
+    const filtered = txFilter === "All" ? transactions : transactions.filter(t => t.type === txFilter || t.status === txFilter);
     return (
       <div>
         <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">All Transactions</div>
@@ -255,7 +375,8 @@ export default function AdminDashboard() {
               <div className="grid grid-cols-6 px-5 py-3 bg-accent/50 border-b border-border text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase">
                 <span>TX ID</span><span>Agent</span><span>Amount</span><span>Type</span><span>Status</span><span>M-Pesa Ref</span>
               </div>
-              {filtered.map((t: any) => (
+              {filtered.length === 0 && <div className="px-5 py-8 text-sm text-muted-foreground text-center">No transactions yet</div>}
+              {filtered.map(t => (
                 <div key={t.id} className="grid grid-cols-6 px-5 py-3 border-b border-border/50 text-sm items-center">
                   <span className="font-mono text-xs" style={{ color: "#FF8C00" }}>{t.transaction_ref}</span>
                   <span className="text-xs truncate">{t.agent_name}</span>
@@ -272,56 +393,214 @@ export default function AdminDashboard() {
     );
   };
 
-  const ProductsTab = () => (
-    <div>
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
-        <div>
-          <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Product Catalog</div>
-          <div className="text-sm text-muted-foreground">Manage PayLoom's inventory</div>
+  const OrdersTab = () => {
+    const filters = ["All", "pending", "processing", "delivered", "cancelled"];
+    const filtered = orderFilter === "All" ? adminOrders : adminOrders.filter(o => o.status === orderFilter);
+    return (
+      <div>
+        <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Orders</div>
+        <div className="text-sm text-muted-foreground mb-6">Dispatch, deliver or cancel customer orders</div>
+        <div className="flex gap-2 mb-4 flex-wrap">
+          {filters.map(f => (
+            <button key={f} onClick={() => setOrderFilter(f)}
+              className={`rounded-lg px-3 py-1.5 text-xs font-bold border capitalize transition-colors ${orderFilter === f ? 'bg-primary text-primary-foreground border-primary' : 'bg-card text-muted-foreground border-border hover:border-primary/30'}`}>
+              {f} ({f === "All" ? adminOrders.length : adminOrders.filter(o => o.status === f).length})
+            </button>
+          ))}
+        </div>
+        <div className="bg-card border border-border rounded-2xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <div className="min-w-[640px]">
+              <div className="grid grid-cols-6 px-5 py-3 bg-accent/50 border-b border-border text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase">
+                <span>Order</span><span>Customer</span><span>Agent</span><span>Amount</span><span>Payment</span><span>Status</span>
+              </div>
+              {filtered.length === 0 && <div className="px-5 py-8 text-sm text-muted-foreground text-center">No orders</div>}
+              {filtered.map(o => (
+                <div key={o.id} className="grid grid-cols-6 px-5 py-3 border-b border-border/50 text-sm items-center cursor-pointer hover:bg-accent/30 transition-colors"
+                  onClick={() => openOrder(o)}>
+                  <span className="min-w-0">
+                    <span className="block font-mono text-xs" style={{ color: "#FF8C00" }}>{o.order_number}</span>
+                    <span className="block text-[11px] text-muted-foreground truncate">{o.items_summary}</span>
+                    {o.review_reason && <span className="block text-[10px] font-extrabold" style={{ color: "#FFB800" }}>Needs review</span>}
+                  </span>
+                  <span className="text-xs truncate">{o.customer_name || formatPhone(o.customer_phone) || "—"}</span>
+                  <span className="text-xs truncate text-muted-foreground">{o.agent_name || "Direct"}</span>
+                  <span className="font-bold">KSh {Number(o.total_amount).toLocaleString()}</span>
+                  <span><span style={pill(o.payment_status)}>{o.payment_status}</span></span>
+                  <span><span style={pill(o.status)}>{o.status}</span></span>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
-        <button className="bg-primary text-primary-foreground rounded-xl px-4 py-2.5 text-sm font-extrabold hover:opacity-90 transition-opacity">+ Add Product</button>
       </div>
-      <div className="bg-card border border-border rounded-2xl overflow-hidden">
-        <div className="overflow-x-auto">
-          <div className="min-w-[550px]">
-            <div className="grid grid-cols-5 px-5 py-3 bg-accent/50 border-b border-border text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase">
-              <span className="col-span-1">Product</span><span>Category</span><span>Price</span><span>Stock</span><span>Sold</span>
+    );
+  };
+
+  const commitStock = (p: Product, value: string) => {
+    const stock = Number(value);
+    if (value === "" || stock === p.stock) return;
+    if (!Number.isInteger(stock) || stock < 0) {
+      toast({ title: "Stock must be a whole number of 0 or more", variant: "destructive" });
+      return;
+    }
+    updateStock.mutate({ id: p.id, stock }, {
+      onError: e => toast({ title: `Could not update ${p.name}`, description: e.message, variant: "destructive" }),
+    });
+  };
+
+  const setActive = (ids: string[], active: boolean) => {
+    setProductsActive.mutate({ ids, active }, {
+      onSuccess: () => setSelectedProducts([]),
+      onError: e => toast({ title: "Could not update products", description: e.message, variant: "destructive" }),
+    });
+  };
+
+  const archive = (p: Product, archived: boolean) => {
+    archiveProduct.mutate({ id: p.id, archived }, {
+      onSuccess: () => toast({ title: archived ? `${p.name} archived` : `${p.name} restored`, description: archived ? undefined : "It stays hidden until you activate it." }),
+      onError: e => toast({ title: "Could not update product", description: e.message, variant: "destructive" }),
+    });
+  };
+
+  const ProductsTab = () => {
+    // Drafts, rejected and merged products live in the review queue
+    const listed = productsAdmin.filter(p => p.status === "published" && (p.archived_at ? showArchived : !showArchived));
+    const allSelected = listed.length > 0 && listed.every(p => selectedProducts.includes(p.id));
+    const toggleSelected = (id: string) =>
+      setSelectedProducts(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+    return (
+      <div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <div>
+            <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Product Catalog</div>
+            <div className="text-sm text-muted-foreground">Manage PayLoom's inventory</div>
+          </div>
+          <div className="flex gap-2">
+            <button className="bg-accent border border-border rounded-xl px-4 py-2.5 text-sm font-bold hover:bg-accent/80 transition-colors"
+              onClick={() => setImportOpen(true)}>Import</button>
+            <button className="bg-primary text-primary-foreground rounded-xl px-4 py-2.5 text-sm font-extrabold hover:opacity-90 transition-opacity"
+              onClick={() => setEditProduct("new")}>+ Add Product</button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {(["Catalog", "Archived"] as const).map(f => (
+            <button key={f} onClick={() => { setShowArchived(f === "Archived"); setSelectedProducts([]); }}
+              className={`px-3.5 py-1.5 rounded-lg text-xs font-bold border transition-colors ${showArchived === (f === "Archived") ? "bg-primary text-primary-foreground border-primary" : "bg-card text-muted-foreground border-border hover:bg-accent"}`}>
+              {f}
+            </button>
+          ))}
+          {selectedProducts.length > 0 && (
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-xs text-muted-foreground">{selectedProducts.length} selected</span>
+              <button disabled={setProductsActive.isPending} onClick={() => setActive(selectedProducts, true)}
+                className="bg-accent border border-border rounded-lg px-3 py-1.5 text-xs font-bold hover:bg-accent/80 transition-colors disabled:opacity-60">Activate</button>
+              <button disabled={setProductsActive.isPending} onClick={() => setActive(selectedProducts, false)}
+                className="bg-accent border border-border rounded-lg px-3 py-1.5 text-xs font-bold hover:bg-accent/80 transition-colors disabled:opacity-60">Deactivate</button>
             </div>
-            {productsAdmin.map((p: any) => (
-              <div key={p.id} className="grid grid-cols-5 px-5 py-3 border-b border-border/50 text-sm items-center">
-                <div className="flex items-center gap-2.5">
-                  <span className="text-xl">{p.emoji || "📦"}</span>
-                  <div className="min-w-0">
-                    <div className="text-sm font-bold truncate">{p.name}</div>
-                    <div className="text-xs text-muted-foreground">{p.total_sold} sold</div>
+          )}
+        </div>
+        <div className="bg-card border border-border rounded-2xl overflow-hidden">
+          <div className="overflow-x-auto">
+            <div className="min-w-[760px]">
+              <div className="grid grid-cols-[28px_2fr_1fr_1fr_90px_60px_80px_130px] gap-2 px-5 py-3 bg-accent/50 border-b border-border text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase items-center">
+                {showArchived ? <span /> : (
+                  <input type="checkbox" checked={allSelected} aria-label="Select all"
+                    onChange={() => setSelectedProducts(allSelected ? [] : listed.map(p => p.id))} />
+                )}
+                <span>Product</span><span>Category</span><span>Price</span><span>Stock</span><span>Sold</span><span>Status</span><span />
+              </div>
+              {listed.length === 0 && <div className="px-5 py-8 text-sm text-muted-foreground text-center">{showArchived ? "No archived products" : "No products yet"}</div>}
+              {listed.map(p => (
+                <div key={p.id} className="grid grid-cols-[28px_2fr_1fr_1fr_90px_60px_80px_130px] gap-2 px-5 py-3 border-b border-border/50 text-sm items-center">
+                  {showArchived ? <span /> : (
+                    <input type="checkbox" checked={selectedProducts.includes(p.id)} aria-label={`Select ${p.name}`} onChange={() => toggleSelected(p.id)} />
+                  )}
+                  <div className="flex items-center gap-2.5 min-w-0">
+                    <span className="w-9 h-9 rounded-lg bg-accent flex items-center justify-center text-xl overflow-hidden shrink-0">
+                      {p.image_url ? <img src={p.image_url} alt="" className="w-full h-full object-cover" /> : p.emoji || "📦"}
+                    </span>
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold truncate">{p.name}</div>
+                      {p.badge && <div className="text-[10px] font-extrabold text-primary">{p.badge}</div>}
+                    </div>
+                  </div>
+                  <span className="text-xs text-muted-foreground truncate">{p.categories?.name || "—"}</span>
+                  <span className="text-sm font-bold">
+                    KSh {Number(p.price).toLocaleString()}
+                    {p.original_price && <span className="block text-[10px] text-muted-foreground line-through">KSh {Number(p.original_price).toLocaleString()}</span>}
+                  </span>
+                  <span>
+                    <input type="number" min={0} defaultValue={p.stock} disabled={!!p.archived_at} aria-label={`Stock for ${p.name}`}
+                      onBlur={e => commitStock(p, e.target.value)}
+                      onKeyDown={e => e.key === "Enter" && e.currentTarget.blur()}
+                      className={`w-[72px] bg-background border rounded-lg px-2 py-1 text-sm font-bold outline-none focus:border-primary disabled:opacity-60 ${stockLevel(p.stock) === "in_stock" ? "border-border" : "border-destructive text-destructive"}`} />
+                    {stockLevel(p.stock) === "oversold" && <span className="block text-[10px] font-extrabold text-destructive mt-0.5">Oversold by {-p.stock}</span>}
+                  </span>
+                  <span className="text-sm font-extrabold" style={{ color: "#00D97E" }}>{p.total_sold}</span>
+                  <span>
+                    {p.archived_at ? <span style={pill("cancelled")}>Archived</span> : (
+                      <button onClick={() => setActive([p.id], !p.is_active)} disabled={setProductsActive.isPending} title={p.is_active ? "Hide from the shop" : "Show in the shop"}>
+                        <span style={pill(p.is_active ? "active" : "inactive")}>{p.is_active ? "Active" : "Hidden"}</span>
+                      </button>
+                    )}
+                  </span>
+                  <div className="flex justify-end gap-3 text-xs font-bold">
+                    {p.archived_at ? (
+                      <button className="text-primary hover:underline" onClick={() => archive(p, false)}>Restore</button>
+                    ) : (
+                      <>
+                        <button className="text-primary hover:underline" onClick={() => setEditProduct(p)}>Edit</button>
+                        <button className="text-destructive hover:underline" onClick={() => archive(p, true)}>Archive</button>
+                      </>
+                    )}
                   </div>
                 </div>
-                <span className="text-xs text-muted-foreground">{p.categories?.name || "—"}</span>
-                <span className="text-sm font-bold">KSh {Number(p.price).toLocaleString()}</span>
-                <span>{p.stock === 0 ? <span style={pill("failed")}>Out</span> : <span style={pill("completed")}>{p.stock}</span>}</span>
-                <span className="text-sm font-extrabold" style={{ color: "#00D97E" }}>{p.total_sold}</span>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   const PayoutsTab = () => (
     <div>
       <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">B2C Payouts</div>
       <div className="text-sm text-muted-foreground mb-6">Disburse earnings to agents via M-Pesa B2C</div>
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
-        <KpiCard label="Total Pending" value={`KSh ${pendingPayouts.toLocaleString()}`} accent="#FFD600" icon={<Clock size={16} />} />
+        <KpiCard label="Total Payable" value={`KSh ${availablePayouts.toLocaleString()}`} accent="#FFD600" icon={<Clock size={16} />} />
         <KpiCard label="Paid Out" value={`KSh ${totalPayoutsAmount.toLocaleString()}`} accent="#00D97E" icon={<TrendingUp size={16} />} />
-        <KpiCard label="Agents Pending" value={`${agents.filter((a: any) => (a.pending || 0) > 0).length} agents`} accent="#FF4D00" icon={<AlertCircle size={16} />} />
+        <KpiCard label="Agents Payable" value={`${agents.filter(a => (a.available || 0) > 0).length} agents`} accent="#FF4D00" icon={<AlertCircle size={16} />} />
       </div>
 
+      {/* Agent payout requests */}
+      {payoutRequests.length > 0 && (
+        <div className="bg-card border border-border rounded-2xl p-5 mb-6">
+          <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-4">Payout Requests ({payoutRequests.length})</div>
+          {payoutRequests.map(p => (
+            <div key={p.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3 border-b border-border/50 last:border-0">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold truncate">{p.agent_name}</div>
+                <div className="text-xs text-muted-foreground">M-Pesa: {formatPhone(p.phone || p.agent_phone)} · requested {new Date(p.created_at).toLocaleString()}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="text-base font-extrabold mr-1" style={{ color: "#FFD600" }}>KSh {Number(p.amount).toLocaleString()}</div>
+                <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground shrink-0 hover:bg-accent/80 transition-colors"
+                  onClick={() => setRejectRequest(p)}>Reject</button>
+                <button className="bg-primary text-primary-foreground rounded-xl px-3 py-2 text-xs font-extrabold shrink-0 hover:opacity-90 transition-opacity"
+                  onClick={() => openPayoutRequest(p)}>Approve & Send →</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Agents awaiting payout */}
       <div className="bg-card border border-border rounded-2xl p-5 mb-6">
         <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-4">Agents Awaiting Payout</div>
-        {agents.filter((a: any) => (a.pending || 0) > 0).map((a: any) => (
+        {availablePayouts === 0 && <div className="text-sm text-muted-foreground">No agent has earnings ready to pay out</div>}
+        {agents.filter(a => (a.available || 0) > 0).map(a => (
           <div key={a.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3 border-b border-border/50 last:border-0">
             <div className="flex items-center gap-3 flex-1 min-w-0">
               <div className="w-10 h-10 rounded-xl flex items-center justify-center font-extrabold text-sm shrink-0"
@@ -330,11 +609,11 @@ export default function AdminDashboard() {
               </div>
               <div className="min-w-0">
                 <div className="text-sm font-bold truncate">{a.name}</div>
-                <div className="text-xs text-muted-foreground">M-Pesa: {a.phone || a.mpesa_phone}</div>
+                <div className="text-xs text-muted-foreground">M-Pesa: {formatPhone(a.mpesa_phone || a.phone)}</div>
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <div className="text-base font-extrabold" style={{ color: "#FFD600" }}>KSh {(a.pending || 0).toLocaleString()}</div>
+              <div className="text-base font-extrabold" style={{ color: "#FFD600" }}>KSh {(a.available || 0).toLocaleString()}</div>
               <button className="bg-primary text-primary-foreground rounded-xl px-3 py-2 text-xs font-extrabold shrink-0 hover:opacity-90 transition-opacity"
                 onClick={() => { setPayoutAgent(a); setPayoutModal(true); }}>Send via M-Pesa →</button>
             </div>
@@ -342,7 +621,7 @@ export default function AdminDashboard() {
         ))}
       </div>
 
-      {/* Recent Payouts from B2C transactions */}
+      {/* Recent Payouts */}
       <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mb-3">Recent Payouts</div>
       <div className="bg-card border border-border rounded-2xl overflow-hidden">
         <div className="overflow-x-auto">
@@ -350,12 +629,13 @@ export default function AdminDashboard() {
             <div className="grid grid-cols-5 px-5 py-3 bg-accent/50 border-b border-border text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase">
               <span>Agent</span><span>Amount</span><span>M-Pesa Ref</span><span>Date</span><span>Status</span>
             </div>
-            {(adminPayouts.length > 0 ? adminPayouts : MOCK_TRANSACTIONS.filter(t => t.type === "B2C")).map((t: any) => (
+            {adminPayouts.length === 0 && <div className="px-5 py-8 text-sm text-muted-foreground text-center">No payouts yet</div>}
+            {adminPayouts.map(t => (
               <div key={t.id} className="grid grid-cols-5 px-5 py-3 border-b border-border/50 text-sm items-center">
                 <span className="font-semibold truncate">{t.agent_name}</span>
                 <span className="font-extrabold" style={{ color: "#FF8C00" }}>KSh {Number(t.amount).toLocaleString()}</span>
                 <span className="font-mono text-xs text-muted-foreground">{t.payout_ref || t.mpesa_ref || "—"}</span>
-                <span className="text-xs text-muted-foreground">{t.created_at ? new Date(t.created_at).toLocaleDateString() : t.time}</span>
+                <span className="text-xs text-muted-foreground">{new Date(t.created_at).toLocaleDateString()}</span>
                 <span style={pill(t.status)}>{t.status}</span>
               </div>
             ))}
@@ -365,7 +645,115 @@ export default function AdminDashboard() {
     </div>
   );
 
-  const TABS: Record<string, React.FC> = { overview: Overview, agents: AgentsTab, transactions: TransactionsTab, products: ProductsTab, payouts: PayoutsTab };
+  const ApplicationsTab = () => (
+    <div>
+      <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Agent Applications</div>
+      <div className="text-sm text-muted-foreground mb-6">Check each applicant's ID and M-Pesa number before approving</div>
+      {approveApplication.error && (
+        <div className="mb-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{approveApplication.error.message}</div>
+      )}
+      {applications.length === 0 && (
+        <div className="bg-card border border-border rounded-2xl">
+          <EmptyState icon="🗂️" title="No applications waiting" sub="New agent applications show up here for review" />
+        </div>
+      )}
+      {applications.map(a => (
+        <div key={a.id} className="bg-card border border-border rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 mb-3">
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-bold">{a.full_name}</div>
+            <div className="text-xs text-muted-foreground mt-1">Applied {new Date(a.created_at).toLocaleString()}</div>
+            <div className="flex gap-4 mt-2 flex-wrap">
+              <span className="text-xs text-muted-foreground">M-Pesa: <b className="text-foreground">{formatPhone(a.mpesa_phone)}</b></span>
+              <span className="text-xs text-muted-foreground">{idTypeLabel(a.id_type)}: <b className="text-foreground font-mono">{a.id_number}</b></span>
+              <span className="text-xs text-muted-foreground">County: <b className="text-foreground">{a.region}</b></span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button className="bg-accent border border-border rounded-xl px-3 py-2 text-xs font-bold text-muted-foreground shrink-0 hover:bg-accent/80 transition-colors"
+              onClick={() => setRejectApplication(a)}>Reject</button>
+            <button className="bg-primary text-primary-foreground rounded-xl px-3 py-2 text-xs font-extrabold shrink-0 hover:opacity-90 transition-opacity disabled:opacity-60"
+              disabled={approveApplication.isPending} onClick={() => approveApplication.mutate(a.id)}>
+              {approveApplication.isPending && approveApplication.variables === a.id ? "⏳ Approving..." : "Approve ✓"}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  // Uncontrolled input: the tab is re-created on every render, which would drop focus mid-typing
+  const handleLookup = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const parsed = parseReference(String(new FormData(e.currentTarget).get("reference") || ""));
+    referenceLookup.reset();
+    if (!parsed) {
+      setReferenceError("References start with PLI-, TX- or PO-, e.g. PLI-100008");
+      return;
+    }
+    if (!parsed.valid) {
+      setReferenceError(`${parsed.reference} has a typo: its check digit doesn't match`);
+      return;
+    }
+    setReferenceError("");
+    referenceLookup.mutate(parsed.reference);
+  };
+
+  const LookupTab = () => {
+    const r = referenceLookup.data;
+    const order = r?.kind === "order" ? adminOrders.find(o => o.id === r.id) : undefined;
+    const error = referenceError || referenceLookup.error?.message;
+    return (
+      <div className="max-w-xl">
+        <div className="text-xl md:text-2xl font-extrabold tracking-tight mb-1">Reference Lookup</div>
+        <div className="text-sm text-muted-foreground mb-6">Find the order, transaction or payout behind a reference a customer or agent quotes</div>
+        <form onSubmit={handleLookup} className="flex gap-2 mb-4">
+          <input name="reference" defaultValue={referenceLookup.variables || ""} autoComplete="off"
+            className="flex-1 bg-card border border-border rounded-xl px-3.5 py-3 text-sm font-mono uppercase outline-none focus:border-primary"
+            placeholder="PLI-100008, TX-… or PO-…" />
+          <button type="submit" disabled={referenceLookup.isPending}
+            className="bg-primary text-primary-foreground rounded-xl px-5 text-sm font-extrabold hover:opacity-90 transition-opacity disabled:opacity-60">
+            {referenceLookup.isPending ? "⏳" : "Look up"}
+          </button>
+        </form>
+        {error && <div className="rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{error}</div>}
+        {r && (
+          <div className="bg-card border border-border rounded-2xl p-5">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <div className="text-[10px] font-extrabold text-muted-foreground tracking-widest uppercase">{r.kind}</div>
+                <div className="text-lg font-extrabold font-mono">{r.reference}</div>
+              </div>
+              <span style={pill(r.status)}>{r.status}</span>
+            </div>
+            {([
+              ["Amount", `KSh ${Number(r.amount).toLocaleString()}`],
+              ["Date", new Date(r.created_at).toLocaleString()],
+              ["Type", r.type],
+              ["Payment", r.payment_status],
+              ["Customer", r.customer_name],
+              ["Phone", r.phone && formatPhone(r.phone)],
+              ["Items", r.items],
+              ["Order", r.order_number],
+              ["Agent", r.agent_name],
+              ["M-Pesa Ref", r.mpesa_ref],
+              ["Failure", r.failure_reason],
+            ] as const).filter(([, value]) => value != null && value !== "").map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-3 py-2 border-b border-border/50 last:border-0 text-sm">
+                <span className="text-muted-foreground">{label}</span>
+                <span className="font-bold text-right">{value}</span>
+              </div>
+            ))}
+            {order && (
+              <button className="mt-4 w-full bg-accent border border-border rounded-xl py-2.5 text-sm font-bold hover:bg-accent/80 transition-colors"
+                onClick={() => openOrder(order)}>Open order →</button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const TABS: Record<string, React.FC> = { overview: Overview, agents: AgentsTab, applications: ApplicationsTab, transactions: TransactionsTab, orders: OrdersTab, products: ProductsTab, review: ProductReviewQueue, payouts: PayoutsTab, lookup: LookupTab };
   const ActiveTab = TABS[tab];
 
   return (
@@ -404,6 +792,9 @@ export default function AdminDashboard() {
             </div>
             <div className="ml-auto w-2 h-2 bg-payloom-success rounded-full" />
           </div>
+          <button onClick={() => navigate("/account")} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-muted-foreground hover:bg-accent hover:text-foreground transition-colors">
+            <ShieldCheck size={14} /> Account Security
+          </button>
           <button onClick={handleSignOut} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-destructive hover:bg-destructive/10 transition-colors">
             <LogOut size={14} /> Sign Out
           </button>
@@ -428,20 +819,39 @@ export default function AdminDashboard() {
         </div>
       </main>
 
+      {editProduct && (
+        <ProductFormModal product={editProduct === "new" ? null : editProduct} onClose={() => setEditProduct(null)}
+          onSaved={name => { setEditProduct(null); toast({ title: editProduct === "new" ? `${name} added` : `${name} saved` }); }} />
+      )}
+
+      {importOpen && (
+        <ImportProductModal onClose={() => setImportOpen(false)} onImported={() => setTab("review")} />
+      )}
+
       {/* Payout Modal */}
       {payoutModal && payoutAgent && (
         <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4"
-          onClick={() => { setPayoutModal(false); setPaidDone(false); setPaying(false); }}>
+          onClick={closePayoutModal}>
           <div className="bg-card border border-border rounded-2xl p-7 w-full max-w-md" onClick={e => e.stopPropagation()}>
-            {paidDone ? (
+            {sentPayout ? (
               <div className="text-center py-5">
-                <div className="text-6xl mb-4">✅</div>
-                <div className="text-xl font-extrabold mb-2">Payout Sent!</div>
-                <div className="text-sm text-muted-foreground">KSh {(payoutAgent.pending || 0).toLocaleString()} sent to {payoutAgent.phone || payoutAgent.mpesa_phone} via M-Pesa B2C</div>
-                <div className="mt-4 bg-accent rounded-xl p-3 text-xs">
-                  <span className="text-muted-foreground">Ref: </span>
-                  <span className="text-primary font-mono">PLB{Math.random().toString(36).substring(2, 10).toUpperCase()}</span>
+                <div className="text-6xl mb-4">{sentPayout.status === "paid" ? "✅" : sentPayout.status === "failed" ? "❌" : "⏳"}</div>
+                <div className="text-xl font-extrabold mb-2">
+                  {sentPayout.status === "paid" ? "Payout Sent!" : sentPayout.status === "failed" ? "Payout Failed" : "Waiting for M-Pesa..."}
                 </div>
+                <div className="text-sm text-muted-foreground">
+                  {sentPayout.status === "failed"
+                    ? sentPayout.failure_reason || "M-Pesa rejected the payment"
+                    : `KSh ${Number(sentPayout.amount).toLocaleString()} ${sentPayout.status === "paid" ? "sent" : "is being sent"} to ${formatPhone(payoutPhone)} via M-Pesa B2C`}
+                </div>
+                <div className="mt-4 bg-accent rounded-xl p-3 text-xs space-y-1">
+                  <div><span className="text-muted-foreground">Payout: </span><span className="text-primary font-mono">{sentPayout.payout_ref}</span></div>
+                  {sentPayout.mpesa_ref && <div><span className="text-muted-foreground">M-Pesa Ref: </span><span className="text-primary font-mono">{sentPayout.mpesa_ref}</span></div>}
+                </div>
+                {(sentPayout.status === "paid" || sentPayout.status === "failed") && (
+                  <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-5 hover:bg-accent/80 transition-colors"
+                    onClick={closePayoutModal}>Close</button>
+                )}
               </div>
             ) : (
               <>
@@ -449,9 +859,9 @@ export default function AdminDashboard() {
                 <div className="text-sm text-muted-foreground mb-5">Send money via M-Pesa B2C API</div>
                 {([
                   ["Agent", payoutAgent.name],
-                  ["M-Pesa", payoutAgent.phone || payoutAgent.mpesa_phone],
-                  ["Amount", `KSh ${(payoutAgent.pending || 0).toLocaleString()}`],
-                  ["Commission", `${payoutAgent.tier === "Platinum" ? 18 : payoutAgent.tier === "Gold" ? 12 : payoutAgent.tier === "Silver" ? 10 : 8}% rate`],
+                  ["M-Pesa", formatPhone(payoutPhone) || "Not set"],
+                  ["Amount", `KSh ${(payoutAgent.available || 0).toLocaleString()}`],
+                  ["Commission", payoutAgent.commission_rate != null ? `${Number(payoutAgent.commission_rate)}% rate (${payoutAgent.tier})` : payoutAgent.tier],
                   ["Source", "PayLoom Merchant Account"],
                 ] as const).map(([label, value]) => (
                   <div key={label} className="flex justify-between py-3 border-b border-border text-sm">
@@ -459,18 +869,196 @@ export default function AdminDashboard() {
                     <span className="font-bold" style={{ color: label === "Amount" ? "#FFD600" : undefined }}>{value}</span>
                   </div>
                 ))}
+                {!payoutPhoneValid && (
+                  <div className="mt-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">
+                    This agent's M-Pesa number isn't a valid Safaricom number. It needs correcting before they can be paid.
+                  </div>
+                )}
+                {payoutError && (
+                  <div className="mt-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{payoutError.message}</div>
+                )}
                 <button className="bg-primary text-primary-foreground rounded-xl py-3.5 w-full text-sm font-extrabold mt-5 hover:opacity-90 transition-opacity disabled:opacity-60"
-                  onClick={handlePayout} disabled={paying}>
-                  {paying ? "⏳ Sending via M-Pesa B2C..." : `Confirm & Send KSh ${(payoutAgent.pending || 0).toLocaleString()} →`}
+                  onClick={handlePayout} disabled={paying || !payoutPhoneValid}>
+                  {paying ? "⏳ Sending via M-Pesa B2C..." : `Confirm & Send KSh ${(payoutAgent.available || 0).toLocaleString()} →`}
                 </button>
                 <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-2 hover:bg-accent/80 transition-colors"
-                  onClick={() => setPayoutModal(false)}>Cancel</button>
+                  onClick={closePayoutModal}>Cancel</button>
               </>
             )}
           </div>
         </div>
       )}
 
+      {/* Order Modal */}
+      {viewOrder && (
+        <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={() => setViewOrderId(undefined)}>
+          <div className="bg-card border border-border rounded-2xl p-7 w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <div className="flex items-start justify-between gap-3 mb-1">
+              <div className="text-lg font-extrabold font-mono">{viewOrder.order_number}</div>
+              <span style={pill(viewOrder.status)}>{viewOrder.status}</span>
+            </div>
+            <div className="text-sm text-muted-foreground mb-4">
+              {viewOrder.customer_name || "Customer"} · {formatPhone(viewOrder.customer_phone) || "no phone"} · {new Date(viewOrder.created_at).toLocaleString()}
+            </div>
+            {viewOrder.review_reason && (
+              <div className="mb-4 rounded-xl p-3 text-xs font-bold flex gap-2" style={{ background: "#1A1400", color: "#FFB800" }}>
+                <AlertCircle size={14} className="shrink-0 mt-px" />{viewOrder.review_reason}
+              </div>
+            )}
+            <div className="bg-accent/50 rounded-xl p-3 mb-4 text-sm">
+              {(viewOrder.order_items || []).map((i, idx) => (
+                <div key={idx} className="flex justify-between gap-3 py-1">
+                  <span>
+                    {i.products?.emoji} {i.product_name} ×{i.quantity}
+                    <span className="block text-[11px] text-muted-foreground">
+                      @ KSh {Number(i.unit_price).toLocaleString()}{Number(i.commission_amount) > 0 && ` · KSh ${Number(i.commission_amount).toLocaleString()} commission`}
+                    </span>
+                  </span>
+                  <span className="font-bold">KSh {Number(i.line_total).toLocaleString()}</span>
+                </div>
+              ))}
+              <div className="flex justify-between pt-2 mt-1 border-t border-border font-extrabold">
+                <span>Total</span><span>KSh {Number(viewOrder.total_amount).toLocaleString()}</span>
+              </div>
+              <div className="text-xs text-muted-foreground mt-2">
+                Payment: {viewOrder.payment_status}{viewOrder.mpesa_ref && ` · ${viewOrder.mpesa_ref}`}
+                {viewOrder.agent_name && ` · Agent ${viewOrder.agent_name} (KSh ${Number(viewOrder.commission_amount).toLocaleString()} commission${viewOrder.commission_finalized_at ? ", final" : ""})`}
+              </div>
+            </div>
+
+            {ORDER_TRANSITIONS[viewOrder.status as OrderStatus]?.length > 0 && (
+              <>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <input value={courier} onChange={e => setCourier(e.target.value)} placeholder="Courier"
+                    className="bg-accent border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary" />
+                  <input value={trackingNumber} onChange={e => setTrackingNumber(e.target.value)} placeholder="Tracking number"
+                    className="bg-accent border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary" />
+                </div>
+                <input value={orderNote} onChange={e => setOrderNote(e.target.value)} placeholder="Note for the customer's timeline (optional)"
+                  className="w-full bg-accent border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary mb-3" />
+                {transitionOrder.error && (
+                  <div className="mb-3 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{transitionOrder.error.message}</div>
+                )}
+                <div className="flex gap-2 flex-wrap">
+                  {viewOrder.status === "processing" && (
+                    <button className="bg-accent border border-border rounded-xl px-4 py-2.5 text-xs font-bold text-muted-foreground hover:bg-accent/80 transition-colors disabled:opacity-60"
+                      disabled={transitionOrder.isPending} onClick={() => handleTransition("processing")}>Save Shipping</button>
+                  )}
+                  {ORDER_TRANSITIONS[viewOrder.status as OrderStatus].map(next => (
+                    <button key={next} disabled={transitionOrder.isPending} onClick={() => handleTransition(next)}
+                      className={`rounded-xl px-4 py-2.5 text-xs font-extrabold transition-opacity hover:opacity-90 disabled:opacity-60 ${next === "cancelled" ? "bg-destructive text-destructive-foreground" : "bg-primary text-primary-foreground"}`}>
+                      {next === "processing" ? "Start Processing" : next === "delivered" ? "Mark Delivered" : "Cancel Order"}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-[11px] text-muted-foreground mt-2">Cancelling a paid order restocks its items and reverses the agent's commission. Delivery makes the commission withdrawable.</div>
+              </>
+            )}
+
+            <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mt-5 mb-3">Timeline</div>
+            <div className="border-l-2 border-border ml-1.5">
+              {orderHistory.map(h => (
+                <div key={h.id} className="relative pl-4 pb-3">
+                  <div className="absolute -left-[5px] top-1 w-2 h-2 rounded-full" style={{ background: STATUS_STYLE[h.to_status]?.color || "#666" }} />
+                  <div className="text-sm font-bold capitalize">
+                    {h.from_status && h.from_status !== h.to_status ? `${h.from_status} → ${h.to_status}` : h.from_status ? "Shipping updated" : h.to_status}
+                  </div>
+                  {(h.courier || h.tracking_number) && <div className="text-xs text-muted-foreground">{[h.courier, h.tracking_number].filter(Boolean).join(" · ")}</div>}
+                  {h.note && <div className="text-xs">{h.note}</div>}
+                  <div className="text-[10px] text-muted-foreground">{new Date(h.created_at).toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+
+            <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-3 hover:bg-accent/80 transition-colors"
+              onClick={() => setViewOrderId(undefined)}>Close</button>
+          </div>
+        </div>
+      )}
+
+      {/* Tier Rule Modal */}
+      {editRule && (
+        <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={closeRuleModal}>
+          <div className="bg-card border border-border rounded-2xl p-7 w-full max-w-md" onClick={e => e.stopPropagation()}>
+            <div className="text-lg font-extrabold mb-1" style={{ color: TIER_COLOR[editRule.tier] }}>{editRule.tier} Tier</div>
+            <div className="text-sm text-muted-foreground mb-5">Thresholds apply to paid orders in the rolling window. Leave a threshold at 0 to ignore it.</div>
+            {([
+              ["commission_rate", "Commission rate (%)"],
+              ["min_sales", "Minimum sales"],
+              ["min_revenue", "Minimum revenue (KSh)"],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="block mb-3">
+                <span className="text-xs font-bold text-muted-foreground">{label}</span>
+                <input type="number" min={0} value={editRule[field]}
+                  onChange={e => setEditRule({ ...editRule, [field]: Number(e.target.value) })}
+                  className="mt-1 w-full bg-accent border border-border rounded-xl px-3.5 py-2.5 text-sm outline-none focus:border-primary" />
+              </label>
+            ))}
+            {updateTierRule.error && (
+              <div className="mt-1 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{updateTierRule.error.message}</div>
+            )}
+            <button className="bg-primary text-primary-foreground rounded-xl py-3.5 w-full text-sm font-extrabold mt-4 hover:opacity-90 transition-opacity disabled:opacity-60"
+              disabled={updateTierRule.isPending}
+              onClick={() => updateTierRule.mutate(
+                { tier: editRule.tier, commission_rate: editRule.commission_rate, min_sales: editRule.min_sales, min_revenue: editRule.min_revenue },
+                { onSuccess: closeRuleModal },
+              )}>
+              {updateTierRule.isPending ? "⏳ Saving..." : "Save Rule"}
+            </button>
+            <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-2 hover:bg-accent/80 transition-colors"
+              onClick={closeRuleModal}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Payout Request Modal */}
+      {rejectRequest && (
+        <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={closeRejectModal}>
+          <div className="bg-card border border-border rounded-2xl p-7 w-full max-w-md" onClick={e => e.stopPropagation()}>
+            <div className="text-lg font-extrabold mb-1">Reject Payout Request</div>
+            <div className="text-sm text-muted-foreground mb-5">
+              KSh {Number(rejectRequest.amount).toLocaleString()} for {rejectRequest.agent_name}. The agent will see your reason.
+            </div>
+            <textarea value={rejectReason} onChange={e => setRejectReason(e.target.value)} rows={3}
+              placeholder="e.g. Pending order returns need to clear first"
+              className="w-full bg-accent border border-border rounded-xl px-3.5 py-3 text-sm outline-none focus:border-primary resize-none" />
+            {rejectPayout.error && (
+              <div className="mt-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{rejectPayout.error.message}</div>
+            )}
+            <button className="bg-destructive text-destructive-foreground rounded-xl py-3.5 w-full text-sm font-extrabold mt-5 hover:opacity-90 transition-opacity disabled:opacity-60"
+              onClick={handleReject} disabled={rejectPayout.isPending}>
+              {rejectPayout.isPending ? "⏳ Rejecting..." : "Reject Request"}
+            </button>
+            <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-2 hover:bg-accent/80 transition-colors"
+              onClick={closeRejectModal}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Agent Application Modal */}
+      {rejectApplication && (
+        <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4" onClick={closeApplicationModal}>
+          <div className="bg-card border border-border rounded-2xl p-7 w-full max-w-md" onClick={e => e.stopPropagation()}>
+            <div className="text-lg font-extrabold mb-1">Reject Application</div>
+            <div className="text-sm text-muted-foreground mb-5">
+              {rejectApplication.full_name} will see your reason and can apply again.
+            </div>
+            <textarea value={applicationReason} onChange={e => setApplicationReason(e.target.value)} rows={3}
+              placeholder="e.g. The ID number doesn't match the name given"
+              className="w-full bg-accent border border-border rounded-xl px-3.5 py-3 text-sm outline-none focus:border-primary resize-none" />
+            {declineApplication.error && (
+              <div className="mt-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">{declineApplication.error.message}</div>
+            )}
+            <button className="bg-destructive text-destructive-foreground rounded-xl py-3.5 w-full text-sm font-extrabold mt-5 hover:opacity-90 transition-opacity disabled:opacity-60"
+              onClick={handleRejectApplication} disabled={declineApplication.isPending || !applicationReason.trim()}>
+              {declineApplication.isPending ? "⏳ Rejecting..." : "Reject Application"}
+            </button>
+            <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-2 hover:bg-accent/80 transition-colors"
+              onClick={closeApplicationModal}>Cancel</button>
+          </div>
+        </div>
+      )}
+
       {/* Agent Modal */}
       {agentModal && viewAgent && (
         <div className="fixed inset-0 bg-black/85 flex items-center justify-center z-[999] p-4"
@@ -483,19 +1071,41 @@ export default function AdminDashboard() {
               </div>
               <div>
                 <div className="text-lg font-extrabold">{viewAgent.name}</div>
-                <div className="text-xs text-muted-foreground mt-0.5">{viewAgent.phone || viewAgent.mpesa_phone} · Joined {viewAgent.joined}</div>
+                <div className="text-xs text-muted-foreground mt-0.5">{formatPhone(viewAgent.phone || viewAgent.mpesa_phone)} · Joined {viewAgent.joined}</div>
                 <div className="flex gap-1.5 mt-1.5">
                   <span className="text-[10px] font-extrabold px-2 py-0.5 rounded" style={{ background: `${TIER_COLOR[viewAgent.tier]}22`, color: TIER_COLOR[viewAgent.tier] }}>{viewAgent.tier}</span>
                   <span className="text-[9px] font-bold px-2 py-0.5 rounded" style={pill(viewAgent.status)}>{viewAgent.status}</span>
                 </div>
               </div>
             </div>
-            {([["Total Sales", (viewAgent.sales || 0).toString()], ["Total Earned", `KSh ${(viewAgent.earned || 0).toLocaleString()}`], ["Pending Payout", `KSh ${(viewAgent.pending || 0).toLocaleString()}`]] as const).map(([label, value]) => (
+            {([["Total Sales", (viewAgent.sales || 0).toString()], ["Total Earned", `KSh ${(viewAgent.earned || 0).toLocaleString()}`], ["Available", `KSh ${(viewAgent.available || 0).toLocaleString()}`], ["On Hold", `KSh ${(viewAgent.pending || 0).toLocaleString()}`]] as const).map(([label, value]) => (
               <div key={label} className="flex justify-between py-3 border-b border-border text-sm">
                 <span className="text-muted-foreground">{label}</span>
                 <span className="font-bold">{value}</span>
               </div>
             ))}
+            {ledgerBalance && !ledgerBalance.in_balance && (
+              <div className="mt-4 rounded-xl p-3 text-xs font-bold bg-destructive/10 text-destructive">
+                Balances don't match the commission ledger (earned KSh {Number(ledgerBalance.ledger_earned).toLocaleString()}, pending KSh {Number(ledgerBalance.ledger_pending).toLocaleString()}).
+              </div>
+            )}
+            <div className="text-xs font-extrabold text-muted-foreground tracking-widest uppercase mt-5 mb-2">Earnings Statement</div>
+            <div className="max-h-[240px] overflow-y-auto border border-border rounded-xl">
+              {statement.length === 0 ? (
+                <div className="p-4 text-xs text-muted-foreground">No ledger entries yet</div>
+              ) : statement.map(e => (
+                <div key={e.id} className="grid grid-cols-[1fr_auto_auto] gap-3 px-3 py-2 border-b border-border/50 last:border-0 text-xs items-center">
+                  <div className="min-w-0">
+                    <div className="font-semibold truncate">{e.description}</div>
+                    <div className="text-muted-foreground">{ENTRY_LABEL[e.entry_type]} · {new Date(e.created_at).toLocaleDateString()}</div>
+                  </div>
+                  <span className="font-extrabold" style={{ color: e.amount < 0 ? "#FF4D4D" : "#00D97E" }}>
+                    {e.amount < 0 ? "−" : "+"}KSh {Math.abs(e.amount).toLocaleString()}
+                  </span>
+                  <span className="text-muted-foreground w-20 text-right">KSh {e.balance.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
             <button className="bg-primary text-primary-foreground rounded-xl py-3.5 w-full text-sm font-extrabold mt-5 hover:opacity-90 transition-opacity"
               onClick={() => { setAgentModal(false); setPayoutAgent(viewAgent); setPayoutModal(true); }}>💸 Send Payout to This Agent</button>
             <button className="bg-accent border border-border rounded-xl py-3 w-full text-sm font-bold text-muted-foreground mt-2 hover:bg-accent/80 transition-colors"
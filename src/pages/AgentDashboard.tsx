@@ -1,10 +1,22 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useAgentProfile } from "@/hooks/useAgents";
+import { useProducts, type Product } from "@/hooks/useProducts";
+import { useAgentOrders } from "@/hooks/useOrders";
+import { useAgentPayouts, useRequestPayout, usePayoutUpdates } from "@/hooks/usePayouts";
+import { useAppSetting, DEFAULT_PAYOUT_RULES, DEFAULT_WALLET_RULES } from "@/hooks/useAppSettings";
+import { useWallet } from "@/hooks/useWallet";
+import { useCommissionStatement } from "@/hooks/useCommissions";
+import { useTierRules, useAgentWindowStats } from "@/hooks/useTiers";
+import { tierProgress } from "@/lib/tiers";
+import { weeklyEarnings } from "@/lib/charts";
+import { maturingSchedule } from "@/lib/wallet";
+import { ENTRY_LABEL } from "@/lib/commissions";
+import { formatPhone } from "@/lib/phone";
+import PhoneOtpForm from "@/components/PhoneOtpForm";
 import { Home, Package, FileText, Banknote, User, Bell, Link2, Copy, Check, LogOut } from "lucide-react";
-import { MOCK_ORDERS_AGENT, MOCK_PAYOUTS_AGENT, MOCK_PRODUCTS_SHOP, MOCK_WEEKLY } from "@/data/mockData";
 
 const STATUS_STYLE: Record<string, { bg: string; color: string; label: string }> = {
   delivered: { bg: "#0D2B1E", color: "#00D97E", label: "Delivered" },
@@ -12,8 +24,11 @@ const STATUS_STYLE: Record<string, { bg: string; color: string; label: string }>
   pending: { bg: "#1A1400", color: "#FFB800", label: "Pending" },
   cancelled: { bg: "#2B0D0D", color: "#FF4D4D", label: "Cancelled" },
   paid: { bg: "#0D2B1E", color: "#00D97E", label: "Paid" },
+  failed: { bg: "#2B0D0D", color: "#FF4D4D", label: "Failed" },
 };
 
+const PAYOUT_LABEL: Record<string, string> = { pending: "Awaiting approval", processing: "Sending", paid: "Paid", failed: "Failed" };
+
 const TIER_COLOR: Record<string, string> = { Gold: "#FFD700", Silver: "#C0C0C0", Bronze: "#CD7F32", Platinum: "#00E5FF" };
 
 export default function AgentDashboard() {
@@ -21,62 +36,51 @@ export default function AgentDashboard() {
   const { user, signOut } = useAuth();
   const [tab, setTab] = useState("home");
   const [shareModal, setShareModal] = useState(false);
-  const [shareProduct, setShareProduct] = useState<any>(null);
+  const [shareProduct, setShareProduct] = useState<Pick<Product, "id" | "name" | "emoji" | "price"> | null>(null);
   const [copied, setCopied] = useState(false);
+  const [requestModal, setRequestModal] = useState(false);
+  const [requestAmount, setRequestAmount] = useState("");
+  const [verifyModal, setVerifyModal] = useState(false);
+  const queryClient = useQueryClient();
+  const requestPayout = useRequestPayout();
+  const { data: payoutRules = DEFAULT_PAYOUT_RULES } = useAppSetting("payouts", DEFAULT_PAYOUT_RULES);
+  const { data: walletRules = DEFAULT_WALLET_RULES } = useAppSetting("wallet", DEFAULT_WALLET_RULES);
+  usePayoutUpdates([["agent-payouts"], ["agent-profile"], ["commission-statement"], ["wallet"]], !!user?.id);
 
-  const { data: agentData } = useQuery({
-    queryKey: ["agent-profile", user?.id],
-    enabled: !!user?.id,
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("agents").select("*, profiles(full_name, phone)").eq("user_id", user!.id).maybeSingle();
-      if (error) throw error;
-      return data;
-    },
-  });
-
-  const { data: dbProducts = [] } = useQuery({
-    queryKey: ["agent-products"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("products").select("*, categories(name)").eq("is_active", true);
-      if (error) throw error;
-      return data || [];
-    },
-  });
-
-  const { data: dbOrders = [] } = useQuery({
-    queryKey: ["agent-orders"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("orders").select("*").order("created_at", { ascending: false });
-      if (error) throw error;
-      return data || [];
-    },
-  });
-
-  const { data: dbPayouts = [] } = useQuery({
-    queryKey: ["agent-payouts"],
-    queryFn: async () => {
-      const { data, error } = await (supabase as any).from("payouts").select("*").order("created_at", { ascending: false });
-      if (error) throw error;
-      return data || [];
-    },
-  });
-
-  // Use mock data as fallback when DB is empty
-  const products = dbProducts.length > 0 ? dbProducts : MOCK_PRODUCTS_SHOP.slice(0, 5).map(p => ({ ...p, categories: { name: p.category_name } }));
-  const orders = dbOrders.length > 0 ? dbOrders : MOCK_ORDERS_AGENT;
-  const payouts = dbPayouts.length > 0 ? dbPayouts : MOCK_PAYOUTS_AGENT;
+  const { data: agent } = useAgentProfile(user?.id);
+  const { data: products = [] } = useProducts();
+  const { data: orders = [] } = useAgentOrders(agent?.id);
+  const { data: payouts = [] } = useAgentPayouts(agent?.id);
 
-  const agent = agentData as any;
+  const { data: statement = [] } = useCommissionStatement(agent?.id);
+  const { data: tierRules = [] } = useTierRules();
+  const { data: windowStats } = useAgentWindowStats(agent?.id);
   const agentName = agent?.profiles?.full_name || user?.user_metadata?.full_name || "Agent";
-  const agentPhone = agent?.profiles?.phone || agent?.mpesa_phone || "";
+  // Payouts go to the M-Pesa number on file, so that is the one to show
+  const agentPhone = formatPhone(agent?.mpesa_phone || agent?.profiles?.phone);
   const agentAvatar = agentName.split(" ").map((n: string) => n[0]).join("").substring(0, 2);
-  const pendingEarnings = agent?.pending_earnings || 4572;
-  const totalEarnings = agent?.total_earned || 42650;
-  const totalSales = agent?.total_sales || 58;
-  const commissionRate = agent?.commission_rate || 12;
-  const tier = agent?.tier || "Gold";
+  const { data: wallet } = useWallet(agent?.id);
+  const maturing = maturingSchedule(wallet?.pending ?? []);
+  // Matured commission can be requested before the release run moves it over
+  const withdrawable = Math.max((wallet?.available_balance ?? 0) + maturing.matured, 0);
+  const heldEarnings = Math.max((wallet?.pending_balance ?? 0) - maturing.matured, 0);
+  const totalEarnings = wallet?.total_earned ?? agent?.earned ?? 0;
+  const totalSales = agent?.sales ?? 0;
+  const commissionRate = agent?.commission_rate ?? 0;
+  const tier = agent?.tier ?? "Bronze";
 
-  const maxEarnings = Math.max(...MOCK_WEEKLY.map(d => d.earnings));
+  const progress = tierProgress(tierRules, tier, windowStats ?? { sales: 0, revenue: 0 });
+  const nextTier = progress.next;
+  const stillNeeded = [
+    progress.salesNeeded > 0 && `${progress.salesNeeded} more sales`,
+    progress.revenueNeeded > 0 && `KSh ${progress.revenueNeeded.toLocaleString()} more in sales`,
+  ].filter(Boolean).join(" and ");
+
+  const weekly = weeklyEarnings(statement);
+  const weekEarnings = weekly.reduce((s, d) => s + d.earnings, 0);
+  const weekSales = weekly.reduce((s, d) => s + d.sales, 0);
+  const maxEarnings = Math.max(...weekly.map(d => d.earnings), 1);
+  const outOfStock = products.filter(p => p.stock === 0).length;
 
   const statusPill = (s: string) => ({
     background: STATUS_STYLE[s]?.bg || "#1A1A1A", color: STATUS_STYLE[s]?.color || "#fff",
@@ -89,6 +93,19 @@ export default function AgentDashboard() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const openPayout = payouts.find(p => p.status === "pending" || p.status === "processing");
+
+  const openRequestModal = () => {
+    requestPayout.reset();
+    setRequestAmount(String(Math.floor(withdrawable)));
+    setRequestModal(true);
+  };
+
+  const handleRequestPayout = () => {
+    const amount = Number(requestAmount);
+    requestPayout.mutate(amount >= Math.floor(withdrawable) ? undefined : amount);
+  };
+
   const handleSignOut = async () => {
     await signOut();
     navigate("/auth");
@@ -124,21 +141,49 @@ export default function AgentDashboard() {
       {/* Balance Card */}
       <div className="mx-4 mt-4 bg-gradient-to-br from-[#1A0A00] via-[#2B1400] to-[#1A0A00] border border-[#3D1F00] rounded-2xl p-5 relative overflow-hidden">
         <div className="absolute -top-10 -right-10 w-[120px] h-[120px] bg-[radial-gradient(circle,rgba(255,77,0,0.3)_0%,transparent_70%)] rounded-full" />
-        <div className="text-[11px] text-[#FF8C5A] font-bold tracking-widest uppercase">Pending Earnings</div>
-        <div className="text-[34px] font-extrabold tracking-tighter text-white my-1.5">KSh {Number(pendingEarnings).toLocaleString()}</div>
-        <div className="text-xs text-[#AA7755]">Commission rate: {commissionRate}% per sale</div>
-        <button className="mt-3.5 bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer">
-          Request Payout via M-Pesa →
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="text-[11px] text-[#FF8C5A] font-bold tracking-widest uppercase">Available</div>
+            <div className="text-[28px] font-extrabold tracking-tighter text-white my-1">KSh {withdrawable.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-[11px] text-[#AA7755] font-bold tracking-widest uppercase">Pending</div>
+            <div className="text-[28px] font-extrabold tracking-tighter text-[#AA7755] my-1">KSh {heldEarnings.toLocaleString()}</div>
+          </div>
+        </div>
+        {heldEarnings > 0 && (
+          <div className="relative mt-2 border-t border-[#3D1F00] pt-2.5 space-y-1.5">
+            {maturing.days.map(d => (
+              <div key={d.date.getTime()} className="flex justify-between text-xs">
+                <span className="text-[#AA7755]">
+                  {d.date.toLocaleDateString("en-US", { weekday: "short", day: "numeric", month: "short" })} · {d.orders.length} {d.orders.length === 1 ? "order" : "orders"}
+                </span>
+                <span className="font-bold text-white">KSh {d.amount.toLocaleString()}</span>
+              </div>
+            ))}
+            {maturing.awaitingDelivery > 0 && (
+              <div className="flex justify-between text-xs">
+                <span className="text-[#AA7755]">Awaiting delivery</span>
+                <span className="font-bold text-white">KSh {maturing.awaitingDelivery.toLocaleString()}</span>
+              </div>
+            )}
+            <div className="text-[10px] text-[#AA7755]">Commission becomes available {walletRules.hold_days} days after delivery</div>
+          </div>
+        )}
+        <div className="text-xs text-[#AA7755] mt-2">Commission rate: {commissionRate}% per sale</div>
+        <button onClick={openRequestModal} disabled={!!openPayout}
+          className="mt-3.5 bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer disabled:opacity-60">
+          {openPayout ? "Payout request in progress..." : "Request Payout via M-Pesa →"}
         </button>
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-2 gap-2.5 px-4 pt-3">
         {[
-          [`KSh ${Number(totalEarnings).toLocaleString()}`, "Total Earned", "#00D97E", "↑ 18% this month"],
-          [totalSales.toString(), "Total Sales", "#FFD600", "↑ 7 this week"],
-          [`${commissionRate}%`, "Conversion Rate", "#00B4FF", "↑ 4% vs last week"],
-          [products.length.toString(), "Active Listings", "#FF4D00", "1 out of stock"],
+          [`KSh ${Number(totalEarnings).toLocaleString()}`, "Total Earned", "#00D97E", `KSh ${weekEarnings.toLocaleString()} this week`],
+          [totalSales.toString(), "Total Sales", "#FFD600", `${weekSales} this week`],
+          [`${commissionRate}%`, "Commission Rate", "#00B4FF", `${tier} tier`],
+          [products.length.toString(), "Active Listings", "#FF4D00", `${outOfStock} out of stock`],
         ].map(([value, label, color, sub]) => (
           <div key={label as string} className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3.5">
             <div className="text-[22px] font-extrabold tracking-tight" style={{ color: color as string }}>{value}</div>
@@ -154,17 +199,17 @@ export default function AgentDashboard() {
         <div className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-4">
           <div className="flex justify-between mb-2.5">
             <span className="text-xs text-[#666]">Daily Earnings</span>
-            <span className="text-xs text-primary font-bold">KSh 70,200 total</span>
+            <span className="text-xs text-primary font-bold">KSh {weekEarnings.toLocaleString()} total</span>
           </div>
           <div className="flex items-end gap-1.5 h-20 mb-2">
-            {MOCK_WEEKLY.map((d, i) => (
+            {weekly.map((d, i) => (
               <div key={d.day} className="flex-1 flex flex-col items-center gap-1">
                 <div
                   className="w-full rounded-t"
                   style={{
                     height: `${Math.round((d.earnings / maxEarnings) * 100)}%`,
                     minHeight: 4,
-                    background: i === 4 ? "linear-gradient(180deg, #FF4D00, #FF8C00)" : "#1F1F2E",
+                    background: i === weekly.length - 1 ? "linear-gradient(180deg, #FF4D00, #FF8C00)" : "#1F1F2E",
                     transition: "height 0.6s ease",
                   }}
                 />
@@ -181,15 +226,16 @@ export default function AgentDashboard() {
           <div className="text-xs font-extrabold text-[#888] tracking-widest uppercase">Recent Orders</div>
           <span onClick={() => setTab("orders")} className="text-xs text-primary cursor-pointer font-bold">See all →</span>
         </div>
-        {orders.slice(0, 3).map((o: any) => (
+        {orders.length === 0 && <EmptyState icon="🛍️" title="No orders yet" sub="Share a product link and your sales will show up here" />}
+        {orders.slice(0, 3).map(o => (
           <div key={o.id} className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 flex items-center gap-3 mb-2">
-            <div className="w-10 h-10 bg-[#0C0C10] rounded-xl flex items-center justify-center text-xl">📦</div>
+            <div className="w-10 h-10 bg-[#0C0C10] rounded-xl flex items-center justify-center text-xl">{o.order_items[0]?.products?.emoji || "📦"}</div>
             <div className="flex-1 min-w-0">
               <div className="text-[13px] font-bold truncate">{o.customer_name || "Customer"}</div>
-              <div className="text-[11px] text-[#555] mt-0.5">{o.order_number || o.product}</div>
+              <div className="text-[11px] text-[#555] mt-0.5 truncate">{o.order_number} · {o.items_summary}</div>
             </div>
             <div className="text-right">
-              <div className="text-[13px] font-extrabold" style={{ color: "#00D97E" }}>+KSh {Number(o.commission_amount || o.total_amount * 0.12).toLocaleString()}</div>
+              <div className="text-[13px] font-extrabold" style={{ color: "#00D97E" }}>+KSh {Number(o.commission_amount).toLocaleString()}</div>
               <span style={statusPill(o.status)}>{STATUS_STYLE[o.status]?.label || o.status}</span>
             </div>
           </div>
@@ -202,7 +248,8 @@ export default function AgentDashboard() {
     <div className="px-4 pt-4">
       <div className="text-xl font-extrabold mb-1">My Products</div>
       <div className="text-[13px] text-[#555] mb-4">Share your link to earn commission on every sale</div>
-      {products.map((p: any) => (
+      {products.length === 0 && <EmptyState icon="📦" title="No products to share yet" sub="Products appear here as soon as they are added to the shop" />}
+      {products.map(p => (
         <div key={p.id} className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 flex items-center gap-3 mb-2">
           <div className="w-12 h-12 bg-[#0C0C10] rounded-xl flex items-center justify-center text-[26px] shrink-0">{p.emoji || "📦"}</div>
           <div className="flex-1 min-w-0">
@@ -228,19 +275,26 @@ export default function AgentDashboard() {
       <div className="text-[13px] text-[#555] mb-4">All customer orders and your commission earnings</div>
       {/* Summary pills */}
       <div className="flex gap-2 mb-4 overflow-x-auto scrollbar-hide">
-        {[["All", orders.length, "#FF4D00"], ["Delivered", orders.filter((o: any) => o.status === "delivered").length, "#00D97E"], ["Processing", orders.filter((o: any) => o.status === "processing").length, "#FFD600"], ["Cancelled", orders.filter((o: any) => o.status === "cancelled").length, "#FF4D4D"]].map(([label, count, color]) => (
+        {[["All", orders.length, "#FF4D00"], ["Delivered", orders.filter(o => o.status === "delivered").length, "#00D97E"], ["Processing", orders.filter(o => o.status === "processing").length, "#FFD600"], ["Cancelled", orders.filter(o => o.status === "cancelled").length, "#FF4D4D"]].map(([label, count, color]) => (
           <div key={label as string} className="bg-[#16161E] border border-[#1F1F2E] rounded-xl px-3.5 py-2 whitespace-nowrap">
             <span className="text-sm font-extrabold" style={{ color: color as string }}>{count as number}</span>
             <span className="text-[11px] text-[#555] ml-1">{label as string}</span>
           </div>
         ))}
       </div>
-      {orders.map((o: any) => (
+      {orders.length === 0 && <EmptyState icon="🛍️" title="No orders yet" sub="Orders placed through your links will show up here" />}
+      {orders.map(o => (
         <div key={o.id} className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 mb-2">
           <div className="flex justify-between items-center">
             <span className="text-[11px] text-[#555] font-bold">{o.order_number}</span>
             <span style={statusPill(o.status)}>{STATUS_STYLE[o.status]?.label || o.status}</span>
           </div>
+          {o.order_items.map((i, idx) => (
+            <div key={idx} className="flex justify-between items-center gap-3 mt-2 text-[13px]">
+              <span className="truncate">{i.products?.emoji || "📦"} {i.product_name} <span className="text-[#555]">×{i.quantity}</span></span>
+              <span className="text-xs text-[#888] shrink-0">KSh {Number(i.line_total).toLocaleString()}</span>
+            </div>
+          ))}
           <div className="flex justify-between items-center border-t border-[#1F1F2E] pt-2 mt-2">
             <div>
               <div className="text-xs text-[#555]">{o.customer_name || "Customer"}</div>
@@ -263,19 +317,47 @@ export default function AgentDashboard() {
       <div className="bg-gradient-to-br from-[#1A0A00] via-[#2B1400] to-[#1A0A00] border border-[#3D1F00] rounded-2xl p-5 relative overflow-hidden mb-4">
         <div className="absolute -top-10 -right-10 w-[120px] h-[120px] bg-[radial-gradient(circle,rgba(255,77,0,0.3)_0%,transparent_70%)] rounded-full" />
         <div className="text-[11px] text-[#FF8C5A] font-bold tracking-widest uppercase">Available to Request</div>
-        <div className="text-[28px] font-extrabold tracking-tighter text-white my-1.5">KSh {Number(pendingEarnings).toLocaleString()}</div>
+        <div className="text-[28px] font-extrabold tracking-tighter text-white my-1.5">KSh {withdrawable.toLocaleString()}</div>
+        {heldEarnings > 0 && <div className="text-xs text-[#AA7755] mb-1">+ KSh {heldEarnings.toLocaleString()} pending, available {walletRules.hold_days} days after delivery</div>}
         <div className="text-xs text-[#AA7755]">Will be sent to {agentPhone || "your M-Pesa"}</div>
-        <button className="mt-3.5 bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer">
-          Request Payout Now →
+        <button onClick={openRequestModal} disabled={!!openPayout}
+          className="mt-3.5 bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer disabled:opacity-60">
+          {openPayout ? "Payout request in progress..." : "Request Payout Now →"}
         </button>
+        <div className="text-[10px] text-[#AA7755] mt-2">Minimum KSh {payoutRules.min_amount.toLocaleString()} · one request every {payoutRules.cooldown_hours}h</div>
       </div>
+      <div className="text-xs font-extrabold text-[#888] tracking-widest uppercase mb-3">Earnings Statement</div>
+      {statement.length === 0 ? (
+        <div className="text-xs text-[#555] mb-5">Commission from your paid orders will show up here.</div>
+      ) : (
+        <div className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl px-3 mb-5">
+          {statement.map(e => (
+            <div key={e.id} className="flex justify-between items-center py-2.5 border-b border-[#1F1F2E] last:border-0">
+              <div className="min-w-0">
+                <div className="text-[13px] font-bold truncate">{e.description}</div>
+                <div className="text-[10px] text-[#555]">{ENTRY_LABEL[e.entry_type]} · {new Date(e.created_at).toLocaleDateString()}</div>
+              </div>
+              <div className="text-right shrink-0 ml-3">
+                <div className="text-[13px] font-extrabold" style={{ color: e.amount < 0 ? "#FF4D4D" : "#00D97E" }}>
+                  {e.amount < 0 ? "−" : "+"}KSh {Math.abs(e.amount).toLocaleString()}
+                </div>
+                <div className="text-[10px] text-[#555]">Bal. KSh {e.balance.toLocaleString()}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="text-xs font-extrabold text-[#888] tracking-widest uppercase mb-3">Payout History</div>
-      {payouts.map((p: any) => (
+      {payouts.length === 0 && <div className="text-xs text-[#555] mb-2">You haven't requested a payout yet.</div>}
+      {payouts.map(p => (
         <div key={p.id} className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 mb-2">
           <div className="flex justify-between items-center">
             <span className="text-lg font-extrabold" style={{ color: "#00D97E" }}>KSh {Number(p.amount).toLocaleString()}</span>
-            <span style={statusPill(p.status)}>{STATUS_STYLE[p.status]?.label || p.status}</span>
+            <span style={statusPill(p.status)}>{PAYOUT_LABEL[p.status] || p.status}</span>
           </div>
+          {p.status === "failed" && p.failure_reason && (
+            <div className="text-[11px] text-[#FF4D4D] mt-1.5">{p.failure_reason}</div>
+          )}
           <div className="flex justify-between mt-2 pt-2 border-t border-[#1F1F2E]">
             <span className="text-[11px] text-[#555]">{new Date(p.created_at).toLocaleDateString()}</span>
             <span className="text-[11px] text-[#444] font-mono">Ref: {p.payout_ref}</span>
@@ -283,7 +365,7 @@ export default function AgentDashboard() {
         </div>
       ))}
       <div className="text-center py-5 text-xs text-[#333]">
-        Total paid out: <span className="text-[#00D97E] font-extrabold">KSh {payouts.reduce((s: number, p: any) => s + Number(p.amount), 0).toLocaleString()}</span>
+        Total paid out: <span className="text-[#00D97E] font-extrabold">KSh {payouts.filter(p => p.status === "paid").reduce((s, p) => s + Number(p.amount), 0).toLocaleString()}</span>
       </div>
     </div>
   );
@@ -311,16 +393,55 @@ export default function AgentDashboard() {
           </div>
         </div>
       ))}
+      {agent && !agent.phoneVerified && (
+        <button onClick={() => setVerifyModal(true)}
+          className="w-full bg-[#1A1400] border border-[#3D2A00] rounded-2xl p-3 flex items-center gap-3 mb-2 text-left">
+          <span className="text-[22px]">🔐</span>
+          <div className="flex-1">
+            <div className="text-sm font-bold text-[#FFB800]">Verify your phone number</div>
+            <div className="text-[11px] text-[#AA8844] mt-0.5">We'll text you a code so you can also sign in with your phone</div>
+          </div>
+        </button>
+      )}
+      <button onClick={() => navigate("/my-store")}
+        className="w-full bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 flex items-center gap-3 mb-2 text-left">
+        <span className="text-[22px]">🏪</span>
+        <div className="flex-1">
+          <div className="text-sm font-bold">My store</div>
+          <div className="text-[11px] text-[#555] mt-0.5">Your own storefront link, logo and bio</div>
+        </div>
+      </button>
+      <button onClick={() => navigate("/account")}
+        className="w-full bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-3 flex items-center gap-3 mb-2 text-left">
+        <span className="text-[22px]">🛡️</span>
+        <div className="flex-1">
+          <div className="text-sm font-bold">Account security</div>
+          <div className="text-[11px] text-[#555] mt-0.5">Change your password and see where you're signed in</div>
+        </div>
+      </button>
 
       {/* Upgrade Banner */}
-      <div className="bg-gradient-to-br from-[#1A1000] to-[#2B1A00] border border-[#3D2A00] rounded-2xl p-4 mt-2">
-        <div className="text-[13px] font-extrabold text-[#FFD700] mb-1">🚀 Upgrade to Platinum</div>
-        <div className="text-xs text-[#AA8844] leading-relaxed">Sell 100+ items to unlock 18% commission rate and priority payouts</div>
-        <div className="mt-2.5 bg-[#3D2A00] rounded-lg h-1.5 overflow-hidden">
-          <div className="h-full bg-gradient-to-r from-primary to-[#FFD700] rounded-lg" style={{ width: "58%" }} />
+      {nextTier ? (
+        <div className="bg-gradient-to-br from-[#1A1000] to-[#2B1A00] border border-[#3D2A00] rounded-2xl p-4 mt-2">
+          <div className="text-[13px] font-extrabold text-[#FFD700] mb-1">🚀 Upgrade to {nextTier.tier}</div>
+          <div className="text-xs text-[#AA8844] leading-relaxed">
+            {stillNeeded || "You qualify"} in the last {windowStats?.window_days ?? 90} days to unlock {nextTier.commission_rate}% commission rate{nextTier.perks ? ` and ${nextTier.perks.toLowerCase()}` : ""}
+          </div>
+          <div className="mt-2.5 bg-[#3D2A00] rounded-lg h-1.5 overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-primary to-[#FFD700] rounded-lg" style={{ width: `${progress.percent}%` }} />
+          </div>
+          <div className="text-[10px] text-[#666] mt-1">
+            {nextTier.min_sales > 0
+              ? `${windowStats?.sales ?? 0} / ${nextTier.min_sales} sales to ${nextTier.tier}`
+              : `KSh ${(windowStats?.revenue ?? 0).toLocaleString()} / ${nextTier.min_revenue.toLocaleString()} to ${nextTier.tier}`}
+          </div>
         </div>
-        <div className="text-[10px] text-[#666] mt-1">{totalSales} / 100 sales to Platinum</div>
-      </div>
+      ) : tierRules.length > 0 && (
+        <div className="bg-gradient-to-br from-[#1A1000] to-[#2B1A00] border border-[#3D2A00] rounded-2xl p-4 mt-2">
+          <div className="text-[13px] font-extrabold text-[#FFD700] mb-1">🏆 You're at {tier}</div>
+          <div className="text-xs text-[#AA8844] leading-relaxed">Keep your sales up over the last {windowStats?.window_days ?? 90} days to hold your {commissionRate}% commission rate</div>
+        </div>
+      )}
 
       <button onClick={handleSignOut} className="mt-4 bg-[#1C1C24] border-none rounded-xl py-3 w-full text-[#FF4D4D] text-sm font-extrabold cursor-pointer flex items-center justify-center gap-2">
         <LogOut size={16} /> Sign Out
@@ -386,6 +507,60 @@ export default function AgentDashboard() {
         </div>
       )}
 
+      {/* Payout Request Modal */}
+      {requestModal && (
+        <div className="fixed inset-0 bg-black/80 flex items-end z-[999]" onClick={() => setRequestModal(false)}>
+          <div className="bg-[#16161E] rounded-t-2xl p-6 pb-10 w-full max-w-[430px] mx-auto border border-[#2A2A36]" onClick={e => e.stopPropagation()}>
+            {requestPayout.isSuccess ? (
+              <div className="text-center py-4">
+                <div className="text-5xl mb-3">📨</div>
+                <div className="text-lg font-extrabold mb-1">Request Submitted</div>
+                <div className="text-[13px] text-[#555]">KSh {Number(requestPayout.data.amount).toLocaleString()} will be sent to {agentPhone || "your M-Pesa"} once an admin approves it. Track it on the Payouts tab.</div>
+                <button onClick={() => { setRequestModal(false); setTab("payouts"); }}
+                  className="bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer mt-5">
+                  View Payouts →
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="text-lg font-extrabold mb-1">Request Payout 💸</div>
+                <div className="text-[13px] text-[#555] mb-4">Withdraw all or part of the KSh {withdrawable.toLocaleString()} earned on delivered orders</div>
+                <label className="text-[11px] text-[#888] font-bold tracking-widest uppercase mb-1.5 block">Amount (KSh)</label>
+                <div className="flex gap-2">
+                  <input type="number" inputMode="numeric" min={payoutRules.min_amount} max={Math.floor(withdrawable)}
+                    value={requestAmount} onChange={e => setRequestAmount(e.target.value)}
+                    className="flex-1 bg-[#0C0C10] border border-[#2A2A36] rounded-xl px-3.5 py-3 text-white text-base font-bold outline-none focus:border-primary" />
+                  <button onClick={() => setRequestAmount(String(Math.floor(withdrawable)))}
+                    className="bg-[#1F1F2E] border border-[#2A2A36] rounded-xl px-3.5 text-white text-xs font-bold cursor-pointer">Max</button>
+                </div>
+                <div className="text-[11px] text-[#555] mt-2">Minimum KSh {payoutRules.min_amount.toLocaleString()}. Sent to {agentPhone || "your M-Pesa number"}.</div>
+                {requestPayout.error && (
+                  <div className="bg-[#2B0D0D] rounded-xl p-3 text-xs font-bold text-[#FF4D4D] mt-3">{requestPayout.error.message}</div>
+                )}
+                <button onClick={handleRequestPayout} disabled={requestPayout.isPending || !requestAmount}
+                  className="bg-primary border-none rounded-xl py-3 w-full text-white text-sm font-extrabold cursor-pointer mt-4 disabled:opacity-60">
+                  {requestPayout.isPending ? "⏳ Submitting..." : `Request KSh ${Number(requestAmount || 0).toLocaleString()} →`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Phone Verification Modal */}
+      {verifyModal && (
+        <div className="fixed inset-0 bg-black/80 flex items-end z-[999]" onClick={() => setVerifyModal(false)}>
+          <div className="bg-[#16161E] rounded-t-2xl p-6 pb-10 w-full max-w-[430px] mx-auto border border-[#2A2A36]" onClick={e => e.stopPropagation()}>
+            <div className="text-lg font-extrabold mb-1">Verify Phone 🔐</div>
+            <div className="text-[13px] text-[#555] mb-4">Confirm the number you use for M-Pesa</div>
+            <PhoneOtpForm purpose="verify" initialPhone={agent?.mpesa_phone} onVerified={() => {
+              setVerifyModal(false);
+              queryClient.invalidateQueries({ queryKey: ["agent-profile"] });
+            }} />
+          </div>
+        </div>
+      )}
+
       {/* Bottom Nav */}
       <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-[430px] bg-[#0C0C10] border-t border-[#1C1C24] flex py-2.5 pb-4 z-50">
         {NAV_ITEMS.map(({ id, icon, label }) => (
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft } from "lucide-react";
+import { useRoles } from "@/hooks/useRoles";
+import { useMyApplication, useSubmitApplication } from "@/hooks/useAgentApplications";
+import { ID_TYPES, KENYA_COUNTIES, applicationSchema, idTypeLabel, type ApplicationForm, type ApplicationInput } from "@/lib/applications";
+import { PHONE_EXAMPLE } from "@/lib/phone";
+
+const inputClass = "w-full bg-[#0C0C10] border border-[#2A2A36] rounded-xl px-3.5 py-3 text-white text-[15px] outline-none focus:border-primary";
+const labelClass = "text-[11px] text-[#888] font-bold tracking-widest uppercase mb-1.5 block";
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <div className="text-[11px] font-bold text-[#FF4D4D] mt-1.5">{message}</div> : null;
+
+export default function ApplyAgent() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, hasRole } = useRoles();
+  const { data: application, isLoading } = useMyApplication(user?.id);
+  const approvedSinceLogin = application?.status === "approved" && !hasRole("agent");
+  const submit = useSubmitApplication();
+  const [reapplying, setReapplying] = useState(false);
+  const { register, handleSubmit, formState: { errors } } = useForm<ApplicationForm, unknown, ApplicationInput>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: { fullName: user?.user_metadata?.full_name || "", mpesaPhone: "", idType: "national_id", idNumber: "", region: "" },
+  });
+
+  // The agent role was granted after the roles were cached
+  useEffect(() => {
+    if (approvedSinceLogin) queryClient.invalidateQueries({ queryKey: ["roles"] });
+  }, [approvedSinceLogin, queryClient]);
+
+  const onSubmit = (input: ApplicationInput) => submit.mutate(input, { onSuccess: () => setReapplying(false) });
+
+  const StatusCard = ({ icon, title, children }: { icon: string; title: string; children: React.ReactNode }) => (
+    <div className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-6 text-center">
+      <div className="text-5xl mb-3">{icon}</div>
+      <div className="text-lg font-extrabold mb-1">{title}</div>
+      <div className="text-[13px] text-[#888]">{children}</div>
+    </div>
+  );
+
+  const showForm = !application || (application.status === "rejected" && reapplying);
+
+  return (
+    <div className="font-['DM_Sans',sans-serif] bg-[#0C0C10] min-h-screen max-w-[430px] mx-auto text-[#F0EEF8] px-4 pt-4 pb-10">
+      <button onClick={() => navigate("/shop")} className="flex items-center gap-1 text-xs text-[#888] font-bold mb-4">
+        <ArrowLeft size={14} /> Back to shop
+      </button>
+      <div className="text-xl font-extrabold mb-1">Become a PayLoom agent</div>
+      <div className="text-[13px] text-[#555] mb-5">Share products, earn commission on every sale and get paid to M-Pesa.</div>
+
+      {hasRole("agent") ? (
+        <StatusCard icon="🎉" title="You're an agent">
+          <button onClick={() => navigate("/agent")} className="bg-primary rounded-xl py-3 w-full text-white text-sm font-extrabold mt-4">
+            Open my dashboard →
+          </button>
+        </StatusCard>
+      ) : isLoading ? (
+        <div className="text-center py-10 text-[#555] text-sm">Loading...</div>
+      ) : application?.status === "pending" ? (
+        <StatusCard icon="⏳" title="Application under review">
+          We received your application on {new Date(application.created_at).toLocaleDateString()}. An admin will check your {idTypeLabel(application.id_type)} details
+          and you'll get agent access as soon as it's approved.
+        </StatusCard>
+      ) : approvedSinceLogin ? (
+        <StatusCard icon="🎉" title="Application approved">Setting up your agent dashboard...</StatusCard>
+      ) : application?.status === "rejected" && !showForm ? (
+        <StatusCard icon="📝" title="Application not approved">
+          <div className="bg-[#2B0D0D] rounded-xl p-3 text-xs font-bold text-[#FF4D4D] my-3 text-left">{application.rejection_reason}</div>
+          Fix the issue above and apply again.
+          <button onClick={() => setReapplying(true)} className="bg-primary rounded-xl py-3 w-full text-white text-sm font-extrabold mt-4">
+            Apply again →
+          </button>
+        </StatusCard>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="flex flex-col gap-4">
+          <div>
+            <label className={labelClass}>Full name (as on your ID)</label>
+            <input {...register("fullName")} className={inputClass} autoComplete="name" />
+            <FieldError message={errors.fullName?.message} />
+          </div>
+          <div>
+            <label className={labelClass}>M-Pesa number</label>
+            <input {...register("mpesaPhone")} className={inputClass}
+              type="tel" inputMode="tel" placeholder={PHONE_EXAMPLE} autoComplete="tel" />
+            {errors.mpesaPhone
+              ? <FieldError message={errors.mpesaPhone.message} />
+              : <div className="text-[11px] text-[#555] mt-1.5">Your commission is paid to this Safaricom number.</div>}
+          </div>
+          <div>
+            <label className={labelClass}>ID document</label>
+            <div className="flex gap-2">
+              <select {...register("idType")} className={`${inputClass} w-auto`}>
+                {ID_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+              <input {...register("idNumber")} className={`${inputClass} flex-1 min-w-0`} placeholder="ID number" />
+            </div>
+            <FieldError message={errors.idNumber?.message} />
+          </div>
+          <div>
+            <label className={labelClass}>County</label>
+            <select {...register("region")} className={inputClass}>
+              <option value="" disabled>Where will you sell?</option>
+              {KENYA_COUNTIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <FieldError message={errors.region?.message} />
+          </div>
+          {submit.error && <div className="bg-[#2B0D0D] rounded-xl p-3 text-xs font-bold text-[#FF4D4D]">{submit.error.message}</div>}
+          <button type="submit" disabled={submit.isPending}
+            className="bg-primary rounded-xl py-3 w-full text-white text-sm font-extrabold disabled:opacity-60">
+            {submit.isPending ? "⏳ Submitting..." : "Submit application →"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/hooks/useAuth";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useAuth, needsEmailVerification } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { roleHome } from "@/lib/roles";
+import PhoneOtpForm from "@/components/PhoneOtpForm";
+import CheckEmail from "@/components/CheckEmail";
 import { useToast } from "@/hooks/use-toast";
 import { Eye, EyeOff } from "lucide-react";
 
@@ -45,6 +49,15 @@ function ParticleBg() {
   return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full opacity-60" />;
 }
 
+type Mode = "login" | "signup" | "forgot" | "verify";
+
+const HEADINGS: Record<Mode, { title: string; sub: string }> = {
+  login: { title: "Sign in to PayLoom", sub: "Enter your credentials to access your dashboard." },
+  signup: { title: "Create your account", sub: "Join PayLoom Instants — start selling or shopping today." },
+  forgot: { title: "Reset your password", sub: "Enter your account email and we'll send you a link to choose a new password." },
+  verify: { title: "Verify your email", sub: "Confirm your email address before signing in." },
+};
+
 // ── Left panel content config ──
 const PANEL_CONTENT = {
   login: {
@@ -123,19 +136,30 @@ function Spinner() {
 
 export default function Auth() {
   const navigate = useNavigate();
-  const { signUp, signIn, user } = useAuth();
+  const location = useLocation();
+  const { signUp, signIn, sendPasswordReset } = useAuth();
+  const { user, roles, loading: rolesLoading } = useRoles();
   const { toast } = useToast();
-  const [mode, setMode] = useState<"login" | "signup">("login");
+  const [mode, setMode] = useState<Mode>((location.state as { mode?: Mode } | null)?.mode || "login");
+  const [method, setMethod] = useState<"email" | "phone">("email");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [fullName, setFullName] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [justSent, setJustSent] = useState(false);
 
-  // Redirect if already logged in
+  // Once signed in, go back to the page that sent us here, or to the user's home.
+  // An unconfirmed sign-up stays here on the "check your email" screen.
+  const from = (location.state as { from?: string } | null)?.from;
   useEffect(() => {
-    if (user) navigate("/");
-  }, [user]);
+    if (user && !rolesLoading && !needsEmailVerification(user)) navigate(from || roleHome(roles), { replace: true });
+  }, [user, rolesLoading, roles, from, navigate]);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setJustSent(false);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -151,14 +175,23 @@ export default function Auth() {
       if (error) {
         toast({ title: "Sign up failed", description: error.message, variant: "destructive" });
       } else {
-        toast({ title: "Check your email", description: "We sent you a verification link. Please verify to sign in." });
+        setMode("verify");
+        setJustSent(true);
+      }
+    } else if (mode === "forgot") {
+      const { error } = await sendPasswordReset(email);
+      if (error) {
+        toast({ title: "Could not send reset link", description: error.message, variant: "destructive" });
+      } else {
+        setJustSent(true);
+        toast({ title: "Check your email", description: `If ${email} has an account, a reset link is on its way.` });
       }
     } else {
       const { error } = await signIn(email, password);
-      if (error) {
+      if (error?.code === "email_not_confirmed") {
+        setMode("verify");
+      } else if (error) {
         toast({ title: "Sign in failed", description: error.message, variant: "destructive" });
-      } else {
-        navigate("/");
       }
     }
     setLoading(false);
@@ -170,7 +203,7 @@ export default function Auth() {
   return (
     <div className="min-h-screen flex font-['Outfit',sans-serif] bg-[#080808] text-[#F5F3EE] overflow-hidden">
       {/* Left Visual Panel */}
-      <LeftPanel mode={mode} />
+      <LeftPanel mode={mode === "signup" ? "signup" : "login"} />
 
       {/* Right Form Panel */}
       <div className="flex-1 flex flex-col justify-center items-center p-6 md:p-[60px] relative overflow-y-auto">
@@ -185,72 +218,101 @@ export default function Auth() {
           </div>
 
           <div className="mb-9" style={{ animation: "fadeIn 0.4s ease" }}>
-            <h1 className="text-[28px] font-extrabold tracking-tight mb-1.5">
-              {mode === "login" ? "Sign in to PayLoom" : "Create your account"}
-            </h1>
-            <p className="text-sm text-[#666] leading-relaxed">
-              {mode === "login" ? "Enter your credentials to access your dashboard." : "Join PayLoom Instants — start selling or shopping today."}
-            </p>
+            <h1 className="text-[28px] font-extrabold tracking-tight mb-1.5">{HEADINGS[mode].title}</h1>
+            <p className="text-sm text-[#666] leading-relaxed">{HEADINGS[mode].sub}</p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {mode === "signup" && (
+          {mode === "login" && (
+            <div className="grid grid-cols-2 gap-1 p-1 mb-6 rounded-xl bg-[rgba(255,255,255,0.04)] border border-[rgba(255,255,255,0.07)]">
+              {(["email", "phone"] as const).map(m => (
+                <button key={m} type="button" onClick={() => setMethod(m)}
+                  className={`h-10 rounded-lg text-sm font-bold transition-all ${method === m ? "bg-[#FF4D00] text-white" : "text-[#888] hover:text-white"}`}>
+                  {m === "email" ? "Email" : "Phone (SMS code)"}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Session changes are picked up by the redirect effect above */}
+          {mode === "verify" ? (
+            <CheckEmail email={email || user?.email || ""} justSent={justSent} />
+          ) : mode === "login" && method === "phone" ? (
+            <PhoneOtpForm purpose="login" onVerified={() => toast({ title: "Signed in" })} />
+          ) : mode === "forgot" && justSent ? (
+            <div className="rounded-xl p-5 bg-[rgba(255,255,255,0.04)] border border-[rgba(255,255,255,0.07)] text-center">
+              <div className="text-4xl mb-3">🔑</div>
+              <div className="text-sm text-[#888] leading-relaxed">
+                If <span className="text-white font-bold">{email}</span> has a PayLoom account, we've sent it a link to reset the password. The link works once.
+              </div>
+              <button type="button" onClick={() => setJustSent(false)} className="text-[#FF4D00] text-sm font-bold mt-3">Use a different email</button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {mode === "signup" && (
+                <div>
+                  <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Full Name</label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">👤</span>
+                    <input
+                      type="text" value={fullName} onChange={e => setFullName(e.target.value)}
+                      placeholder="e.g. Amara Kamau"
+                      className={inputWithIconClass} required
+                    />
+                  </div>
+                </div>
+              )}
+
               <div>
-                <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Full Name</label>
+                <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Email Address</label>
                 <div className="relative">
-                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">👤</span>
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">✉️</span>
                   <input
-                    type="text" value={fullName} onChange={e => setFullName(e.target.value)}
-                    placeholder="e.g. Amara Kamau"
+                    type="email" value={email} onChange={e => setEmail(e.target.value)}
+                    placeholder="you@example.com"
                     className={inputWithIconClass} required
                   />
                 </div>
               </div>
-            )}
-
-            <div>
-              <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Email Address</label>
-              <div className="relative">
-                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">✉️</span>
-                <input
-                  type="email" value={email} onChange={e => setEmail(e.target.value)}
-                  placeholder="you@example.com"
-                  className={inputWithIconClass} required
-                />
-              </div>
-            </div>
 
-            <div>
-              <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block">Password</label>
-              <div className="relative">
-                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">🔒</span>
-                <input
-                  type={showPassword ? "text" : "password"}
-                  value={password} onChange={e => setPassword(e.target.value)}
-                  placeholder="Min. 6 characters"
-                  className={`${inputWithIconClass} pr-12`} required minLength={6}
-                />
-                <button type="button" onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 text-[#555] hover:text-white transition-colors">
-                  {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
-                </button>
-              </div>
-            </div>
+              {mode !== "forgot" && <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase block">Password</label>
+                  {mode === "login" && (
+                    <button type="button" onClick={() => switchMode("forgot")} className="text-xs text-[#FF4D00] font-bold hover:underline">
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[#555]">🔒</span>
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    value={password} onChange={e => setPassword(e.target.value)}
+                    placeholder="Min. 6 characters"
+                    className={`${inputWithIconClass} pr-12`} required minLength={6}
+                  />
+                  <button type="button" onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-[#555] hover:text-white transition-colors">
+                    {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                </div>
+              </div>}
 
-            <button type="submit" disabled={loading}
-              className="w-full h-[54px] bg-gradient-to-r from-[#FF4D00] to-[#FF7A00] border-none rounded-xl text-white text-[15px] font-bold flex items-center justify-center gap-2 shadow-[0_8px_30px_rgba(255,77,0,0.3)] hover:shadow-[0_12px_40px_rgba(255,77,0,0.4)] transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer">
-              {loading ? <><Spinner /> Please wait...</> : mode === "login" ? "Sign In →" : "Create Account →"}
-            </button>
-          </form>
+              <button type="submit" disabled={loading}
+                className="w-full h-[54px] bg-gradient-to-r from-[#FF4D00] to-[#FF7A00] border-none rounded-xl text-white text-[15px] font-bold flex items-center justify-center gap-2 shadow-[0_8px_30px_rgba(255,77,0,0.3)] hover:shadow-[0_12px_40px_rgba(255,77,0,0.4)] transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer">
+                {loading ? <><Spinner /> Please wait...</> : mode === "login" ? "Sign In →" : mode === "forgot" ? "Send Reset Link →" : "Create Account →"}
+              </button>
+            </form>
+          )}
 
           {/* Divider */}
           <div className="flex items-center gap-3 my-6 text-[#333] text-xs">
             <div className="flex-1 h-px bg-[rgba(255,255,255,0.07)]" />
-            <span>{mode === "login" ? "New to PayLoom?" : "Already have an account?"}</span>
+            <span>{mode === "login" ? "New to PayLoom?" : mode === "signup" ? "Already have an account?" : mode === "forgot" ? "Remembered it?" : "Already verified?"}</span>
             <div className="flex-1 h-px bg-[rgba(255,255,255,0.07)]" />
           </div>
 
-          <button onClick={() => setMode(mode === "login" ? "signup" : "login")}
+          <button onClick={() => switchMode(mode === "login" ? "signup" : "login")}
             className="w-full h-[54px] bg-transparent border-[1.5px] border-[rgba(255,255,255,0.1)] rounded-xl text-[#888] text-sm font-medium flex items-center justify-center gap-2 hover:border-[rgba(255,255,255,0.25)] hover:text-white transition-all cursor-pointer">
             {mode === "login" ? "Create an Account" : "Sign In Instead"}
           </button>
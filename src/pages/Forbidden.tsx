@@ -0,0 +1,41 @@
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { roleHome } from "@/lib/roles";
+
+const Forbidden = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const { user, roles } = useRoles();
+
+  const handleSwitchAccount = async () => {
+    await signOut();
+    navigate("/auth", { state: { from: location.pathname } });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted">
+      <div className="text-center px-6">
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-1 text-xl text-muted-foreground">You don't have access to this page</p>
+        <p className="mb-6 text-sm text-muted-foreground">{user?.email} isn't allowed to open {location.pathname}.</p>
+        <div className="flex items-center justify-center gap-4">
+          <Link to={roleHome(roles)} className="text-primary underline hover:text-primary/90">
+            Go to my home page
+          </Link>
+          {location.pathname.startsWith("/agent") && (
+            <Link to="/apply" className="text-primary underline hover:text-primary/90">
+              Apply to become an agent
+            </Link>
+          )}
+          <button onClick={handleSwitchAccount} className="text-muted-foreground underline hover:text-foreground">
+            Sign in as someone else
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -2,6 +2,8 @@ import { useNavigate } from "react-router-dom";
 import { useEffect, useRef, useState } from "react";
 import { motion, useInView } from "framer-motion";
 import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { roleHome } from "@/lib/roles";
 
 // ── Reveal wrapper ──
 function Reveal({ children, className = "", delay = 0 }: { children: React.ReactNode; className?: string; delay?: number }) {
@@ -75,6 +77,7 @@ const TESTIMONIALS = [
 export default function Index() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
+  const { roles } = useRoles();
   const [scrolled, setScrolled] = useState(false);
 
   useEffect(() => {
@@ -106,7 +109,7 @@ export default function Index() {
         <div className="flex items-center gap-3 ml-auto md:ml-9">
           {user ? (
             <>
-              <button onClick={() => navigate("/agent")} className="text-sm text-[#A89880] hover:text-white transition-colors hidden sm:block">Dashboard</button>
+              <button onClick={() => navigate(roleHome(roles))} className="text-sm text-[#A89880] hover:text-white transition-colors hidden sm:block">Dashboard</button>
               <button onClick={() => signOut()} className="text-sm text-[#A89880] hover:text-white transition-colors">Sign Out</button>
             </>
           ) : (
@@ -175,7 +178,7 @@ export default function Index() {
 
         <motion.div initial={{ opacity: 0, y: 24 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.8, delay: 0.3 }}
           className="flex items-center gap-4 mt-11 relative z-10">
-          <button onClick={() => navigate("/auth")} className="bg-[#FF4D00] text-white px-9 py-4 rounded-[10px] text-[15px] font-bold shadow-[0_0_40px_rgba(255,77,0,0.35)] hover:bg-[#FF8C00] hover:shadow-[0_0_60px_rgba(255,77,0,0.5)] hover:-translate-y-0.5 transition-all flex items-center gap-2">
+          <button onClick={() => navigate("/apply")} className="bg-[#FF4D00] text-white px-9 py-4 rounded-[10px] text-[15px] font-bold shadow-[0_0_40px_rgba(255,77,0,0.35)] hover:bg-[#FF8C00] hover:shadow-[0_0_60px_rgba(255,77,0,0.5)] hover:-translate-y-0.5 transition-all flex items-center gap-2">
             Start Selling <span className="inline-block transition-transform group-hover:translate-x-1">→</span>
           </button>
           <a href="#how" className="text-[#A89880] px-7 py-4 rounded-[10px] text-[15px] font-medium border border-[rgba(255,255,255,0.1)] hover:text-white hover:border-[rgba(255,255,255,0.25)] transition-all">
@@ -267,7 +270,7 @@ export default function Index() {
         <div className="grid md:grid-cols-2 gap-20 items-center mt-[72px]">
           <div className="flex flex-col">
             {[
-              { num: "01", title: "Register & Verify", desc: "Sign up with email. Verify your identity to unlock agent access.", tag: "SECURE AUTH" },
+              { num: "01", title: "Register & Verify", desc: "Sign up with email, then apply with your M-Pesa number and ID to unlock agent access.", tag: "SECURE AUTH" },
               { num: "02", title: "Get Your Product Links", desc: "Browse the catalog. Every product generates a unique share link tied to you.", tag: "UNIQUE REFERRAL CODE" },
               { num: "03", title: "Share & Sell", desc: "Share links on WhatsApp, TikTok, markets. Customers pay PayLoom directly.", tag: "ZERO UPFRONT COST" },
               { num: "04", title: "Get Paid via M-Pesa", desc: "Commission accumulates. Request payout — money hits your M-Pesa in minutes.", tag: "UP TO 18% COMMISSION" },
@@ -353,7 +356,7 @@ export default function Index() {
         <Reveal delay={0.1}><p className="text-[17px] text-[#A89880] max-w-[480px] mx-auto mt-6 leading-relaxed">Join thousands of agents across Africa earning real income through PayLoom Instants. No stock. No risk. Just sell.</p></Reveal>
         <Reveal delay={0.2}>
           <div className="flex justify-center gap-4 mt-12">
-            <button onClick={() => navigate("/auth")} className="bg-[#FF4D00] text-white px-9 py-4 rounded-[10px] text-[15px] font-bold shadow-[0_0_40px_rgba(255,77,0,0.35)] hover:bg-[#FF8C00] hover:shadow-[0_0_60px_rgba(255,77,0,0.5)] hover:-translate-y-0.5 transition-all">
+            <button onClick={() => navigate("/apply")} className="bg-[#FF4D00] text-white px-9 py-4 rounded-[10px] text-[15px] font-bold shadow-[0_0_40px_rgba(255,77,0,0.35)] hover:bg-[#FF8C00] hover:shadow-[0_0_60px_rgba(255,77,0,0.5)] hover:-translate-y-0.5 transition-all">
               Become an Agent →
             </button>
             <button onClick={() => navigate("/shop")} className="text-[#A89880] px-7 py-4 rounded-[10px] text-[15px] font-medium border border-[rgba(255,255,255,0.1)] hover:text-white hover:border-[rgba(255,255,255,0.25)] transition-all">
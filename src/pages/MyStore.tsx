@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, Copy, Download, ExternalLink, Share2 } from "lucide-react";
+import { useRoles } from "@/hooks/useRoles";
+import { useMyStore, useSaveStore, useStoreSlugAvailable, type Store } from "@/hooks/useStores";
+import { useToast } from "@/hooks/use-toast";
+import ImportProductModal from "@/components/ImportProductModal";
+import { useMySubmissions } from "@/hooks/useProducts";
+import { STORE_LOGO_TYPES, slugProblem, slugify, storeSchema, storeUrl, type StoreForm, type StoreInput } from "@/lib/stores";
+
+const inputClass = "w-full bg-[#0C0C10] border border-[#2A2A36] rounded-xl px-3.5 py-3 text-white text-[15px] outline-none focus:border-primary";
+const labelClass = "text-[11px] text-[#888] font-bold tracking-widest uppercase mb-1.5 block";
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <div className="text-[11px] font-bold text-[#FF4D4D] mt-1.5">{message}</div> : null;
+
+const toForm = (store: Store | null | undefined): StoreForm => ({
+  name: store?.name ?? "",
+  slug: store?.slug ?? "",
+  bio: store?.bio ?? "",
+  visibility: (store?.visibility as StoreForm["visibility"]) ?? "public",
+  logo: store?.logo ?? null,
+  logoFile: null,
+});
+
+// Settings for the agent's storefront at /s/<slug>
+export default function MyStore() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useRoles();
+  const { data: store, isLoading } = useMyStore(user?.id);
+  const saveStore = useSaveStore();
+  const { data: submissions = [] } = useMySubmissions(store ? user?.id : undefined);
+  const { register, handleSubmit, watch, reset, setValue, formState: { errors, dirtyFields } } = useForm<StoreForm, unknown, StoreInput>({
+    resolver: zodResolver(storeSchema),
+    defaultValues: toForm(null),
+  });
+
+  useEffect(() => {
+    if (!isLoading) reset(toForm(store));
+  }, [store, isLoading, reset]);
+
+  const name = watch("name");
+  const slug = (watch("slug") || "").trim().toLowerCase();
+  const logo = watch("logo");
+  const logoFile = watch("logoFile");
+
+  // Suggest a link from the name until the seller types their own
+  useEffect(() => {
+    if (!store && !dirtyFields.slug) setValue("slug", slugify(name || ""));
+  }, [name, store, dirtyFields.slug, setValue]);
+
+  // Ask the server about the slug once typing pauses
+  const [checkSlug, setCheckSlug] = useState<string>();
+  useEffect(() => {
+    const timer = setTimeout(() => setCheckSlug(slug && !slugProblem(slug) && slug !== store?.slug ? slug : undefined), 400);
+    return () => clearTimeout(timer);
+  }, [slug, store?.slug]);
+  const { data: slugAvailable } = useStoreSlugAvailable(checkSlug);
+
+  const [preview, setPreview] = useState<string | null>(null);
+  useEffect(() => {
+    if (!(logoFile instanceof File)) return setPreview(null);
+    const url = URL.createObjectURL(logoFile);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [logoFile]);
+
+  const onSubmit = (input: StoreInput) =>
+    saveStore.mutate({ userId: user!.id, input }, {
+      onSuccess: saved => toast({ title: store ? "Store saved" : "Your store is open", description: storeUrl(saved.slug) }),
+    });
+
+  const copyLink = () => {
+    if (!store) return;
+    navigator.clipboard.writeText(storeUrl(store.slug));
+    toast({ title: "Link copied" });
+  };
+
+  const [importOpen, setImportOpen] = useState(false);
+
+  const shownLogo = preview || logo;
+
+  return (
+    <div className="font-['DM_Sans',sans-serif] bg-[#0C0C10] min-h-screen max-w-[430px] mx-auto text-[#F0EEF8] px-4 pt-4 pb-10">
+      <button onClick={() => navigate("/agent")} className="flex items-center gap-1 text-xs text-[#888] font-bold mb-4">
+        <ArrowLeft size={14} /> Back to dashboard
+      </button>
+      <div className="text-xl font-extrabold mb-1">My store</div>
+      <div className="text-[13px] text-[#555] mb-5">Your own shop page on PayLoom. Every sale made there is credited to you.</div>
+
+      {store && (
+        <div className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-4 mb-5 flex items-center gap-3">
+          <div className="flex-1 min-w-0">
+            <div className="text-[11px] text-[#555] font-semibold">Your store link</div>
+            <div className="text-sm font-bold text-primary truncate">{storeUrl(store.slug)}</div>
+            {store.status === "suspended" && <div className="text-[11px] font-bold text-[#FF4D4D] mt-1">Suspended by PayLoom. Shoppers can't open it.</div>}
+          </div>
+          <button onClick={copyLink} className="w-9 h-9 rounded-xl bg-[#1F1F2E] flex items-center justify-center" aria-label="Copy link"><Copy size={15} /></button>
+          <button onClick={() => navigate(`/s/${store.slug}`)} className="w-9 h-9 rounded-xl bg-[#1F1F2E] flex items-center justify-center" aria-label="Open store"><ExternalLink size={15} /></button>
+        </div>
+      )}
+      {store && (
+        <button onClick={() => setImportOpen(true)}
+          className="w-full bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-4 mb-5 flex items-center gap-3 text-left">
+          <Download size={18} className="text-primary shrink-0" />
+          <div>
+            <div className="text-sm font-bold">Import a product</div>
+            <div className="text-[11px] text-[#555]">From a product link or one of your posts. PayLoom reviews it before it's listed.</div>
+          </div>
+        </button>
+      )}
+      {store && (
+        <button onClick={() => navigate("/my-store/social")}
+          className="w-full bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-4 mb-5 flex items-center gap-3 text-left">
+          <Share2 size={18} className="text-primary shrink-0" />
+          <div>
+            <div className="text-sm font-bold">Social accounts</div>
+            <div className="text-[11px] text-[#555]">Sync your Facebook, Instagram or TikTok Shop listings</div>
+          </div>
+        </button>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-10 text-[#555] text-sm">Loading...</div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="flex flex-col gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-16 h-16 bg-primary rounded-2xl flex items-center justify-center text-2xl font-black text-white overflow-hidden shrink-0">
+              {shownLogo ? <img src={shownLogo} alt="" className="w-full h-full object-cover" /> : (name || "?")[0].toUpperCase()}
+            </div>
+            <div className="flex-1 min-w-0">
+              <label className={labelClass}>Logo</label>
+              <input type="file" accept={STORE_LOGO_TYPES.join(",")}
+                onChange={e => setValue("logoFile", e.target.files?.[0] ?? null, { shouldValidate: true })}
+                className="block w-full text-xs text-[#888] file:mr-3 file:rounded-lg file:border-0 file:bg-[#1F1F2E] file:px-3 file:py-2 file:text-xs file:font-bold file:text-white" />
+              <FieldError message={errors.logoFile?.message} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Store name</label>
+            <input {...register("name")} className={inputClass} placeholder="e.g. Amara's Picks" />
+            <FieldError message={errors.name?.message} />
+          </div>
+          <div>
+            <label className={labelClass}>Store link</label>
+            <div className="flex items-center bg-[#0C0C10] border border-[#2A2A36] rounded-xl focus-within:border-primary">
+              <span className="pl-3.5 text-[15px] text-[#555] whitespace-nowrap">/s/</span>
+              <input {...register("slug")} className="flex-1 min-w-0 bg-transparent px-1 py-3 text-white text-[15px] outline-none"
+                autoCapitalize="none" autoCorrect="off" spellCheck={false} />
+            </div>
+            {errors.slug ? <FieldError message={errors.slug.message} />
+              : slugAvailable === false && checkSlug === slug ? <FieldError message="That link is taken. Try another one" />
+              : slugAvailable && checkSlug === slug ? <div className="text-[11px] font-bold text-[#00D97E] mt-1.5">Available</div>
+              : null}
+          </div>
+          <div>
+            <label className={labelClass}>Bio</label>
+            <textarea {...register("bio")} rows={3} className={inputClass} placeholder="What you sell and where you deliver" />
+            <FieldError message={errors.bio?.message} />
+          </div>
+          <div>
+            <label className={labelClass}>Who can see it</label>
+            <select {...register("visibility")} className={inputClass}>
+              <option value="public">Everyone with the link</option>
+              <option value="private">Only me, while I set it up</option>
+            </select>
+          </div>
+          {saveStore.error && <div className="bg-[#2B0D0D] rounded-xl p-3 text-xs font-bold text-[#FF4D4D]">{saveStore.error.message}</div>}
+          <button type="submit" disabled={saveStore.isPending}
+            className="bg-primary rounded-xl py-3 w-full text-white text-sm font-extrabold disabled:opacity-60">
+            {saveStore.isPending ? "⏳ Saving..." : store ? "Save changes" : "Open my store →"}
+          </button>
+          <div className="text-[11px] text-[#555] text-center">PayLoom chooses which products appear in your store.</div>
+        </form>
+      )}
+      {submissions.length > 0 && (
+        <div className="mt-8">
+          <div className={labelClass}>Submitted for review</div>
+          {submissions.map(p => (
+            <div key={p.id} className="bg-[#16161E] border border-[#1F1F2E] rounded-xl p-3 mb-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-bold truncate">{p.name}</div>
+                <span className={`text-[10px] font-extrabold shrink-0 ${p.status === "rejected" ? "text-[#FF4D4D]" : "text-[#FFB800]"}`}>
+                  {p.status === "rejected" ? "Not approved" : "Waiting for review"}
+                </span>
+              </div>
+              {p.review_note && <div className="text-[11px] text-[#888] mt-1">{p.review_note}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+      {importOpen && <ImportProductModal onClose={() => setImportOpen(false)} />}
+    </div>
+  );
+}
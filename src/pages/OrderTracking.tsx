@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useTrackedOrder, useLookupOrder } from "@/hooks/useOrderTracking";
+import { receiptHtml, receiptFileName, type TrackedOrder } from "@/lib/receipt";
+import { ArrowLeft, Download, Printer, Truck } from "lucide-react";
+
+const STATUS_LABEL: Record<string, string> = {
+  pending: "Awaiting payment",
+  processing: "Being prepared",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLE: Record<string, string> = {
+  pending: "bg-[#FFF4E5] text-[#B54708]",
+  processing: "bg-[#E8F0FF] text-[#005FFF]",
+  delivered: "bg-[#E8F5EF] text-[#00A651]",
+  cancelled: "bg-[#FDECEC] text-[#D92D20]",
+};
+
+const fmtDate = (iso: string) =>
+  new Date(iso).toLocaleString("en-KE", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+function downloadReceipt(order: TrackedOrder) {
+  const url = URL.createObjectURL(new Blob([receiptHtml(order)], { type: "text/html" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = receiptFileName(order);
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function OrderTracking() {
+  const navigate = useNavigate();
+  const { orderNumber = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("t");
+  const [phone, setPhone] = useState("");
+
+  const { data: tracked, isLoading, error } = useTrackedOrder(orderNumber, token);
+  const lookup = useLookupOrder();
+
+  const handleLookup = () => {
+    lookup.mutate(
+      { orderNumber, phone },
+      // Swap in the tracking link so a refresh or bookmark keeps working
+      { onSuccess: order => navigate(`/orders/${order.order_number}?t=${order.access_token}`, { replace: true }) },
+    );
+  };
+
+  const order = tracked ?? lookup.data;
+  const lookupError = (token && error) || lookup.error;
+
+  return (
+    <div className="font-['Sora',sans-serif] bg-[#F7F4EF] min-h-screen max-w-[430px] mx-auto">
+      <div className="bg-[#0A0A0A] px-5 pt-5 pb-4 flex items-center gap-3 print:hidden">
+        <button onClick={() => navigate("/shop")} className="bg-[#1A1A1A] border-none rounded-xl w-9 h-9 flex items-center justify-center cursor-pointer text-white"><ArrowLeft size={18} /></button>
+        <div>
+          <div className="text-white text-base font-extrabold">Your Order</div>
+          <div className="text-[#888] text-xs">{orderNumber}</div>
+        </div>
+      </div>
+
+      {!order && (token && isLoading ? (
+        <div className="p-8 text-center text-sm text-[#999]">Loading your order...</div>
+      ) : (
+        <div className="p-5">
+          <div className="bg-white rounded-2xl p-4 shadow-sm">
+            <div className="text-sm font-bold text-[#0A0A0A] mb-1">Find your order</div>
+            <div className="text-xs text-[#666] mb-4">Enter the phone number you paid with for order {orderNumber}.</div>
+            <input className="bg-white border-2 border-[#E8E4DD] rounded-xl py-3.5 px-4 text-[15px] w-full outline-none text-[#0A0A0A] font-['Sora',sans-serif] focus:border-primary transition-colors mb-3"
+              placeholder="e.g. 0712 345 678" value={phone} onChange={e => setPhone(e.target.value)} type="tel" />
+            {lookupError && (
+              <div className="bg-[#FDECEC] rounded-xl p-3.5 mb-3 text-xs font-bold text-[#D92D20]">{(lookupError as Error).message}</div>
+            )}
+            <button onClick={handleLookup} disabled={!phone.trim() || lookup.isPending}
+              className="bg-primary text-white border-none rounded-2xl py-3.5 w-full text-[15px] font-extrabold cursor-pointer disabled:opacity-60">
+              {lookup.isPending ? "Looking up..." : "Track Order"}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {order && (
+        <div className="p-5 space-y-4">
+          <div className="bg-white rounded-2xl p-4 shadow-sm">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <div className="text-[11px] text-[#999] font-bold tracking-widest uppercase">Order</div>
+                <div className="text-base font-extrabold text-[#0A0A0A]">{order.order_number}</div>
+              </div>
+              <span className={`text-xs font-bold rounded-full px-3 py-1 ${STATUS_STYLE[order.status] ?? "bg-[#F0EDE8] text-[#666]"}`}>
+                {STATUS_LABEL[order.status] ?? order.status}
+              </span>
+            </div>
+            {order.items.map((item, i) => (
+              <div key={i} className="flex justify-between mb-2">
+                <span className="text-sm text-[#666]">{item.emoji} {item.name} ×{item.quantity}</span>
+                <span className="text-sm font-bold">KSh {(item.unit_price * item.quantity).toLocaleString()}</span>
+              </div>
+            ))}
+            <div className="border-t border-[#F0EDE8] pt-2.5 mt-1 flex justify-between">
+              <span className="text-sm font-bold">Total</span>
+              <span className="text-base font-extrabold text-primary">KSh {Number(order.total_amount).toLocaleString()}</span>
+            </div>
+            <div className="mt-3 flex justify-between text-xs">
+              <span className="text-[#999]">M-Pesa reference</span>
+              <span className="font-mono font-bold text-[#0A0A0A]">{order.mpesa_ref || "—"}</span>
+            </div>
+            {order.paid_at && (
+              <div className="mt-1 flex justify-between text-xs">
+                <span className="text-[#999]">Paid</span>
+                <span className="text-[#0A0A0A]">{fmtDate(order.paid_at)}</span>
+              </div>
+            )}
+          </div>
+
+          {(order.courier || order.tracking_number) && (
+            <div className="bg-[#0A0A0A] rounded-2xl p-4 flex items-center gap-3 text-white">
+              <Truck size={22} className="text-primary shrink-0" />
+              <div>
+                <div className="text-sm font-bold">{order.courier || "Courier"}</div>
+                {order.tracking_number && <div className="text-xs text-[#aaa] font-mono">{order.tracking_number}</div>}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-2xl p-4 shadow-sm">
+            <div className="text-sm font-bold text-[#0A0A0A] mb-3">Timeline</div>
+            {order.history.length === 0 ? (
+              <div className="text-xs text-[#999]">No updates yet.</div>
+            ) : (
+              <div className="space-y-3">
+                {[...order.history].reverse().map((event, i) => (
+                  <div key={i} className="flex gap-3">
+                    <div className={`w-2.5 h-2.5 rounded-full mt-1.5 shrink-0 ${i === 0 ? "bg-primary" : "bg-[#E8E4DD]"}`} />
+                    <div>
+                      <div className="text-sm font-bold text-[#0A0A0A]">{STATUS_LABEL[event.to_status] ?? event.to_status}</div>
+                      {(event.courier || event.tracking_number) && (
+                        <div className="text-xs text-[#666]">{[event.courier, event.tracking_number].filter(Boolean).join(" · ")}</div>
+                      )}
+                      {event.note && <div className="text-xs text-[#666]">{event.note}</div>}
+                      <div className="text-[11px] text-[#999]">{fmtDate(event.created_at)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {order.payment_status === "paid" && (
+            <div className="flex gap-3 print:hidden">
+              <button onClick={() => window.print()} className="flex-1 bg-white border-2 border-[#E8E4DD] rounded-2xl py-3.5 text-sm font-bold cursor-pointer flex items-center justify-center gap-2">
+                <Printer size={16} /> Print
+              </button>
+              <button onClick={() => downloadReceipt(order)} className="flex-1 bg-primary text-white border-none rounded-2xl py-3.5 text-sm font-extrabold cursor-pointer flex items-center justify-center gap-2">
+                <Download size={16} /> Receipt
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { useToast } from "@/hooks/use-toast";
+import { roleHome } from "@/lib/roles";
+
+const inputClass = "w-full h-[54px] bg-[rgba(255,255,255,0.04)] border-[1.5px] border-[rgba(255,255,255,0.1)] rounded-xl px-4 text-[15px] text-white outline-none transition-all focus:border-[rgba(255,77,0,0.7)] focus:bg-[rgba(255,77,0,0.05)]";
+const labelClass = "text-[11px] font-bold text-[#666] tracking-[1.5px] uppercase mb-2 block";
+
+// Landing page for the password recovery email. Supabase signs the user in
+// from the link, so all that's left is choosing the new password.
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const { updatePassword } = useAuth();
+  const { user, roles, loading } = useRoles();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirm) {
+      toast({ title: "Passwords don't match", description: "Type the same password in both boxes.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await updatePassword(password);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Could not update password", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Password updated", description: "Use your new password next time you sign in." });
+    navigate(roleHome(roles), { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center font-['Outfit',sans-serif] bg-[#080808] text-[#F5F3EE] p-6">
+      <div className="w-full max-w-[420px]">
+        <h1 className="text-[28px] font-extrabold tracking-tight mb-1.5">Choose a new password</h1>
+        {loading ? (
+          <p className="text-sm text-[#666]">Checking your reset link...</p>
+        ) : !user ? (
+          <>
+            <p className="text-sm text-[#666] leading-relaxed mb-6">This reset link is invalid or has already been used. Links expire after an hour.</p>
+            <Link to="/auth" state={{ mode: "forgot" }} className="text-[#FF4D00] text-sm font-bold">Send me a new link →</Link>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5 mt-8">
+            <div>
+              <label className={labelClass}>New password</label>
+              <input type="password" value={password} onChange={e => setPassword(e.target.value)}
+                className={inputClass} required minLength={6} autoComplete="new-password" placeholder="Min. 6 characters" />
+            </div>
+            <div>
+              <label className={labelClass}>Confirm password</label>
+              <input type="password" value={confirm} onChange={e => setConfirm(e.target.value)}
+                className={inputClass} required minLength={6} autoComplete="new-password" />
+            </div>
+            <button type="submit" disabled={saving}
+              className="w-full h-[54px] bg-gradient-to-r from-[#FF4D00] to-[#FF7A00] border-none rounded-xl text-white text-[15px] font-bold shadow-[0_8px_30px_rgba(255,77,0,0.3)] transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer">
+              {saving ? "Saving..." : "Update Password →"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,81 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useProducts, useCategories, type Product } from "@/hooks/useProducts";
-import { useNavigate } from "react-router-dom";
+import { useStorefront } from "@/hooks/useStores";
+import { useStartCheckout, usePaymentStatus, type PaymentStatus } from "@/hooks/useCheckout";
+import { useCart, useSetCartItem, useClearCart } from "@/hooks/useCart";
+import { useToast } from "@/hooks/use-toast";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { captureReferral, getReferral } from "@/lib/referral";
+import { mpesaPhoneSchema, PHONE_EXAMPLE } from "@/lib/phone";
 import { ShoppingCart, ArrowLeft, Search, Minus, Plus, Trash2, Lock, Home } from "lucide-react";
 
-type CartItem = Product & { qty: number };
-
 const badgeColors: Record<string, { bg: string; text: string }> = {
   Hot: { bg: "#FF4D00", text: "#fff" },
   Sale: { bg: "#00B86B", text: "#fff" },
   New: { bg: "#005FFF", text: "#fff" },
 };
 
+// The PayLoom shop at /shop, and a seller's storefront at /s/:slug
 export default function Shop() {
   const navigate = useNavigate();
+  const { slug } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeCategory, setActiveCategory] = useState("All");
-  const [cart, setCart] = useState<CartItem[]>([]);
   const [screen, setScreen] = useState<"home" | "cart" | "checkout" | "success" | "product">("home");
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [phone, setPhone] = useState("");
-  const [paying, setPaying] = useState(false);
-  const [stkSent, setStkSent] = useState(false);
+  const [checkoutRequestId, setCheckoutRequestId] = useState<string>();
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const [paidOrder, setPaidOrder] = useState<PaymentStatus | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
-  const { data: products = [], isLoading } = useProducts();
+  const { data: store, isLoading: storeLoading } = useStorefront(slug);
+  const { data: products = [], isLoading } = useProducts(store?.id);
   const { data: categories = [] } = useCategories();
+  const { data: cartLines = [] } = useCart();
+  const setCartItem = useSetCartItem();
+  const { mutate: emptyCart } = useClearCart();
+  const { toast } = useToast();
+  const startCheckout = useStartCheckout();
+  const { data: paymentStatus } = usePaymentStatus(checkoutRequestId);
+
+  const paying = startCheckout.isPending;
+  const linkedProductId = searchParams.get("product");
+  const stkSent = !!checkoutRequestId;
+
+  useEffect(() => {
+    captureReferral(searchParams.get("ref"));
+  }, [searchParams]);
+
+  // Shared product links open straight on the product
+  useEffect(() => {
+    if (!linkedProductId || products.length === 0) return;
+    const product = products.find(p => p.id === linkedProductId);
+    if (product) {
+      setSelectedProduct(product);
+      setScreen("product");
+    }
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete("product");
+      return next;
+    }, { replace: true });
+  }, [linkedProductId, products, setSearchParams]);
+
+  useEffect(() => {
+    if (!paymentStatus) return;
+    if (paymentStatus.payment_status === "paid") {
+      setPaidOrder(paymentStatus);
+      setCheckoutRequestId(undefined);
+      emptyCart();
+      setScreen("success");
+    } else if (paymentStatus.payment_status === "failed" || paymentStatus.payment_status === "timed_out") {
+      setCheckoutRequestId(undefined);
+      setPaymentError(paymentStatus.payment_status === "timed_out"
+        ? "We didn't get a response from M-Pesa. Please try again."
+        : paymentStatus.payment_failure_reason || "Payment failed. Please try again.");
+    }
+  }, [paymentStatus, emptyCart]);
 
   const allCategories = ["All", ...categories.map(c => c.name)];
   const filtered = products.filter(p =>
@@ -31,27 +83,42 @@ export default function Shop() {
     p.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const cart = cartLines.map(l => ({ ...l, id: l.product_id, qty: l.quantity }));
   const cartCount = cart.reduce((s, i) => s + i.qty, 0);
   const cartTotal = cart.reduce((s, i) => s + i.price * i.qty, 0);
 
-  const addToCart = (product: Product) => {
-    setCart(prev => {
-      const exists = prev.find(i => i.id === product.id);
-      if (exists) return prev.map(i => i.id === product.id ? { ...i, qty: i.qty + 1 } : i);
-      return [...prev, { ...product, qty: 1 }];
-    });
+  // The server checks every quantity against stock not held by other checkouts
+  const setQty = (productId: string, quantity: number, onSuccess?: () => void) => {
+    setCartItem.mutate(
+      { productId, quantity },
+      {
+        onSuccess,
+        onError: e => toast({ title: "Couldn't update your cart", description: e.message, variant: "destructive" }),
+      },
+    );
   };
 
-  const removeFromCart = (id: string) => setCart(prev => prev.filter(i => i.id !== id));
+  const addToCart = (product: Product, onSuccess?: () => void) => {
+    setQty(product.id, (cart.find(i => i.id === product.id)?.qty ?? 0) + 1, onSuccess);
+  };
+
+  const removeFromCart = (id: string) => setQty(id, 0);
   const updateQty = (id: string, delta: number) => {
-    setCart(prev => prev.map(i => i.id === id ? { ...i, qty: Math.max(1, i.qty + delta) } : i));
+    const item = cart.find(i => i.id === id);
+    if (item) setQty(id, Math.max(1, item.qty + delta));
   };
 
   const handlePay = () => {
-    if (!phone || phone.length < 10) return;
-    setPaying(true);
-    setTimeout(() => { setPaying(false); setStkSent(true); }, 2000);
-    setTimeout(() => { setStkSent(false); setCart([]); setScreen("success"); }, 6000);
+    const parsed = mpesaPhoneSchema.safeParse(phone);
+    if (!parsed.success) return setPaymentError(parsed.error.issues[0].message);
+    setPaymentError(null);
+    startCheckout.mutate(
+      { items: cart.map(i => ({ product_id: i.id, quantity: i.qty })), phone: parsed.data, agent_id: getReferral()?.agent_id, store_id: store?.id },
+      {
+        onSuccess: session => setCheckoutRequestId(session.checkout_request_id),
+        onError: e => setPaymentError(e.message),
+      },
+    );
   };
 
   const AppShell = ({ children, title, onBack, rightContent }: { children: React.ReactNode; title: string; onBack?: () => void; rightContent?: React.ReactNode }) => (
@@ -74,11 +141,13 @@ export default function Shop() {
     const p = selectedProduct;
     return (
       <AppShell title="Product Detail" onBack={() => setScreen("home")}>
-        <div className="bg-[#F7F4EF] h-[220px] flex items-center justify-center text-[100px]">{p.emoji || "📦"}</div>
+        <div className="bg-[#F7F4EF] h-[220px] flex items-center justify-center text-[100px]">
+          {p.image_url ? <img src={p.image_url} alt={p.name} className="w-full h-full object-cover" /> : p.emoji || "📦"}
+        </div>
         <div className="p-5 pb-[100px]">
           {p.badge && <span className="inline-block mb-2.5 text-[10px] font-extrabold px-2 py-0.5 rounded-md" style={{ background: badgeColors[p.badge]?.bg, color: badgeColors[p.badge]?.text }}>{p.badge}</span>}
           <div className="text-[22px] font-extrabold text-[#0A0A0A] mb-1">{p.name}</div>
-          <div className="text-sm text-[#999] mb-4">⭐ {p.rating || 0} · {p.total_sold} sold</div>
+          <div className="text-sm text-[#999] mb-4">⭐ {p.rating || 0} · {p.total_sold} sold{p.stock > 0 && p.stock <= 5 && <span className="text-primary font-bold"> · Only {p.stock} left</span>}</div>
           <div className="flex items-baseline gap-2 mb-5">
             <span className="text-[28px] font-extrabold text-primary">KSh {p.price.toLocaleString()}</span>
             {p.original_price && <span className="text-[15px] text-[#bbb] line-through">KSh {p.original_price.toLocaleString()}</span>}
@@ -89,8 +158,9 @@ export default function Shop() {
           </div>
         </div>
         <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-[430px] bg-[#0A0A0A] p-5 pb-7 z-50">
-          <button onClick={() => { addToCart(p); setScreen("cart"); }} className="bg-primary text-white border-none rounded-2xl py-4 w-full text-[15px] font-extrabold cursor-pointer">
-            Add to Cart — KSh {p.price.toLocaleString()}
+          <button onClick={() => addToCart(p, () => setScreen("cart"))} disabled={p.stock <= 0 || setCartItem.isPending}
+            className="bg-primary text-white border-none rounded-2xl py-4 w-full text-[15px] font-extrabold cursor-pointer disabled:opacity-60">
+            {p.stock <= 0 ? "Out of Stock" : `Add to Cart — KSh ${p.price.toLocaleString()}`}
           </button>
         </div>
       </AppShell>
@@ -117,8 +187,11 @@ export default function Shop() {
                 <div className="flex items-center gap-2.5 mt-1.5">
                   <button className="bg-[#F7F4EF] border-none rounded-md w-7 h-7 cursor-pointer flex items-center justify-center" onClick={() => updateQty(item.id, -1)}><Minus size={14} /></button>
                   <span className="text-sm font-bold">{item.qty}</span>
-                  <button className="bg-[#F7F4EF] border-none rounded-md w-7 h-7 cursor-pointer flex items-center justify-center" onClick={() => updateQty(item.id, 1)}><Plus size={14} /></button>
+                  <button className="bg-[#F7F4EF] border-none rounded-md w-7 h-7 cursor-pointer flex items-center justify-center disabled:opacity-40" onClick={() => updateQty(item.id, 1)} disabled={item.qty >= item.available}><Plus size={14} /></button>
                 </div>
+                {item.qty > item.available && (
+                  <div className="text-[11px] text-[#D92D20] font-bold mt-1">{item.available > 0 ? `Only ${item.available} left` : "Out of stock"}</div>
+                )}
               </div>
               <div className="text-right">
                 <div className="text-[15px] font-extrabold text-primary">KSh {(item.price * item.qty).toLocaleString()}</div>
@@ -163,7 +236,7 @@ export default function Shop() {
           <div className="mb-5">
             <label className="text-xs font-bold text-[#666] tracking-widest uppercase mb-1.5 block">M-Pesa Phone Number</label>
             <input className="bg-white border-2 border-[#E8E4DD] rounded-xl py-3.5 px-4 text-[15px] w-full outline-none text-[#0A0A0A] font-['Sora',sans-serif] focus:border-primary transition-colors"
-              placeholder="e.g. 0712 345 678" value={phone} onChange={e => setPhone(e.target.value)} type="tel" />
+              placeholder={`e.g. ${PHONE_EXAMPLE}`} value={phone} onChange={e => setPhone(e.target.value)} type="tel" inputMode="tel" autoComplete="tel" />
           </div>
           {stkSent && (
             <div className="bg-[#0A0A0A] rounded-2xl p-4 text-center text-white mb-4">
@@ -173,6 +246,9 @@ export default function Shop() {
               <div className="mt-3 text-xs text-primary">⏳ Waiting for confirmation...</div>
             </div>
           )}
+          {paymentError && (
+            <div className="bg-[#FDECEC] rounded-xl p-3.5 mb-4 text-xs font-bold text-[#D92D20]">{paymentError}</div>
+          )}
           <div className="bg-[#E8F5EF] rounded-xl p-3.5 flex items-center gap-2.5">
             <Lock size={20} className="text-[#00A651]" />
             <div>
@@ -200,10 +276,21 @@ export default function Shop() {
           <div className="text-white text-[26px] font-extrabold mb-2">Payment Confirmed!</div>
           <div className="text-[#aaa] text-sm mb-8 leading-relaxed">Your M-Pesa payment was received. Your order is being processed.</div>
           <div className="bg-[#1A1A1A] rounded-2xl p-5 w-full mb-6 text-left">
-            <div className="text-[#666] text-xs mb-2">TRANSACTION REFERENCE</div>
-            <div className="text-primary text-base font-extrabold">PLI{Math.random().toString(36).substring(2, 10).toUpperCase()}</div>
+            <div className="text-[#666] text-xs mb-2">ORDER NUMBER</div>
+            <div className="text-primary text-base font-extrabold">{paidOrder?.order_number}</div>
+            {paidOrder?.mpesa_ref && (
+              <>
+                <div className="text-[#666] text-xs mt-4 mb-2">M-PESA REFERENCE</div>
+                <div className="text-white text-base font-extrabold font-mono">{paidOrder.mpesa_ref}</div>
+              </>
+            )}
           </div>
-          <button onClick={() => setScreen("home")} className="bg-primary text-white border-none rounded-2xl py-4 w-full text-[15px] font-extrabold cursor-pointer">
+          {paidOrder && (
+            <button onClick={() => navigate(`/orders/${paidOrder.order_number}?t=${paidOrder.access_token}`)} className="bg-transparent text-white border-2 border-[#333] rounded-2xl py-3.5 w-full text-[15px] font-bold cursor-pointer mb-3">
+              Track Order &amp; Receipt
+            </button>
+          )}
+          <button onClick={() => { setPaidOrder(null); setScreen("home"); }} className="bg-primary text-white border-none rounded-2xl py-4 w-full text-[15px] font-extrabold cursor-pointer">
             Continue Shopping →
           </button>
         </div>
@@ -211,16 +298,45 @@ export default function Shop() {
     );
   }
 
+  // Unknown, private or suspended store
+  if (slug && !storeLoading && !store) {
+    return (
+      <AppShell title="Store">
+        <div className="text-center py-20 px-8">
+          <div className="text-5xl mb-3">🏪</div>
+          <div className="text-lg font-extrabold text-[#0A0A0A]">This store isn't open</div>
+          <div className="text-sm text-[#999] mt-1.5">Check the link, or browse everything on PayLoom instead.</div>
+          <button className="bg-[#0A0A0A] text-white rounded-xl px-5 py-3 text-sm font-bold mt-6 font-['Sora',sans-serif]"
+            onClick={() => navigate("/shop")}>Go to the PayLoom shop →</button>
+        </div>
+      </AppShell>
+    );
+  }
+
   // Home
   return (
     <div className="font-['Sora',sans-serif] bg-[#F7F4EF] min-h-screen max-w-[430px] mx-auto relative overflow-hidden">
       <div className="bg-[#0A0A0A] px-5 pt-5 pb-4 sticky top-0 z-50">
         <div className="flex items-center gap-2 mb-4">
-          <div className="w-9 h-9 bg-primary rounded-xl flex items-center justify-center text-lg font-black text-white">P</div>
-          <div>
-            <div className="text-white text-lg font-bold tracking-tight">PayLoom</div>
-            <div className="text-primary text-[11px] font-semibold tracking-widest uppercase">Instants Shop</div>
-          </div>
+          {store ? (
+            <>
+              <div className="w-9 h-9 bg-primary rounded-xl flex items-center justify-center text-lg font-black text-white overflow-hidden shrink-0">
+                {store.logo ? <img src={store.logo} alt="" className="w-full h-full object-cover" /> : store.name[0].toUpperCase()}
+              </div>
+              <div className="min-w-0">
+                <div className="text-white text-lg font-bold tracking-tight truncate">{store.name}</div>
+                <div className="text-primary text-[11px] font-semibold tracking-widest uppercase">on PayLoom</div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="w-9 h-9 bg-primary rounded-xl flex items-center justify-center text-lg font-black text-white">P</div>
+              <div>
+                <div className="text-white text-lg font-bold tracking-tight">PayLoom</div>
+                <div className="text-primary text-[11px] font-semibold tracking-widest uppercase">Instants Shop</div>
+              </div>
+            </>
+          )}
           <button className="ml-auto bg-primary border-none rounded-xl px-3.5 py-2 text-white text-sm font-bold cursor-pointer flex items-center gap-1.5"
             onClick={() => setScreen("cart")}>
             <ShoppingCart size={16} />
@@ -237,8 +353,18 @@ export default function Shop() {
 
       <div className="bg-gradient-to-br from-primary to-[#FF8C00] px-5 py-5 relative overflow-hidden">
         <div className="absolute -right-5 -top-5 text-[80px] opacity-15">🛍️</div>
-        <div className="text-white text-[22px] font-extrabold leading-tight tracking-tight">Shop. Pay. Done.<br />Instantly.</div>
-        <div className="text-white/85 text-sm mt-1">Pay with M-Pesa · Delivered to your door</div>
+        {store ? (
+          <>
+            <div className="text-white text-[22px] font-extrabold leading-tight tracking-tight">{store.name}</div>
+            {store.bio && <div className="text-white/85 text-sm mt-1 whitespace-pre-line">{store.bio}</div>}
+            {store.visibility === "private" && <div className="inline-block mt-2 bg-black/25 text-white text-[11px] font-bold rounded-md px-2 py-0.5">Private: only you can see this store</div>}
+          </>
+        ) : (
+          <>
+            <div className="text-white text-[22px] font-extrabold leading-tight tracking-tight">Shop. Pay. Done.<br />Instantly.</div>
+            <div className="text-white/85 text-sm mt-1">Pay with M-Pesa · Delivered to your door</div>
+          </>
+        )}
       </div>
 
       <div className="flex gap-2 px-5 py-4 overflow-x-auto scrollbar-hide">
@@ -252,18 +378,18 @@ export default function Shop() {
 
       <div className="px-5 pb-3 flex justify-between items-center">
         <div className="text-[15px] font-extrabold text-[#0A0A0A]">
-          {isLoading ? "Loading..." : `${filtered.length} Products`}
+          {isLoading || storeLoading ? "Loading..." : `${filtered.length} Products`}
         </div>
         <div className="text-xs text-[#999]">Tap to view details</div>
       </div>
 
-      {isLoading ? (
-        <div className="text-center py-10 text-[#999]">Loading products from database...</div>
+      {isLoading || storeLoading ? (
+        <div className="text-center py-10 text-[#999]">Loading products...</div>
       ) : filtered.length === 0 ? (
         <div className="text-center py-10">
           <div className="text-5xl mb-2">📭</div>
-          <div className="text-[15px] font-bold text-[#0A0A0A]">No products yet</div>
-          <div className="text-sm text-[#999] mt-1">Products will appear here once added via Admin panel</div>
+          <div className="text-[15px] font-bold text-[#0A0A0A]">{products.length === 0 ? "No products yet" : "No matching products"}</div>
+          <div className="text-sm text-[#999] mt-1">{products.length === 0 ? "Check back soon, new stock is on the way" : "Try another search or category"}</div>
         </div>
       ) : (
         <div className="grid grid-cols-2 gap-3 px-4 pb-[100px]">
@@ -271,7 +397,7 @@ export default function Shop() {
             <div key={p.id} className="bg-white rounded-2xl overflow-hidden cursor-pointer shadow-sm hover:shadow-md transition-shadow"
               onClick={() => { setSelectedProduct(p); setScreen("product"); }}>
               <div className="bg-[#F7F4EF] h-[110px] flex items-center justify-center text-[52px] relative">
-                {p.emoji || "📦"}
+                {p.image_url ? <img src={p.image_url} alt={p.name} loading="lazy" className="w-full h-full object-cover" /> : p.emoji || "📦"}
                 {p.badge && <span className="absolute top-2 left-2 text-[10px] font-extrabold px-1.5 py-0.5 rounded-md" style={{ background: badgeColors[p.badge]?.bg, color: badgeColors[p.badge]?.text }}>{p.badge}</span>}
               </div>
               <div className="p-3">
@@ -281,8 +407,8 @@ export default function Shop() {
                   <span className="text-base font-extrabold text-primary">KSh {p.price.toLocaleString()}</span>
                   {p.original_price && <span className="text-[11px] text-[#bbb] line-through ml-1">{p.original_price.toLocaleString()}</span>}
                 </div>
-                <button className="bg-[#0A0A0A] text-white border-none rounded-lg py-1.5 w-full text-[11px] font-bold cursor-pointer mt-2 font-['Sora',sans-serif] hover:bg-[#222] transition-colors"
-                  onClick={e => { e.stopPropagation(); addToCart(p); }}>+ Add to Cart</button>
+                <button className="bg-[#0A0A0A] text-white border-none rounded-lg py-1.5 w-full text-[11px] font-bold cursor-pointer mt-2 font-['Sora',sans-serif] hover:bg-[#222] transition-colors disabled:opacity-50 disabled:cursor-default"
+                  disabled={p.stock <= 0} onClick={e => { e.stopPropagation(); addToCart(p); }}>{p.stock <= 0 ? "Out of Stock" : "+ Add to Cart"}</button>
               </div>
             </div>
           ))}
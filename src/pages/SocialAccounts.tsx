@@ -0,0 +1,166 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, RefreshCw, Trash2, Upload } from "lucide-react";
+import { useRoles } from "@/hooks/useRoles";
+import { useConnectSocialAccount, useRemoveSocialAccount, useSocialAccounts, useSyncSocialAccount, type SocialAccount } from "@/hooks/useSocialAccounts";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SOCIAL_EXPORT_MAX_BYTES,
+  SOCIAL_PLATFORMS,
+  exportFileTypes,
+  platformLabel,
+  socialAccountSchema,
+  type SocialAccountForm,
+  type SocialAccountInput,
+  type SyncSummary,
+} from "@/lib/social";
+
+const inputClass = "w-full bg-[#0C0C10] border border-[#2A2A36] rounded-xl px-3.5 py-3 text-white text-[15px] outline-none focus:border-primary";
+const labelClass = "text-[11px] text-[#888] font-bold tracking-widest uppercase mb-1.5 block";
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <div className="text-[11px] font-bold text-[#FF4D4D] mt-1.5">{message}</div> : null;
+
+const STATUS_COLOR: Record<string, string> = { idle: "#888", syncing: "#FFB800", succeeded: "#00D97E", failed: "#FF4D4D" };
+
+const summaryLine = (s: SyncSummary) =>
+  `${s.found} found · ${s.imported} imported · ${s.duplicates} already imported${s.failed ? ` · ${s.failed} failed` : ""}`;
+
+// An agent's connected Facebook, Instagram and TikTok accounts. Syncing
+// imports their listings as drafts for PayLoom to review.
+export default function SocialAccounts() {
+  const navigate = useNavigate();
+  const { user } = useRoles();
+  const { data: accounts = [], isLoading } = useSocialAccounts(user?.id);
+  const connect = useConnectSocialAccount();
+  const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<SocialAccountForm, unknown, SocialAccountInput>({
+    resolver: zodResolver(socialAccountSchema),
+    defaultValues: { platform: "instagram", pageUrl: "", pageId: "", feedUrl: "", autoSync: false },
+  });
+  const platform = watch("platform");
+
+  const onSubmit = (input: SocialAccountInput) =>
+    connect.mutate({ userId: user!.id, input }, { onSuccess: () => reset() });
+
+  return (
+    <div className="font-['DM_Sans',sans-serif] bg-[#0C0C10] min-h-screen max-w-[430px] mx-auto text-[#F0EEF8] px-4 pt-4 pb-10">
+      <button onClick={() => navigate("/my-store")} className="flex items-center gap-1 text-xs text-[#888] font-bold mb-4">
+        <ArrowLeft size={14} /> Back to my store
+      </button>
+      <div className="text-xl font-extrabold mb-1">Social accounts</div>
+      <div className="text-[13px] text-[#555] mb-5">Bring in what you already sell on social media. New listings are added as drafts and go live once PayLoom approves them.</div>
+
+      {isLoading ? (
+        <div className="text-center py-10 text-[#555] text-sm">Loading...</div>
+      ) : (
+        accounts.map(a => <AccountCard key={a.id} account={a} />)
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate className="flex flex-col gap-4 mt-6">
+        <div className="text-sm font-extrabold">Connect an account</div>
+        <div>
+          <label className={labelClass}>Platform</label>
+          <select {...register("platform")} className={inputClass}>
+            {SOCIAL_PLATFORMS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <div className="text-[11px] text-[#555] mt-1.5">{SOCIAL_PLATFORMS.find(p => p.id === platform)?.hint}</div>
+        </div>
+        <div>
+          <label className={labelClass}>Page or profile link</label>
+          <input {...register("pageUrl")} className={inputClass} placeholder="https://www.instagram.com/yourshop" autoCapitalize="none" />
+          <FieldError message={errors.pageUrl?.message} />
+        </div>
+        <div>
+          <label className={labelClass}>Page ID (optional)</label>
+          <input {...register("pageId")} className={inputClass} />
+          <FieldError message={errors.pageId?.message} />
+        </div>
+        <div>
+          <label className={labelClass}>Catalogue feed URL (optional)</label>
+          <input {...register("feedUrl")} className={inputClass} placeholder="https://..." autoCapitalize="none" />
+          <FieldError message={errors.feedUrl?.message} />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" {...register("autoSync")} />
+          Sync from the feed every day
+        </label>
+        {connect.error && <div className="bg-[#2B0D0D] rounded-xl p-3 text-xs font-bold text-[#FF4D4D]">{connect.error.message}</div>}
+        <button type="submit" disabled={connect.isPending}
+          className="bg-primary rounded-xl py-3 w-full text-white text-sm font-extrabold disabled:opacity-60">
+          {connect.isPending ? "⏳ Connecting..." : "Connect account"}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function AccountCard({ account }: { account: SocialAccount }) {
+  const { toast } = useToast();
+  const sync = useSyncSocialAccount();
+  const remove = useRemoveSocialAccount();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState("");
+  const summary = account.last_sync_summary as SyncSummary | null;
+  const syncing = sync.isPending || account.sync_status === "syncing";
+
+  const run = (file?: File) =>
+    sync.mutate({ accountId: account.id, file }, {
+      onSuccess: s => toast({ title: `${platformLabel(account.platform)} synced`, description: summaryLine(s) }),
+    });
+
+  const onFile = (file?: File) => {
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+    if (file.size > SOCIAL_EXPORT_MAX_BYTES) return setFileError("Export files can be up to 5 MB");
+    setFileError("");
+    run(file);
+  };
+
+  return (
+    <div className="bg-[#16161E] border border-[#1F1F2E] rounded-2xl p-4 mb-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-bold">{platformLabel(account.platform)}</div>
+          <div className="text-[11px] text-[#888] truncate">{account.page_url}</div>
+        </div>
+        <span className="text-[10px] font-extrabold uppercase tracking-wider shrink-0" style={{ color: STATUS_COLOR[account.sync_status] }}>
+          {syncing ? "Syncing" : account.sync_status === "idle" ? "Not synced yet" : account.sync_status}
+        </span>
+      </div>
+      {account.last_synced_at && (
+        <div className="text-[11px] text-[#555] mt-2">
+          Last sync {new Date(account.last_synced_at).toLocaleString()}
+          {summary && <> · {summaryLine(summary)}</>}
+        </div>
+      )}
+      {account.auto_sync && <div className="text-[11px] text-[#555] mt-1">Syncs from the feed every day</div>}
+      {account.last_sync_error && <div className="text-[11px] font-bold text-[#FF4D4D] mt-2">{account.last_sync_error}</div>}
+      {summary && summary.errors.length > 1 && (
+        <ul className="text-[11px] text-[#888] mt-1 space-y-0.5">
+          {summary.errors.slice(1).map(e => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+      {(fileError || sync.error) && <div className="text-[11px] font-bold text-[#FF4D4D] mt-2">{fileError || sync.error?.message}</div>}
+
+      <input ref={fileInput} type="file" accept={exportFileTypes(account.platform)} className="hidden" onChange={e => onFile(e.target.files?.[0])} />
+      <div className="flex gap-2 mt-3">
+        <button onClick={() => fileInput.current?.click()} disabled={syncing}
+          className="flex-1 bg-[#1F1F2E] rounded-xl py-2.5 text-xs font-bold flex items-center justify-center gap-1.5 disabled:opacity-60">
+          <Upload size={13} /> Upload export
+        </button>
+        {account.feed_url && (
+          <button onClick={() => run()} disabled={syncing}
+            className="flex-1 bg-[#1F1F2E] rounded-xl py-2.5 text-xs font-bold flex items-center justify-center gap-1.5 disabled:opacity-60">
+            <RefreshCw size={13} className={syncing ? "animate-spin" : ""} /> Sync feed
+          </button>
+        )}
+        <button onClick={() => remove.mutate(account.id)} disabled={remove.isPending || syncing} aria-label="Disconnect"
+          className="w-10 bg-[#1F1F2E] rounded-xl flex items-center justify-center text-[#FF4D4D] disabled:opacity-60">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
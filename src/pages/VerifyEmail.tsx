@@ -0,0 +1,43 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import CheckEmail from "@/components/CheckEmail";
+
+// Shown instead of any signed-in page while the account's email is unconfirmed
+export default function VerifyEmail() {
+  const navigate = useNavigate();
+  const { user, refreshUser, signOut } = useAuth();
+  const { toast } = useToast();
+
+  const handleRefresh = async () => {
+    const { user: refreshed, error } = await refreshUser();
+    if (error) {
+      toast({ title: "Could not check", description: error.message, variant: "destructive" });
+    } else if (!refreshed?.email_confirmed_at) {
+      toast({ title: "Not confirmed yet", description: "Open the link in the email we sent, then try again." });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/auth");
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center font-['Outfit',sans-serif] bg-[#080808] text-[#F5F3EE] p-6">
+      <div className="w-full max-w-[420px]">
+        <h1 className="text-[28px] font-extrabold tracking-tight mb-1.5">Verify your email</h1>
+        <p className="text-sm text-[#666] leading-relaxed mb-8">You need to confirm your email address before using PayLoom.</p>
+        <CheckEmail email={user?.email || ""}>
+          <button type="button" onClick={handleRefresh}
+            className="w-full h-[54px] bg-gradient-to-r from-[#FF4D00] to-[#FF7A00] border-none rounded-xl text-white text-[15px] font-bold shadow-[0_8px_30px_rgba(255,77,0,0.3)] cursor-pointer">
+            I've confirmed it →
+          </button>
+          <button type="button" onClick={handleSignOut} className="w-full text-xs text-[#888] font-bold hover:text-white transition-colors">
+            Sign in with a different account
+          </button>
+        </CheckEmail>
+      </div>
+    </div>
+  );
+}
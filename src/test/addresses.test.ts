@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { isPublicAddress, isPublicHostname } from "../../supabase/functions/_shared/addresses";
+
+describe("isPublicAddress", () => {
+  it("refuses loopback, private, link-local and reserved IPv4", () => {
+    for (const ip of ["127.0.0.1", "10.2.3.4", "172.16.0.1", "172.31.255.255", "192.168.1.10", "169.254.169.254", "100.64.0.1", "0.0.0.0", "224.0.0.1"]) {
+      expect(isPublicAddress(ip), ip).toBe(false);
+    }
+    for (const ip of ["8.8.8.8", "172.32.0.1", "197.248.0.1"]) expect(isPublicAddress(ip), ip).toBe(true);
+  });
+
+  it("refuses the IPv6 equivalents, including IPv4 wrapped in IPv6", () => {
+    for (const ip of ["::1", "::", "[::1]", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1", "2001:db8::1"]) {
+      expect(isPublicAddress(ip), ip).toBe(false);
+    }
+    for (const ip of ["2606:4700:4700::1111", "::ffff:8.8.8.8"]) expect(isPublicAddress(ip), ip).toBe(true);
+  });
+
+  it("refuses anything that isn't an address", () => {
+    expect(isPublicAddress("not-an-ip")).toBe(false);
+    expect(isPublicAddress("1:2:3")).toBe(false);
+  });
+});
+
+describe("isPublicHostname", () => {
+  it("refuses localhost, bare service names and internal domains", () => {
+    for (const host of ["localhost", "api.localhost", "kong", "db", "metadata.google.internal", "printer.local", "127.0.0.1"]) {
+      expect(isPublicHostname(host), host).toBe(false);
+    }
+    expect(isPublicHostname("shop.example.co.ke")).toBe(true);
+  });
+});
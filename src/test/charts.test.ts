@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { weeklyEarnings, monthlyTotals } from "@/lib/charts";
+
+const NOW = new Date(2026, 2, 14, 15, 0);
+const at = (month: number, day: number, hour = 12) => new Date(2026, month, day, hour).toISOString();
+
+describe("weeklyEarnings", () => {
+  it("sums accruals per day over the last seven days, ending today", () => {
+    const days = weeklyEarnings(
+      [
+        { entry_type: "accrual", amount: 300, created_at: at(2, 14, 9) },
+        { entry_type: "accrual", amount: 200, created_at: at(2, 14, 1) },
+        { entry_type: "accrual", amount: 150, created_at: at(2, 8) },
+        { entry_type: "accrual", amount: 999, created_at: at(2, 7) },
+        { entry_type: "payout", amount: -500, created_at: at(2, 14) },
+      ],
+      NOW,
+    );
+    expect(days).toHaveLength(7);
+    expect(days[6]).toEqual({ day: "Sat", sales: 2, earnings: 500 });
+    expect(days[0]).toEqual({ day: "Sun", sales: 1, earnings: 150 });
+    expect(days.reduce((s, d) => s + d.earnings, 0)).toBe(650);
+  });
+});
+
+describe("monthlyTotals", () => {
+  it("splits completed collections and disbursements by month", () => {
+    const months = monthlyTotals(
+      [
+        { type: "C2B", status: "completed", amount: 1000, created_at: at(2, 1) },
+        { type: "C2B", status: "failed", amount: 5000, created_at: at(2, 2) },
+        { type: "B2C", status: "completed", amount: 400, created_at: at(1, 20) },
+        { type: "C2B", status: "completed", amount: 700, created_at: at(0, 5) },
+        { type: "C2B", status: "completed", amount: 9000, created_at: new Date(2025, 7, 1).toISOString() },
+      ],
+      NOW,
+    );
+    expect(months.map(m => m.month)).toEqual(["Sep", "Oct", "Nov", "Dec", "Jan", "Feb", "Mar"]);
+    expect(months[6]).toEqual({ month: "Mar", revenue: 1000, payouts: 0 });
+    expect(months[5]).toEqual({ month: "Feb", revenue: 0, payouts: 400 });
+    expect(months[4].revenue).toBe(700);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { resolveDemoMode } from "@/lib/demo";
+
+describe("resolveDemoMode", () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it("is off unless asked for", () => {
+    expect(resolveDemoMode(undefined, "", sessionStorage)).toBe(false);
+    expect(resolveDemoMode("false", "?ref=abc", sessionStorage)).toBe(false);
+  });
+
+  it("is always on when the build enables it", () => {
+    expect(resolveDemoMode("true", "?demo=0", sessionStorage)).toBe(true);
+  });
+
+  it("remembers ?demo=1 for the tab until ?demo=0", () => {
+    expect(resolveDemoMode(undefined, "?demo=1", sessionStorage)).toBe(true);
+    expect(resolveDemoMode(undefined, "", sessionStorage)).toBe(true);
+    expect(resolveDemoMode(undefined, "?demo=0", sessionStorage)).toBe(false);
+    expect(resolveDemoMode(undefined, "", sessionStorage)).toBe(false);
+  });
+});
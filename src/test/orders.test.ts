@@ -0,0 +1,11 @@
+import { describe, it, expect } from "vitest";
+import { summarizeItems } from "@/lib/orders";
+
+describe("summarizeItems", () => {
+  it("names the first line and counts the rest", () => {
+    expect(summarizeItems([{ product_name: "Air Max", quantity: 2 }])).toBe("Air Max ×2");
+    expect(summarizeItems([{ product_name: "Cap", quantity: 1 }, { product_name: "Socks", quantity: 3 }, { product_name: "Belt", quantity: 1 }]))
+      .toBe("Cap + 2 more");
+    expect(summarizeItems([])).toBe("No items");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { carrierOf, formatPhone, maskPhone, mpesaPhoneSchema, parsePhone, phoneSchema, toDarajaMsisdn, toE164, toMsisdn } from "@/lib/phone";
+
+describe("parsePhone", () => {
+  it("accepts local, international and spaced-out forms", () => {
+    for (const input of ["0712345678", "0712 345 678", "712345678", "+254 712 345 678", "254712345678", "+254 (0) 712-345-678"]) {
+      expect(parsePhone(input)).toEqual({ subscriber: "712345678", carrier: "safaricom" });
+    }
+  });
+
+  it("rejects wrong lengths, landlines and letters", () => {
+    for (const input of ["", "071234567", "07123456789", "0202345678", "0712abc678", "+1 712 345 678"]) {
+      expect(parsePhone(input)).toBeNull();
+    }
+  });
+
+  it("tells Safaricom and Airtel apart by prefix", () => {
+    expect(carrierOf("0110 123 456")).toBe("safaricom");
+    expect(carrierOf("0748 123 456")).toBe("safaricom");
+    expect(carrierOf("0733 123 456")).toBe("airtel");
+    expect(carrierOf("0102 123 456")).toBe("airtel");
+    // Telkom
+    expect(carrierOf("0771 123 456")).toBeNull();
+  });
+});
+
+describe("phone formats", () => {
+  it("normalises to E.164 and MSISDN", () => {
+    expect(toE164("0712 345 678")).toBe("+254712345678");
+    expect(toMsisdn("0733 123 456")).toBe("254733123456");
+  });
+
+  it("only gives Daraja Safaricom numbers", () => {
+    expect(toDarajaMsisdn("+254712345678")).toBe("254712345678");
+    expect(toDarajaMsisdn("0733 123 456")).toBeNull();
+  });
+
+  it("formats and masks for display", () => {
+    expect(formatPhone("254712345678")).toBe("0712 345 678");
+    expect(formatPhone("not a phone")).toBe("not a phone");
+    expect(maskPhone("+254712345678")).toBe("0712 *** 678");
+  });
+});
+
+describe("phone schemas", () => {
+  it("output E.164", () => {
+    expect(phoneSchema.parse(" 0733 123 456 ")).toBe("+254733123456");
+    expect(mpesaPhoneSchema.parse("0712-345-678")).toBe("+254712345678");
+  });
+
+  it("explain why M-Pesa rejects an Airtel number", () => {
+    const result = mpesaPhoneSchema.safeParse("0733 123 456");
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toMatch(/Safaricom/);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { extractProduct, kshPrices, RulesProductExtractor } from "../../supabase/functions/_shared/productExtraction";
+
+const rules = new RulesProductExtractor();
+
+describe("kshPrices", () => {
+  it("reads the ways Kenyan sellers write prices", () => {
+    expect(kshPrices("Now Ksh 2,500 was KES 3000.00, or 1,800/= and 900 bob")).toEqual([2500, 3000, 1800, 900]);
+    expect(kshPrices("Call 0712345678")).toEqual([]);
+  });
+});
+
+describe("rules extractor on product pages", () => {
+  it("trusts schema.org Product data", async () => {
+    const html = `<html><head><title>Shop</title>
+      <script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"WebPage"},
+        {"@type":"Product","name":"JBL Clip 4","description":"Portable &amp; waterproof","image":["/img/clip4.jpg"],
+         "offers":{"@type":"Offer","price":"5800","priceCurrency":"KES"}}]}</script></head></html>`;
+    const result = await extractProduct(rules, { sourceType: "url", url: "https://duka.co.ke/p/clip4", html });
+    expect(result).toMatchObject({
+      name: "JBL Clip 4",
+      price: 5800,
+      currency: "KES",
+      description: "Portable & waterproof",
+      images: ["https://duka.co.ke/img/clip4.jpg"],
+      missing_fields: [],
+      confidence: 1,
+      extractor: "rules",
+    });
+  });
+
+  it("falls back to Open Graph tags and lists what it couldn't find", async () => {
+    const html = `<meta content="Ankara Maxi Dress" property="og:title"><meta property="og:image" content="https://cdn.x/d.png">`;
+    const result = await extractProduct(rules, { sourceType: "url", url: "https://x.co.ke/d", html });
+    expect(result.name).toBe("Ankara Maxi Dress");
+    expect(result.missing_fields).toEqual(["price", "description"]);
+    expect(result.confidence).toBeCloseTo(0.3 * 0.85 + 0.2 * 0.85);
+  });
+
+  it("flags prices in another currency", async () => {
+    const html = `<meta property="og:title" content="Kindle"><meta property="product:price:amount" content="99.99"><meta property="product:price:currency" content="usd">`;
+    const result = await extractProduct(rules, { sourceType: "url", html });
+    expect(result.warnings[0]).toMatch(/USD/);
+  });
+});
+
+describe("rules extractor on social posts", () => {
+  it("takes the first line as the name and the first KSh amount as the price", async () => {
+    const text = "🔥🔥 Nike Air Force 1 #sneakers\nSizes 38-45, original\nKsh 7,200 only (was Ksh 9,500)\nhttps://cdn.ig.com/p/af1.jpg";
+    const result = await extractProduct(rules, { sourceType: "post", text });
+    expect(result.name).toBe("Nike Air Force 1");
+    expect(result.price).toBe(7200);
+    expect(result.images).toEqual(["https://cdn.ig.com/p/af1.jpg"]);
+    expect(result.description).toContain("Sizes 38-45");
+    expect(result.warnings).toEqual(["The post mentions several prices; the first one was used"]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { productImagePath, productSchema, stockLevel } from "@/lib/products";
+
+const VALID = { name: "JBL Clip 4", price: "5800", originalPrice: "", stock: "22", categoryId: "", badge: "Hot", emoji: "🔊" };
+
+describe("productSchema", () => {
+  it("coerces form strings and turns blanks into nulls", () => {
+    expect(productSchema.parse(VALID)).toMatchObject({ price: 5800, originalPrice: null, stock: 22, categoryId: null, badge: "Hot" });
+  });
+
+  it("needs a price and whole, non-negative stock", () => {
+    const result = productSchema.safeParse({ ...VALID, price: "", stock: "-1" });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(i => i.path[0])).toEqual(["price", "stock"]);
+  });
+
+  it("only shows a crossed-out price above the selling price", () => {
+    const result = productSchema.safeParse({ ...VALID, originalPrice: "5000" });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["originalPrice"]);
+  });
+
+  it("rejects photos that aren't JPEG, PNG or WebP", () => {
+    const image = new File(["gif"], "spin.gif", { type: "image/gif" });
+    expect(productSchema.safeParse({ ...VALID, image }).success).toBe(false);
+  });
+});
+
+describe("productImagePath", () => {
+  it("names the file by product and upload time", () => {
+    expect(productImagePath("abc", { name: "Photo.PNG", type: "image/png" }, 42)).toBe("abc/42.png");
+  });
+});
+
+describe("stockLevel", () => {
+  it("shows a payment that took stock after its reservation lapsed as an oversell", () => {
+    // 1 left, then a late payment for 3 goes through anyway
+    expect(stockLevel(1 - 3)).toBe("oversold");
+    expect(stockLevel(0)).toBe("sold_out");
+    expect(stockLevel(4)).toBe("in_stock");
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { receiptHtml, receiptFileName, type TrackedOrder } from "@/lib/receipt";
+
+const ORDER: TrackedOrder = {
+  order_number: "PLI-0042",
+  access_token: "secret",
+  customer_name: "Wanjiru <script>",
+  status: "processing",
+  payment_status: "paid",
+  total_amount: 3700,
+  mpesa_ref: "SGH7K2LQ9P",
+  paid_at: "2026-03-14T09:00:00Z",
+  courier: "G4S",
+  tracking_number: "G4S-118",
+  delivered_at: null,
+  created_at: "2026-03-14T08:58:00Z",
+  items: [
+    { name: "Wireless Earbuds", emoji: "🎧", quantity: 2, unit_price: 1200 },
+    { name: "Phone Case", emoji: "📱", quantity: 1, unit_price: 1300 },
+  ],
+  history: [],
+};
+
+describe("receiptHtml", () => {
+  it("lists the line totals, order total and M-Pesa reference", () => {
+    const html = receiptHtml(ORDER);
+    expect(html).toContain("Wireless Earbuds &times; 2");
+    expect(html).toContain("KSh 2,400");
+    expect(html).toContain("KSh 3,700");
+    expect(html).toContain("SGH7K2LQ9P");
+    expect(receiptFileName(ORDER)).toBe("payloom-receipt-PLI-0042.html");
+  });
+
+  it("escapes customer-supplied text", () => {
+    expect(receiptHtml(ORDER)).toContain("Wanjiru &lt;script&gt;");
+  });
+});
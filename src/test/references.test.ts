@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { formatReference, luhnCheckDigit, parseReference } from "@/lib/references";
+
+describe("luhnCheckDigit", () => {
+  it("matches the standard Luhn digit", () => {
+    expect(luhnCheckDigit("7992739871")).toBe(3);
+    expect(luhnCheckDigit("10000")).toBe(8);
+    expect(luhnCheckDigit("10001")).toBe(6);
+  });
+});
+
+describe("references", () => {
+  it("format with a prefix per kind", () => {
+    expect(formatReference("order", 10000)).toBe("PLI-100008");
+    expect(formatReference("transaction", 10001)).toBe("TX-100016");
+    expect(formatReference("payout", 10000)).toBe("PO-100008");
+  });
+
+  it("parse regardless of case and spacing", () => {
+    expect(parseReference(" pli-10000 8 ")).toEqual({ kind: "order", reference: "PLI-100008", number: 10000, valid: true });
+  });
+
+  it("catch a mistyped or swapped digit", () => {
+    expect(parseReference("PLI-100018")?.valid).toBe(false);
+    expect(parseReference("TX-100061")?.valid).toBe(false);
+  });
+
+  it("accept older random references without checking them", () => {
+    expect(parseReference("PLI-4821")).toEqual({ kind: "order", reference: "PLI-4821", number: null, valid: true });
+    expect(parseReference("PO-A1B2C3D4E5")?.valid).toBe(true);
+  });
+
+  it("reject unknown prefixes", () => {
+    expect(parseReference("INV-100008")).toBeNull();
+    expect(parseReference("PLI-")).toBeNull();
+    expect(parseReference("")).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { captureReferral, getReferral, REFERRAL_WINDOW_DAYS } from "@/lib/referral";
+
+const AGENT = "3f1c2b7e-9a4d-4c1e-8b2a-5d6e7f809a1b";
+const OTHER_AGENT = "a0b1c2d3-e4f5-4a6b-8c7d-9e0f1a2b3c4d";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("referral attribution", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keeps the referral for the attribution window", () => {
+    captureReferral(AGENT, 0);
+    expect(getReferral((REFERRAL_WINDOW_DAYS - 1) * DAY_MS)?.agent_id).toBe(AGENT);
+    expect(getReferral(REFERRAL_WINDOW_DAYS * DAY_MS)).toBeNull();
+    expect(localStorage.length).toBe(0);
+  });
+
+  it("credits the most recent referral", () => {
+    captureReferral(AGENT, 0);
+    captureReferral(OTHER_AGENT, DAY_MS);
+    expect(getReferral(2 * DAY_MS)?.agent_id).toBe(OTHER_AGENT);
+  });
+
+  it("ignores refs that are not agent ids", () => {
+    captureReferral(AGENT, 0);
+    expect(captureReferral("agent", DAY_MS)).toBeNull();
+    expect(getReferral(DAY_MS)?.agent_id).toBe(AGENT);
+  });
+});
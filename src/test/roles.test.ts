@@ -0,0 +1,11 @@
+import { describe, it, expect } from "vitest";
+import { roleHome } from "@/lib/roles";
+
+describe("roleHome", () => {
+  it("sends admins to the admin dashboard, agents to theirs and everyone else to the shop", () => {
+    expect(roleHome(["customer", "agent", "admin"])).toBe("/admin");
+    expect(roleHome(["customer", "agent"])).toBe("/agent");
+    expect(roleHome(["customer"])).toBe("/shop");
+    expect(roleHome([])).toBe("/shop");
+  });
+});
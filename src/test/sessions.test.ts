@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { describeUserAgent } from "@/lib/sessions";
+
+describe("describeUserAgent", () => {
+  it("names the browser and platform", () => {
+    expect(describeUserAgent("Mozilla/5.0 (Linux; Android 13; SM-A146B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36"))
+      .toBe("Chrome on Android");
+    expect(describeUserAgent("Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1"))
+      .toBe("Safari on iPhone");
+    expect(describeUserAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0"))
+      .toBe("Edge on Windows");
+  });
+
+  it("falls back when the agent is missing or unrecognised", () => {
+    expect(describeUserAgent(null)).toBe("Unknown device");
+    expect(describeUserAgent("curl/8.4.0")).toBe("Unknown device");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { parseAmount, parseCsv, socialAdapter } from "../../supabase/functions/_shared/socialAdapters";
+import { canonicalSourceUrl, extractProduct, RulesProductExtractor } from "../../supabase/functions/_shared/productExtraction";
+
+const PAGE = "https://www.facebook.com/amaraspicks";
+
+describe("parseCsv", () => {
+  it("handles quotes, embedded commas and newlines, and CRLF", () => {
+    const rows = parseCsv('\uFEFFProduct Name,Description\r\n"Clip 4, blue","Says ""hi""\nloud"\r\nBlender,\r\n');
+    expect(rows).toEqual([
+      { product_name: "Clip 4, blue", description: 'Says "hi"\nloud' },
+      { product_name: "Blender", description: "" },
+    ]);
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads catalogue prices with or without a currency", () => {
+    expect(parseAmount("2500.00 KES")).toEqual({ amount: 2500, currency: "KES" });
+    expect(parseAmount("KES 2,500")).toEqual({ amount: 2500, currency: "KES" });
+    expect(parseAmount("0")).toBeNull();
+  });
+});
+
+describe("social adapters", () => {
+  it("reads a Meta catalogue CSV, preferring the sale price", async () => {
+    const csv = [
+      "id,title,description,price,sale_price,link,image_link,additional_image_link",
+      "sku-1,JBL Clip 4,Waterproof,7000 KES,5800 KES,https://amara.co.ke/clip4,https://cdn.x/1.jpg,\"https://cdn.x/2.jpg,https://cdn.x/3.jpg\"",
+      ",,,,,,,",
+    ].join("\n");
+    const [listing, ...rest] = socialAdapter("facebook").parse({ name: "catalog.csv", content: csv }, PAGE);
+    expect(rest).toEqual([]);
+    expect(listing.url).toBe("https://amara.co.ke/clip4");
+    const result = await extractProduct(new RulesProductExtractor(), listing.input);
+    expect(result).toMatchObject({ name: "JBL Clip 4", price: 5800, images: ["https://cdn.x/1.jpg", "https://cdn.x/2.jpg", "https://cdn.x/3.jpg"], confidence: 1 });
+  });
+
+  it("turns Instagram media into posts for the caption reader", async () => {
+    const json = JSON.stringify({
+      data: [{ id: "179", caption: "Ankara Maxi Dress\nKsh 3,200", permalink: "https://www.instagram.com/p/Cx1/", media_type: "CAROUSEL_ALBUM",
+        children: { data: [{ media_type: "IMAGE", media_url: "https://cdn.ig/1.jpg" }, { media_type: "VIDEO", thumbnail_url: "https://cdn.ig/2.jpg" }] } }],
+    });
+    const [listing] = socialAdapter("instagram").parse({ name: "media.json", content: json }, "https://www.instagram.com/amaraspicks");
+    const result = await extractProduct(new RulesProductExtractor(), listing.input);
+    expect(result).toMatchObject({ name: "Ankara Maxi Dress", price: 3200, images: ["https://cdn.ig/1.jpg", "https://cdn.ig/2.jpg"] });
+  });
+
+  it("falls back to the page link when a TikTok row has no product link", () => {
+    const csv = "Product ID,Product Name,Retail Price,Main Image\n1729,Pressure Cooker 5L,2800,https://cdn.tt/p.jpg";
+    const [listing] = socialAdapter("tiktok").parse({ name: "products.csv", content: csv }, "https://www.tiktok.com/@amara");
+    expect(listing.url).toBe("https://www.tiktok.com/@amara#1729");
+    expect(listing.input.fields).toMatchObject({ name: "Pressure Cooker 5L", price: 2800 });
+  });
+
+  it("rejects files that aren't a product export", () => {
+    expect(() => socialAdapter("tiktok").parse({ name: "orders.csv", content: "Order ID,Total\n1,200" }, PAGE)).toThrow(/product_name/);
+    expect(() => socialAdapter("myspace")).toThrow();
+  });
+});
+
+describe("canonicalSourceUrl", () => {
+  it("drops tracking parameters and trailing slashes", () => {
+    expect(canonicalSourceUrl("https://www.instagram.com/p/Cx1/?igsh=abc&utm_source=x")).toBe("https://www.instagram.com/p/Cx1");
+    expect(canonicalSourceUrl("https://amara.co.ke/p?id=4#top")).toBe("https://amara.co.ke/p?id=4#top");
+    expect(canonicalSourceUrl("javascript:alert(1)")).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { parseStkCallback } from "../../supabase/functions/_shared/stkCallback";
+
+describe("parseStkCallback", () => {
+  it("reads the receipt and metadata of a successful payment", () => {
+    const result = parseStkCallback({
+      Body: {
+        stkCallback: {
+          MerchantRequestID: "29115-34620561-1",
+          CheckoutRequestID: "ws_CO_191220191020363925",
+          ResultCode: 0,
+          ResultDesc: "The service request is processed successfully.",
+          CallbackMetadata: {
+            Item: [
+              { Name: "Amount", Value: 1.0 },
+              { Name: "MpesaReceiptNumber", Value: "NLJ7RT61SV" },
+              { Name: "Balance" },
+              { Name: "TransactionDate", Value: 20191219102115 },
+              { Name: "PhoneNumber", Value: 254708374149 },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(result).toEqual({
+      merchantRequestId: "29115-34620561-1",
+      checkoutRequestId: "ws_CO_191220191020363925",
+      resultCode: 0,
+      resultDesc: "The service request is processed successfully.",
+      amount: 1,
+      mpesaReceipt: "NLJ7RT61SV",
+      transactionDate: "2019-12-19T10:21:15+03:00",
+      phone: "254708374149",
+    });
+  });
+
+  it("accepts a failure without callback metadata", () => {
+    const result = parseStkCallback({
+      Body: {
+        stkCallback: {
+          MerchantRequestID: "8555-67195-1",
+          CheckoutRequestID: "ws_CO_27072017151044001",
+          ResultCode: 1032,
+          ResultDesc: "Request cancelled by user",
+        },
+      },
+    });
+
+    expect(result?.resultCode).toBe(1032);
+    expect(result?.mpesaReceipt).toBeNull();
+    expect(result?.amount).toBeNull();
+  });
+
+  it("rejects payloads that are not STK callbacks", () => {
+    expect(parseStkCallback(null)).toBeNull();
+    expect(parseStkCallback({ Body: {} })).toBeNull();
+    expect(parseStkCallback({ Body: { stkCallback: { CheckoutRequestID: "x", ResultCode: "abc" } } })).toBeNull();
+  });
+});
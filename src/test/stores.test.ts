@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { slugProblem, slugify, storeSchema } from "@/lib/stores";
+
+describe("store slugs", () => {
+  it("accept lowercase words joined by dashes", () => {
+    expect(slugProblem("mama-njeri")).toBeNull();
+    expect(slugProblem("duka254")).toBeNull();
+  });
+
+  it("reject bad shapes and reserved words", () => {
+    expect(slugProblem("ab")).toMatch(/3 to 32/);
+    expect(slugProblem("-shop-")).toMatch(/lowercase/);
+    expect(slugProblem("my--store")).toMatch(/single dashes/);
+    expect(slugProblem("admin")).toMatch(/reserved/);
+  });
+
+  it("are suggested from the store name", () => {
+    expect(slugify("Mama Njeri's Kitchen!")).toBe("mama-njeris-kitchen");
+    expect(slugify("Café Zawadi")).toBe("cafe-zawadi");
+  });
+});
+
+describe("storeSchema", () => {
+  it("lower-cases the slug before checking it", () => {
+    expect(storeSchema.parse({ name: "Duka", slug: " Duka-Yetu ", visibility: "public" }).slug).toBe("duka-yetu");
+    expect(storeSchema.safeParse({ name: "Duka", slug: "Shop", visibility: "public" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { qualifyingTier, tierProgress, type TierRule } from "@/lib/tiers";
+
+const RULES: TierRule[] = [
+  { tier: "Silver", rank: 2, commission_rate: 10, min_sales: 20, min_revenue: 0, perks: null },
+  { tier: "Bronze", rank: 1, commission_rate: 8, min_sales: 0, min_revenue: 0, perks: null },
+  { tier: "Platinum", rank: 4, commission_rate: 18, min_sales: 100, min_revenue: 500000, perks: "Priority payouts" },
+  { tier: "Gold", rank: 3, commission_rate: 12, min_sales: 50, min_revenue: 0, perks: null },
+];
+
+describe("qualifyingTier", () => {
+  it("picks the highest tier whose thresholds are all met", () => {
+    expect(qualifyingTier(RULES, { sales: 0, revenue: 0 })?.tier).toBe("Bronze");
+    expect(qualifyingTier(RULES, { sales: 58, revenue: 90000 })?.tier).toBe("Gold");
+    expect(qualifyingTier(RULES, { sales: 120, revenue: 400000 })?.tier).toBe("Gold");
+    expect(qualifyingTier(RULES, { sales: 120, revenue: 500000 })?.tier).toBe("Platinum");
+  });
+});
+
+describe("tierProgress", () => {
+  it("measures progress against the next tier's furthest threshold", () => {
+    const progress = tierProgress(RULES, "Gold", { sales: 80, revenue: 250000 });
+    expect(progress.next?.tier).toBe("Platinum");
+    expect(progress.percent).toBe(50);
+    expect(progress.salesNeeded).toBe(20);
+    expect(progress.revenueNeeded).toBe(250000);
+  });
+
+  it("is complete at the top tier", () => {
+    expect(tierProgress(RULES, "Platinum", { sales: 0, revenue: 0 })).toEqual({ next: null, percent: 100, salesNeeded: 0, revenueNeeded: 0 });
+  });
+});
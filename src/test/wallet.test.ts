@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { maturingSchedule } from "@/lib/wallet";
+
+const NOW = new Date(2026, 2, 14, 15, 0);
+const at = (day: number, hour = 12) => new Date(2026, 2, day, hour).toISOString();
+
+describe("maturingSchedule", () => {
+  it("groups held commission by the day it becomes available, soonest first", () => {
+    const schedule = maturingSchedule(
+      [
+        { order_id: "a", order_number: "ORD-1", amount: 300, available_at: at(20, 9) },
+        { order_id: "b", order_number: "ORD-2", amount: 120, available_at: at(17) },
+        { order_id: "c", order_number: "ORD-3", amount: 80, available_at: at(20, 18) },
+      ],
+      NOW,
+    );
+    expect(schedule.days.map(d => [d.date.getDate(), d.amount, d.orders])).toEqual([
+      [17, 120, ["ORD-2"]],
+      [20, 380, ["ORD-1", "ORD-3"]],
+    ]);
+  });
+
+  it("keeps undelivered and already matured commission out of the dated list", () => {
+    const schedule = maturingSchedule(
+      [
+        { order_id: "a", order_number: "ORD-1", amount: 450, available_at: null },
+        { order_id: "b", order_number: "ORD-2", amount: 200, available_at: at(14, 9) },
+        { order_id: "c", order_number: "ORD-3", amount: 50, available_at: at(15) },
+      ],
+      NOW,
+    );
+    expect(schedule.awaitingDelivery).toBe(450);
+    expect(schedule.matured).toBe(200);
+    expect(schedule.days).toHaveLength(1);
+  });
+});
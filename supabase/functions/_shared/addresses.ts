@@ -0,0 +1,90 @@
+// Tells public internet addresses from loopback, private, link-local and
+// other reserved ones, so links users give us can't point the edge functions
+// at the project's own network or the cloud metadata service. No Deno APIs,
+// so the web tests can import it.
+
+// [first address, prefix length]
+const RESERVED_V4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.reduce((n, p) => n * 256 + Number(p), 0);
+}
+
+function isPublicIPv4(ip: string) {
+  const n = ipv4ToInt(ip);
+  if (n === null) return false;
+  return !RESERVED_V4.some(([base, bits]) => Math.floor(n / 2 ** (32 - bits)) === Math.floor(ipv4ToInt(base)! / 2 ** (32 - bits)));
+}
+
+// Eight 16-bit groups, or null if it isn't an IPv6 address
+function ipv6Groups(ip: string): number[] | null {
+  let text = ip.toLowerCase();
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const n = ipv4ToInt(v4[1]);
+    if (n === null) return null;
+    text = text.slice(0, -v4[1].length) + `${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parse = (s: string) => (s ? s.split(":") : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map(g => parseInt(g, 16));
+}
+
+function isPublicIPv6(ip: string) {
+  const g = ipv6Groups(ip);
+  if (!g) return false;
+  const embeddedV4 = () => `${g[6] >> 8}.${g[6] & 0xff}.${g[7] >> 8}.${g[7] & 0xff}`;
+  // ::ffff:a.b.c.d and the NAT64 prefix 64:ff9b::/96 carry an IPv4 address
+  if (g.slice(0, 5).every(x => x === 0) && g[5] === 0xffff) return isPublicIPv4(embeddedV4());
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(x => x === 0)) return isPublicIPv4(embeddedV4());
+  if (g.slice(0, 6).every(x => x === 0)) return false; // ::, ::1 and the old IPv4-compatible form
+  if ((g[0] & 0xfe00) === 0xfc00) return false; // unique local fc00::/7
+  if ((g[0] & 0xffc0) === 0xfe80) return false; // link-local fe80::/10
+  if ((g[0] & 0xff00) === 0xff00) return false; // multicast
+  if (g[0] === 0x2001 && g[1] === 0x0db8) return false; // documentation
+  return true;
+}
+
+export function isIpAddress(host: string) {
+  const bare = host.replace(/^\[|\]$/g, "");
+  return ipv4ToInt(bare) !== null || ipv6Groups(bare) !== null;
+}
+
+export function isPublicAddress(ip: string) {
+  const bare = ip.replace(/^\[|\]$/g, "");
+  return ipv4ToInt(bare) !== null ? isPublicIPv4(bare) : isPublicIPv6(bare);
+}
+
+// Names that only mean something inside our network: localhost, bare service
+// names such as `kong` or `db`, and the internal-only top-level domains
+export function isPublicHostname(host: string) {
+  const name = host.toLowerCase().replace(/\.$/, "");
+  if (isIpAddress(name)) return isPublicAddress(name);
+  if (!name.includes(".")) return false;
+  return !/\.(localhost|local|internal|intranet|lan|home|corp|localdomain)$/.test(name);
+}
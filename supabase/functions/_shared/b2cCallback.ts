@@ -0,0 +1,43 @@
+// Parser for the M-Pesa B2C result callback:
+// { Result: { ResultCode, ResultDesc, OriginatorConversationID, ConversationID, TransactionID, ResultParameters? } }
+// The queue-timeout callback has no Result body we can rely on beyond the conversation IDs.
+
+export type B2CResult = {
+  originatorConversationId: string;
+  conversationId: string | null;
+  resultCode: number;
+  resultDesc: string;
+  transactionId: string | null;
+  parameters: Record<string, string | number>;
+};
+
+type ResultParameter = { Key: string; Value?: string | number };
+
+export function parseB2CResult(payload: unknown): B2CResult | null {
+  const result = (payload as { Result?: Record<string, unknown> })?.Result;
+  if (!result || typeof result.OriginatorConversationID !== "string") return null;
+
+  const resultCode = Number(result.ResultCode);
+  if (!Number.isInteger(resultCode)) return null;
+
+  const raw = (result.ResultParameters as { ResultParameter?: ResultParameter | ResultParameter[] } | undefined)?.ResultParameter;
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const parameters = Object.fromEntries(list.filter(p => p.Value !== undefined).map(p => [p.Key, p.Value!]));
+
+  const transactionId = result.TransactionID ? String(result.TransactionID) : null;
+  return {
+    originatorConversationId: result.OriginatorConversationID,
+    conversationId: result.ConversationID ? String(result.ConversationID) : null,
+    resultCode,
+    resultDesc: String(result.ResultDesc ?? ""),
+    // Failed results still carry a generic TransactionID; it is only a receipt when the payment went through
+    transactionId: resultCode === 0 ? transactionId : null,
+    parameters,
+  };
+}
+
+export function parseB2CTimeout(payload: unknown): { originatorConversationId: string } | null {
+  const body = payload as { Result?: { OriginatorConversationID?: unknown }; OriginatorConversationID?: unknown } | null;
+  const id = body?.Result?.OriginatorConversationID ?? body?.OriginatorConversationID;
+  return typeof id === "string" && id ? { originatorConversationId: id } : null;
+}
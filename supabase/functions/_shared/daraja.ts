@@ -0,0 +1,189 @@
+// Minimal Safaricom Daraja client. DARAJA_BASE_URL points at the real API
+// (https://sandbox.safaricom.co.ke / https://api.safaricom.co.ke) or at the
+// local `daraja-sandbox` function when testing.
+
+export type DarajaConfig = {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortcode: string;
+  passkey: string;
+  stkCallbackUrl: string;
+};
+
+export class DarajaError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly body?: unknown) {
+    super(message);
+    this.name = "DarajaError";
+  }
+}
+
+export type B2CConfig = Pick<DarajaConfig, "baseUrl" | "consumerKey" | "consumerSecret"> & {
+  shortcode: string;
+  initiatorName: string;
+  securityCredential: string;
+  resultUrl: string;
+  timeoutUrl: string;
+};
+
+function get(key: string, fallback?: string) {
+  const value = Deno.env.get(key) ?? fallback;
+  if (value === undefined) throw new DarajaError(`Missing ${key} environment variable`);
+  return value;
+}
+
+export function darajaConfigFromEnv(): DarajaConfig {
+  return {
+    baseUrl: get("DARAJA_BASE_URL", "https://sandbox.safaricom.co.ke").replace(/\/$/, ""),
+    consumerKey: get("DARAJA_CONSUMER_KEY"),
+    consumerSecret: get("DARAJA_CONSUMER_SECRET"),
+    shortcode: get("DARAJA_SHORTCODE"),
+    passkey: get("DARAJA_PASSKEY"),
+    stkCallbackUrl: withSecret(get("MPESA_STK_CALLBACK_URL", `${Deno.env.get("SUPABASE_URL")}/functions/v1/mpesa-callback`)),
+  };
+}
+
+export function b2cConfigFromEnv(): B2CConfig {
+  const callbackBase = withSecret(get("MPESA_B2C_CALLBACK_URL", `${Deno.env.get("SUPABASE_URL")}/functions/v1/mpesa-b2c-callback`));
+  return {
+    baseUrl: get("DARAJA_BASE_URL", "https://sandbox.safaricom.co.ke").replace(/\/$/, ""),
+    consumerKey: get("DARAJA_CONSUMER_KEY"),
+    consumerSecret: get("DARAJA_CONSUMER_SECRET"),
+    shortcode: get("DARAJA_B2C_SHORTCODE"),
+    initiatorName: get("DARAJA_B2C_INITIATOR_NAME"),
+    securityCredential: get("DARAJA_B2C_SECURITY_CREDENTIAL"),
+    resultUrl: withPath(callbackBase, "/result"),
+    timeoutUrl: withPath(callbackBase, "/timeout"),
+  };
+}
+
+// Daraja doesn't sign callbacks, so they carry MPESA_CALLBACK_SECRET as ?secret=…
+function withSecret(url: string) {
+  const u = new URL(url);
+  u.searchParams.set("secret", get("MPESA_CALLBACK_SECRET"));
+  return u.toString();
+}
+
+// Appends a path segment while keeping any ?secret=… query on the callback URL
+function withPath(url: string, path: string) {
+  const u = new URL(url);
+  u.pathname = u.pathname.replace(/\/$/, "") + path;
+  return u.toString();
+}
+
+// YYYYMMDDHHmmss in East Africa Time, as required for the STK password.
+export function darajaTimestamp(date = new Date()) {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+export async function getAccessToken(config: Pick<DarajaConfig, "baseUrl" | "consumerKey" | "consumerSecret">) {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) return cachedToken.value;
+
+  const res = await fetch(`${config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${btoa(`${config.consumerKey}:${config.consumerSecret}`)}` },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body?.access_token) throw new DarajaError("Could not get Daraja access token", res.status, body);
+
+  // Refresh a minute before Safaricom expires it
+  cachedToken = { value: body.access_token, expiresAt: Date.now() + (Number(body.expires_in || 3599) - 60) * 1000 };
+  return cachedToken.value;
+}
+
+async function post<T>(config: Pick<DarajaConfig, "baseUrl" | "consumerKey" | "consumerSecret">, path: string, payload: unknown): Promise<T> {
+  const token = await getAccessToken(config);
+  const res = await fetch(`${config.baseUrl}${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new DarajaError(body?.errorMessage || `Daraja request to ${path} failed`, res.status, body);
+  return body as T;
+}
+
+export type StkPushResponse = {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  CustomerMessage: string;
+};
+
+export async function stkPush(
+  config: DarajaConfig,
+  params: { phone: string; amount: number; accountReference: string; description: string },
+) {
+  const timestamp = darajaTimestamp();
+  const res = await post<StkPushResponse>(config, "/mpesa/stkpush/v1/processrequest", {
+    BusinessShortCode: config.shortcode,
+    Password: btoa(`${config.shortcode}${config.passkey}${timestamp}`),
+    Timestamp: timestamp,
+    TransactionType: "CustomerPayBillOnline",
+    Amount: Math.ceil(params.amount),
+    PartyA: params.phone,
+    PartyB: config.shortcode,
+    PhoneNumber: params.phone,
+    CallBackURL: config.stkCallbackUrl,
+    AccountReference: params.accountReference.slice(0, 12),
+    TransactionDesc: params.description.slice(0, 13),
+  });
+  if (res.ResponseCode !== "0") throw new DarajaError(res.ResponseDescription || "STK Push rejected", undefined, res);
+  return res;
+}
+
+export type StkQueryResponse = {
+  ResponseCode: string;
+  ResponseDescription: string;
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode?: string;
+  ResultDesc?: string;
+};
+
+// Daraja answers the query with an error (500.001.1001) while the customer has not responded yet.
+export async function stkQuery(config: DarajaConfig, checkoutRequestId: string): Promise<StkQueryResponse | null> {
+  const timestamp = darajaTimestamp();
+  try {
+    return await post<StkQueryResponse>(config, "/mpesa/stkpushquery/v1/query", {
+      BusinessShortCode: config.shortcode,
+      Password: btoa(`${config.shortcode}${config.passkey}${timestamp}`),
+      Timestamp: timestamp,
+      CheckoutRequestID: checkoutRequestId,
+    });
+  } catch (e) {
+    if (e instanceof DarajaError && (e.body as { errorCode?: string } | undefined)?.errorCode === "500.001.1001") return null;
+    throw e;
+  }
+}
+
+export type B2CResponse = {
+  ConversationID: string;
+  OriginatorConversationID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+};
+
+export async function b2cPayment(
+  config: B2CConfig,
+  params: { originatorConversationId: string; phone: string; amount: number; remarks: string; occasion?: string },
+) {
+  const res = await post<B2CResponse>(config, "/mpesa/b2c/v3/paymentrequest", {
+    OriginatorConversationID: params.originatorConversationId,
+    InitiatorName: config.initiatorName,
+    SecurityCredential: config.securityCredential,
+    CommandID: "BusinessPayment",
+    Amount: Math.floor(params.amount),
+    PartyA: config.shortcode,
+    PartyB: params.phone,
+    Remarks: params.remarks.slice(0, 100),
+    QueueTimeOutURL: config.timeoutUrl,
+    ResultURL: config.resultUrl,
+    Occasion: (params.occasion || "").slice(0, 100),
+  });
+  if (res.ResponseCode !== "0") throw new DarajaError(res.ResponseDescription || "B2C request rejected", undefined, res);
+  return res;
+}
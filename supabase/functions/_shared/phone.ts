@@ -0,0 +1,73 @@
+// Kenyan mobile numbers. Shoppers and agents type them every which way:
+// 0712 345 678, 712345678, +254 712 345 678, 254712345678. Everything is
+// reduced to the 9-digit subscriber number and checked against the carrier's
+// prefixes before it goes anywhere near M-Pesa or an SMS gateway.
+// No Deno or browser APIs here: the web app imports this file too (src/lib/phone.ts).
+
+export type Carrier = "safaricom" | "airtel";
+
+export type KenyanPhone = {
+  // 9 digits without the country code or trunk 0, e.g. 712345678
+  subscriber: string;
+  carrier: Carrier;
+};
+
+// First three digits of the subscriber number, as allocated by the Communications Authority
+const PREFIXES: [Carrier, RegExp][] = [
+  ["safaricom", /^(7[0-2]\d|74[0-3568]|75[7-9]|76[89]|79\d|11[0-5])/],
+  ["airtel", /^(73\d|75[0-6]|762|78\d|10[0-2])/],
+];
+
+export function parsePhone(input: string | null | undefined): KenyanPhone | null {
+  const raw = (input ?? "").trim();
+  // Spaces, dashes, dots and brackets are fine; letters and stray symbols are not
+  if (!/^\+?[\d\s\-.()]+$/.test(raw)) return null;
+
+  const digits = raw.replace(/\D/g, "");
+  let subscriber: string | null = null;
+  if (/^0[17]\d{8}$/.test(digits)) subscriber = digits.slice(1);
+  else if (/^[17]\d{8}$/.test(digits)) subscriber = digits;
+  else if (/^2540?[17]\d{8}$/.test(digits)) subscriber = digits.slice(-9);
+  if (!subscriber) return null;
+
+  const carrier = PREFIXES.find(([, re]) => re.test(subscriber!))?.[0];
+  return carrier ? { subscriber, carrier } : null;
+}
+
+export function carrierOf(input: string | null | undefined): Carrier | null {
+  return parsePhone(input)?.carrier ?? null;
+}
+
+// +254712345678
+export function toE164(input: string | null | undefined): string | null {
+  const phone = parsePhone(input);
+  return phone ? `+254${phone.subscriber}` : null;
+}
+
+// 254712345678: what Daraja, Africa's Talking and `normalize_msisdn` use
+export function toMsisdn(input: string | null | undefined): string | null {
+  const phone = parsePhone(input);
+  return phone ? `254${phone.subscriber}` : null;
+}
+
+// M-Pesa only runs on Safaricom, so STK Push and B2C need a Safaricom MSISDN
+export function toDarajaMsisdn(input: string | null | undefined): string | null {
+  const phone = parsePhone(input);
+  return phone?.carrier === "safaricom" ? `254${phone.subscriber}` : null;
+}
+
+// 0712 345 678. Anything that doesn't parse is shown as it was stored.
+export function formatPhone(input: string | null | undefined): string {
+  const phone = parsePhone(input);
+  if (!phone) return input ?? "";
+  const s = phone.subscriber;
+  return `0${s.slice(0, 3)} ${s.slice(3, 6)} ${s.slice(6)}`;
+}
+
+// 0712 *** 678, for showing a number back to someone who may not own it
+export function maskPhone(input: string | null | undefined): string {
+  const phone = parsePhone(input);
+  if (!phone) return "";
+  const s = phone.subscriber;
+  return `0${s.slice(0, 3)} *** ${s.slice(6)}`;
+}
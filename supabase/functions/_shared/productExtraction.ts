@@ -0,0 +1,416 @@
+// Product import: turns a product page or a pasted social post into a draft
+// product. Extractors sit behind a small interface so the rules-based one can
+// run offline and in tests, and a model-backed one can fill in what the
+// rules miss. `extractProduct` cleans up whatever an extractor returns and
+// scores it the same way for both.
+// No Deno or browser APIs here: the web app and its tests import this file too.
+
+// export: a row of a shop's catalogue export, see socialAdapters.ts
+export type SourceType = "url" | "post" | "export";
+
+export type ExtractionInput = {
+  sourceType: SourceType;
+  // The page address, also used to resolve relative image links
+  url?: string;
+  // The fetched page, for `url` imports
+  html?: string;
+  // The pasted caption, for `post` imports
+  text?: string;
+  // What the source states outright, e.g. the columns of a catalogue export.
+  // Taken as certain; the page or text only fills in what these leave out.
+  fields?: Partial<Pick<ExtractedProduct, "name" | "price" | "currency" | "description" | "images">>;
+};
+
+export const PRODUCT_FIELDS = ["name", "price", "description", "images"] as const;
+export type ProductField = (typeof PRODUCT_FIELDS)[number];
+
+export type ExtractedProduct = {
+  name: string | null;
+  price: number | null;
+  // ISO code as found on the page; null when none was stated
+  currency: string | null;
+  description: string | null;
+  images: string[];
+  // How sure the extractor is of each field it found, 0 to 1
+  certainty: Partial<Record<ProductField, number>>;
+  warnings: string[];
+};
+
+export interface ProductExtractor {
+  readonly name: string;
+  extract(input: ExtractionInput): Promise<ExtractedProduct>;
+}
+
+export type ExtractionResult = ExtractedProduct & {
+  extractor: string;
+  // Weighted certainty of the fields found, less a little per warning
+  confidence: number;
+  missing_fields: ProductField[];
+};
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+// Price and name matter most for a sellable listing
+const FIELD_WEIGHTS: Record<ProductField, number> = { name: 0.3, price: 0.35, description: 0.15, images: 0.2 };
+const WARNING_PENALTY = 0.05;
+const MAX_NAME = 120;
+const MAX_DESCRIPTION = 2000;
+const MAX_IMAGES = 8;
+
+const empty = (): ExtractedProduct => ({ name: null, price: null, currency: null, description: null, images: [], certainty: {}, warnings: [] });
+
+export async function extractProduct(extractor: ProductExtractor, input: ExtractionInput): Promise<ExtractionResult> {
+  const raw = await extractor.extract(input);
+  const product: ExtractedProduct = { ...empty(), ...raw, certainty: { ...raw.certainty }, warnings: [...raw.warnings] };
+
+  product.name = clean(product.name);
+  if (product.name && product.name.length > MAX_NAME) {
+    product.name = product.name.slice(0, MAX_NAME).trim();
+    product.warnings.push(`The name was cut to ${MAX_NAME} characters`);
+  }
+  product.description = clean(product.description, true);
+  if (product.description && product.description.length > MAX_DESCRIPTION) {
+    product.description = product.description.slice(0, MAX_DESCRIPTION).trim();
+    product.warnings.push(`The description was cut to ${MAX_DESCRIPTION} characters`);
+  }
+  if (product.price !== null && !(Number.isFinite(product.price) && product.price > 0)) product.price = null;
+  if (product.price !== null && product.currency && product.currency !== "KES") {
+    product.warnings.push(`The price is in ${product.currency}. Convert it to KES before publishing`);
+    product.certainty.price = Math.min(product.certainty.price ?? 1, 0.3);
+  }
+  product.images = [...new Set(product.images.map(src => absoluteUrl(src, input.url)).filter((src): src is string => !!src))].slice(0, MAX_IMAGES);
+
+  const found: Record<ProductField, boolean> = {
+    name: !!product.name,
+    price: product.price !== null,
+    description: !!product.description,
+    images: product.images.length > 0,
+  };
+  const missing_fields = PRODUCT_FIELDS.filter(f => !found[f]);
+  const score = PRODUCT_FIELDS.reduce((sum, f) => sum + (found[f] ? FIELD_WEIGHTS[f] * clamp(product.certainty[f] ?? 0.5) : 0), 0);
+  const confidence = Math.round(clamp(score - WARNING_PENALTY * product.warnings.length) * 100) / 100;
+
+  return { ...product, extractor: extractor.name, confidence, missing_fields };
+}
+
+// Reads schema.org Product JSON-LD, then Open Graph / product meta tags, then
+// the page title. Posts are read line by line for a title, a KSh price and
+// image links. Deterministic, so it is what the tests run.
+export class RulesProductExtractor implements ProductExtractor {
+  readonly name = "rules";
+
+  async extract(input: ExtractionInput): Promise<ExtractedProduct> {
+    const given = fromFields(input.fields);
+    if (input.sourceType === "url") {
+      if (!input.html) throw new ExtractionError("The page came back empty");
+      return fillGaps(given, extractFromHtml(input.html));
+    }
+    if (input.text?.trim()) return fillGaps(given, extractFromPost(input.text));
+    if (input.fields) return given;
+    throw new ExtractionError(input.sourceType === "post" ? "Paste the post text to import" : "This listing has no product details");
+  }
+}
+
+// Asks an OpenAI-compatible chat model to read the page or post. Fields the
+// rules found in structured data are kept as they are; the model only fills
+// the gaps and the weaker guesses.
+export class AiProductExtractor implements ProductExtractor {
+  readonly name = "ai";
+
+  constructor(
+    private readonly config: { apiKey: string; baseUrl: string; model: string },
+    private readonly rules: ProductExtractor = new RulesProductExtractor(),
+  ) {}
+
+  async extract(input: ExtractionInput): Promise<ExtractedProduct> {
+    const base = await this.rules.extract(input);
+    if (PRODUCT_FIELDS.every(f => (base.certainty[f] ?? 0) >= 0.9)) return base;
+
+    const source = input.sourceType === "url" ? pageText(input.html ?? "") : input.text ?? JSON.stringify(input.fields ?? {});
+    const res = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.config.apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.config.model,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "system",
+            content:
+              "You extract one product listing for a Kenyan online shop. Reply with JSON only: " +
+              '{"name": string|null, "price": number|null, "currency": "KES"|other ISO code|null, "description": string|null, "images": string[]}. ' +
+              "Use null when the source doesn't say. Never invent a price. Keep the description factual and under 600 characters.",
+          },
+          { role: "user", content: source.slice(0, 12_000) },
+        ],
+      }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new ExtractionError(body?.error?.message || `Extraction request failed (${res.status})`);
+
+    let ai: Partial<ExtractedProduct> = {};
+    try {
+      ai = JSON.parse(body?.choices?.[0]?.message?.content ?? "{}");
+    } catch {
+      return { ...base, warnings: [...base.warnings, "The model's answer couldn't be read; only rule-based fields were used"] };
+    }
+
+    const merged = { ...base, certainty: { ...base.certainty }, warnings: [...base.warnings] };
+    const take = <K extends "name" | "price" | "description">(field: K, value: ExtractedProduct[K] | undefined) => {
+      if (value == null || value === "" || (base.certainty[field] ?? 0) >= 0.9) return;
+      merged[field] = value;
+      merged.certainty[field] = 0.7;
+    };
+    take("name", typeof ai.name === "string" ? ai.name : null);
+    take("description", typeof ai.description === "string" ? ai.description : null);
+    if ((base.certainty.price ?? 0) < 0.9 && typeof ai.price === "number") {
+      merged.price = ai.price;
+      merged.currency = typeof ai.currency === "string" ? ai.currency.toUpperCase() : base.currency;
+      merged.certainty.price = 0.7;
+    }
+    if (!base.images.length && Array.isArray(ai.images)) {
+      merged.images = ai.images.filter((i): i is string => typeof i === "string");
+      merged.certainty.images = 0.6;
+    }
+    return merged;
+  }
+}
+
+function fromFields(fields: ExtractionInput["fields"]): ExtractedProduct {
+  const product = empty();
+  if (!fields) return product;
+  for (const field of ["name", "description"] as const) {
+    if (fields[field]) {
+      product[field] = fields[field]!;
+      product.certainty[field] = 1;
+    }
+  }
+  if (fields.price != null) {
+    product.price = fields.price;
+    product.currency = fields.currency?.toUpperCase() ?? null;
+    product.certainty.price = 1;
+  }
+  if (fields.images?.length) {
+    product.images = [...fields.images];
+    product.certainty.images = 1;
+  }
+  return product;
+}
+
+// Keeps what `base` has and takes the rest from `found`
+function fillGaps(base: ExtractedProduct, found: ExtractedProduct): ExtractedProduct {
+  const product = { ...base, certainty: { ...base.certainty }, warnings: [...base.warnings, ...found.warnings] };
+  for (const field of ["name", "description"] as const) {
+    if (!product[field] && found[field]) {
+      product[field] = found[field];
+      product.certainty[field] = found.certainty[field];
+    }
+  }
+  if (product.price === null && found.price !== null) {
+    product.price = found.price;
+    product.currency = found.currency;
+    product.certainty.price = found.certainty.price;
+  }
+  if (found.images.length) {
+    product.images = [...product.images, ...found.images];
+    product.certainty.images = Math.max(product.certainty.images ?? 0, found.certainty.images ?? 0);
+  }
+  return product;
+}
+
+// The form a source link is stored and compared in: no tracking parameters
+// and no trailing slash, so re-shared links to the same listing match
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|igshid|igsh|_t|_r)$/i;
+export function canonicalSourceUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return null;
+  for (const key of [...parsed.searchParams.keys()]) if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  return parsed.toString();
+}
+
+function extractFromHtml(html: string): ExtractedProduct {
+  const product = empty();
+  const set = <K extends "name" | "description">(field: K, value: string | null | undefined, certainty: number) => {
+    const v = clean(value);
+    if (!v || product[field]) return;
+    product[field] = v;
+    product.certainty[field] = certainty;
+  };
+
+  const ld = jsonLdProduct(html);
+  if (ld) {
+    set("name", str(ld.name), 1);
+    set("description", str(ld.description), 1);
+    product.images.push(...toArray(ld.image).map(i => (typeof i === "string" ? i : str((i as Record<string, unknown>)?.url))).filter((i): i is string => !!i));
+    const offer = toArray(ld.offers)[0] as Record<string, unknown> | undefined;
+    const price = parsePrice(str(offer?.price ?? offer?.lowPrice));
+    if (price !== null) {
+      product.price = price;
+      product.currency = str(offer?.priceCurrency)?.toUpperCase() ?? null;
+      product.certainty.price = 1;
+    }
+  }
+
+  const meta = metaTags(html);
+  set("name", meta["og:title"] ?? meta["twitter:title"], 0.85);
+  set("description", meta["og:description"] ?? meta["description"] ?? meta["twitter:description"], 0.7);
+  if (product.price === null) {
+    const price = parsePrice(meta["product:price:amount"] ?? meta["og:price:amount"]);
+    if (price !== null) {
+      product.price = price;
+      product.currency = (meta["product:price:currency"] ?? meta["og:price:currency"])?.toUpperCase() ?? null;
+      product.certainty.price = 0.9;
+    }
+  }
+  const ogImage = meta["og:image"] ?? meta["og:image:url"] ?? meta["twitter:image"];
+  if (ogImage) product.images.push(ogImage);
+
+  set("name", /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1], 0.5);
+
+  // Last resort: the first KSh amount in the visible text
+  if (product.price === null) {
+    const prices = kshPrices(pageText(html));
+    if (prices.length) {
+      product.price = prices[0];
+      product.currency = "KES";
+      product.certainty.price = 0.5;
+      if (new Set(prices).size > 1) product.warnings.push("The page shows several prices; the first one was used");
+    }
+  }
+
+  if (product.images.length) product.certainty.images = ld?.image ? 1 : 0.85;
+  return product;
+}
+
+function extractFromPost(text: string): ExtractedProduct {
+  const product = empty();
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+  const images = text.match(/https?:\/\/\S+?\.(?:jpe?g|png|webp)(?:\?\S*)?(?=\s|$)/gi) ?? [];
+  product.images = images;
+  if (images.length) product.certainty.images = 0.8;
+
+  const prices = kshPrices(text);
+  if (prices.length) {
+    product.price = prices[0];
+    product.currency = "KES";
+    product.certainty.price = 0.75;
+    if (new Set(prices).size > 1) product.warnings.push("The post mentions several prices; the first one was used");
+  }
+
+  // The first line that still has words once prices, links, hashtags and emoji are gone
+  const titled = lines.map(l => ({ line: l, title: stripPostNoise(l) })).find(l => /[a-z]{2}/i.test(l.title));
+  if (titled) {
+    product.name = titled.title;
+    product.certainty.name = 0.6;
+    const rest = lines.filter(l => l !== titled.line).map(l => l.replace(/(^|\s)#\w+/g, "").replace(/https?:\/\/\S+/g, "").trim()).filter(Boolean);
+    if (rest.length) {
+      product.description = rest.join("\n");
+      product.certainty.description = 0.6;
+    }
+  }
+  return product;
+}
+
+// "Ksh 2,500", "KES 2500.00", "2,500/=", "2500 bob"
+export function kshPrices(text: string): number[] {
+  const re = /(?:\b(?:ksh?s?|kes)\.?\s*([\d,]+(?:\.\d{1,2})?))|(?:\b([\d,]+(?:\.\d{1,2})?)\s*(?:\/=|\/-|bob\b|ksh?s?\b|kes\b))/gi;
+  const out: number[] = [];
+  for (const m of text.matchAll(re)) {
+    const price = parsePrice(m[1] ?? m[2]);
+    if (price !== null) out.push(price);
+  }
+  return out;
+}
+
+function parsePrice(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const n = Number(String(value).replace(/,/g, "").trim());
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function jsonLdProduct(html: string): Record<string, unknown> | null {
+  const scripts = html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, body] of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(body.trim());
+    } catch {
+      continue;
+    }
+    const nodes = toArray(data).flatMap(n => [n, ...toArray((n as Record<string, unknown>)?.["@graph"])]);
+    const product = nodes.find(n => toArray((n as Record<string, unknown>)?.["@type"]).includes("Product"));
+    if (product) return product as Record<string, unknown>;
+  }
+  return null;
+}
+
+// <meta property|name="x" content="y">, in either attribute order
+function metaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = /\b(?:property|name|itemprop)=["']([^"']+)["']/i.exec(tag)?.[1]?.toLowerCase();
+    const content = /\bcontent=["']([^"']*)["']/i.exec(tag)?.[1];
+    if (key && content !== undefined && !(key in tags)) tags[key] = decodeEntities(content);
+  }
+  return tags;
+}
+
+// Visible text of a page, roughly: no scripts, styles or tags
+function pageText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, " "),
+  ).replace(/[ \t]+/g, " ").replace(/\n\s*\n+/g, "\n").trim();
+}
+
+function stripPostNoise(line: string): string {
+  return line
+    .replace(/https?:\/\/\S+/g, "")
+    .replace(/(^|\s)#\w+/g, " ")
+    .replace(/(?:\b(?:ksh?s?|kes)\.?\s*[\d,]+(?:\.\d{1,2})?)|(?:\b[\d,]+(?:\.\d{1,2})?\s*(?:\/=|\/-|bob\b|ksh?s?\b|kes\b))/gi, "")
+    .replace(/[^\p{L}\p{N}\s'&.,()/+-]/gu, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-–:,.]+|[\s\-–:,]+$/g, "")
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") return String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : Number(e.slice(1)));
+    return named[e.toLowerCase()] ?? m;
+  });
+}
+
+function clean(value: string | null | undefined, multiline = false): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(multiline ? /[ \t]+/g : /\s+/g, " ").trim();
+  return text || null;
+}
+
+function absoluteUrl(src: string, base?: string): string | null {
+  try {
+    const url = base ? new URL(src, base) : new URL(src);
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+const str = (v: unknown) => (typeof v === "string" || typeof v === "number" ? String(v) : null);
+const toArray = (v: unknown): unknown[] => (Array.isArray(v) ? v : v == null ? [] : [v]);
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
@@ -0,0 +1,114 @@
+// Server side of product import: picks the extractor from the environment,
+// fetches pages and saves what was extracted as a draft product.
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import { readCapped, safeFetch, SafeFetchError } from "./safeFetch.ts";
+import {
+  AiProductExtractor,
+  canonicalSourceUrl,
+  ExtractionError,
+  extractProduct,
+  RulesProductExtractor,
+  type ExtractionInput,
+  type ExtractionResult,
+  type ProductExtractor,
+} from "./productExtraction.ts";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+let extractor: ProductExtractor | null = null;
+
+// PRODUCT_EXTRACTOR=rules (default) needs nothing else. `ai` reads
+// AI_API_KEY, with AI_BASE_URL and AI_MODEL for other OpenAI-compatible hosts.
+export function productExtractorFromEnv(): ProductExtractor {
+  if (extractor) return extractor;
+  const name = Deno.env.get("PRODUCT_EXTRACTOR") ?? "rules";
+  if (name === "rules") {
+    extractor = new RulesProductExtractor();
+  } else if (name === "ai") {
+    const apiKey = Deno.env.get("AI_API_KEY");
+    if (!apiKey) throw new ExtractionError("Missing AI_API_KEY environment variable");
+    extractor = new AiProductExtractor({
+      apiKey,
+      baseUrl: Deno.env.get("AI_BASE_URL") ?? "https://api.openai.com/v1",
+      model: Deno.env.get("AI_MODEL") ?? "gpt-4o-mini",
+    });
+  } else {
+    throw new ExtractionError(`Unknown PRODUCT_EXTRACTOR "${name}"`);
+  }
+  return extractor;
+}
+
+// Downloads a product page for the `url` source type
+export async function fetchProductPage(url: string): Promise<ExtractionInput> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ExtractionError("Enter the full product link, starting with https://");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") throw new ExtractionError("Only web links can be imported");
+
+  try {
+    const { res, url: finalUrl } = await safeFetch(parsed, {
+      headers: { "User-Agent": "PayLoomImporter/1.0", Accept: "text/html,application/xhtml+xml" },
+      timeoutMs: FETCH_TIMEOUT_MS,
+    });
+    if (!res.ok) throw new ExtractionError(`That page answered with an error (${res.status})`);
+    if (!(res.headers.get("Content-Type") ?? "").includes("html")) throw new ExtractionError("That link isn't a web page");
+    const html = await readCapped(res, MAX_PAGE_BYTES);
+    return { sourceType: "url", url: finalUrl, html };
+  } catch (e) {
+    if (e instanceof SafeFetchError) throw new ExtractionError(e.message);
+    throw e;
+  }
+}
+
+// Runs the extractor and stores the result as a hidden draft. `owner` is the
+// user the product belongs to; an agent's drafts go to their storefront.
+export async function importProductDraft(input: ExtractionInput, owner: { userId: string; storeId: string | null }) {
+  const result: ExtractionResult = await extractProduct(productExtractorFromEnv(), input);
+  const { data, error } = await supabaseAdmin
+    .from("products")
+    .insert({
+      name: result.name ?? "Untitled import",
+      description: result.description,
+      price: result.price,
+      image_url: result.images[0] ?? null,
+      images: result.images,
+      status: "draft",
+      is_active: false,
+      stock: 0,
+      source_url: input.url ? canonicalSourceUrl(input.url) ?? input.url : null,
+      source_type: input.sourceType,
+      ai_confidence_score: result.confidence,
+      missing_fields: result.missing_fields,
+      extraction_warnings: result.warnings,
+      created_by: owner.userId,
+      store_id: owner.storeId,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return { product: data, result };
+}
+
+// The storefront a user's imports are listed under, if they have one
+export async function draftOwner(userId: string) {
+  const { data: store } = await supabaseAdmin.from("stores").select("id").eq("user_id", userId).maybeSingle();
+  return { userId, storeId: store?.id ?? null };
+}
+
+// Which of these source links are already on a product, in any state, so a
+// re-sync or a re-import doesn't create the same draft twice
+export async function importedSourceUrls(urls: string[]): Promise<Set<string>> {
+  const canonical = [...new Set(urls.map(u => canonicalSourceUrl(u) ?? u))];
+  const seen = new Set<string>();
+  // Keep each request's URL list well under PostgREST's query length limit
+  for (let i = 0; i < canonical.length; i += 100) {
+    const { data, error } = await supabaseAdmin.from("products").select("source_url").in("source_url", canonical.slice(i, i + 100));
+    if (error) throw new Error(error.message);
+    for (const row of data ?? []) if (row.source_url) seen.add(row.source_url);
+  }
+  return seen;
+}
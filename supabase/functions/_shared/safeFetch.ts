@@ -0,0 +1,86 @@
+// Fetches a link a user gave us. Every hop of a redirect has its host
+// resolved and checked against addresses.ts first, and bodies are read with a
+// byte cap rather than in full. Used for product pages and catalogue feeds.
+import { isIpAddress, isPublicAddress, isPublicHostname } from "./addresses.ts";
+
+export class SafeFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SafeFetchError";
+  }
+}
+
+type SafeFetchOptions = {
+  headers?: HeadersInit;
+  timeoutMs: number;
+  // Refuse plain http, on the first request and on every redirect
+  httpsOnly?: boolean;
+};
+
+const MAX_REDIRECTS = 5;
+
+async function resolveHost(host: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+  return lookups.flatMap(l => (l.status === "fulfilled" ? l.value : []));
+}
+
+// Throws unless the URL is http(s) and its host only resolves to public addresses
+export async function assertPublicUrl(url: URL, httpsOnly = false) {
+  if (url.protocol !== "https:" && (httpsOnly || url.protocol !== "http:")) {
+    throw new SafeFetchError(httpsOnly ? "Only https:// links can be fetched" : "Only web links can be fetched");
+  }
+  if (url.username || url.password) throw new SafeFetchError("Links with a username or password can't be fetched");
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!isPublicHostname(host)) throw new SafeFetchError("That link points to a private or local address");
+  if (isIpAddress(host)) return;
+
+  const addresses = await resolveHost(host);
+  if (addresses.length === 0) throw new SafeFetchError(`Couldn't find ${host}`);
+  if (!addresses.every(isPublicAddress)) throw new SafeFetchError("That link points to a private or local address");
+}
+
+// Follows redirects by hand so each hop is checked. The returned response's
+// body is unread; `url` is where it finally came from.
+export async function safeFetch(input: string | URL, options: SafeFetchOptions): Promise<{ res: Response; url: string }> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let url = new URL(input);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(url, options.httpsOnly);
+    const res = await fetch(url, { headers: options.headers, redirect: "manual", signal }).catch(() => {
+      throw new SafeFetchError("Couldn't reach that address");
+    });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("Location") : null;
+    if (!location) return { res, url: url.toString() };
+    await res.body?.cancel();
+    try {
+      url = new URL(location, url);
+    } catch {
+      throw new SafeFetchError("That address redirected to an invalid link");
+    }
+  }
+  throw new SafeFetchError("That address redirected too many times");
+}
+
+// The body as text, failing once it passes `maxBytes` whatever Content-Length said
+export async function readCapped(res: Response, maxBytes: number): Promise<string> {
+  if (Number(res.headers.get("Content-Length") ?? 0) > maxBytes) {
+    await res.body?.cancel();
+    throw new SafeFetchError(`The response is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+  }
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new SafeFetchError(`The response is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
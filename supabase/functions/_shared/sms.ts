@@ -0,0 +1,78 @@
+// Outgoing SMS behind a small provider interface. SMS_PROVIDER picks the
+// implementation: `console` logs messages and keeps them in memory for local
+// testing, `africastalking` sends through Africa's Talking. There is no
+// default, so a deploy that forgets the variable fails instead of logging codes.
+
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+export class SmsError extends Error {
+  constructor(message: string, public readonly body?: unknown) {
+    super(message);
+    this.name = "SmsError";
+  }
+}
+
+export type SentSms = { to: string; message: string; sentAt: Date };
+
+// Never delivers anything. Codes show up in the function logs instead.
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = "console";
+  readonly outbox: SentSms[] = [];
+
+  async send(to: string, message: string) {
+    this.outbox.push({ to, message, sentAt: new Date() });
+    console.log(`[sms:console] to ${to}: ${message}`);
+  }
+}
+
+export class AfricasTalkingSmsProvider implements SmsProvider {
+  readonly name = "africastalking";
+
+  constructor(
+    private readonly config: { username: string; apiKey: string; senderId?: string; baseUrl: string },
+  ) {}
+
+  async send(to: string, message: string) {
+    const form = new URLSearchParams({ username: this.config.username, to: `+${to}`, message });
+    if (this.config.senderId) form.set("from", this.config.senderId);
+    const res = await fetch(`${this.config.baseUrl}/version1/messaging`, {
+      method: "POST",
+      headers: { apiKey: this.config.apiKey, Accept: "application/json", "Content-Type": "application/x-www-form-urlencoded" },
+      body: form,
+    });
+    const body = await res.json().catch(() => null);
+    const recipient = body?.SMSMessageData?.Recipients?.[0];
+    if (!res.ok || !recipient || recipient.statusCode >= 400) {
+      throw new SmsError(recipient?.status || body?.SMSMessageData?.Message || `SMS request failed (${res.status})`, body);
+    }
+  }
+}
+
+let provider: SmsProvider | null = null;
+
+export function smsProviderFromEnv(): SmsProvider {
+  if (provider) return provider;
+  const name = Deno.env.get("SMS_PROVIDER");
+  if (!name) throw new SmsError("Missing SMS_PROVIDER environment variable");
+  if (name === "console") {
+    // Only where codes in the logs are acceptable, i.e. local development
+    if (Deno.env.get("SMS_ALLOW_CONSOLE") !== "true") throw new SmsError("SMS_PROVIDER=console needs SMS_ALLOW_CONSOLE=true");
+    provider = new ConsoleSmsProvider();
+  } else if (name === "africastalking") {
+    const username = Deno.env.get("AT_USERNAME");
+    const apiKey = Deno.env.get("AT_API_KEY");
+    if (!username || !apiKey) throw new SmsError("Missing AT_USERNAME or AT_API_KEY environment variable");
+    provider = new AfricasTalkingSmsProvider({
+      username,
+      apiKey,
+      senderId: Deno.env.get("AT_SENDER_ID") || undefined,
+      baseUrl: username === "sandbox" ? "https://api.sandbox.africastalking.com" : "https://api.africastalking.com",
+    });
+  } else {
+    throw new SmsError(`Unknown SMS_PROVIDER "${name}"`);
+  }
+  return provider;
+}
@@ -0,0 +1,232 @@
+// Catalogue sync from sellers' social accounts. Each platform has an adapter
+// that turns one of its export files into listings for the product import
+// pipeline. Exports are files the seller downloads (or a feed URL the
+// platform keeps up to date), so syncing works without any platform API keys.
+// No Deno or browser APIs here: the web app and its tests import this file too.
+import type { ExtractionInput } from "./productExtraction.ts";
+
+export type SocialPlatform = "facebook" | "instagram" | "tiktok";
+
+export type ExportFile = { name: string; content: string };
+
+export type SocialListing = {
+  // The platform's id for the listing, unique within the export
+  externalId: string;
+  // Where the listing lives, also set as `input.url`. The fallback is
+  // `<page url>#<id>`, so re-syncs still match it.
+  url: string;
+  input: ExtractionInput;
+};
+
+export interface SocialCatalogAdapter {
+  readonly platform: SocialPlatform;
+  // File extensions the adapter reads, for the upload picker
+  readonly accepts: string[];
+  parse(file: ExportFile, pageUrl: string): SocialListing[];
+}
+
+export class SocialExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SocialExportError";
+  }
+}
+
+// Accepted header names for each catalogue column, compared after
+// lowercasing and turning spaces into underscores
+type CatalogColumns = Record<"id" | "title" | "description" | "price" | "salePrice" | "link" | "image" | "moreImages", string[]>;
+
+// Meta Commerce Manager catalogue export, used by Facebook and Instagram Shops
+const META_CATALOG: CatalogColumns = {
+  id: ["id", "retailer_id", "content_id"],
+  title: ["title", "name"],
+  description: ["description"],
+  price: ["price"],
+  salePrice: ["sale_price"],
+  link: ["link", "url", "website_link"],
+  image: ["image_link", "image_url", "image"],
+  moreImages: ["additional_image_link", "additional_image_links"],
+};
+
+// TikTok Shop Seller Center product export
+const TIKTOK_CATALOG: CatalogColumns = {
+  id: ["product_id", "sku_id", "seller_sku", "id"],
+  title: ["product_name", "title", "name"],
+  description: ["product_description", "description"],
+  price: ["retail_price", "original_price", "price"],
+  salePrice: ["sale_price", "deal_price"],
+  link: ["product_link", "product_url", "link", "url"],
+  image: ["main_image", "main_image_url", "image_url", "image"],
+  moreImages: ["images", "image_urls", "additional_images"],
+};
+
+const MAX_LISTINGS = 500;
+
+export class FacebookCatalogAdapter implements SocialCatalogAdapter {
+  readonly platform = "facebook";
+  readonly accepts = [".csv", ".json"];
+
+  // A catalogue CSV, or Page posts as returned by the Graph API (`{ data: [...] }`)
+  parse(file: ExportFile, pageUrl: string): SocialListing[] {
+    if (isJson(file)) {
+      return jsonItems(file).map((post, i) => postListing(pageUrl, {
+        id: str(post.id) ?? String(i + 1),
+        text: str(post.message),
+        url: str(post.permalink_url),
+        images: [str(post.full_picture)],
+      }));
+    }
+    return catalogListings(parseCsv(file.content), META_CATALOG, pageUrl);
+  }
+}
+
+export class InstagramCatalogAdapter implements SocialCatalogAdapter {
+  readonly platform = "instagram";
+  readonly accepts = [".csv", ".json"];
+
+  // A catalogue CSV, or media as returned by the Graph API, carousels included
+  parse(file: ExportFile, pageUrl: string): SocialListing[] {
+    if (isJson(file)) {
+      return jsonItems(file).map((media, i) => {
+        const children = (media.children as { data?: Record<string, unknown>[] } | undefined)?.data ?? [];
+        return postListing(pageUrl, {
+          id: str(media.id) ?? String(i + 1),
+          text: str(media.caption),
+          url: str(media.permalink),
+          images: [media, ...children].map(m => (m.media_type === "VIDEO" ? str(m.thumbnail_url) : str(m.media_url))),
+        });
+      });
+    }
+    return catalogListings(parseCsv(file.content), META_CATALOG, pageUrl);
+  }
+}
+
+export class TikTokShopAdapter implements SocialCatalogAdapter {
+  readonly platform = "tiktok";
+  readonly accepts = [".csv"];
+
+  parse(file: ExportFile, pageUrl: string): SocialListing[] {
+    if (isJson(file)) throw new SocialExportError("Export your TikTok Shop products as CSV from Seller Center");
+    return catalogListings(parseCsv(file.content), TIKTOK_CATALOG, pageUrl);
+  }
+}
+
+export const SOCIAL_ADAPTERS: Record<SocialPlatform, SocialCatalogAdapter> = {
+  facebook: new FacebookCatalogAdapter(),
+  instagram: new InstagramCatalogAdapter(),
+  tiktok: new TikTokShopAdapter(),
+};
+
+export function socialAdapter(platform: string): SocialCatalogAdapter {
+  const adapter = SOCIAL_ADAPTERS[platform as SocialPlatform];
+  if (!adapter) throw new SocialExportError(`No sync for "${platform}" accounts yet`);
+  return adapter;
+}
+
+function catalogListings(rows: Record<string, string>[], columns: CatalogColumns, pageUrl: string): SocialListing[] {
+  if (rows.length && !columns.title.some(c => c in rows[0])) {
+    throw new SocialExportError(`This file has no ${columns.title[0]} column. Upload the product export, not another report`);
+  }
+  return limit(rows).flatMap((row, i) => {
+    const get = (key: keyof CatalogColumns) => columns[key].map(c => row[c]?.trim()).find(Boolean) ?? null;
+    const name = get("title");
+    if (!name) return [];
+    const id = get("id") ?? String(i + 1);
+    // A sale price is what the shopper pays
+    const price = parseAmount(get("salePrice")) ?? parseAmount(get("price"));
+    const images = [get("image"), ...(get("moreImages") ?? "").split(/[,;|]\s*/)].filter((u): u is string => !!u && /^https?:\/\//i.test(u));
+    const url = get("link") ?? `${pageUrl}#${id}`;
+    return [{
+      externalId: id,
+      url,
+      input: {
+        sourceType: "export" as const,
+        url,
+        fields: { name, description: get("description") ?? undefined, price: price?.amount, currency: price?.currency ?? undefined, images },
+      },
+    }];
+  });
+}
+
+function postListing(pageUrl: string, post: { id: string; text: string | null; url: string | null; images: (string | null)[] }): SocialListing {
+  const images = post.images.filter((u): u is string => !!u && /^https?:\/\//i.test(u));
+  const url = post.url ?? `${pageUrl}#${post.id}`;
+  return {
+    externalId: post.id,
+    url,
+    input: { sourceType: "post", url, text: post.text ?? "", fields: images.length ? { images } : undefined },
+  };
+}
+
+// "2500.00 KES", "KES 2,500", "2500"
+export function parseAmount(value: string | null): { amount: number; currency: string | null } | null {
+  if (!value) return null;
+  const amount = Number(/\d[\d,]*(?:\.\d+)?/.exec(value)?.[0].replace(/,/g, ""));
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  return { amount, currency: /\b[A-Z]{3}\b/i.exec(value)?.[0].toUpperCase() ?? null };
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, newlines and "" for a quote.
+// Header names are lowercased with spaces as underscores.
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim()));
+  if (!header) throw new SocialExportError("The file is empty");
+  const keys = header.map(h => h.trim().toLowerCase().replace(/\s+/g, "_"));
+  return body.map(cells => Object.fromEntries(keys.map((k, i) => [k, cells[i] ?? ""])));
+}
+
+function jsonItems(file: ExportFile): Record<string, unknown>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(file.content);
+  } catch {
+    throw new SocialExportError(`${file.name} isn't valid JSON`);
+  }
+  const items = Array.isArray(data) ? data : (data as { data?: unknown })?.data;
+  if (!Array.isArray(items)) throw new SocialExportError(`${file.name} has no list of posts`);
+  return limit(items.filter((i): i is Record<string, unknown> => !!i && typeof i === "object"));
+}
+
+function limit<T>(items: T[]): T[] {
+  if (items.length > MAX_LISTINGS) throw new SocialExportError(`Exports can hold up to ${MAX_LISTINGS} listings. Split the file and sync each part`);
+  return items;
+}
+
+const isJson = (file: ExportFile) => /\.json$/i.test(file.name) || /^\s*[[{]/.test(file.content);
+const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : typeof v === "number" ? String(v) : null);
@@ -0,0 +1,49 @@
+// Parser for the Lipa na M-Pesa Online (STK Push) result callback:
+// { Body: { stkCallback: { MerchantRequestID, CheckoutRequestID, ResultCode, ResultDesc, CallbackMetadata? } } }
+// CallbackMetadata is only present when ResultCode is 0.
+
+export type StkResult = {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  amount: number | null;
+  mpesaReceipt: string | null;
+  transactionDate: string | null;
+  phone: string | null;
+};
+
+type CallbackItem = { Name: string; Value?: string | number };
+
+export function parseStkCallback(payload: unknown): StkResult | null {
+  const callback = (payload as { Body?: { stkCallback?: Record<string, unknown> } })?.Body?.stkCallback;
+  if (!callback || typeof callback.CheckoutRequestID !== "string") return null;
+
+  const resultCode = Number(callback.ResultCode);
+  if (!Number.isInteger(resultCode)) return null;
+
+  const items = ((callback.CallbackMetadata as { Item?: CallbackItem[] } | undefined)?.Item) ?? [];
+  const item = (name: string) => items.find(i => i.Name === name)?.Value;
+
+  const amount = item("Amount");
+  const receipt = item("MpesaReceiptNumber");
+  const date = item("TransactionDate");
+  const phone = item("PhoneNumber");
+
+  return {
+    merchantRequestId: String(callback.MerchantRequestID ?? ""),
+    checkoutRequestId: callback.CheckoutRequestID,
+    resultCode,
+    resultDesc: String(callback.ResultDesc ?? ""),
+    amount: amount === undefined ? null : Number(amount),
+    mpesaReceipt: receipt === undefined ? null : String(receipt),
+    transactionDate: date === undefined ? null : formatTransactionDate(String(date)),
+    phone: phone === undefined ? null : String(phone),
+  };
+}
+
+// Daraja sends TransactionDate as a number like 20260306142207 (EAT).
+function formatTransactionDate(value: string) {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}+03:00` : value;
+}
@@ -0,0 +1,22 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Service-role client. Bypasses RLS, so only use it after the caller has been checked.
+export const supabaseAdmin = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } },
+);
+
+// Resolves the signed-in user behind a request, or null for anonymous (anon key) callers.
+export async function getRequestUser(req: Request) {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+export async function hasRole(userId: string, role: "admin" | "agent" | "customer") {
+  const { data, error } = await supabaseAdmin.rpc("has_role", { _user_id: userId, _role: role });
+  return !error && data === true;
+}
@@ -0,0 +1,176 @@
+// Local stand-in for the Safaricom Daraja API, for `supabase functions serve`.
+// Point DARAJA_BASE_URL at http://<host>/functions/v1/daraja-sandbox and the
+// payment functions talk to this instead of Safaricom.
+//
+// The outcome of an STK Push or B2C payment is picked from the last digit of the phone number:
+//   ...1  user cancelled (1032)      ...2  insufficient funds (1)
+//   ...3  no answer / queue timeout  anything else  paid
+// Callbacks are posted to the request's CallBackURL / ResultURL / QueueTimeOutURL
+// after SANDBOX_CALLBACK_DELAY_MS.
+import { corsHeaders, json } from "../_shared/cors.ts";
+
+const CALLBACK_DELAY_MS = Number(Deno.env.get("SANDBOX_CALLBACK_DELAY_MS") || 3000);
+
+type StkRequest = {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  amount: number;
+  phone: string;
+  resultCode: number | null;
+  resultDesc: string;
+};
+
+// In-memory only: state lives as long as the function worker.
+const stkRequests = new Map<string, StkRequest>();
+
+function randomRef(prefix: string, length = 10) {
+  return prefix + crypto.randomUUID().replace(/-/g, "").slice(0, length).toUpperCase();
+}
+
+function outcomeFor(phone: string): Pick<StkRequest, "resultCode" | "resultDesc"> {
+  switch (phone.slice(-1)) {
+    case "1": return { resultCode: 1032, resultDesc: "Request cancelled by user" };
+    case "2": return { resultCode: 1, resultDesc: "The balance is insufficient for the transaction" };
+    case "3": return { resultCode: null, resultDesc: "" };
+    default: return { resultCode: 0, resultDesc: "The service request is processed successfully." };
+  }
+}
+
+function postLater(url: string, payload: unknown) {
+  setTimeout(() => {
+    fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(payload) })
+      .catch(e => console.error("daraja-sandbox: callback to", url, "failed:", e));
+  }, CALLBACK_DELAY_MS);
+}
+
+function handleStkPush(body: Record<string, unknown>) {
+  const phone = String(body.PhoneNumber || "");
+  const amount = Number(body.Amount || 0);
+  if (!/^254[17]\d{8}$/.test(phone)) {
+    return json({ requestId: randomRef(""), errorCode: "400.002.02", errorMessage: "Bad Request - Invalid PhoneNumber" }, 400);
+  }
+
+  const request: StkRequest = {
+    MerchantRequestID: randomRef("MR-"),
+    CheckoutRequestID: randomRef("ws_CO_", 16),
+    amount,
+    phone,
+    ...outcomeFor(phone),
+  };
+  stkRequests.set(request.CheckoutRequestID, request);
+
+  if (request.resultCode !== null) {
+    const callback: Record<string, unknown> = {
+      MerchantRequestID: request.MerchantRequestID,
+      CheckoutRequestID: request.CheckoutRequestID,
+      ResultCode: request.resultCode,
+      ResultDesc: request.resultDesc,
+    };
+    if (request.resultCode === 0) {
+      callback.CallbackMetadata = {
+        Item: [
+          { Name: "Amount", Value: amount },
+          { Name: "MpesaReceiptNumber", Value: randomRef("S", 9) },
+          { Name: "TransactionDate", Value: Number(new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14)) },
+          { Name: "PhoneNumber", Value: Number(phone) },
+        ],
+      };
+    }
+    postLater(String(body.CallBackURL), { Body: { stkCallback: callback } });
+  }
+
+  return json({
+    MerchantRequestID: request.MerchantRequestID,
+    CheckoutRequestID: request.CheckoutRequestID,
+    ResponseCode: "0",
+    ResponseDescription: "Success. Request accepted for processing",
+    CustomerMessage: "Success. Request accepted for processing",
+  });
+}
+
+function handleStkQuery(body: Record<string, unknown>) {
+  const request = stkRequests.get(String(body.CheckoutRequestID));
+  if (!request) {
+    return json({ requestId: randomRef(""), errorCode: "400.002.02", errorMessage: "Bad Request - Invalid CheckoutRequestID" }, 400);
+  }
+  if (request.resultCode === null) {
+    return json({ requestId: randomRef(""), errorCode: "500.001.1001", errorMessage: "The transaction is being processed" }, 500);
+  }
+  return json({
+    ResponseCode: "0",
+    ResponseDescription: "The service request has been accepted successsfully",
+    MerchantRequestID: request.MerchantRequestID,
+    CheckoutRequestID: request.CheckoutRequestID,
+    ResultCode: String(request.resultCode),
+    ResultDesc: request.resultDesc,
+  });
+}
+
+function handleB2C(body: Record<string, unknown>) {
+  const phone = String(body.PartyB || "");
+  const amount = Number(body.Amount || 0);
+  if (!/^254[17]\d{8}$/.test(phone)) {
+    return json({ requestId: randomRef(""), errorCode: "400.002.02", errorMessage: "Bad Request - Invalid PartyB" }, 400);
+  }
+
+  const originatorConversationId = String(body.OriginatorConversationID || randomRef("", 20));
+  const conversationId = randomRef("AG_", 20);
+  const outcome = outcomeFor(phone);
+
+  if (outcome.resultCode === null) {
+    postLater(String(body.QueueTimeOutURL), {
+      Result: { OriginatorConversationID: originatorConversationId, ConversationID: conversationId, ResultDesc: "The request timed out" },
+    });
+  } else {
+    const transactionId = randomRef("S", 9);
+    postLater(String(body.ResultURL), {
+      Result: {
+        ResultType: 0,
+        ResultCode: outcome.resultCode,
+        ResultDesc: outcome.resultDesc,
+        OriginatorConversationID: originatorConversationId,
+        ConversationID: conversationId,
+        TransactionID: transactionId,
+        ResultParameters: outcome.resultCode === 0
+          ? {
+              ResultParameter: [
+                { Key: "TransactionAmount", Value: amount },
+                { Key: "TransactionReceipt", Value: transactionId },
+                { Key: "ReceiverPartyPublicName", Value: `${phone} - Sandbox Agent` },
+                { Key: "B2CRecipientIsRegisteredCustomer", Value: "Y" },
+              ],
+            }
+          : undefined,
+      },
+    });
+  }
+
+  return json({
+    ConversationID: conversationId,
+    OriginatorConversationID: originatorConversationId,
+    ResponseCode: "0",
+    ResponseDescription: "Accept the service request successfully.",
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  const path = new URL(req.url).pathname.replace(/^.*\/daraja-sandbox/, "");
+
+  if (path === "/oauth/v1/generate") {
+    return json({ access_token: randomRef("sandbox", 24), expires_in: "3599" });
+  }
+
+  if (!req.headers.get("Authorization")?.startsWith("Bearer ")) {
+    return json({ errorCode: "404.001.04", errorMessage: "Invalid Authentication Header" }, 401);
+  }
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+
+  switch (path) {
+    case "/mpesa/stkpush/v1/processrequest": return handleStkPush(body);
+    case "/mpesa/stkpushquery/v1/query": return handleStkQuery(body);
+    case "/mpesa/b2c/v3/paymentrequest": return handleB2C(body);
+    default: return json({ errorCode: "404.001.01", errorMessage: `Unknown sandbox route ${path}` }, 404);
+  }
+});
@@ -0,0 +1,37 @@
+// Imports a product from a page link ({ url }) or a pasted social post
+// ({ text }) and saves it as a draft for review. Admins and agents only;
+// an agent's imports are listed under their storefront once approved.
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { getRequestUser, hasRole } from "../_shared/supabaseAdmin.ts";
+import { draftOwner, fetchProductPage, importProductDraft } from "../_shared/productImport.ts";
+import { ExtractionError, type ExtractionInput } from "../_shared/productExtraction.ts";
+
+type ImportRequest = { url: string } | { text: string };
+
+const MAX_POST_CHARS = 5000;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const user = await getRequestUser(req);
+  if (!user) return json({ error: "Sign in to import products" }, 401);
+  const isAdmin = await hasRole(user.id, "admin");
+  if (!isAdmin && !(await hasRole(user.id, "agent"))) return json({ error: "Only agents and admins can import products" }, 403);
+
+  const body = (await req.json().catch(() => null)) as ImportRequest | null;
+  const url = body && "url" in body ? String(body.url ?? "").trim() : "";
+  const text = body && "text" in body ? String(body.text ?? "").trim() : "";
+  if (!url && !text) return json({ error: "Paste a product link or the text of a post" }, 400);
+  if (text.length > MAX_POST_CHARS) return json({ error: `Posts can be up to ${MAX_POST_CHARS} characters` }, 400);
+
+  try {
+    const input: ExtractionInput = url ? await fetchProductPage(url) : { sourceType: "post", text };
+    const owner = isAdmin ? { userId: user.id, storeId: null } : await draftOwner(user.id);
+    return json(await importProductDraft(input, owner));
+  } catch (e) {
+    if (e instanceof ExtractionError) return json({ error: e.message }, 422);
+    console.error("import-product failed", e);
+    return json({ error: e instanceof Error ? e.message : "Import failed" }, 500);
+  }
+});
@@ -0,0 +1,56 @@
+// Receives Daraja's B2C ResultURL (…/result) and QueueTimeOutURL (…/timeout)
+// callbacks and settles the matching payout. Settlement is idempotent by
+// OriginatorConversationID, so Safaricom's retries are harmless.
+import { json } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { parseB2CResult, parseB2CTimeout } from "../_shared/b2cCallback.ts";
+
+// Daraja doesn't sign callbacks, so the callback URL carries a shared secret
+// as ?secret=…. Without it anyone could fail a payout whose money has left.
+const CALLBACK_SECRET = Deno.env.get("MPESA_CALLBACK_SECRET");
+if (!CALLBACK_SECRET) throw new Error("Missing MPESA_CALLBACK_SECRET environment variable");
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ ResultCode: 1, ResultDesc: "Method not allowed" }, 405);
+  const url = new URL(req.url);
+  if (url.searchParams.get("secret") !== CALLBACK_SECRET) {
+    return json({ ResultCode: 1, ResultDesc: "Unauthorized" }, 401);
+  }
+
+  const payload = await req.json().catch(() => null);
+  let settlement: Record<string, unknown>;
+
+  if (url.pathname.endsWith("/timeout")) {
+    const timeout = parseB2CTimeout(payload);
+    if (!timeout) return json({ ResultCode: 1, ResultDesc: "Invalid timeout payload" }, 400);
+    settlement = {
+      _originator_conversation_id: timeout.originatorConversationId,
+      _result_code: null,
+      _result_desc: "Request timed out at M-Pesa",
+      _metadata: { source: "timeout_callback" },
+    };
+  } else {
+    const result = parseB2CResult(payload);
+    if (!result) {
+      console.error("mpesa-b2c-callback: unrecognised payload", JSON.stringify(payload));
+      return json({ ResultCode: 1, ResultDesc: "Invalid result payload" }, 400);
+    }
+    settlement = {
+      _originator_conversation_id: result.originatorConversationId,
+      _result_code: result.resultCode,
+      _result_desc: result.resultDesc,
+      _mpesa_ref: result.transactionId,
+      _metadata: { source: "result_callback", conversation_id: result.conversationId, parameters: result.parameters },
+    };
+  }
+
+  const { error } = await supabaseAdmin.rpc("settle_b2c_payout", settlement);
+  if (error) {
+    console.error("mpesa-b2c-callback: settlement failed for", settlement._originator_conversation_id, error.message);
+    // Unknown payouts will never succeed, so don't ask Safaricom to retry them
+    if (error.code === "P0002") return json({ ResultCode: 0, ResultDesc: "Ignored" });
+    return json({ ResultCode: 1, ResultDesc: "Settlement failed" }, 500);
+  }
+
+  return json({ ResultCode: 0, ResultDesc: "Accepted" });
+});
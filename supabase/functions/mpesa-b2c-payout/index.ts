@@ -0,0 +1,127 @@
+// Admin-only: disburses an agent's earnings to their M-Pesa via Daraja B2C.
+// Either approves an agent's queued request ({ payout_id }) or starts a new
+// payout ({ agent_id, amount }). The payout is moved to `processing` once
+// Safaricom accepts the request; `mpesa-b2c-callback` does the rest.
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { supabaseAdmin, getRequestUser, hasRole } from "../_shared/supabaseAdmin.ts";
+import { b2cConfigFromEnv, b2cPayment, DarajaError } from "../_shared/daraja.ts";
+import { toDarajaMsisdn } from "../_shared/phone.ts";
+
+type PayoutRequest = { payout_id: string } | { agent_id: string; amount: number };
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const user = await getRequestUser(req);
+  if (!user || !(await hasRole(user.id, "admin"))) return json({ error: "Only admins can send payouts" }, 403);
+
+  const body = (await req.json().catch(() => null)) as PayoutRequest | null;
+  if (!body) return json({ error: "Invalid request" }, 400);
+
+  let queued: { id: string; agent_id: string; amount: number } | null = null;
+  if ("payout_id" in body) {
+    const { data, error } = await supabaseAdmin
+      .from("payouts")
+      .select("id, agent_id, amount")
+      .eq("id", body.payout_id)
+      .eq("status", "pending")
+      .is("approved_by", null)
+      .maybeSingle();
+    if (error) return json({ error: error.message }, 500);
+    if (!data) return json({ error: "This request has already been handled" }, 409);
+    queued = data;
+  }
+
+  const agentId = queued ? queued.agent_id : (body as { agent_id: string }).agent_id;
+  // B2C only moves whole shillings
+  const amount = Math.floor(Number(queued ? queued.amount : (body as { amount: number }).amount));
+  if (!agentId || !Number.isFinite(amount) || amount < 10) {
+    return json({ error: "Payouts must be at least KSh 10" }, 400);
+  }
+
+  const { data: agent, error: agentError } = await supabaseAdmin
+    .from("agents")
+    .select("id, mpesa_phone, status")
+    .eq("id", agentId)
+    .maybeSingle();
+  if (agentError) return json({ error: agentError.message }, 500);
+  if (!agent) return json({ error: "Agent not found" }, 404);
+  if (agent.status !== "active") return json({ error: "Agent is not active" }, 409);
+
+  // Only the agent's available balance can be paid; commission in its hold period can't
+  const { data: withdrawable, error: withdrawableError } = await supabaseAdmin.rpc("agent_withdrawable_earnings", { _agent_id: agent.id });
+  if (withdrawableError) return json({ error: withdrawableError.message }, 500);
+  if (amount > Number(withdrawable)) {
+    return json({ error: `Only KSh ${Math.floor(Number(withdrawable)).toLocaleString()} of this agent's earnings is available` }, 409);
+  }
+
+  const msisdn = toDarajaMsisdn(agent.mpesa_phone);
+  if (!msisdn) return json({ error: "Agent has no valid M-Pesa number" }, 409);
+
+  let openPayouts = supabaseAdmin
+    .from("payouts")
+    .select("id", { count: "exact", head: true })
+    .eq("agent_id", agent.id)
+    .in("status", ["pending", "processing"]);
+  if (queued) openPayouts = openPayouts.neq("id", queued.id);
+  const { count: openCount } = await openPayouts;
+  if (openCount) return json({ error: "This agent already has a payout in progress" }, 409);
+
+  // The row carries the whole-shilling amount we send, so the ledger debit matches it
+  const claim = { amount, phone: msisdn, approved_by: user.id };
+  const { data: payout, error: payoutError } = queued
+    ? await supabaseAdmin
+        .from("payouts")
+        .update(claim)
+        .eq("id", queued.id)
+        .is("approved_by", null)
+        .select("*")
+        .maybeSingle()
+    : await supabaseAdmin
+        .from("payouts")
+        .insert({ ...claim, agent_id: agent.id })
+        .select("*")
+        .single();
+  if (payoutError) return json({ error: payoutError.message }, 500);
+  // Another admin approved the same request a moment earlier
+  if (!payout) return json({ error: "This request has already been handled" }, 409);
+
+  // Kept out of `payouts`, which agents can read: the callback settles by this id
+  const originatorConversationId = crypto.randomUUID();
+  const { error: disbursementError } = await supabaseAdmin
+    .from("payout_disbursements")
+    .insert({ payout_id: payout.id, originator_conversation_id: originatorConversationId });
+  if (disbursementError) return json({ error: disbursementError.message }, 500);
+
+  try {
+    const res = await b2cPayment(b2cConfigFromEnv(), {
+      originatorConversationId,
+      phone: msisdn,
+      amount,
+      remarks: `PayLoom payout ${payout.payout_ref}`,
+      occasion: payout.payout_ref,
+    });
+    await supabaseAdmin
+      .from("payout_disbursements")
+      .update({ conversation_id: res.ConversationID })
+      .eq("payout_id", payout.id);
+    const { data: processing } = await supabaseAdmin
+      .from("payouts")
+      .update({ status: "processing" })
+      .eq("id", payout.id)
+      .eq("status", "pending")
+      .select("*")
+      .maybeSingle();
+    return json(processing ?? payout);
+  } catch (e) {
+    const reason = e instanceof DarajaError ? e.message : "Could not reach M-Pesa";
+    const { data: failed } = await supabaseAdmin
+      .from("payouts")
+      .update({ status: "failed", failure_reason: reason })
+      .eq("id", payout.id)
+      .select("*")
+      .single();
+    return json({ error: reason, payout: failed }, 502);
+  }
+});
@@ -0,0 +1,49 @@
+// Receives Daraja's STK Push result callback and settles the matching order.
+// Safaricom retries callbacks it doesn't get a 200 for, and settlement is
+// idempotent by CheckoutRequestID, so replays are acknowledged without effect.
+import { json } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { parseStkCallback } from "../_shared/stkCallback.ts";
+
+// Daraja doesn't sign callbacks, so the callback URL carries a shared secret
+// as ?secret=…. The endpoint is public: without the secret anyone who knows a
+// CheckoutRequestID could mark its order paid.
+const CALLBACK_SECRET = Deno.env.get("MPESA_CALLBACK_SECRET");
+if (!CALLBACK_SECRET) throw new Error("Missing MPESA_CALLBACK_SECRET environment variable");
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ ResultCode: 1, ResultDesc: "Method not allowed" }, 405);
+  if (new URL(req.url).searchParams.get("secret") !== CALLBACK_SECRET) {
+    return json({ ResultCode: 1, ResultDesc: "Unauthorized" }, 401);
+  }
+
+  const payload = await req.json().catch(() => null);
+  const result = parseStkCallback(payload);
+  if (!result) {
+    console.error("mpesa-callback: unrecognised payload", JSON.stringify(payload));
+    return json({ ResultCode: 1, ResultDesc: "Invalid callback payload" }, 400);
+  }
+
+  const { error } = await supabaseAdmin.rpc("settle_stk_payment", {
+    _checkout_request_id: result.checkoutRequestId,
+    _result_code: result.resultCode,
+    _result_desc: result.resultDesc,
+    _mpesa_receipt: result.mpesaReceipt,
+    _metadata: {
+      amount_paid: result.amount,
+      phone: result.phone,
+      transaction_date: result.transactionDate,
+      source: "callback",
+    },
+  });
+  if (error) {
+    console.error("mpesa-callback: settlement failed for", result.checkoutRequestId, error.message);
+    // Unknown checkouts will never succeed, so don't ask Safaricom to retry them
+    if (error.code === "P0002") return json({ ResultCode: 0, ResultDesc: "Ignored" });
+    // Neither will a payment for the wrong amount
+    if (error.code === "22000") return json({ ResultCode: 0, ResultDesc: "Rejected" });
+    return json({ ResultCode: 1, ResultDesc: "Settlement failed" }, 500);
+  }
+
+  return json({ ResultCode: 0, ResultDesc: "Accepted" });
+});
@@ -0,0 +1,64 @@
+// Reports the payment state of an STK Push checkout. Shoppers are usually
+// anonymous and cannot read `orders` through RLS, so the checkout screen polls
+// this function. Once the push is older than STK_TIMEOUT_SECONDS we ask Daraja
+// directly, and give up if it still has no answer.
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { darajaConfigFromEnv, stkQuery } from "../_shared/daraja.ts";
+
+const STK_TIMEOUT_SECONDS = Number(Deno.env.get("STK_TIMEOUT_SECONDS") || 120);
+// Daraja keeps an unanswered push open for a while after the phone prompt expires.
+const STK_GIVE_UP_SECONDS = STK_TIMEOUT_SECONDS * 2;
+
+const ORDER_FIELDS = "id, order_number, status, payment_status, payment_failure_reason, mpesa_ref, total_amount, payment_requested_at, access_token";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  const { checkout_request_id } = (await req.json().catch(() => ({}))) as { checkout_request_id?: string };
+  if (!checkout_request_id) return json({ error: "checkout_request_id is required" }, 400);
+
+  const { data: order, error } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_FIELDS)
+    .eq("checkout_request_id", checkout_request_id)
+    .maybeSingle();
+  if (error) return json({ error: error.message }, 500);
+  if (!order) return json({ error: "Checkout not found" }, 404);
+
+  if (order.payment_status !== "awaiting_payment") return json(order);
+
+  const ageSeconds = (Date.now() - new Date(order.payment_requested_at).getTime()) / 1000;
+  if (ageSeconds < STK_TIMEOUT_SECONDS) return json(order);
+
+  const result = await stkQuery(darajaConfigFromEnv(), checkout_request_id).catch(() => null);
+  if (result?.ResultCode) {
+    // The callback never arrived; settle from the query result instead
+    const { error: settleError } = await supabaseAdmin.rpc("settle_stk_payment", {
+      _checkout_request_id: checkout_request_id,
+      _result_code: Number(result.ResultCode),
+      _result_desc: result.ResultDesc,
+      _metadata: { source: "stk_query" },
+    });
+    if (settleError) return json({ error: settleError.message }, 500);
+  } else if (ageSeconds >= STK_GIVE_UP_SECONDS) {
+    // A success callback can still turn up after this; settle_stk_payment then
+    // marks the order paid and flags it for an admin to review
+    const { error: updateError } = await supabaseAdmin
+      .from("orders")
+      .update({ payment_status: "timed_out", status: "cancelled", payment_failure_reason: "No response from M-Pesa" })
+      .eq("id", order.id)
+      .eq("payment_status", "awaiting_payment");
+    if (updateError) return json({ error: updateError.message }, 500);
+  } else {
+    return json(order);
+  }
+
+  const { data: settled, error: reloadError } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_FIELDS)
+    .eq("id", order.id)
+    .single();
+  if (reloadError) return json({ error: reloadError.message }, 500);
+  return json(settled);
+});
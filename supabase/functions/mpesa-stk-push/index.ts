@@ -0,0 +1,86 @@
+// Creates a pending order from the shopper's cart and sends an M-Pesa STK Push
+// to their phone. The checkout screen then polls `mpesa-payment-status` with
+// the returned CheckoutRequestID.
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { supabaseAdmin, getRequestUser } from "../_shared/supabaseAdmin.ts";
+import { darajaConfigFromEnv, stkPush, DarajaError } from "../_shared/daraja.ts";
+import { carrierOf, toDarajaMsisdn } from "../_shared/phone.ts";
+
+type CheckoutRequest = {
+  items: { product_id: string; quantity: number }[];
+  phone: string;
+  customer_name?: string;
+  // Referring agent from the shopper's `?ref=` link
+  agent_id?: string;
+  // Storefront the order was placed in; its owner gets the credit
+  store_id?: string;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const body = (await req.json().catch(() => null)) as CheckoutRequest | null;
+  if (!body || !Array.isArray(body.items) || body.items.length === 0) {
+    return json({ error: "Your cart is empty" }, 400);
+  }
+  if (body.items.some(i => !i.product_id || !Number.isInteger(i.quantity) || i.quantity < 1)) {
+    return json({ error: "Invalid cart item" }, 400);
+  }
+
+  const msisdn = toDarajaMsisdn(body.phone);
+  if (!msisdn) {
+    const error = carrierOf(body.phone) === "airtel"
+      ? "M-Pesa needs a Safaricom number. Airtel numbers can't use M-Pesa"
+      : "Enter a valid Safaricom number, e.g. 0712 345 678";
+    return json({ error }, 400);
+  }
+
+  const user = await getRequestUser(req);
+
+  // Prices, commission and the stock reservation are all settled in one transaction
+  const { data: order, error: orderError } = await supabaseAdmin.rpc("create_order", {
+    _items: body.items,
+    _phone: msisdn,
+    _customer_id: user?.id ?? null,
+    _customer_name: body.customer_name || user?.user_metadata?.full_name || null,
+    _agent_id: body.agent_id ?? null,
+    _store_id: body.store_id ?? null,
+  });
+  if (orderError) return json({ error: orderError.message }, 409);
+  const total = Number(order.total_amount);
+
+  try {
+    const push = await stkPush(darajaConfigFromEnv(), {
+      phone: msisdn,
+      amount: total,
+      accountReference: order.order_number,
+      description: "PayLoom order",
+    });
+
+    await supabaseAdmin
+      .from("orders")
+      .update({
+        payment_status: "awaiting_payment",
+        merchant_request_id: push.MerchantRequestID,
+        checkout_request_id: push.CheckoutRequestID,
+        payment_requested_at: new Date().toISOString(),
+      })
+      .eq("id", order.id);
+
+    return json({
+      order_id: order.id,
+      order_number: order.order_number,
+      access_token: order.access_token,
+      checkout_request_id: push.CheckoutRequestID,
+      customer_message: push.CustomerMessage,
+    });
+  } catch (e) {
+    const reason = e instanceof DarajaError ? e.message : "Could not reach M-Pesa";
+    await supabaseAdmin
+      .from("orders")
+      .update({ payment_status: "failed", payment_failure_reason: reason })
+      .eq("id", order.id);
+    return json({ error: reason, order_number: order.order_number }, 502);
+  }
+});
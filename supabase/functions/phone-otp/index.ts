@@ -0,0 +1,122 @@
+// Phone sign-in and phone verification with SMS one-time codes.
+//   { action: "send", phone, purpose }            texts a code (throttled per number)
+//   { action: "verify", phone, purpose, code }    checks it
+// A verified `login` code returns a magic-link token hash; the browser swaps it
+// for a session with supabase.auth.verifyOtp. A verified `verify` code confirms
+// the number on the signed-in user's account.
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { supabaseAdmin, getRequestUser } from "../_shared/supabaseAdmin.ts";
+import { maskPhone, toMsisdn } from "../_shared/phone.ts";
+import { generateOtp, hashOtp, otpMessage, OTP_LENGTH, type OtpPurpose } from "../_shared/otp.ts";
+import { smsProviderFromEnv, SmsError } from "../_shared/sms.ts";
+
+type OtpRequest = {
+  action: "send" | "verify";
+  phone: string;
+  purpose: OtpPurpose;
+  code?: string;
+  // Used for the profile when a login creates a new account
+  full_name?: string;
+};
+
+const CHECK_ERRORS: Record<string, [string, number]> = {
+  expired: ["This code has expired. Request a new one.", 410],
+  invalid: ["That code is not right. Check the SMS and try again.", 401],
+  locked: ["Too many wrong codes. Request a new one.", 429],
+};
+
+// Accounts created by phone sign-in get a placeholder address so magic links can be issued
+const phoneEmail = (msisdn: string) => `${msisdn}@${Deno.env.get("PHONE_LOGIN_EMAIL_DOMAIN") ?? "phone.payloom.local"}`;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const body = (await req.json().catch(() => null)) as OtpRequest | null;
+  if (!body || !["send", "verify"].includes(body.action) || !["login", "verify"].includes(body.purpose)) {
+    return json({ error: "Invalid request" }, 400);
+  }
+
+  const msisdn = toMsisdn(body.phone);
+  if (!msisdn) return json({ error: "Enter a valid Safaricom or Airtel number, e.g. 0712 345 678" }, 400);
+
+  const user = await getRequestUser(req);
+  if (body.purpose === "verify" && !user) return json({ error: "Sign in to verify your phone" }, 401);
+  const ownerId = body.purpose === "verify" ? user!.id : null;
+
+  if (body.action === "send") {
+    const code = generateOtp();
+    const { data: issued, error } = await supabaseAdmin.rpc("issue_otp", {
+      _phone: msisdn,
+      _purpose: body.purpose,
+      _code_hash: await hashOtp(msisdn, body.purpose, code),
+      _user_id: ownerId,
+    });
+    if (error) return json({ error: error.message }, 500);
+    if (issued.retry_in) {
+      return json({ error: `Wait ${issued.retry_in} seconds before requesting another code`, retry_in: issued.retry_in }, 429);
+    }
+
+    try {
+      await smsProviderFromEnv().send(msisdn, otpMessage(code, body.purpose));
+    } catch (e) {
+      console.error("phone-otp: SMS failed", e);
+      return json({ error: e instanceof SmsError ? `Could not send the SMS: ${e.message}` : "Could not send the SMS" }, 502);
+    }
+    return json({ sent_to: maskPhone(msisdn), expires_in: issued.expires_in, resend_in: issued.resend_in });
+  }
+
+  if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(body.code || "")) {
+    return json({ error: `Enter the ${OTP_LENGTH}-digit code from the SMS` }, 400);
+  }
+  const { data: result, error: checkError } = await supabaseAdmin.rpc("check_otp", {
+    _phone: msisdn,
+    _purpose: body.purpose,
+    _code_hash: await hashOtp(msisdn, body.purpose, body.code!),
+    _user_id: ownerId,
+  });
+  if (checkError) return json({ error: checkError.message }, 500);
+  if (result !== "ok") {
+    const [message, status] = CHECK_ERRORS[result] ?? ["Could not check the code", 500];
+    return json({ error: message }, status);
+  }
+
+  const { data: existingId, error: lookupError } = await supabaseAdmin.rpc("user_id_for_phone", { _phone: msisdn });
+  if (lookupError) return json({ error: lookupError.message }, 500);
+
+  if (body.purpose === "verify") {
+    if (existingId && existingId !== user!.id) return json({ error: "This number is already verified on another account" }, 409);
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(user!.id, { phone: msisdn, phone_confirm: true });
+    if (updateError) return json({ error: updateError.message }, 500);
+    const verifiedAt = new Date().toISOString();
+    await supabaseAdmin.from("profiles").update({ phone: msisdn, phone_verified_at: verifiedAt }).eq("user_id", user!.id);
+    return json({ phone: msisdn, verified_at: verifiedAt });
+  }
+
+  // Sign in the account that owns this number, creating one on first use
+  let email: string;
+  if (existingId) {
+    const { data: existing, error } = await supabaseAdmin.auth.admin.getUserById(existingId);
+    if (error) return json({ error: error.message }, 500);
+    email = existing.user.email || phoneEmail(msisdn);
+    if (!existing.user.email) {
+      const { error: emailError } = await supabaseAdmin.auth.admin.updateUserById(existingId, { email, email_confirm: true });
+      if (emailError) return json({ error: emailError.message }, 500);
+    }
+  } else {
+    email = phoneEmail(msisdn);
+    const { data: created, error } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      email_confirm: true,
+      phone: msisdn,
+      phone_confirm: true,
+      user_metadata: { full_name: body.full_name?.trim() || "PayLoom Customer" },
+    });
+    if (error) return json({ error: error.message }, 500);
+    await supabaseAdmin.from("profiles").update({ phone_verified_at: new Date().toISOString() }).eq("user_id", created.user.id);
+  }
+
+  const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({ type: "magiclink", email });
+  if (linkError) return json({ error: linkError.message }, 500);
+  return json({ token_hash: link.properties.hashed_token });
+});
@@ -0,0 +1,142 @@
+// Pulls listings from a seller's Facebook, Instagram or TikTok export into
+// the product import pipeline. Listings whose source link is already on a
+// product are skipped, so syncing the same export twice adds nothing.
+//   { account_id, file?: { name, content } }   the owner (or an admin) syncs now,
+//                                              from the uploaded file or the feed URL
+//   { scheduled: true } + x-sync-secret        pg_cron: every auto-sync account that is due
+import { corsHeaders, json } from "../_shared/cors.ts";
+import { supabaseAdmin, getRequestUser, hasRole } from "../_shared/supabaseAdmin.ts";
+import { draftOwner, importedSourceUrls, importProductDraft } from "../_shared/productImport.ts";
+import { canonicalSourceUrl } from "../_shared/productExtraction.ts";
+import { socialAdapter, SocialExportError, type ExportFile } from "../_shared/socialAdapters.ts";
+import { readCapped, safeFetch, SafeFetchError } from "../_shared/safeFetch.ts";
+
+type SyncRequest = { account_id: string; file?: ExportFile } | { scheduled: true };
+
+type SyncSummary = { found: number; imported: number; duplicates: number; failed: number; errors: string[] };
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+// A run that hasn't finished after this long is taken to have crashed
+const STALE_SYNC_MS = 15 * 60 * 1000;
+const SYNC_INTERVAL_HOURS = Number(Deno.env.get("SOCIAL_SYNC_INTERVAL_HOURS") ?? 24);
+const MAX_ERRORS = 10;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const body = (await req.json().catch(() => null)) as SyncRequest | null;
+  if (!body) return json({ error: "Invalid request" }, 400);
+
+  if ("scheduled" in body) {
+    const secret = Deno.env.get("SOCIAL_SYNC_SECRET");
+    if (!secret || req.headers.get("x-sync-secret") !== secret) return json({ error: "Not allowed" }, 403);
+    return json(await syncDueAccounts());
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) return json({ error: "Sign in to sync your accounts" }, 401);
+  if (body.file && body.file.content.length > MAX_FILE_BYTES) return json({ error: "Export files can be up to 5 MB" }, 413);
+
+  const { data: account, error } = await supabaseAdmin.from("social_accounts").select("*").eq("id", body.account_id).maybeSingle();
+  if (error) return json({ error: error.message }, 500);
+  if (!account || (account.user_id !== user.id && !(await hasRole(user.id, "admin")))) return json({ error: "Account not found" }, 404);
+  if (!body.file && !account.feed_url) return json({ error: "Upload an export file, or add a feed URL to this account" }, 400);
+
+  try {
+    return json(await syncAccount(account, body.file));
+  } catch (e) {
+    if (e instanceof SocialExportError) return json({ error: e.message }, 422);
+    console.error("social-sync failed", e);
+    return json({ error: e instanceof Error ? e.message : "Sync failed" }, 500);
+  }
+});
+
+type SocialAccount = { id: string; user_id: string; platform: string; page_url: string; feed_url: string | null };
+
+async function syncDueAccounts() {
+  const due = new Date(Date.now() - SYNC_INTERVAL_HOURS * 3600 * 1000).toISOString();
+  const { data: accounts, error } = await supabaseAdmin
+    .from("social_accounts")
+    .select("*")
+    .eq("auto_sync", true)
+    .not("feed_url", "is", null)
+    .or(`last_synced_at.is.null,last_synced_at.lt.${due}`);
+  if (error) throw new Error(error.message);
+
+  const results: { account_id: string; summary?: SyncSummary; error?: string }[] = [];
+  // One at a time: each run already fans out into many inserts
+  for (const account of accounts ?? []) {
+    try {
+      results.push({ account_id: account.id, summary: await syncAccount(account) });
+    } catch (e) {
+      results.push({ account_id: account.id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return { synced: results };
+}
+
+async function syncAccount(account: SocialAccount, file?: ExportFile): Promise<SyncSummary> {
+  const staleBefore = new Date(Date.now() - STALE_SYNC_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("social_accounts")
+    .update({ sync_status: "syncing", sync_started_at: new Date().toISOString() })
+    .eq("id", account.id)
+    .or(`sync_status.neq.syncing,sync_started_at.lt.${staleBefore}`)
+    .select("id")
+    .maybeSingle();
+  if (claimError) throw new Error(claimError.message);
+  if (!claimed) throw new SocialExportError("This account is already syncing. Try again in a few minutes");
+
+  try {
+    const exportFile = file ?? (await fetchExport(account.feed_url!));
+    const listings = socialAdapter(account.platform).parse(exportFile, account.page_url);
+    const seen = await importedSourceUrls(listings.map(l => l.url));
+    const owner = await draftOwner(account.user_id);
+    const summary: SyncSummary = { found: listings.length, imported: 0, duplicates: 0, failed: 0, errors: [] };
+
+    for (const listing of listings) {
+      const key = canonicalSourceUrl(listing.url) ?? listing.url;
+      if (seen.has(key)) {
+        summary.duplicates++;
+        continue;
+      }
+      seen.add(key);
+      try {
+        await importProductDraft(listing.input, owner);
+        summary.imported++;
+      } catch (e) {
+        summary.failed++;
+        if (summary.errors.length < MAX_ERRORS) summary.errors.push(`${listing.externalId}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    // Partly imported still counts as a sync; the errors are kept for the seller
+    const failed = summary.failed > 0 && summary.imported === 0;
+    await finishSync(account.id, failed ? "failed" : "succeeded", summary.errors[0] ?? null, summary);
+    return summary;
+  } catch (e) {
+    await finishSync(account.id, "failed", e instanceof Error ? e.message : String(e), null);
+    throw e;
+  }
+}
+
+async function finishSync(accountId: string, status: "succeeded" | "failed", error: string | null, summary: SyncSummary | null) {
+  await supabaseAdmin
+    .from("social_accounts")
+    .update({ sync_status: status, last_synced_at: new Date().toISOString(), last_sync_error: error, last_sync_summary: summary })
+    .eq("id", accountId);
+}
+
+async function fetchExport(url: string): Promise<ExportFile> {
+  try {
+    const { res, url: finalUrl } = await safeFetch(url, { timeoutMs: 20_000, httpsOnly: true });
+    if (!res.ok) throw new SocialExportError(`The feed URL answered with an error (${res.status})`);
+    const content = await readCapped(res, MAX_FILE_BYTES);
+    const name = new URL(finalUrl).pathname.split("/").pop() || "feed";
+    return { name, content };
+  } catch (e) {
+    if (e instanceof SafeFetchError) throw new SocialExportError(`Couldn't read the feed URL: ${e.message}`);
+    throw e;
+  }
+}
@@ -0,0 +1,13 @@
+-- M-Pesa STK Push checkout state on orders
+CREATE TYPE public.order_payment_status AS ENUM ('unpaid', 'awaiting_payment', 'paid', 'failed', 'timed_out');
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_status order_payment_status NOT NULL DEFAULT 'unpaid',
+  ADD COLUMN payment_phone TEXT,
+  ADD COLUMN merchant_request_id TEXT,
+  ADD COLUMN checkout_request_id TEXT UNIQUE,
+  ADD COLUMN payment_requested_at TIMESTAMPTZ,
+  ADD COLUMN paid_at TIMESTAMPTZ,
+  ADD COLUMN payment_failure_reason TEXT;
+
+CREATE INDEX idx_orders_payment_status ON public.orders(payment_status);
@@ -0,0 +1,110 @@
+-- One C2B transaction per STK checkout, so a replayed callback can never settle twice
+CREATE UNIQUE INDEX idx_transactions_checkout_request
+  ON public.transactions ((metadata->>'checkout_request_id'))
+  WHERE type = 'C2B';
+
+CREATE INDEX idx_transactions_order ON public.transactions(order_id);
+
+-- Why an order needs an admin to look at it, e.g. a payment that arrived after
+-- checkout timed out. Cleared once an admin moves the order on.
+ALTER TABLE public.orders ADD COLUMN review_reason TEXT;
+
+-- Transaction reference
+CREATE OR REPLACE FUNCTION public.generate_transaction_ref()
+RETURNS TEXT AS $$
+  SELECT 'TX-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10))
+$$ LANGUAGE sql VOLATILE SET search_path = public;
+
+-- Settle an STK Push checkout from Daraja's result (callback or STK query).
+-- Idempotent by CheckoutRequestID: once an order is paid or failed, later calls
+-- return it unchanged. A late success after we gave up (timed_out) still settles,
+-- because the customer's money has moved, but its stock reservation was already
+-- released, so the order is flagged for review instead of going quietly into
+-- processing. A successful callback must report the
+-- amount we pushed (the total rounded up to whole shillings); anything else is
+-- rejected with SQLSTATE 22000 and leaves the order as it was.
+CREATE OR REPLACE FUNCTION public.settle_stk_payment(
+  _checkout_request_id TEXT,
+  _result_code INTEGER,
+  _result_desc TEXT,
+  _mpesa_receipt TEXT DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE checkout_request_id = _checkout_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No order for CheckoutRequestID %', _checkout_request_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _order.payment_status IN ('paid', 'failed') THEN
+    RETURN _order;
+  END IF;
+
+  IF _result_code = 0 AND _metadata->>'source' = 'callback'
+    AND (_metadata->>'amount_paid')::NUMERIC IS DISTINCT FROM CEIL(_order.total_amount) THEN
+    RAISE EXCEPTION 'Order % expects KSh % but the callback reported %', _order.order_number, CEIL(_order.total_amount), COALESCE(_metadata->>'amount_paid', 'no amount')
+      USING ERRCODE = 'data_exception';
+  END IF;
+
+  IF _result_code = 0 AND _order.payment_status = 'timed_out' THEN
+    -- The shopper was told the payment timed out and the stock went back on
+    -- sale. Paying still takes the stock, even into negative, so an admin has
+    -- to check it is really there and let the shopper know the order stands.
+    UPDATE public.orders
+      SET payment_status = 'paid', status = 'processing', mpesa_ref = _mpesa_receipt,
+          paid_at = now(), payment_failure_reason = NULL,
+          review_reason = 'Paid after checkout timed out. Check the items are in stock and tell the customer the order went through.'
+      WHERE id = _order.id
+      RETURNING * INTO _order;
+  ELSIF _result_code = 0 THEN
+    UPDATE public.orders
+      SET payment_status = 'paid', status = 'processing', mpesa_ref = _mpesa_receipt,
+          paid_at = now(), payment_failure_reason = NULL
+      WHERE id = _order.id
+      RETURNING * INTO _order;
+  ELSE
+    _reason := CASE _result_code
+      WHEN 1032 THEN 'user_cancelled'
+      WHEN 1 THEN 'insufficient_funds'
+      WHEN 1037 THEN 'timeout'
+      WHEN 1019 THEN 'timeout'
+      WHEN 2001 THEN 'invalid_pin'
+      ELSE 'other'
+    END;
+    UPDATE public.orders
+      SET payment_status = 'failed', status = 'cancelled', payment_failure_reason = _result_desc
+      WHERE id = _order.id
+      RETURNING * INTO _order;
+  END IF;
+
+  INSERT INTO public.transactions (transaction_ref, order_id, agent_id, amount, type, status, mpesa_ref, metadata)
+  VALUES (
+    public.generate_transaction_ref(),
+    _order.id,
+    _order.agent_id,
+    _order.total_amount,
+    'C2B',
+    CASE WHEN _result_code = 0 THEN 'completed'::transaction_status ELSE 'failed'::transaction_status END,
+    _mpesa_receipt,
+    COALESCE(_metadata, '{}') || jsonb_build_object(
+      'checkout_request_id', _checkout_request_id,
+      'merchant_request_id', _order.merchant_request_id,
+      'result_code', _result_code,
+      'result_desc', _result_desc
+    ) || CASE WHEN _reason IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('reason', _reason) END
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_stk_payment(TEXT, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
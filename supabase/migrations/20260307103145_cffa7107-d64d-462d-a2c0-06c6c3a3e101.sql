@@ -0,0 +1,105 @@
+-- M-Pesa B2C disbursement state on payouts
+ALTER TABLE public.payouts
+  ADD COLUMN phone TEXT,
+  ADD COLUMN failure_reason TEXT,
+  ADD COLUMN paid_at TIMESTAMPTZ;
+
+-- Daraja's ids for each B2C request. The OriginatorConversationID is what a
+-- callback settles a payout by, so it lives apart from `payouts`, which agents
+-- can read, and only admins and the edge functions see it.
+CREATE TABLE public.payout_disbursements (
+  payout_id UUID PRIMARY KEY REFERENCES public.payouts(id) ON DELETE CASCADE,
+  originator_conversation_id TEXT NOT NULL UNIQUE,
+  conversation_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payout_disbursements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payout disbursements" ON public.payout_disbursements FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- One B2C transaction per disbursement request
+CREATE UNIQUE INDEX idx_transactions_b2c_conversation
+  ON public.transactions ((metadata->>'originator_conversation_id'))
+  WHERE type = 'B2C';
+
+-- Payout reference
+CREATE OR REPLACE FUNCTION public.generate_payout_ref()
+RETURNS TEXT AS $$
+  SELECT 'PO-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10))
+$$ LANGUAGE sql VOLATILE SET search_path = public;
+
+ALTER TABLE public.payouts ALTER COLUMN payout_ref SET DEFAULT public.generate_payout_ref();
+
+-- Settle a B2C payout from Daraja's result or queue-timeout callback.
+-- _result_code NULL means the request timed out in Safaricom's queue.
+-- Idempotent: paid and failed payouts are returned unchanged. The agent's
+-- pending earnings are only reduced once the money has actually left.
+CREATE OR REPLACE FUNCTION public.settle_b2c_payout(
+  _originator_conversation_id TEXT,
+  _result_code INTEGER,
+  _result_desc TEXT,
+  _mpesa_ref TEXT DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'
+)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payout public.payouts;
+  _disbursement public.payout_disbursements;
+  _paid BOOLEAN := _result_code = 0;
+BEGIN
+  SELECT * INTO _disbursement FROM public.payout_disbursements WHERE originator_conversation_id = _originator_conversation_id;
+  SELECT * INTO _payout FROM public.payouts WHERE id = _disbursement.payout_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payout for OriginatorConversationID %', _originator_conversation_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _payout.status IN ('paid', 'failed') THEN
+    RETURN _payout;
+  END IF;
+
+  IF _paid THEN
+    UPDATE public.payouts
+      SET status = 'paid', mpesa_ref = _mpesa_ref, paid_at = now(), failure_reason = NULL
+      WHERE id = _payout.id
+      RETURNING * INTO _payout;
+
+    UPDATE public.agents
+      SET pending_earnings = pending_earnings - _payout.amount
+      WHERE id = _payout.agent_id;
+  ELSE
+    UPDATE public.payouts
+      SET status = 'failed', failure_reason = COALESCE(_result_desc, 'Request timed out at M-Pesa')
+      WHERE id = _payout.id
+      RETURNING * INTO _payout;
+  END IF;
+
+  INSERT INTO public.transactions (transaction_ref, agent_id, amount, type, status, mpesa_ref, metadata)
+  VALUES (
+    public.generate_transaction_ref(),
+    _payout.agent_id,
+    _payout.amount,
+    'B2C',
+    CASE WHEN _paid THEN 'completed'::transaction_status ELSE 'failed'::transaction_status END,
+    _mpesa_ref,
+    COALESCE(_metadata, '{}') || jsonb_build_object(
+      'payout_id', _payout.id,
+      'payout_ref', _payout.payout_ref,
+      'originator_conversation_id', _originator_conversation_id,
+      'conversation_id', _disbursement.conversation_id,
+      'result_code', _result_code,
+      'result_desc', _result_desc
+    ) || CASE WHEN _result_code IS NULL THEN jsonb_build_object('reason', 'queue_timeout') ELSE '{}'::jsonb END
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN _payout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_b2c_payout(TEXT, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
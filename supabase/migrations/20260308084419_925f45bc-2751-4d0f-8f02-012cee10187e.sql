@@ -0,0 +1,105 @@
+-- Tunable business rules, one JSON document per area
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON public.app_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone can view settings" ON public.app_settings FOR SELECT USING (true);
+CREATE POLICY "Admins can manage settings" ON public.app_settings FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.app_settings (key, value) VALUES
+  ('payouts', '{"min_amount": 500, "cooldown_hours": 24}');
+
+-- Agent payout requests
+ALTER TABLE public.payouts
+  ADD COLUMN requested_by UUID REFERENCES auth.users(id);
+
+-- Agents go through request_payout() so the minimum, single-open-request and
+-- cooldown rules can't be skipped with a direct insert.
+DROP POLICY "Agents can request payouts" ON public.payouts;
+
+CREATE OR REPLACE FUNCTION public.request_payout(_amount NUMERIC DEFAULT NULL)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _agent public.agents;
+  _rules JSONB;
+  _min NUMERIC;
+  _cooldown INTERVAL;
+  _last TIMESTAMPTZ;
+  _payout public.payouts;
+BEGIN
+  SELECT * INTO _agent FROM public.agents WHERE user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only agents can request payouts';
+  END IF;
+  IF _agent.status <> 'active' THEN
+    RAISE EXCEPTION 'Your agent account is not active';
+  END IF;
+
+  SELECT value INTO _rules FROM public.app_settings WHERE key = 'payouts';
+  _min := COALESCE((_rules->>'min_amount')::NUMERIC, 500);
+  _cooldown := make_interval(hours => COALESCE((_rules->>'cooldown_hours')::INTEGER, 24));
+
+  -- Withdraw everything when no amount is given. B2C only moves whole shillings.
+  _amount := FLOOR(COALESCE(_amount, _agent.pending_earnings));
+
+  IF _amount < _min THEN
+    RAISE EXCEPTION 'The minimum payout is KSh %', _min;
+  END IF;
+  IF _amount > _agent.pending_earnings THEN
+    RAISE EXCEPTION 'You can request up to KSh % right now', FLOOR(_agent.pending_earnings);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payouts WHERE agent_id = _agent.id AND status IN ('pending', 'processing')) THEN
+    RAISE EXCEPTION 'You already have a payout request in progress';
+  END IF;
+
+  SELECT MAX(created_at) INTO _last FROM public.payouts WHERE agent_id = _agent.id AND requested_by IS NOT NULL;
+  IF _last IS NOT NULL AND _last + _cooldown > now() THEN
+    RAISE EXCEPTION 'You can request your next payout after %', to_char(_last + _cooldown AT TIME ZONE 'Africa/Nairobi', 'DD Mon HH24:MI');
+  END IF;
+
+  INSERT INTO public.payouts (agent_id, amount, phone, requested_by)
+  VALUES (_agent.id, _amount, _agent.mpesa_phone, auth.uid())
+  RETURNING * INTO _payout;
+
+  RETURN _payout;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_payout_request(_payout_id UUID, _reason TEXT)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payout public.payouts;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reject payout requests';
+  END IF;
+
+  UPDATE public.payouts
+    SET status = 'failed', failure_reason = COALESCE(NULLIF(TRIM(_reason), ''), 'Rejected by admin'), approved_by = auth.uid()
+    WHERE id = _payout_id AND status = 'pending' AND approved_by IS NULL
+    RETURNING * INTO _payout;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request has already been handled';
+  END IF;
+
+  RETURN _payout;
+END;
+$$;
+
+-- Agents watch their request status live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payouts;
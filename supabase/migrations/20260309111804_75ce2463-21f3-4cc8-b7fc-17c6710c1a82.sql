@@ -0,0 +1,26 @@
+-- Agent rate at the moment of sale; commission_amount is computed from it at checkout
+ALTER TABLE public.orders
+  ADD COLUMN commission_rate NUMERIC(5,2);
+
+-- Credit the referring agent once the order's payment goes through
+CREATE OR REPLACE FUNCTION public.credit_agent_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.agents
+    SET total_sales = total_sales + 1,
+        total_earned = total_earned + NEW.commission_amount,
+        pending_earnings = pending_earnings + NEW.commission_amount
+    WHERE id = NEW.agent_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_agent_commission
+  AFTER UPDATE OF payment_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' AND NEW.agent_id IS NOT NULL)
+  EXECUTE FUNCTION public.credit_agent_commission();
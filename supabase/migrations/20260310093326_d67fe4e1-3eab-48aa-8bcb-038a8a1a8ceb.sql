@@ -0,0 +1,214 @@
+-- Append-only record of every change to an agent's earnings.
+-- Credits are positive, debits negative. agents.total_earned, pending_earnings
+-- and total_sales are a running cache of these entries.
+CREATE TYPE public.commission_entry_type AS ENUM ('accrual', 'reversal', 'clawback', 'payout', 'adjustment');
+
+CREATE TABLE public.commission_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  agent_id UUID REFERENCES public.agents(id) NOT NULL,
+  entry_type commission_entry_type NOT NULL,
+  amount NUMERIC(12,2) NOT NULL,
+  order_id UUID REFERENCES public.orders(id),
+  payout_id UUID REFERENCES public.payouts(id),
+  description TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (entry_type = 'accrual' AND amount >= 0 AND order_id IS NOT NULL)
+    OR (entry_type IN ('reversal', 'clawback') AND amount <= 0 AND order_id IS NOT NULL)
+    OR (entry_type = 'payout' AND amount <= 0)
+    OR entry_type = 'adjustment'
+  )
+);
+
+-- At most one accrual, reversal and clawback per order, and one debit per payout
+CREATE UNIQUE INDEX idx_commission_ledger_order_entry ON public.commission_ledger(order_id, entry_type) WHERE order_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_commission_ledger_payout ON public.commission_ledger(payout_id) WHERE payout_id IS NOT NULL;
+CREATE INDEX idx_commission_ledger_agent ON public.commission_ledger(agent_id, seq);
+
+ALTER TABLE public.commission_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the SECURITY DEFINER functions below
+CREATE POLICY "Agents can view own ledger" ON public.commission_ledger FOR SELECT USING (
+  agent_id IN (SELECT id FROM public.agents WHERE user_id = auth.uid())
+);
+CREATE POLICY "Admins can view ledger" ON public.commission_ledger FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.prevent_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The commission ledger is append-only. Post a correcting entry instead.';
+END;
+$$;
+
+CREATE TRIGGER commission_ledger_append_only BEFORE UPDATE OR DELETE ON public.commission_ledger FOR EACH ROW EXECUTE FUNCTION public.prevent_ledger_changes();
+CREATE TRIGGER commission_ledger_no_truncate BEFORE TRUNCATE ON public.commission_ledger FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_ledger_changes();
+
+-- Opening balances for agents that earned before the ledger existed
+INSERT INTO public.commission_ledger (agent_id, entry_type, amount, description)
+SELECT id, 'adjustment', total_earned, 'Opening balance'
+FROM public.agents WHERE total_earned <> 0;
+
+INSERT INTO public.commission_ledger (agent_id, entry_type, amount, description)
+SELECT id, 'payout', pending_earnings - total_earned, 'Payouts before the ledger'
+FROM public.agents WHERE pending_earnings < total_earned;
+
+-- Keep the agent's cached balances in step with each new entry
+CREATE OR REPLACE FUNCTION public.apply_commission_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.agents
+    SET pending_earnings = pending_earnings + NEW.amount,
+        total_earned = total_earned + CASE WHEN NEW.entry_type = 'payout' THEN 0 ELSE NEW.amount END,
+        total_sales = total_sales + CASE NEW.entry_type WHEN 'accrual' THEN 1 WHEN 'reversal' THEN -1 WHEN 'clawback' THEN -1 ELSE 0 END
+    WHERE id = NEW.agent_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_commission_entry AFTER INSERT ON public.commission_ledger FOR EACH ROW EXECUTE FUNCTION public.apply_commission_entry();
+
+-- Orders post their commission to the ledger instead of touching agents directly
+DROP TRIGGER credit_agent_commission ON public.orders;
+DROP FUNCTION public.credit_agent_commission();
+
+-- Accrue when the order is paid. Cancelling a paid order reverses the
+-- commission, once.
+CREATE OR REPLACE FUNCTION public.post_order_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _accrued NUMERIC;
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' THEN
+    INSERT INTO public.commission_ledger (agent_id, entry_type, amount, order_id, description)
+    VALUES (NEW.agent_id, 'accrual', NEW.commission_amount, NEW.id, 'Commission on order ' || NEW.order_number)
+    ON CONFLICT DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount INTO _accrued FROM public.commission_ledger WHERE order_id = NEW.id AND entry_type = 'accrual';
+  IF FOUND AND NOT EXISTS (
+    SELECT 1 FROM public.commission_ledger WHERE order_id = NEW.id AND entry_type IN ('reversal', 'clawback')
+  ) THEN
+    INSERT INTO public.commission_ledger (agent_id, entry_type, amount, order_id, description)
+    VALUES (NEW.agent_id, 'reversal', -_accrued, NEW.id, 'Order ' || NEW.order_number || ' cancelled');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_order_commission
+  AFTER UPDATE OF payment_status, status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.agent_id IS NOT NULL)
+  EXECUTE FUNCTION public.post_order_commission();
+
+-- Paid payouts debit the ledger rather than pending_earnings directly
+CREATE OR REPLACE FUNCTION public.settle_b2c_payout(
+  _originator_conversation_id TEXT,
+  _result_code INTEGER,
+  _result_desc TEXT,
+  _mpesa_ref TEXT DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'
+)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payout public.payouts;
+  _disbursement public.payout_disbursements;
+  _paid BOOLEAN := _result_code = 0;
+BEGIN
+  SELECT * INTO _disbursement FROM public.payout_disbursements WHERE originator_conversation_id = _originator_conversation_id;
+  SELECT * INTO _payout FROM public.payouts WHERE id = _disbursement.payout_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No payout for OriginatorConversationID %', _originator_conversation_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _payout.status IN ('paid', 'failed') THEN
+    RETURN _payout;
+  END IF;
+
+  IF _paid THEN
+    UPDATE public.payouts
+      SET status = 'paid', mpesa_ref = _mpesa_ref, paid_at = now(), failure_reason = NULL
+      WHERE id = _payout.id
+      RETURNING * INTO _payout;
+
+    INSERT INTO public.commission_ledger (agent_id, entry_type, amount, payout_id, description)
+    VALUES (_payout.agent_id, 'payout', -_payout.amount, _payout.id, 'Payout ' || _payout.payout_ref || ' to M-Pesa')
+    ON CONFLICT DO NOTHING;
+  ELSE
+    UPDATE public.payouts
+      SET status = 'failed', failure_reason = COALESCE(_result_desc, 'Request timed out at M-Pesa')
+      WHERE id = _payout.id
+      RETURNING * INTO _payout;
+  END IF;
+
+  INSERT INTO public.transactions (transaction_ref, agent_id, amount, type, status, mpesa_ref, metadata)
+  VALUES (
+    public.generate_transaction_ref(),
+    _payout.agent_id,
+    _payout.amount,
+    'B2C',
+    CASE WHEN _paid THEN 'completed'::transaction_status ELSE 'failed'::transaction_status END,
+    _mpesa_ref,
+    COALESCE(_metadata, '{}') || jsonb_build_object(
+      'payout_id', _payout.id,
+      'payout_ref', _payout.payout_ref,
+      'originator_conversation_id', _originator_conversation_id,
+      'conversation_id', _disbursement.conversation_id,
+      'result_code', _result_code,
+      'result_desc', _result_desc
+    ) || CASE WHEN _result_code IS NULL THEN jsonb_build_object('reason', 'queue_timeout') ELSE '{}'::jsonb END
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN _payout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_b2c_payout(TEXT, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Line-item statement with a running balance
+CREATE VIEW public.commission_statement WITH (security_invoker = true) AS
+SELECT
+  l.id, l.seq, l.agent_id, l.entry_type, l.amount, l.order_id, l.payout_id, l.description, l.created_at,
+  o.order_number,
+  p.payout_ref,
+  SUM(l.amount) OVER (PARTITION BY l.agent_id ORDER BY l.seq) AS balance
+FROM public.commission_ledger l
+LEFT JOIN public.orders o ON o.id = l.order_id
+LEFT JOIN public.payouts p ON p.id = l.payout_id;
+
+-- Cached agent balances against the ledger; in_balance = false means someone edited agents by hand
+CREATE VIEW public.agent_ledger_balances WITH (security_invoker = true) AS
+SELECT
+  a.id AS agent_id,
+  a.total_earned,
+  a.pending_earnings,
+  COALESCE(SUM(l.amount) FILTER (WHERE l.entry_type <> 'payout'), 0) AS ledger_earned,
+  COALESCE(SUM(l.amount), 0) AS ledger_pending,
+  a.total_earned = COALESCE(SUM(l.amount) FILTER (WHERE l.entry_type <> 'payout'), 0)
+    AND a.pending_earnings = COALESCE(SUM(l.amount), 0) AS in_balance
+FROM public.agents a
+LEFT JOIN public.commission_ledger l ON l.agent_id = a.id
+GROUP BY a.id;
@@ -0,0 +1,195 @@
+-- What each tier takes and pays. An agent holds the highest tier whose
+-- thresholds they meet over the rolling window; a 0 threshold is ignored.
+CREATE TABLE public.tier_rules (
+  tier agent_tier PRIMARY KEY,
+  rank INTEGER NOT NULL UNIQUE,
+  commission_rate NUMERIC(5,2) NOT NULL,
+  min_sales INTEGER NOT NULL DEFAULT 0 CHECK (min_sales >= 0),
+  min_revenue NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (min_revenue >= 0),
+  perks TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tier_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_tier_rules_updated_at BEFORE UPDATE ON public.tier_rules FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone can view tier rules" ON public.tier_rules FOR SELECT USING (true);
+CREATE POLICY "Admins can manage tier rules" ON public.tier_rules FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.tier_rules (tier, rank, commission_rate, min_sales, perks) VALUES
+  ('Bronze', 1, 8, 0, NULL),
+  ('Silver', 2, 10, 20, NULL),
+  ('Gold', 3, 12, 50, NULL),
+  ('Platinum', 4, 18, 100, 'Priority payouts');
+
+INSERT INTO public.app_settings (key, value) VALUES
+  ('tiers', '{"window_days": 90}');
+
+-- Every tier change, with the numbers that caused it
+CREATE TABLE public.agent_tier_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE NOT NULL,
+  from_tier agent_tier NOT NULL,
+  to_tier agent_tier NOT NULL,
+  from_rate NUMERIC(5,2) NOT NULL,
+  to_rate NUMERIC(5,2) NOT NULL,
+  window_sales INTEGER NOT NULL,
+  window_revenue NUMERIC(12,2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_tier_history_agent ON public.agent_tier_history(agent_id, created_at DESC);
+
+ALTER TABLE public.agent_tier_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view own tier history" ON public.agent_tier_history FOR SELECT USING (
+  agent_id IN (SELECT id FROM public.agents WHERE user_id = auth.uid())
+);
+CREATE POLICY "Admins can view tier history" ON public.agent_tier_history FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Paid, uncancelled orders inside the tier window. Unchecked, so
+-- only tier evaluation calls it; clients go through agent_window_stats.
+CREATE OR REPLACE FUNCTION public.compute_agent_window_stats(_agent_id UUID)
+RETURNS TABLE (sales INTEGER, revenue NUMERIC, window_days INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+BEGIN
+  SELECT COALESCE((value->>'window_days')::INTEGER, 90) INTO _days FROM public.app_settings WHERE key = 'tiers';
+  _days := COALESCE(_days, 90);
+
+  RETURN QUERY
+  SELECT COUNT(*)::INTEGER, COALESCE(SUM(o.total_amount), 0), _days
+  FROM public.orders o
+  WHERE o.agent_id = _agent_id
+    AND o.payment_status = 'paid'
+    AND o.status <> 'cancelled'
+    AND o.paid_at > now() - make_interval(days => _days);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_agent_window_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The agent's own window stats, for their dashboard. Admins and the service
+-- role can read anyone's; anonymous callers are refused.
+CREATE OR REPLACE FUNCTION public.agent_window_stats(_agent_id UUID)
+RETURNS TABLE (sales INTEGER, revenue NUMERIC, window_days INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role'
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.agents WHERE id = _agent_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only view your own sales';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.compute_agent_window_stats(_agent_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.agent_window_stats(UUID) FROM PUBLIC, anon;
+
+-- Moves the agent to the tier their window stats qualify for and syncs the rate
+CREATE OR REPLACE FUNCTION public.evaluate_agent_tier(_agent_id UUID)
+RETURNS public.agents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _agent public.agents;
+  _stats RECORD;
+  _rule public.tier_rules;
+BEGIN
+  SELECT * INTO _agent FROM public.agents WHERE id = _agent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No agent %', _agent_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO _stats FROM public.compute_agent_window_stats(_agent_id);
+
+  SELECT * INTO _rule FROM public.tier_rules
+    WHERE min_sales <= _stats.sales AND min_revenue <= _stats.revenue
+    ORDER BY rank DESC
+    LIMIT 1;
+  IF NOT FOUND OR (_rule.tier = _agent.tier AND _rule.commission_rate = _agent.commission_rate) THEN
+    RETURN _agent;
+  END IF;
+
+  IF _rule.tier <> _agent.tier THEN
+    INSERT INTO public.agent_tier_history (agent_id, from_tier, to_tier, from_rate, to_rate, window_sales, window_revenue)
+    VALUES (_agent.id, _agent.tier, _rule.tier, _agent.commission_rate, _rule.commission_rate, _stats.sales, _stats.revenue);
+  END IF;
+
+  UPDATE public.agents
+    SET tier = _rule.tier, commission_rate = _rule.commission_rate
+    WHERE id = _agent.id
+    RETURNING * INTO _agent;
+
+  RETURN _agent;
+END;
+$$;
+
+-- Nightly sweep so sales ageing out of the window can demote agents.
+-- Returns the number of agents whose tier changed.
+CREATE OR REPLACE FUNCTION public.evaluate_all_agent_tiers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _before agent_tier;
+  _after public.agents;
+  _changed INTEGER := 0;
+BEGIN
+  -- Admins, or pg_cron, which calls this straight from the database with no request claims
+  IF auth.role() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can re-evaluate tiers';
+  END IF;
+
+  FOR _id, _before IN SELECT id, tier FROM public.agents WHERE status = 'active' LOOP
+    _after := public.evaluate_agent_tier(_id);
+    IF _after.tier <> _before THEN
+      _changed := _changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_agent_tier(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_all_agent_tiers() FROM PUBLIC, anon;
+
+-- Sales and cancellations move agents between tiers as they happen
+CREATE OR REPLACE FUNCTION public.reevaluate_agent_tier()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_agent_tier(NEW.agent_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reevaluate_agent_tier
+  AFTER INSERT ON public.commission_ledger
+  FOR EACH ROW
+  WHEN (NEW.entry_type IN ('accrual', 'reversal', 'clawback'))
+  EXECUTE FUNCTION public.reevaluate_agent_tier();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('evaluate-agent-tiers', '15 0 * * *', 'SELECT public.evaluate_all_agent_tiers()');
@@ -0,0 +1,245 @@
+-- Shopping carts, owned by a signed-in user or by an anonymous browser token
+CREATE TABLE public.carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  anon_token TEXT UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (user_id IS NOT NULL OR anon_token IS NOT NULL)
+);
+
+CREATE TABLE public.cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id UUID REFERENCES public.carts(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (cart_id, product_id)
+);
+
+CREATE TRIGGER update_carts_updated_at BEFORE UPDATE ON public.carts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_cart_items_updated_at BEFORE UPDATE ON public.cart_items FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- No policies: carts are only reached through the cart functions below
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+-- Stock held for an order while the shopper enters their M-Pesa PIN
+CREATE TYPE public.reservation_status AS ENUM ('active', 'released', 'consumed');
+
+CREATE TABLE public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status reservation_status NOT NULL DEFAULT 'active',
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_reservations_active ON public.stock_reservations(product_id, expires_at) WHERE status = 'active';
+CREATE INDEX idx_stock_reservations_order ON public.stock_reservations(order_id);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reservations" ON public.stock_reservations FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.app_settings (key, value) VALUES
+  ('checkout', '{"reservation_minutes": 10}');
+
+-- Stock not held by an unexpired reservation
+CREATE OR REPLACE FUNCTION public.available_stock(_product_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.stock - COALESCE((
+    SELECT SUM(r.quantity)::INTEGER FROM public.stock_reservations r
+    WHERE r.product_id = p.id AND r.status = 'active' AND r.expires_at > now()
+  ), 0)
+  FROM public.products p
+  WHERE p.id = _product_id
+$$;
+
+-- The caller's cart: the signed-in user's, else the one for _anon_token.
+-- Signing in folds the anonymous cart into the user's.
+CREATE OR REPLACE FUNCTION public.resolve_cart(_anon_token TEXT, _create BOOLEAN)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart UUID;
+  _anon_cart UUID;
+BEGIN
+  IF _anon_token IS NOT NULL THEN
+    SELECT id INTO _anon_cart FROM public.carts WHERE anon_token = _anon_token AND user_id IS NULL;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    IF _anon_token IS NULL OR length(_anon_token) < 32 THEN
+      RAISE EXCEPTION 'Missing cart token';
+    END IF;
+    IF _anon_cart IS NULL AND _create THEN
+      INSERT INTO public.carts (anon_token) VALUES (_anon_token) RETURNING id INTO _anon_cart;
+    END IF;
+    RETURN _anon_cart;
+  END IF;
+
+  SELECT id INTO _cart FROM public.carts WHERE user_id = auth.uid();
+  IF _cart IS NULL AND (_create OR _anon_cart IS NOT NULL) THEN
+    INSERT INTO public.carts (user_id) VALUES (auth.uid()) RETURNING id INTO _cart;
+  END IF;
+
+  IF _anon_cart IS NOT NULL THEN
+    INSERT INTO public.cart_items (cart_id, product_id, quantity)
+      SELECT _cart, ci.product_id, ci.quantity FROM public.cart_items ci WHERE ci.cart_id = _anon_cart
+      ON CONFLICT (cart_id, product_id) DO UPDATE SET quantity = GREATEST(public.cart_items.quantity, EXCLUDED.quantity);
+    DELETE FROM public.carts WHERE id = _anon_cart;
+  END IF;
+
+  RETURN _cart;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_cart(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_cart(_anon_token TEXT DEFAULT NULL)
+RETURNS TABLE (product_id UUID, quantity INTEGER, available INTEGER, name TEXT, price NUMERIC, emoji TEXT, image_url TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _cart UUID := public.resolve_cart(_anon_token, false);
+BEGIN
+  RETURN QUERY
+  SELECT ci.product_id, ci.quantity, public.available_stock(p.id), p.name, p.price, p.emoji, p.image_url
+  FROM public.cart_items ci
+  JOIN public.products p ON p.id = ci.product_id
+  WHERE ci.cart_id = _cart AND p.is_active
+  ORDER BY ci.created_at;
+END;
+$$;
+
+-- Sets the quantity of a product in the cart; 0 removes it
+CREATE OR REPLACE FUNCTION public.set_cart_item(_product_id UUID, _quantity INTEGER, _anon_token TEXT DEFAULT NULL)
+RETURNS TABLE (product_id UUID, quantity INTEGER, available INTEGER, name TEXT, price NUMERIC, emoji TEXT, image_url TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _cart UUID := public.resolve_cart(_anon_token, true);
+  _product public.products;
+  _available INTEGER;
+BEGIN
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    DELETE FROM public.cart_items WHERE cart_id = _cart AND product_id = _product_id;
+  ELSE
+    SELECT * INTO _product FROM public.products WHERE id = _product_id AND is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This product is no longer available';
+    END IF;
+    _available := public.available_stock(_product_id);
+    IF _available <= 0 THEN
+      RAISE EXCEPTION '% is out of stock', _product.name;
+    END IF;
+    IF _quantity > _available THEN
+      RAISE EXCEPTION 'Only % of % left in stock', _available, _product.name;
+    END IF;
+
+    INSERT INTO public.cart_items (cart_id, product_id, quantity)
+      VALUES (_cart, _product_id, _quantity)
+      ON CONFLICT (cart_id, product_id) DO UPDATE SET quantity = EXCLUDED.quantity;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.get_cart(_anon_token);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.clear_cart(_anon_token TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.cart_items WHERE cart_id = public.resolve_cart(_anon_token, false);
+END;
+$$;
+
+-- Holds stock for every line of a new order, all or nothing. Products are
+-- locked in id order so concurrent checkouts can't deadlock or oversell.
+CREATE OR REPLACE FUNCTION public.reserve_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _minutes INTEGER;
+  _line RECORD;
+  _available INTEGER;
+BEGIN
+  SELECT COALESCE((value->>'reservation_minutes')::INTEGER, 10) INTO _minutes FROM public.app_settings WHERE key = 'checkout';
+  _minutes := COALESCE(_minutes, 10);
+
+  FOR _line IN
+    SELECT oi.product_id, SUM(oi.quantity)::INTEGER AS quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    GROUP BY oi.product_id
+    ORDER BY oi.product_id
+  LOOP
+    PERFORM 1 FROM public.products WHERE id = _line.product_id FOR UPDATE;
+    _available := public.available_stock(_line.product_id);
+    IF _available < _line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', GREATEST(_available, 0), (SELECT name FROM public.products WHERE id = _line.product_id);
+    END IF;
+
+    INSERT INTO public.stock_reservations (order_id, product_id, quantity, expires_at)
+    VALUES (_order_id, _line.product_id, _line.quantity, now() + make_interval(mins => _minutes));
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Paid orders turn their reservations into real stock movement; failed,
+-- timed-out and cancelled unpaid orders hand the stock back.
+CREATE OR REPLACE FUNCTION public.apply_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' THEN
+    UPDATE public.stock_reservations SET status = 'consumed' WHERE order_id = NEW.id AND status = 'active';
+
+    -- Decrement even if the reservation lapsed: the money is in, so an oversell shows up as negative stock
+    UPDATE public.products p
+      SET stock = p.stock - i.quantity, total_sold = p.total_sold + i.quantity
+      FROM (
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity FROM public.order_items WHERE order_id = NEW.id GROUP BY product_id
+      ) i
+      WHERE p.id = i.product_id;
+  ELSIF NEW.payment_status <> 'paid' AND (NEW.payment_status IN ('failed', 'timed_out') OR NEW.status = 'cancelled') THEN
+    UPDATE public.stock_reservations SET status = 'released' WHERE order_id = NEW.id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_order_stock
+  AFTER UPDATE OF payment_status, status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_order_stock();
@@ -0,0 +1,253 @@
+-- Fulfilment details
+ALTER TABLE public.orders
+  ADD COLUMN courier TEXT,
+  ADD COLUMN tracking_number TEXT,
+  ADD COLUMN delivered_at TIMESTAMPTZ,
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN commission_finalized_at TIMESTAMPTZ;
+
+-- Commission on orders delivered before this point is final
+UPDATE public.orders SET delivered_at = updated_at, commission_finalized_at = updated_at WHERE status = 'delivered';
+
+-- Every status or shipping change on an order
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  courier TEXT,
+  tracking_number TEXT,
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order history" ON public.order_status_history FOR SELECT USING (
+  order_id IN (SELECT id FROM public.orders WHERE customer_id = auth.uid())
+  OR order_id IN (SELECT id FROM public.orders WHERE agent_id IN (SELECT id FROM public.agents WHERE user_id = auth.uid()))
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+INSERT INTO public.order_status_history (order_id, from_status, to_status, courier, tracking_number, note, created_at)
+SELECT id, NULL, status, courier, tracking_number, 'Recorded before status history', created_at FROM public.orders;
+
+-- transition_order() passes its note through the transaction-local
+-- payloom.status_note setting; payment settlement leaves it empty.
+CREATE OR REPLACE FUNCTION public.record_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.courier IS NOT DISTINCT FROM OLD.courier
+    AND NEW.tracking_number IS NOT DISTINCT FROM OLD.tracking_number THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, courier, tracking_number, note, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.courier,
+    NEW.tracking_number,
+    COALESCE(NULLIF(current_setting('payloom.status_note', true), ''), CASE WHEN TG_OP = 'INSERT' THEN 'Order placed' END),
+    auth.uid()
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_status
+  AFTER INSERT OR UPDATE OF status, courier, tracking_number ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_status();
+
+-- Allowed moves:
+--   pending    -> processing (once paid), cancelled
+--   processing -> processing (shipping details only), delivered, cancelled
+-- Delivered and cancelled orders are final.
+CREATE OR REPLACE FUNCTION public.transition_order(
+  _order_id UUID,
+  _status order_status,
+  _note TEXT DEFAULT NULL,
+  _courier TEXT DEFAULT NULL,
+  _tracking_number TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update orders';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (
+    (_order.status = 'pending' AND _status IN ('processing', 'cancelled'))
+    OR (_order.status = 'processing' AND _status IN ('processing', 'delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'An order can''t move from % to %', _order.status, _status;
+  END IF;
+  IF _status = 'processing' AND _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Order % hasn''t been paid yet', _order.order_number;
+  END IF;
+
+  PERFORM set_config('payloom.status_note', COALESCE(TRIM(_note), ''), true);
+
+  UPDATE public.orders
+    SET status = _status,
+        courier = COALESCE(NULLIF(TRIM(_courier), ''), courier),
+        tracking_number = COALESCE(NULLIF(TRIM(_tracking_number), ''), tracking_number),
+        delivered_at = CASE WHEN _status = 'delivered' THEN now() ELSE delivered_at END,
+        cancelled_at = CASE WHEN _status = 'cancelled' THEN now() ELSE cancelled_at END,
+        -- Acting on the order is the admin's review of it
+        review_reason = NULL,
+        -- Delivery makes the agent's commission withdrawable
+        commission_finalized_at = CASE WHEN _status = 'delivered' THEN now() ELSE commission_finalized_at END
+    WHERE id = _order.id
+    RETURNING * INTO _order;
+
+  PERFORM set_config('payloom.status_note', '', true);
+  RETURN _order;
+END;
+$$;
+
+-- Admins change orders through transition_order only. A direct UPDATE could
+-- make moves it refuses, such as reopening a cancelled order, and the stock
+-- and commission triggers assume those never happen.
+DROP POLICY "Admins can update orders" ON public.orders;
+
+-- Cancelling a paid order puts its items back on the shelf
+CREATE OR REPLACE FUNCTION public.apply_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' AND OLD.payment_status <> 'paid' THEN
+    UPDATE public.stock_reservations SET status = 'consumed' WHERE order_id = NEW.id AND status = 'active';
+
+    -- Decrement even if the reservation lapsed: the money is in, so an oversell shows up as negative stock
+    UPDATE public.products p
+      SET stock = p.stock - i.quantity, total_sold = p.total_sold + i.quantity
+      FROM (
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity FROM public.order_items WHERE order_id = NEW.id GROUP BY product_id
+      ) i
+      WHERE p.id = i.product_id;
+  ELSIF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.paid_at IS NOT NULL THEN
+    UPDATE public.products p
+      SET stock = p.stock + i.quantity, total_sold = GREATEST(p.total_sold - i.quantity, 0)
+      FROM (
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity FROM public.order_items WHERE order_id = NEW.id GROUP BY product_id
+      ) i
+      WHERE p.id = i.product_id;
+  ELSIF NEW.payment_status <> 'paid' AND (NEW.payment_status IN ('failed', 'timed_out') OR NEW.status = 'cancelled') THEN
+    UPDATE public.stock_reservations SET status = 'released' WHERE order_id = NEW.id AND status = 'active';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Pending earnings minus commission on paid orders that haven't been delivered yet
+CREATE OR REPLACE FUNCTION public.agent_withdrawable_earnings(_agent_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pending NUMERIC;
+  _held NUMERIC;
+BEGIN
+  -- mpesa-b2c-payout checks payouts with the service key
+  IF COALESCE(auth.role(), '') <> 'service_role'
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.agents WHERE id = _agent_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only view your own earnings';
+  END IF;
+
+  SELECT pending_earnings INTO _pending FROM public.agents WHERE id = _agent_id;
+  SELECT COALESCE(SUM(commission_amount), 0) INTO _held
+    FROM public.orders
+    WHERE agent_id = _agent_id AND payment_status = 'paid' AND status <> 'cancelled' AND commission_finalized_at IS NULL;
+
+  RETURN GREATEST(COALESCE(_pending, 0) - _held, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.agent_withdrawable_earnings(UUID) FROM PUBLIC, anon;
+
+-- Agents can only withdraw finalised commission
+CREATE OR REPLACE FUNCTION public.request_payout(_amount NUMERIC DEFAULT NULL)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _agent public.agents;
+  _rules JSONB;
+  _min NUMERIC;
+  _cooldown INTERVAL;
+  _last TIMESTAMPTZ;
+  _withdrawable NUMERIC;
+  _payout public.payouts;
+BEGIN
+  SELECT * INTO _agent FROM public.agents WHERE user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only agents can request payouts';
+  END IF;
+  IF _agent.status <> 'active' THEN
+    RAISE EXCEPTION 'Your agent account is not active';
+  END IF;
+
+  SELECT value INTO _rules FROM public.app_settings WHERE key = 'payouts';
+  _min := COALESCE((_rules->>'min_amount')::NUMERIC, 500);
+  _cooldown := make_interval(hours => COALESCE((_rules->>'cooldown_hours')::INTEGER, 24));
+  _withdrawable := public.agent_withdrawable_earnings(_agent.id);
+
+  -- Withdraw everything available when no amount is given. B2C only moves whole shillings.
+  _amount := FLOOR(COALESCE(_amount, _withdrawable));
+
+  IF _amount < _min THEN
+    RAISE EXCEPTION 'The minimum payout is KSh %', _min;
+  END IF;
+  IF _amount > _withdrawable THEN
+    RAISE EXCEPTION 'You can request up to KSh % right now. Commission is released once orders are delivered.', FLOOR(_withdrawable);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payouts WHERE agent_id = _agent.id AND status IN ('pending', 'processing')) THEN
+    RAISE EXCEPTION 'You already have a payout request in progress';
+  END IF;
+
+  SELECT MAX(created_at) INTO _last FROM public.payouts WHERE agent_id = _agent.id AND requested_by IS NOT NULL;
+  IF _last IS NOT NULL AND _last + _cooldown > now() THEN
+    RAISE EXCEPTION 'You can request your next payout after %', to_char(_last + _cooldown AT TIME ZONE 'Africa/Nairobi', 'DD Mon HH24:MI');
+  END IF;
+
+  INSERT INTO public.payouts (agent_id, amount, phone, requested_by)
+  VALUES (_agent.id, _amount, _agent.mpesa_phone, auth.uid())
+  RETURNING * INTO _payout;
+
+  RETURN _payout;
+END;
+$$;
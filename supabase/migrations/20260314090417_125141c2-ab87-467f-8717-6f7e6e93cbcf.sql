@@ -0,0 +1,73 @@
+-- Secret for the shopper's order tracking link (/orders/<order_number>?t=<access_token>)
+ALTER TABLE public.orders
+  ADD COLUMN access_token TEXT NOT NULL DEFAULT REPLACE(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+CREATE UNIQUE INDEX idx_orders_access_token ON public.orders(access_token);
+
+-- 07XX / 01XX / +254 / 254 numbers, reduced to 254XXXXXXXXX for comparison
+CREATE OR REPLACE FUNCTION public.normalize_msisdn(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN d ~ '^0[17][0-9]{8}$' THEN '254' || SUBSTRING(d FROM 2)
+    WHEN d ~ '^[17][0-9]{8}$' THEN '254' || d
+    WHEN d ~ '^254[17][0-9]{8}$' THEN d
+  END
+  FROM (SELECT REGEXP_REPLACE(COALESCE(_phone, ''), '[^0-9]', '', 'g') AS d) p
+$$;
+
+-- Public order lookup for shoppers without an account. Needs the tracking
+-- link's token or the phone number the order was placed with; both failures
+-- look the same so order numbers can't be probed.
+CREATE OR REPLACE FUNCTION public.track_order(_order_number TEXT, _access_token TEXT DEFAULT NULL, _phone TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _msisdn TEXT := public.normalize_msisdn(_phone);
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE order_number = UPPER(TRIM(_order_number));
+  IF NOT FOUND
+    OR NOT (
+      (_access_token IS NOT NULL AND _order.access_token = _access_token)
+      OR (_msisdn IS NOT NULL AND _msisdn IN (public.normalize_msisdn(_order.customer_phone), public.normalize_msisdn(_order.payment_phone)))
+    ) THEN
+    RAISE EXCEPTION 'We couldn''t find an order with those details';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_number', _order.order_number,
+    'access_token', _order.access_token,
+    'customer_name', _order.customer_name,
+    'status', _order.status,
+    'payment_status', _order.payment_status,
+    'total_amount', _order.total_amount,
+    'mpesa_ref', _order.mpesa_ref,
+    'paid_at', _order.paid_at,
+    'courier', _order.courier,
+    'tracking_number', _order.tracking_number,
+    'delivered_at', _order.delivered_at,
+    'created_at', _order.created_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', p.name, 'emoji', p.emoji, 'quantity', oi.quantity, 'unit_price', oi.unit_price) ORDER BY oi.created_at)
+      FROM public.order_items oi JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = _order.id
+    ), '[]'::jsonb),
+    'history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'from_status', h.from_status, 'to_status', h.to_status, 'courier', h.courier,
+        'tracking_number', h.tracking_number, 'note', h.note, 'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = _order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Lets PostgREST embed an agent's profile (agents?select=*,profiles(full_name)).
+-- Both tables only pointed at auth.users, so the embed had no relationship to follow.
+INSERT INTO public.profiles (user_id, full_name)
+SELECT a.user_id, 'Agent'
+FROM public.agents a
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = a.user_id);
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_user_id_profiles_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
@@ -0,0 +1,24 @@
+-- Fail closed for anyone who isn't an admin. Orders, order items and
+-- transactions are only written by the edge functions (service role) and the
+-- SECURITY DEFINER RPCs, so signed-in users lose the blanket INSERT grants.
+DROP POLICY "Authenticated users can create orders" ON public.orders;
+DROP POLICY "Users can insert order items" ON public.order_items;
+DROP POLICY "System can insert transactions" ON public.transactions;
+
+-- Profiles carry phone numbers. Only the owner and admins may read them;
+-- receipts and order tracking go through track_order, which runs as definer.
+DROP POLICY "Anyone can view profiles" ON public.profiles;
+CREATE POLICY "Users can view own profile" ON public.profiles FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view profiles" ON public.profiles FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Spell out WITH CHECK so an update can't move a row outside the policy
+DROP POLICY "Admins can update payouts" ON public.payouts;
+CREATE POLICY "Admins can update payouts" ON public.payouts FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Agents edit their own listings only while they are still agents
+DROP POLICY "Agents can update own products" ON public.products;
+CREATE POLICY "Agents can update own products" ON public.products FOR UPDATE
+  USING ((auth.uid() = created_by AND public.has_role(auth.uid(), 'agent')) OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK ((auth.uid() = created_by AND public.has_role(auth.uid(), 'agent')) OR public.has_role(auth.uid(), 'admin'));
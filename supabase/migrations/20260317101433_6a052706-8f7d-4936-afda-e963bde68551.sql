@@ -0,0 +1,150 @@
+-- Customers apply to become agents; an admin approves or rejects each application
+CREATE TYPE public.application_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE public.agent_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  full_name TEXT NOT NULL,
+  mpesa_phone TEXT NOT NULL,
+  id_type TEXT NOT NULL CHECK (id_type IN ('national_id', 'passport', 'alien_id')),
+  id_number TEXT NOT NULL,
+  region TEXT NOT NULL,
+  status application_status NOT NULL DEFAULT 'pending',
+  rejection_reason TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open application per user
+CREATE UNIQUE INDEX agent_applications_one_pending ON public.agent_applications (user_id) WHERE status = 'pending';
+CREATE INDEX agent_applications_status_idx ON public.agent_applications (status, created_at);
+
+CREATE TRIGGER update_agent_applications_updated_at BEFORE UPDATE ON public.agent_applications FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Applications are written through the functions below only
+ALTER TABLE public.agent_applications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own applications" ON public.agent_applications FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view applications" ON public.agent_applications FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.submit_agent_application(
+  _full_name TEXT,
+  _mpesa_phone TEXT,
+  _id_type TEXT,
+  _id_number TEXT,
+  _region TEXT
+)
+RETURNS public.agent_applications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _msisdn TEXT := public.normalize_msisdn(_mpesa_phone);
+  _id TEXT := UPPER(REGEXP_REPLACE(COALESCE(_id_number, ''), '\s', '', 'g'));
+  _application public.agent_applications;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to apply';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.agents WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You are already an agent';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.agent_applications WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'Your application is already being reviewed';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(_full_name, ''))) < 3 THEN
+    RAISE EXCEPTION 'Enter your full name as it appears on your ID';
+  END IF;
+  IF _msisdn IS NULL THEN
+    RAISE EXCEPTION 'Enter a valid Safaricom number, e.g. 0712 345 678';
+  END IF;
+  IF _id_type = 'national_id' AND _id !~ '^[0-9]{6,9}$' THEN
+    RAISE EXCEPTION 'A national ID number is 6 to 9 digits';
+  END IF;
+  IF _id !~ '^[A-Z0-9]{6,12}$' THEN
+    RAISE EXCEPTION 'Enter a valid ID or passport number';
+  END IF;
+  IF TRIM(COALESCE(_region, '')) = '' THEN
+    RAISE EXCEPTION 'Choose the county you will sell in';
+  END IF;
+
+  INSERT INTO public.agent_applications (user_id, full_name, mpesa_phone, id_type, id_number, region)
+  VALUES (auth.uid(), TRIM(_full_name), _msisdn, _id_type, _id, TRIM(_region))
+  RETURNING * INTO _application;
+
+  RETURN _application;
+END;
+$$;
+
+-- Approval creates the agent on the entry tier and grants the agent role
+CREATE OR REPLACE FUNCTION public.approve_agent_application(_application_id UUID)
+RETURNS public.agents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.agent_applications;
+  _entry public.tier_rules;
+  _agent public.agents;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review agent applications';
+  END IF;
+
+  UPDATE public.agent_applications
+    SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _application_id AND status = 'pending'
+    RETURNING * INTO _application;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  SELECT * INTO _entry FROM public.tier_rules ORDER BY rank LIMIT 1;
+
+  INSERT INTO public.agents (user_id, tier, commission_rate, mpesa_phone)
+  VALUES (_application.user_id, COALESCE(_entry.tier, 'Bronze'), COALESCE(_entry.commission_rate, 8), _application.mpesa_phone)
+  ON CONFLICT (user_id) DO UPDATE SET mpesa_phone = EXCLUDED.mpesa_phone, status = 'active'
+  RETURNING * INTO _agent;
+
+  INSERT INTO public.user_roles (user_id, role) VALUES (_application.user_id, 'agent')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  UPDATE public.profiles
+    SET phone = COALESCE(phone, _application.mpesa_phone)
+    WHERE user_id = _application.user_id;
+
+  RETURN _agent;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_agent_application(_application_id UUID, _reason TEXT)
+RETURNS public.agent_applications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.agent_applications;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review agent applications';
+  END IF;
+  IF TRIM(COALESCE(_reason, '')) = '' THEN
+    RAISE EXCEPTION 'Give the applicant a reason';
+  END IF;
+
+  UPDATE public.agent_applications
+    SET status = 'rejected', rejection_reason = TRIM(_reason), reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _application_id AND status = 'pending'
+    RETURNING * INTO _application;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This application has already been reviewed';
+  END IF;
+
+  RETURN _application;
+END;
+$$;
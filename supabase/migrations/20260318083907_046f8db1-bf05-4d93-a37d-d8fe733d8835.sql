@@ -0,0 +1,116 @@
+-- One-time SMS codes for phone sign-in and phone verification. Only the
+-- `phone-otp` edge function touches this table; codes are stored as a keyed
+-- SHA-256 hash, never in the clear.
+CREATE TABLE public.otp_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('login', 'verify')),
+  code_hash TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX otp_codes_phone_idx ON public.otp_codes (phone, purpose, created_at DESC);
+
+-- RLS with no policies: nothing but the service role can read or write codes
+ALTER TABLE public.otp_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.profiles ADD COLUMN phone_verified_at TIMESTAMPTZ;
+
+-- Stores a new code for the phone after checking the resend throttle.
+-- Returns the seconds to wait instead when the caller is sending too often.
+CREATE OR REPLACE FUNCTION public.issue_otp(_phone TEXT, _purpose TEXT, _code_hash TEXT, _user_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resend_after CONSTANT INTERVAL := INTERVAL '60 seconds';
+  _hourly_limit CONSTANT INTEGER := 5;
+  _ttl CONSTANT INTERVAL := INTERVAL '5 minutes';
+  _last TIMESTAMPTZ;
+  _sent_last_hour INTEGER;
+BEGIN
+  -- Serialise concurrent sends to the same number
+  PERFORM pg_advisory_xact_lock(hashtext('otp:' || _phone));
+
+  SELECT MAX(created_at), COUNT(*) FILTER (WHERE created_at > now() - INTERVAL '1 hour')
+    INTO _last, _sent_last_hour
+    FROM public.otp_codes
+    WHERE phone = _phone;
+
+  IF _last IS NOT NULL AND _last + _resend_after > now() THEN
+    RETURN jsonb_build_object('retry_in', CEIL(EXTRACT(EPOCH FROM (_last + _resend_after - now())))::INTEGER);
+  END IF;
+  IF _sent_last_hour >= _hourly_limit THEN
+    RETURN jsonb_build_object('retry_in', 3600);
+  END IF;
+
+  -- Only the newest code for a phone and purpose is ever valid
+  UPDATE public.otp_codes SET consumed_at = now()
+    WHERE phone = _phone AND purpose = _purpose AND consumed_at IS NULL;
+
+  INSERT INTO public.otp_codes (phone, purpose, code_hash, user_id, expires_at)
+  VALUES (_phone, _purpose, _code_hash, _user_id, now() + _ttl);
+
+  RETURN jsonb_build_object('expires_in', EXTRACT(EPOCH FROM _ttl)::INTEGER, 'resend_in', EXTRACT(EPOCH FROM _resend_after)::INTEGER);
+END;
+$$;
+
+-- Checks a code against the newest one issued. Every wrong guess counts, and
+-- the code is burnt after five of them. Returns ok, invalid, expired or locked.
+CREATE OR REPLACE FUNCTION public.check_otp(_phone TEXT, _purpose TEXT, _code_hash TEXT, _user_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 5;
+  _otp public.otp_codes;
+BEGIN
+  SELECT * INTO _otp FROM public.otp_codes
+    WHERE phone = _phone AND purpose = _purpose AND consumed_at IS NULL
+      AND user_id IS NOT DISTINCT FROM _user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+  IF NOT FOUND OR _otp.expires_at < now() THEN
+    RETURN 'expired';
+  END IF;
+  IF _otp.attempts >= _max_attempts THEN
+    RETURN 'locked';
+  END IF;
+
+  IF _otp.code_hash <> _code_hash THEN
+    UPDATE public.otp_codes SET attempts = attempts + 1 WHERE id = _otp.id;
+    RETURN CASE WHEN _otp.attempts + 1 >= _max_attempts THEN 'locked' ELSE 'invalid' END;
+  END IF;
+
+  UPDATE public.otp_codes SET consumed_at = now() WHERE id = _otp.id;
+  RETURN 'ok';
+END;
+$$;
+
+-- Finds the account whose confirmed phone is this MSISDN
+CREATE OR REPLACE FUNCTION public.user_id_for_phone(_phone TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE phone = _phone AND phone_confirmed_at IS NOT NULL LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_otp(TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_otp(TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_id_for_phone(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Spent and expired codes are only needed for the hourly send limit
+SELECT cron.schedule('purge-otp-codes', '30 * * * *', $$DELETE FROM public.otp_codes WHERE created_at < now() - INTERVAL '1 day'$$);
@@ -0,0 +1,47 @@
+-- Session management for the account security page. auth.sessions isn't
+-- exposed through the API, so the signed-in user reads and ends their own
+-- sessions through these two functions.
+
+-- The caller's sessions, newest activity first. `is_current` marks the one
+-- the request was made with.
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (id UUID, created_at TIMESTAMPTZ, last_active_at TIMESTAMPTZ, user_agent TEXT, ip TEXT, is_current BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id,
+         s.created_at,
+         COALESCE(s.refreshed_at::TIMESTAMPTZ, s.updated_at, s.created_at) AS last_active_at,
+         s.user_agent,
+         HOST(s.ip) AS ip,
+         s.id::TEXT = (auth.jwt() ->> 'session_id') AS is_current
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY last_active_at DESC
+$$;
+
+-- Ends one of the caller's other sessions. Its refresh token stops working
+-- straight away; an access token already issued lives until it expires.
+CREATE OR REPLACE FUNCTION public.revoke_session(_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to manage your sessions';
+  END IF;
+  IF _session_id::TEXT = (auth.jwt() ->> 'session_id') THEN
+    RAISE EXCEPTION 'Use Sign out to end the session you are using';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = _session_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That session has already ended';
+  END IF;
+END;
+$$;
@@ -0,0 +1,165 @@
+-- Orders are created in one transaction by `create_order`. Each line keeps
+-- the product name, price and commission it was sold at, so renaming or
+-- repricing a product never rewrites past orders.
+ALTER TABLE public.order_items
+  ADD COLUMN product_name TEXT,
+  ADD COLUMN line_total NUMERIC(12,2) GENERATED ALWAYS AS (quantity * unit_price) STORED,
+  ADD COLUMN commission_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD CONSTRAINT order_items_quantity_check CHECK (quantity > 0);
+
+UPDATE public.order_items oi SET product_name = p.name FROM public.products p WHERE p.id = oi.product_id;
+ALTER TABLE public.order_items ALTER COLUMN product_name SET NOT NULL;
+
+-- Spread the commission already recorded on each order over its lines
+UPDATE public.order_items oi
+  SET commission_amount = ROUND(oi.quantity * oi.unit_price * o.commission_rate / 100, 2)
+  FROM public.orders o
+  WHERE o.id = oi.order_id AND o.commission_rate IS NOT NULL;
+
+-- Order numbers come from a sequence instead of RANDOM() * 10000, which
+-- started colliding after a few thousand orders. Starting at 10000 keeps
+-- new numbers clear of the old four-digit ones.
+CREATE SEQUENCE public.order_number_seq START 10000;
+
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.order_number = 'PLI-' || nextval('public.order_number_seq');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Creates a pending order from cart lines and reserves its stock, all or
+-- nothing. `_items` is [{ product_id, quantity }]; repeated products are
+-- merged. Prices come from the products table, never from the caller.
+-- Agents don't earn commission on their own purchases, whether they are
+-- signed in or pay from their M-Pesa or profile number, and an unknown or
+-- inactive agent leaves the order unattributed rather than failing it.
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _phone TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _customer_name TEXT DEFAULT NULL,
+  _agent_id UUID DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _msisdn TEXT := public.normalize_msisdn(_phone);
+  _rate NUMERIC;
+  _lines JSONB;
+  _total NUMERIC;
+  _commission NUMERIC;
+  _order public.orders;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) i
+    WHERE COALESCE(i->>'product_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      OR COALESCE(i->>'quantity', '') !~ '^[1-9][0-9]{0,3}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid cart item';
+  END IF;
+  IF _msisdn IS NULL THEN
+    RAISE EXCEPTION 'Enter a valid Safaricom number, e.g. 0712 345 678';
+  END IF;
+
+  SELECT a.commission_rate INTO _rate
+    FROM public.agents a
+    LEFT JOIN public.profiles pr ON pr.user_id = a.user_id
+    WHERE a.id = _agent_id AND a.status = 'active' AND a.user_id IS DISTINCT FROM _customer_id
+      AND _msisdn IS DISTINCT FROM public.normalize_msisdn(a.mpesa_phone)
+      AND _msisdn IS DISTINCT FROM public.normalize_msisdn(pr.phone);
+
+  -- One priced line per product, with its commission
+  SELECT jsonb_agg(jsonb_build_object(
+           'product_id', p.id, 'name', p.name, 'quantity', l.quantity, 'unit_price', p.price,
+           'commission', COALESCE(ROUND(l.quantity * p.price * _rate / 100, 2), 0)
+         ) ORDER BY p.id),
+         SUM(l.quantity * p.price),
+         COALESCE(SUM(ROUND(l.quantity * p.price * _rate / 100, 2)), 0)
+    INTO _lines, _total, _commission
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(_items) i
+      GROUP BY 1
+    ) l
+    JOIN public.products p ON p.id = l.product_id AND p.is_active;
+
+  IF jsonb_array_length(COALESCE(_lines, '[]'::JSONB)) <> (SELECT COUNT(DISTINCT (i->>'product_id')::UUID) FROM jsonb_array_elements(_items) i) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, customer_name, customer_phone, payment_phone, total_amount, agent_id, commission_rate, commission_amount)
+  VALUES (_customer_id, NULLIF(TRIM(_customer_name), ''), _msisdn, _msisdn, _total,
+          CASE WHEN _rate IS NOT NULL THEN _agent_id END, _rate, _commission)
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, commission_amount)
+  SELECT _order.id, (l->>'product_id')::UUID, l->>'name', (l->>'quantity')::INTEGER, (l->>'unit_price')::NUMERIC, (l->>'commission')::NUMERIC
+  FROM jsonb_array_elements(_lines) l;
+
+  -- Raises if any line is short of stock, which rolls the whole order back
+  PERFORM public.reserve_order_stock(_order.id);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(JSONB, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Receipts show what the shopper bought, not the product's current name
+CREATE OR REPLACE FUNCTION public.track_order(_order_number TEXT, _access_token TEXT DEFAULT NULL, _phone TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _msisdn TEXT := public.normalize_msisdn(_phone);
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE order_number = UPPER(TRIM(_order_number));
+  IF NOT FOUND
+    OR NOT (
+      (_access_token IS NOT NULL AND _order.access_token = _access_token)
+      OR (_msisdn IS NOT NULL AND _msisdn IN (public.normalize_msisdn(_order.customer_phone), public.normalize_msisdn(_order.payment_phone)))
+    ) THEN
+    RAISE EXCEPTION 'We couldn''t find an order with those details';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_number', _order.order_number,
+    'access_token', _order.access_token,
+    'customer_name', _order.customer_name,
+    'status', _order.status,
+    'payment_status', _order.payment_status,
+    'total_amount', _order.total_amount,
+    'mpesa_ref', _order.mpesa_ref,
+    'paid_at', _order.paid_at,
+    'courier', _order.courier,
+    'tracking_number', _order.tracking_number,
+    'delivered_at', _order.delivered_at,
+    'created_at', _order.created_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', oi.product_name, 'emoji', p.emoji, 'quantity', oi.quantity, 'unit_price', oi.unit_price) ORDER BY oi.created_at)
+      FROM public.order_items oi LEFT JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = _order.id
+    ), '[]'::jsonb),
+    'history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'from_status', h.from_status, 'to_status', h.to_status, 'courier', h.courier,
+        'tracking_number', h.tracking_number, 'note', h.note, 'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = _order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,135 @@
+-- Reference numbers for orders (PLI-), transactions (TX-) and payouts (PO-).
+-- Each is a per-type sequence number followed by a Luhn check digit, e.g.
+-- PLI-100008, so a mistyped digit is caught before anyone goes looking for
+-- it. Keep src/lib/references.ts in step with these functions.
+--
+-- Older references stay valid as they are: 4-digit order numbers and 10
+-- character TX-/PO- codes. New numbers start at 10000, so they can't clash.
+
+CREATE SEQUENCE public.transaction_ref_seq START 10000;
+CREATE SEQUENCE public.payout_ref_seq START 10000;
+
+-- Luhn (mod 10) check digit for a string of digits
+CREATE OR REPLACE FUNCTION public.luhn_check_digit(_digits TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (10 - SUM(CASE WHEN i % 2 = 1 THEN (d * 2) / 10 + (d * 2) % 10 ELSE d END) % 10) % 10
+  FROM (
+    SELECT i, SUBSTRING(REVERSE(_digits) FROM i FOR 1)::INTEGER AS d
+    FROM generate_series(1, LENGTH(_digits)) i
+  ) x
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_reference(_kind TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  _prefix TEXT;
+  _n TEXT;
+BEGIN
+  CASE _kind
+    WHEN 'order' THEN _prefix := 'PLI'; _n := nextval('public.order_number_seq')::TEXT;
+    WHEN 'transaction' THEN _prefix := 'TX'; _n := nextval('public.transaction_ref_seq')::TEXT;
+    WHEN 'payout' THEN _prefix := 'PO'; _n := nextval('public.payout_ref_seq')::TEXT;
+    ELSE RAISE EXCEPTION 'Unknown reference kind %', _kind;
+  END CASE;
+  RETURN _prefix || '-' || _n || public.luhn_check_digit(_n);
+END;
+$$;
+
+-- The existing generators keep their names, so every caller and default picks up the new format
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.order_number = public.next_reference('order');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.generate_transaction_ref()
+RETURNS TEXT AS $$
+  SELECT public.next_reference('transaction')
+$$ LANGUAGE sql VOLATILE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.generate_payout_ref()
+RETURNS TEXT AS $$
+  SELECT public.next_reference('payout')
+$$ LANGUAGE sql VOLATILE SET search_path = public;
+
+-- Resolves any order, transaction or payout reference for support. Spaces
+-- and case don't matter. A sequenced reference with a wrong check digit is
+-- reported as a typo instead of "not found".
+CREATE OR REPLACE FUNCTION public.lookup_reference(_reference TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ref TEXT := UPPER(REGEXP_REPLACE(COALESCE(_reference, ''), '\s', '', 'g'));
+  _prefix TEXT := SPLIT_PART(_ref, '-', 1);
+  _body TEXT := SUBSTRING(_ref FROM POSITION('-' IN _ref) + 1);
+  _result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can look up references';
+  END IF;
+  IF _prefix NOT IN ('PLI', 'TX', 'PO') OR POSITION('-' IN _ref) = 0 THEN
+    RAISE EXCEPTION 'References start with PLI-, TX- or PO-';
+  END IF;
+  IF _body ~ '^[0-9]{6,9}$'
+    AND public.luhn_check_digit(LEFT(_body, -1)) <> RIGHT(_body, 1)::INTEGER THEN
+    RAISE EXCEPTION '% has a typo: its check digit doesn''t match', _ref;
+  END IF;
+
+  IF _prefix = 'PLI' THEN
+    SELECT jsonb_build_object(
+      'kind', 'order', 'id', o.id, 'reference', o.order_number, 'status', o.status,
+      'amount', o.total_amount, 'created_at', o.created_at,
+      'payment_status', o.payment_status, 'mpesa_ref', o.mpesa_ref,
+      'customer_name', o.customer_name, 'phone', o.customer_phone,
+      'agent_name', ap.full_name,
+      'items', (SELECT COUNT(*) FROM public.order_items oi WHERE oi.order_id = o.id)
+    ) INTO _result
+    FROM public.orders o
+    LEFT JOIN public.agents a ON a.id = o.agent_id
+    LEFT JOIN public.profiles ap ON ap.user_id = a.user_id
+    WHERE o.order_number = _ref;
+  ELSIF _prefix = 'TX' THEN
+    SELECT jsonb_build_object(
+      'kind', 'transaction', 'id', t.id, 'reference', t.transaction_ref, 'status', t.status,
+      'amount', t.amount, 'created_at', t.created_at,
+      'type', t.type, 'mpesa_ref', t.mpesa_ref,
+      'order_number', o.order_number, 'agent_name', ap.full_name
+    ) INTO _result
+    FROM public.transactions t
+    LEFT JOIN public.orders o ON o.id = t.order_id
+    LEFT JOIN public.agents a ON a.id = t.agent_id
+    LEFT JOIN public.profiles ap ON ap.user_id = a.user_id
+    WHERE t.transaction_ref = _ref;
+  ELSE
+    SELECT jsonb_build_object(
+      'kind', 'payout', 'id', p.id, 'reference', p.payout_ref, 'status', p.status,
+      'amount', p.amount, 'created_at', p.created_at,
+      'mpesa_ref', p.mpesa_ref, 'phone', p.phone, 'failure_reason', p.failure_reason,
+      'agent_name', ap.full_name
+    ) INTO _result
+    FROM public.payouts p
+    LEFT JOIN public.agents a ON a.id = p.agent_id
+    LEFT JOIN public.profiles ap ON ap.user_id = a.user_id
+    WHERE p.payout_ref = _ref;
+  END IF;
+
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Nothing has the reference %', _ref;
+  END IF;
+  RETURN _result;
+END;
+$$;
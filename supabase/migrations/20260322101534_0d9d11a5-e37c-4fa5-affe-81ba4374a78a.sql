@@ -0,0 +1,32 @@
+-- Admins manage the catalogue from the dashboard: create, edit, archive and
+-- upload product photos.
+
+-- Archived products are retired for good. They stay in the table because
+-- order_items still point at them, but drop out of the shop and the catalogue.
+ALTER TABLE public.products ADD COLUMN archived_at TIMESTAMPTZ;
+
+-- NOT VALID: rows seeded by hand before these checks aren't re-examined,
+-- every insert and update from now on is. Stock has no floor on purpose: a
+-- payment that lands after its reservation lapsed still takes the stock
+-- (apply_order_stock), and the oversell shows up as a negative count.
+ALTER TABLE public.products
+  ADD CONSTRAINT products_price_positive CHECK (price > 0) NOT VALID,
+  ADD CONSTRAINT products_original_price_above_price CHECK (original_price IS NULL OR original_price > price) NOT VALID,
+  ADD CONSTRAINT products_archived_inactive CHECK (archived_at IS NULL OR NOT is_active) NOT VALID;
+
+-- Until now only agents could insert products
+CREATE POLICY "Admins can create products" ON public.products FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Product photos. The bucket is public so the shop can use plain URLs;
+-- only admins can write to it.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+CREATE POLICY "Admins can upload product images" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'product-images' AND public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can replace product images" ON storage.objects FOR UPDATE
+  USING (bucket_id = 'product-images' AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (bucket_id = 'product-images' AND public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete product images" ON storage.objects FOR DELETE
+  USING (bucket_id = 'product-images' AND public.has_role(auth.uid(), 'admin'));
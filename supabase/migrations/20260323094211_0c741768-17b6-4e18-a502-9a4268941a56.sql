@@ -0,0 +1,229 @@
+-- Seller storefronts at /s/<slug>. Each agent can open one store with its
+-- own name, logo and bio. It lists only the products assigned to it, and
+-- sales made there are credited to the store owner.
+CREATE TABLE public.stores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  bio TEXT,
+  logo TEXT,
+  -- private: only the owner can open the page, e.g. while setting up
+  visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+  -- suspended: taken down by an admin
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_stores_updated_at BEFORE UPDATE ON public.stores FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Slugs that would shadow app routes or pass for PayLoom itself.
+-- Keep in step with RESERVED_STORE_SLUGS in src/lib/stores.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_store_slug(_slug TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _slug ~ '^[a-z0-9](?:[a-z0-9-]{1,30}[a-z0-9])$'
+    AND _slug !~ '--'
+    AND _slug NOT IN (
+      'about', 'account', 'admin', 'agent', 'agents', 'api', 'app', 'apply', 'auth', 'cart', 'checkout',
+      'help', 'login', 'mpesa', 'my-store', 'new', 'orders', 'payloom', 'reset-password', 'settings',
+      'shop', 'signup', 'store', 'stores', 'support', 'www'
+    )
+$$;
+
+ALTER TABLE public.stores ADD CONSTRAINT stores_slug_valid CHECK (public.is_valid_store_slug(slug));
+ALTER TABLE public.stores ADD CONSTRAINT stores_name_length CHECK (char_length(name) BETWEEN 2 AND 60);
+ALTER TABLE public.stores ADD CONSTRAINT stores_bio_length CHECK (char_length(bio) <= 280);
+
+ALTER TABLE public.stores ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can view open stores" ON public.stores FOR SELECT USING (visibility = 'public' AND status = 'active');
+CREATE POLICY "Owners can view own store" ON public.stores FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view stores" ON public.stores FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update stores" ON public.stores FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Which store lists a product, and which store an order was placed in
+ALTER TABLE public.products ADD COLUMN store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL;
+ALTER TABLE public.orders ADD COLUMN store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL;
+CREATE INDEX products_store_id_idx ON public.products (store_id) WHERE store_id IS NOT NULL;
+
+-- Whether the signed-in seller could use a slug. Private stores are hidden
+-- by RLS, so the form can't find clashes with a plain select.
+CREATE OR REPLACE FUNCTION public.store_slug_available(_slug TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_valid_store_slug(_slug)
+    AND NOT EXISTS (SELECT 1 FROM public.stores WHERE slug = _slug AND user_id IS DISTINCT FROM auth.uid())
+$$;
+
+-- Creates or updates the signed-in agent's store
+CREATE OR REPLACE FUNCTION public.save_my_store(
+  _name TEXT,
+  _slug TEXT,
+  _bio TEXT DEFAULT NULL,
+  _logo TEXT DEFAULT NULL,
+  _visibility TEXT DEFAULT 'public'
+)
+RETURNS public.stores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _store public.stores;
+  _clean_slug TEXT := LOWER(TRIM(_slug));
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'agent') THEN
+    RAISE EXCEPTION 'Only agents can open a store';
+  END IF;
+  IF char_length(TRIM(COALESCE(_name, ''))) NOT BETWEEN 2 AND 60 THEN
+    RAISE EXCEPTION 'Store names are 2 to 60 characters';
+  END IF;
+  IF NOT public.is_valid_store_slug(_clean_slug) THEN
+    RAISE EXCEPTION 'Store links are 3 to 32 lowercase letters, numbers or dashes, and can''t be a reserved word';
+  END IF;
+  IF char_length(_bio) > 280 THEN
+    RAISE EXCEPTION 'Keep the bio to 280 characters';
+  END IF;
+  IF _visibility NOT IN ('public', 'private') THEN
+    RAISE EXCEPTION 'Invalid visibility';
+  END IF;
+
+  INSERT INTO public.stores (user_id, name, slug, bio, logo, visibility)
+  VALUES (auth.uid(), TRIM(_name), _clean_slug, NULLIF(TRIM(_bio), ''), NULLIF(_logo, ''), _visibility)
+  ON CONFLICT (user_id) DO UPDATE
+    SET name = EXCLUDED.name, slug = EXCLUDED.slug, bio = EXCLUDED.bio, logo = EXCLUDED.logo, visibility = EXCLUDED.visibility
+  RETURNING * INTO _store;
+  RETURN _store;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'The link /s/% is taken. Try another one', _clean_slug;
+END;
+$$;
+
+-- Same as before, plus `_store_id`: an order placed in an active store is
+-- credited to the store owner, whatever referral link the shopper came in on.
+-- The owner only earns on the store's own products; the cart is shared with
+-- /shop, so anything else in it earns no commission. Private stores only
+-- count for their owner.
+DROP FUNCTION public.create_order(JSONB, TEXT, UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _phone TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _customer_name TEXT DEFAULT NULL,
+  _agent_id UUID DEFAULT NULL,
+  _store_id UUID DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _msisdn TEXT := public.normalize_msisdn(_phone);
+  _store public.stores;
+  _rate NUMERIC;
+  _lines JSONB;
+  _total NUMERIC;
+  _commission NUMERIC;
+  _order public.orders;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) i
+    WHERE COALESCE(i->>'product_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      OR COALESCE(i->>'quantity', '') !~ '^[1-9][0-9]{0,3}$'
+  ) THEN
+    RAISE EXCEPTION 'Invalid cart item';
+  END IF;
+  IF _msisdn IS NULL THEN
+    RAISE EXCEPTION 'Enter a valid Safaricom number, e.g. 0712 345 678';
+  END IF;
+
+  IF _store_id IS NOT NULL THEN
+    SELECT * INTO _store FROM public.stores
+      WHERE id = _store_id AND status = 'active' AND (visibility = 'public' OR user_id = _customer_id);
+    IF FOUND AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_items) i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+      WHERE p.store_id = _store.id
+    ) THEN
+      _agent_id := (SELECT a.id FROM public.agents a WHERE a.user_id = _store.user_id);
+    ELSE
+      _store := NULL;
+    END IF;
+  END IF;
+
+  -- A signed-out checkout is still the agent's own if it's paid from their number
+  SELECT a.commission_rate INTO _rate
+    FROM public.agents a
+    LEFT JOIN public.profiles pr ON pr.user_id = a.user_id
+    WHERE a.id = _agent_id AND a.status = 'active' AND a.user_id IS DISTINCT FROM _customer_id
+      AND _msisdn IS DISTINCT FROM public.normalize_msisdn(a.mpesa_phone)
+      AND _msisdn IS DISTINCT FROM public.normalize_msisdn(pr.phone);
+
+  -- One priced line per product, with its commission
+  SELECT jsonb_agg(jsonb_build_object(
+           'product_id', l.product_id, 'name', l.name, 'quantity', l.quantity, 'unit_price', l.price, 'commission', l.commission
+         ) ORDER BY l.product_id),
+         SUM(l.quantity * l.price),
+         COALESCE(SUM(l.commission), 0)
+    INTO _lines, _total, _commission
+    FROM (
+      SELECT p.id AS product_id, p.name, q.quantity, p.price,
+             CASE WHEN _store.id IS NULL OR p.store_id = _store.id
+               THEN COALESCE(ROUND(q.quantity * p.price * _rate / 100, 2), 0)
+               ELSE 0
+             END AS commission
+      FROM (
+        SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+        FROM jsonb_array_elements(_items) i
+        GROUP BY 1
+      ) q
+      JOIN public.products p ON p.id = q.product_id AND p.is_active
+    ) l;
+
+  IF jsonb_array_length(COALESCE(_lines, '[]'::JSONB)) <> (SELECT COUNT(DISTINCT (i->>'product_id')::UUID) FROM jsonb_array_elements(_items) i) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available';
+  END IF;
+
+  INSERT INTO public.orders (customer_id, customer_name, customer_phone, payment_phone, total_amount, agent_id, commission_rate, commission_amount, store_id)
+  VALUES (_customer_id, NULLIF(TRIM(_customer_name), ''), _msisdn, _msisdn, _total,
+          CASE WHEN _rate IS NOT NULL THEN _agent_id END, _rate, _commission, _store.id)
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, commission_amount)
+  SELECT _order.id, (l->>'product_id')::UUID, l->>'name', (l->>'quantity')::INTEGER, (l->>'unit_price')::NUMERIC, (l->>'commission')::NUMERIC
+  FROM jsonb_array_elements(_lines) l;
+
+  -- Raises if any line is short of stock, which rolls the whole order back
+  PERFORM public.reserve_order_stock(_order.id);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(JSONB, TEXT, UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Store logos. Public so the storefront can use plain URLs; each seller
+-- writes only under their own user id.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('store-logos', 'store-logos', true, 1048576, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+CREATE POLICY "Sellers can upload their logo" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'store-logos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+CREATE POLICY "Sellers can delete their logo" ON storage.objects FOR DELETE
+  USING (bucket_id = 'store-logos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
@@ -0,0 +1,26 @@
+-- Product import: the `import-product` edge function reads a product page or
+-- a pasted social post and saves what it found as a draft for review.
+
+-- draft: imported and waiting for review, never shown in the shop
+ALTER TABLE public.products
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'published')),
+  ADD COLUMN source_url TEXT,
+  ADD COLUMN source_type TEXT CHECK (source_type IN ('url', 'post')),
+  -- 0 to 1, how much of the listing the extractor found and how sure it was
+  ADD COLUMN ai_confidence_score NUMERIC(3,2) CHECK (ai_confidence_score BETWEEN 0 AND 1),
+  ADD COLUMN missing_fields TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN extraction_warnings TEXT[] NOT NULL DEFAULT '{}',
+  -- Every photo found at the source; image_url is the first of them
+  ADD COLUMN images TEXT[] NOT NULL DEFAULT '{}';
+
+-- A draft may not have a price yet. Anything published still needs one.
+ALTER TABLE public.products ALTER COLUMN price DROP NOT NULL;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_price_unless_draft CHECK (price IS NOT NULL OR status = 'draft'),
+  ADD CONSTRAINT products_draft_inactive CHECK (status = 'published' OR NOT is_active);
+
+CREATE INDEX products_drafts_idx ON public.products (created_at DESC) WHERE status = 'draft';
+
+-- Agents can see their own imports and listings, not only the active ones
+CREATE POLICY "Agents can view own products" ON public.products FOR SELECT
+  USING (auth.uid() = created_by AND public.has_role(auth.uid(), 'agent'));
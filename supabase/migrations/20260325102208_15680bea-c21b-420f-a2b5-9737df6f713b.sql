@@ -0,0 +1,170 @@
+-- Review queue for drafts. Imported and agent-submitted products stay out of
+-- the shop until an admin approves them, rejects them with a note or merges
+-- them into a product that is already listed.
+
+-- rejected: turned down, with a note for the seller
+-- merged: folded into `merged_into`, which carries on as the listed product
+ALTER TABLE public.products DROP CONSTRAINT products_status_check;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_status_check CHECK (status IN ('draft', 'published', 'rejected', 'merged')),
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN review_note TEXT,
+  ADD COLUMN merged_into UUID REFERENCES public.products(id);
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_merged_into_set CHECK ((status = 'merged') = (merged_into IS NOT NULL));
+
+-- Agents can still insert and edit their own products, but whatever they
+-- save waits for review: inserts land as drafts, editing what shoppers see
+-- on a published product sends it back to draft, and only admins (or the
+-- server, which has no auth.uid()) can change status or visibility.
+CREATE OR REPLACE FUNCTION public.guard_product_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'draft';
+    NEW.is_active := false;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_note := NULL;
+    NEW.merged_into := NULL;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.is_active IS DISTINCT FROM OLD.is_active
+     OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+     OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+     OR NEW.review_note IS DISTINCT FROM OLD.review_note
+     OR NEW.merged_into IS DISTINCT FROM OLD.merged_into THEN
+    RAISE EXCEPTION 'Only PayLoom admins can publish or hide products';
+  ELSIF OLD.status = 'published' AND (
+       NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.price IS DISTINCT FROM OLD.price
+    OR NEW.original_price IS DISTINCT FROM OLD.original_price
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.category_id IS DISTINCT FROM OLD.category_id
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url
+    OR NEW.images IS DISTINCT FROM OLD.images
+    OR NEW.emoji IS DISTINCT FROM OLD.emoji
+    OR NEW.badge IS DISTINCT FROM OLD.badge
+  ) THEN
+    NEW.status := 'draft';
+    NEW.is_active := false;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_product_review BEFORE INSERT OR UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.guard_product_review();
+
+CREATE OR REPLACE FUNCTION public.approve_product(_product_id UUID)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product public.products;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review products';
+  END IF;
+
+  SELECT * INTO _product FROM public.products WHERE id = _product_id AND status = 'draft' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This product has already been reviewed';
+  END IF;
+  IF _product.price IS NULL THEN
+    RAISE EXCEPTION 'Set a price before publishing %', _product.name;
+  END IF;
+
+  UPDATE public.products
+    SET status = 'published', is_active = true, reviewed_by = auth.uid(), reviewed_at = now(), review_note = NULL
+    WHERE id = _product_id
+    RETURNING * INTO _product;
+  RETURN _product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_product(_product_id UUID, _note TEXT)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product public.products;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review products';
+  END IF;
+  IF TRIM(COALESCE(_note, '')) = '' THEN
+    RAISE EXCEPTION 'Say why the product was turned down';
+  END IF;
+
+  UPDATE public.products
+    SET status = 'rejected', is_active = false, review_note = TRIM(_note), reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _product_id AND status = 'draft'
+    RETURNING * INTO _product;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This product has already been reviewed';
+  END IF;
+  RETURN _product;
+END;
+$$;
+
+-- Folds a draft into a listed product, e.g. a re-import of something already
+-- for sale. The draft's price, description and source replace the listed
+-- ones where it has them; its photos are added to the listed product's.
+-- The listed product's name, stock and sales stay as they are.
+CREATE OR REPLACE FUNCTION public.merge_product_draft(_draft_id UUID, _target_id UUID)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft public.products;
+  _target public.products;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review products';
+  END IF;
+
+  SELECT * INTO _draft FROM public.products WHERE id = _draft_id AND status = 'draft' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This product has already been reviewed';
+  END IF;
+  SELECT * INTO _target FROM public.products WHERE id = _target_id AND status = 'published' AND archived_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pick a listed product to merge into';
+  END IF;
+
+  UPDATE public.products t
+    SET price = COALESCE(_draft.price, t.price),
+        -- A sale price has to stay below the old one
+        original_price = CASE WHEN t.original_price > COALESCE(_draft.price, t.price) THEN t.original_price END,
+        description = COALESCE(_draft.description, t.description),
+        images = t.images || ARRAY(SELECT i FROM unnest(_draft.images) i WHERE i <> ALL (t.images)),
+        image_url = COALESCE(t.image_url, _draft.image_url),
+        source_url = COALESCE(_draft.source_url, t.source_url),
+        source_type = COALESCE(_draft.source_type, t.source_type)
+    WHERE t.id = _target_id
+    RETURNING * INTO _target;
+
+  UPDATE public.products
+    SET status = 'merged', merged_into = _target_id, reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _draft_id;
+
+  RETURN _target;
+END;
+$$;
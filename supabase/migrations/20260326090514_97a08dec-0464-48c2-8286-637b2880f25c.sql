@@ -0,0 +1,89 @@
+-- Catalogue sync from sellers' Facebook, Instagram and TikTok accounts. The
+-- `social-sync` edge function reads an account's export (an uploaded file,
+-- or its feed URL on a schedule) and imports new listings as drafts.
+CREATE TABLE public.social_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('facebook', 'instagram', 'tiktok')),
+  page_url TEXT NOT NULL,
+  page_id TEXT,
+  -- A catalogue feed the platform keeps up to date, fetched by scheduled syncs
+  feed_url TEXT CHECK (feed_url ~* '^https://'),
+  auto_sync BOOLEAN NOT NULL DEFAULT false,
+  sync_status TEXT NOT NULL DEFAULT 'idle' CHECK (sync_status IN ('idle', 'syncing', 'succeeded', 'failed')),
+  sync_started_at TIMESTAMPTZ,
+  last_synced_at TIMESTAMPTZ,
+  last_sync_error TEXT,
+  -- { found, imported, duplicates, failed, errors: [...] } from the last run
+  last_sync_summary JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, platform, page_url),
+  CONSTRAINT social_accounts_auto_sync_feed CHECK (NOT auto_sync OR feed_url IS NOT NULL)
+);
+
+CREATE TRIGGER update_social_accounts_updated_at BEFORE UPDATE ON public.social_accounts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.social_accounts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Owners can view own social accounts" ON public.social_accounts FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Agents can connect social accounts" ON public.social_accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.has_role(auth.uid(), 'agent'));
+CREATE POLICY "Owners can update own social accounts" ON public.social_accounts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can remove own social accounts" ON public.social_accounts FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view social accounts" ON public.social_accounts FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Owners edit the account itself; the sync state and history are written by
+-- `social-sync` with the service key only, so the claim on a running sync holds
+CREATE OR REPLACE FUNCTION public.guard_social_account_sync()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.sync_status := 'idle';
+    NEW.sync_started_at := NULL;
+    NEW.last_synced_at := NULL;
+    NEW.last_sync_error := NULL;
+    NEW.last_sync_summary := NULL;
+  ELSIF NEW.sync_status IS DISTINCT FROM OLD.sync_status
+     OR NEW.sync_started_at IS DISTINCT FROM OLD.sync_started_at
+     OR NEW.last_synced_at IS DISTINCT FROM OLD.last_synced_at
+     OR NEW.last_sync_error IS DISTINCT FROM OLD.last_sync_error
+     OR NEW.last_sync_summary IS DISTINCT FROM OLD.last_sync_summary THEN
+    RAISE EXCEPTION 'Sync status can only be changed by running a sync';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_social_account_sync BEFORE INSERT OR UPDATE ON public.social_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_social_account_sync();
+
+-- Rows of a catalogue export are their own kind of source
+ALTER TABLE public.products DROP CONSTRAINT products_source_type_check;
+ALTER TABLE public.products ADD CONSTRAINT products_source_type_check CHECK (source_type IN ('url', 'post', 'export'));
+
+-- Syncs skip listings that were imported before
+CREATE INDEX products_source_url_idx ON public.products (source_url) WHERE source_url IS NOT NULL;
+
+-- Hourly, ask `social-sync` to run the accounts that are due. Needs the
+-- `project_url` and `social_sync_secret` Vault secrets; see the README.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule('sync-social-accounts', '20 * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/social-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-sync-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'social_sync_secret')
+    ),
+    body := '{"scheduled": true}'::jsonb
+  )
+$$);
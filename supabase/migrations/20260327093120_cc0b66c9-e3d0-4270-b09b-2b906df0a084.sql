@@ -0,0 +1,318 @@
+-- Agent wallets. Commission lands in pending_balance when an order is paid
+-- and moves to available_balance once the order has been delivered and its
+-- return window has passed. Payouts only draw from available_balance.
+-- Like agents.pending_earnings, the wallet is a running cache of the
+-- commission ledger; the two agree on available + pending.
+CREATE TABLE public.wallets (
+  agent_id UUID PRIMARY KEY REFERENCES public.agents(id) ON DELETE CASCADE,
+  available_balance NUMERIC(12,2) NOT NULL DEFAULT 0,
+  pending_balance NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total_earned NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_wallets_updated_at BEFORE UPDATE ON public.wallets FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.wallets ENABLE ROW LEVEL SECURITY;
+
+-- Balances are only written by the SECURITY DEFINER functions below
+CREATE POLICY "Agents can view own wallet" ON public.wallets FOR SELECT USING (
+  agent_id IN (SELECT id FROM public.agents WHERE user_id = auth.uid())
+);
+CREATE POLICY "Admins can view wallets" ON public.wallets FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- How long delivered commission is held before it can be withdrawn
+INSERT INTO public.app_settings (key, value) VALUES
+  ('wallet', '{"hold_days": 7}');
+
+-- When a delivered order's commission matures. commission_finalized_at now
+-- records when it actually moved to the available balance.
+ALTER TABLE public.orders ADD COLUMN commission_available_at TIMESTAMPTZ;
+
+CREATE INDEX idx_orders_commission_maturing ON public.orders(commission_available_at)
+  WHERE commission_finalized_at IS NULL AND commission_available_at IS NOT NULL;
+
+-- Opening balances: commission on orders that aren't final yet is pending,
+-- everything else the agent holds is available
+INSERT INTO public.wallets (agent_id, available_balance, pending_balance, total_earned)
+SELECT a.id, a.pending_earnings - COALESCE(h.held, 0), COALESCE(h.held, 0), a.total_earned
+FROM public.agents a
+LEFT JOIN (
+  SELECT l.agent_id, SUM(l.amount) AS held
+  FROM public.commission_ledger l
+  JOIN public.orders o ON o.id = l.order_id
+  WHERE l.entry_type = 'accrual'
+    AND o.commission_finalized_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.commission_ledger r WHERE r.order_id = l.order_id AND r.entry_type IN ('reversal', 'clawback')
+    )
+  GROUP BY l.agent_id
+) h ON h.agent_id = a.id;
+
+CREATE OR REPLACE FUNCTION public.create_agent_wallet()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.wallets (agent_id) VALUES (NEW.id) ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_agent_wallet AFTER INSERT ON public.agents FOR EACH ROW EXECUTE FUNCTION public.create_agent_wallet();
+
+-- Accruals are held. Reversals and clawbacks come out of whichever balance
+-- the order's commission is in; payouts and adjustments hit available.
+CREATE OR REPLACE FUNCTION public.apply_commission_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _held BOOLEAN := false;
+BEGIN
+  IF NEW.entry_type = 'accrual' THEN
+    _held := true;
+  ELSIF NEW.entry_type IN ('reversal', 'clawback') THEN
+    SELECT commission_finalized_at IS NULL INTO _held FROM public.orders WHERE id = NEW.order_id;
+  END IF;
+
+  UPDATE public.agents
+    SET pending_earnings = pending_earnings + NEW.amount,
+        total_earned = total_earned + CASE WHEN NEW.entry_type = 'payout' THEN 0 ELSE NEW.amount END,
+        total_sales = total_sales + CASE NEW.entry_type WHEN 'accrual' THEN 1 WHEN 'reversal' THEN -1 WHEN 'clawback' THEN -1 ELSE 0 END
+    WHERE id = NEW.agent_id;
+
+  INSERT INTO public.wallets (agent_id, available_balance, pending_balance, total_earned)
+  VALUES (
+    NEW.agent_id,
+    CASE WHEN _held THEN 0 ELSE NEW.amount END,
+    CASE WHEN _held THEN NEW.amount ELSE 0 END,
+    CASE WHEN NEW.entry_type = 'payout' THEN 0 ELSE NEW.amount END
+  )
+  ON CONFLICT (agent_id) DO UPDATE
+    SET available_balance = wallets.available_balance + EXCLUDED.available_balance,
+        pending_balance = wallets.pending_balance + EXCLUDED.pending_balance,
+        total_earned = wallets.total_earned + EXCLUDED.total_earned;
+  RETURN NEW;
+END;
+$$;
+
+-- Commission still held in agents' wallets, one row per order, with when it
+-- becomes available. available_at is empty until the order is delivered.
+CREATE VIEW public.wallet_pending_commission WITH (security_invoker = true) AS
+SELECT
+  l.agent_id,
+  o.id AS order_id,
+  o.order_number,
+  l.amount,
+  o.status AS order_status,
+  l.created_at AS earned_at,
+  o.delivered_at,
+  o.commission_available_at AS available_at
+FROM public.commission_ledger l
+JOIN public.orders o ON o.id = l.order_id
+WHERE l.entry_type = 'accrual'
+  AND o.commission_finalized_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.commission_ledger r WHERE r.order_id = l.order_id AND r.entry_type IN ('reversal', 'clawback')
+  );
+
+-- Moves matured commission from pending to available, for one agent or for
+-- everyone. Returns how many orders were released.
+CREATE OR REPLACE FUNCTION public.release_matured_commission(_agent_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH released AS (
+    UPDATE public.orders
+      SET commission_finalized_at = now()
+      WHERE commission_finalized_at IS NULL
+        AND commission_available_at <= now()
+        AND status = 'delivered'
+        AND payment_status = 'paid'
+        AND agent_id IS NOT NULL
+        AND (_agent_id IS NULL OR agent_id = _agent_id)
+      RETURNING id, agent_id
+  ), amounts AS (
+    SELECT r.agent_id, SUM(l.amount) AS amount, COUNT(*) AS orders
+    FROM released r
+    JOIN public.commission_ledger l ON l.order_id = r.id AND l.entry_type = 'accrual'
+    GROUP BY r.agent_id
+  ), moved AS (
+    UPDATE public.wallets w
+      SET pending_balance = w.pending_balance - a.amount,
+          available_balance = w.available_balance + a.amount
+      FROM amounts a
+      WHERE w.agent_id = a.agent_id
+      RETURNING a.orders
+  )
+  SELECT COALESCE(SUM(orders), 0) INTO _count FROM moved;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_matured_commission(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('release-matured-commission', '*/15 * * * *', $$SELECT public.release_matured_commission()$$);
+
+-- Delivery starts the hold instead of making commission withdrawable straight away
+CREATE OR REPLACE FUNCTION public.transition_order(
+  _order_id UUID,
+  _status order_status,
+  _note TEXT DEFAULT NULL,
+  _courier TEXT DEFAULT NULL,
+  _tracking_number TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _hold_days INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update orders';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (
+    (_order.status = 'pending' AND _status IN ('processing', 'cancelled'))
+    OR (_order.status = 'processing' AND _status IN ('processing', 'delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'An order can''t move from % to %', _order.status, _status;
+  END IF;
+  IF _status = 'processing' AND _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Order % hasn''t been paid yet', _order.order_number;
+  END IF;
+
+  SELECT COALESCE((value->>'hold_days')::INTEGER, 7) INTO _hold_days FROM public.app_settings WHERE key = 'wallet';
+
+  PERFORM set_config('payloom.status_note', COALESCE(TRIM(_note), ''), true);
+
+  UPDATE public.orders
+    SET status = _status,
+        courier = COALESCE(NULLIF(TRIM(_courier), ''), courier),
+        tracking_number = COALESCE(NULLIF(TRIM(_tracking_number), ''), tracking_number),
+        delivered_at = CASE WHEN _status = 'delivered' THEN now() ELSE delivered_at END,
+        cancelled_at = CASE WHEN _status = 'cancelled' THEN now() ELSE cancelled_at END,
+        -- Acting on the order is the admin's review of it
+        review_reason = NULL,
+        -- The agent's commission matures once the return window after delivery has passed
+        commission_available_at = CASE
+          WHEN _status = 'delivered' THEN now() + make_interval(days => COALESCE(_hold_days, 7))
+          ELSE commission_available_at
+        END
+    WHERE id = _order.id
+    RETURNING * INTO _order;
+
+  PERFORM set_config('payloom.status_note', '', true);
+  RETURN _order;
+END;
+$$;
+
+-- The available balance, plus anything that has matured since the last release run
+CREATE OR REPLACE FUNCTION public.agent_withdrawable_earnings(_agent_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available NUMERIC;
+  _matured NUMERIC;
+BEGIN
+  -- mpesa-b2c-payout checks payouts with the service key
+  IF COALESCE(auth.role(), '') <> 'service_role'
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.agents WHERE id = _agent_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only view your own earnings';
+  END IF;
+
+  SELECT available_balance INTO _available FROM public.wallets WHERE agent_id = _agent_id;
+  SELECT COALESCE(SUM(amount), 0) INTO _matured
+    FROM public.wallet_pending_commission
+    WHERE agent_id = _agent_id AND order_status = 'delivered' AND available_at <= now();
+
+  RETURN GREATEST(COALESCE(_available, 0) + _matured, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.agent_withdrawable_earnings(UUID) FROM PUBLIC, anon;
+
+-- Agents can only withdraw their available balance
+CREATE OR REPLACE FUNCTION public.request_payout(_amount NUMERIC DEFAULT NULL)
+RETURNS public.payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _agent public.agents;
+  _rules JSONB;
+  _min NUMERIC;
+  _cooldown INTERVAL;
+  _hold_days INTEGER;
+  _last TIMESTAMPTZ;
+  _withdrawable NUMERIC;
+  _payout public.payouts;
+BEGIN
+  SELECT * INTO _agent FROM public.agents WHERE user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only agents can request payouts';
+  END IF;
+  IF _agent.status <> 'active' THEN
+    RAISE EXCEPTION 'Your agent account is not active';
+  END IF;
+
+  SELECT value INTO _rules FROM public.app_settings WHERE key = 'payouts';
+  _min := COALESCE((_rules->>'min_amount')::NUMERIC, 500);
+  _cooldown := make_interval(hours => COALESCE((_rules->>'cooldown_hours')::INTEGER, 24));
+  SELECT COALESCE((value->>'hold_days')::INTEGER, 7) INTO _hold_days FROM public.app_settings WHERE key = 'wallet';
+
+  PERFORM public.release_matured_commission(_agent.id);
+  _withdrawable := public.agent_withdrawable_earnings(_agent.id);
+
+  -- Withdraw everything available when no amount is given. B2C only moves whole shillings.
+  _amount := FLOOR(COALESCE(_amount, _withdrawable));
+
+  IF _amount < _min THEN
+    RAISE EXCEPTION 'The minimum payout is KSh %', _min;
+  END IF;
+  IF _amount > _withdrawable THEN
+    RAISE EXCEPTION 'You can request up to KSh % right now. Commission becomes available % days after delivery.', FLOOR(_withdrawable), COALESCE(_hold_days, 7);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payouts WHERE agent_id = _agent.id AND status IN ('pending', 'processing')) THEN
+    RAISE EXCEPTION 'You already have a payout request in progress';
+  END IF;
+
+  SELECT MAX(created_at) INTO _last FROM public.payouts WHERE agent_id = _agent.id AND requested_by IS NOT NULL;
+  IF _last IS NOT NULL AND _last + _cooldown > now() THEN
+    RAISE EXCEPTION 'You can request your next payout after %', to_char(_last + _cooldown AT TIME ZONE 'Africa/Nairobi', 'DD Mon HH24:MI');
+  END IF;
+
+  INSERT INTO public.payouts (agent_id, amount, phone, requested_by)
+  VALUES (_agent.id, _amount, _agent.mpesa_phone, auth.uid())
+  RETURNING * INTO _payout;
+
+  RETURN _payout;
+END;
+$$;